@@ -6,7 +6,7 @@ import {
   Heart, Bookmark, Reply, RefreshCw
 } from 'lucide-react';
 import emailjs from '@emailjs/browser';
-import { AppView, UserData } from './types';
+import { AppView, UserData, AppLanguage, School, SchoolFeature } from './types';
 import ChatInterface from './components/ChatInterface';
 import VoiceChat from './components/VoiceChat';
 import { InteractiveStory, ConceptMap, StyleSwapper } from './components/CreativeTools';
@@ -27,7 +27,19 @@ import { supabase } from './services/supabaseClient';
 import { Auth } from './components/Auth';
 import { ToastContainer } from './components/ToastContainer';
 import { showToast } from './utils/notificationUtils';
+import { isGatewayEnabled, restoreSession, signOut } from './services/gatewayClient';
+import { getStoredUser } from './services/currentUser';
+import { changePassword } from './services/account';
+import { loadSchool, isFeatureEnabled } from './services/schools';
+import { takeUnreadWarnings } from './services/moderationQueue';
+import { t, setLanguage, LANGUAGE_OPTIONS } from './utils/i18n';
+import { isPendingTeacher } from './services/roles';
 import TeacherApp from './TeacherApp';
+import PendingApproval from './components/PendingApproval';
+import ParentInviteButton from './components/ParentInviteButton';
+import ParentApp from './ParentApp';
+import MyDataSettings from './components/MyDataSettings';
+import DeletionScheduled from './components/DeletionScheduled';
 
 const SCIENCE_FACTS = [
     "Did you know? Light takes about 8 minutes and 20 seconds to travel from the Sun to Earth.",
@@ -57,8 +69,20 @@ const LOADING_STEPS = [
     { label: "Launch Ready", icon: Rocket }
 ];
 
+// Views a school can switch off
+const VIEW_FEATURES: Partial<Record<AppView, SchoolFeature>> = {
+    [AppView.FEED]: 'feed',
+    [AppView.COMMUNITY]: 'community_notes',
+    [AppView.DISCUSSION]: 'discussions',
+    [AppView.LEADERBOARD]: 'leaderboard',
+    [AppView.VOICE_CHAT]: 'voice_chat',
+    [AppView.VIDEO_GEN]: 'video_lab',
+    [AppView.RESEARCH]: 'research'
+};
+
 const App: React.FC = () => {
   const [user, setUser] = useState<UserData | null>(null);
+  const [school, setSchool] = useState<School | null>(null);
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [loading, setLoading] = useState(true); 
@@ -85,8 +109,10 @@ const App: React.FC = () => {
   const [settingsAvatar, setSettingsAvatar] = useState('');
   const [settingsTheme, setSettingsTheme] = useState('default');
   const [settingsPassword, setSettingsPassword] = useState('');
+  const [settingsCurrentPassword, setSettingsCurrentPassword] = useState('');
   const [settingsAIBehavior, setSettingsAIBehavior] = useState('');
   const [settingsDock, setSettingsDock] = useState<'LEFT' | 'RIGHT' | 'TOP' | 'BOTTOM'>('LEFT');
+  const [settingsLanguage, setSettingsLanguage] = useState<AppLanguage>('en');
   const [isSavingSettings, setIsSavingSettings] = useState(false);
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
   
@@ -139,39 +165,49 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
-    const savedUser = localStorage.getItem('science_buddy_user');
-    if (savedUser) {
-        const parsedUser = JSON.parse(savedUser);
-        setUser(parsedUser);
-        if (parsedUser.role !== 'teacher') {
-            runLoadingSequence(parsedUser);
+    const restore = async () => {
+        let restoredUser: UserData | null = null;
+        if (isGatewayEnabled()) {
+            // Role and profile come from the verified session, not from what was saved locally
+            try {
+                restoredUser = await restoreSession();
+            } catch (e) { console.error(e); }
         } else {
-            setLoading(false); 
+            console.warn("AI_GATEWAY_URL is not set: restoring the user from local storage without a server session.");
+            restoredUser = getStoredUser();
         }
-    } else {
-        setLoading(false);
-    }
+        if (restoredUser) {
+            handleLogin(restoredUser);
+        } else {
+            localStorage.removeItem('science_buddy_user');
+            setLoading(false);
+        }
+    };
+    restore();
   }, []);
 
   const handleLogin = (userData: UserData) => {
+      setLanguage(userData.language);
       setUser(userData);
       localStorage.setItem('science_buddy_user', JSON.stringify(userData));
-      if (userData.role === 'teacher') {
+      if (userData.role === 'teacher' || userData.role === 'parent' || userData.deletion_scheduled_at) {
           setLoading(false);
       } else {
           runLoadingSequence(userData);
       }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await signOut();
     localStorage.removeItem('science_buddy_user');
+    setLanguage('en');
     setUser(null);
     setIsStudyMode(false);
   };
 
   // Apply Theme (Student Mode Only)
   useEffect(() => {
-    if (isStudyMode || !user || user.role === 'teacher') return; 
+    if (isStudyMode || !user || user.role === 'teacher' || user.role === 'parent') return; 
 
     const themeKey = user?.ui_theme || 'default';
     const theme = THEMES[themeKey as keyof typeof THEMES] || THEMES['default'];
@@ -217,6 +253,12 @@ const App: React.FC = () => {
       };
   }, []);
 
+  // Show warnings a teacher sent from the moderation queue
+  useEffect(() => {
+      if (!user || user.role === 'teacher' || user.role === 'parent') return;
+      takeUnreadWarnings(user.id).then(messages => messages.forEach(m => showToast(m, 'error')));
+  }, [user?.id]);
+
   useEffect(() => {
       if (isSettingsOpen && user) {
           setSettingsName(user.display_name || user.username || '');
@@ -224,7 +266,9 @@ const App: React.FC = () => {
           setSettingsTheme(user.ui_theme || 'default');
           setSettingsAIBehavior(user.custom_ai_behavior || '');
           setSettingsDock(user.sidebar_dock || 'LEFT');
+          setSettingsLanguage(user.language || 'en');
           setSettingsPassword('');
+          setSettingsCurrentPassword('');
       }
   }, [isSettingsOpen, user]);
 
@@ -250,20 +294,31 @@ const App: React.FC = () => {
   const handleSaveSettings = async () => {
       if (!user) return;
       setIsSavingSettings(true);
+      if (settingsPassword) {
+          try {
+              await changePassword(user.id, settingsCurrentPassword, settingsPassword);
+              showToast(t('settings.passwordChanged'), 'success');
+          } catch (e: any) {
+              showToast(e.message, 'error');
+              setIsSavingSettings(false);
+              return;
+          }
+      }
       const updates: any = {
           display_name: settingsName,
           avatar_url: settingsAvatar,
           ui_theme: settingsTheme,
           custom_ai_behavior: settingsAIBehavior,
-          sidebar_dock: settingsDock
+          sidebar_dock: settingsDock,
+          language: settingsLanguage
       };
-      if (settingsPassword.trim()) updates.password = settingsPassword;
       const updatedUser = { ...user, ...updates };
+      setLanguage(updatedUser.language);
       setUser(updatedUser);
       localStorage.setItem('science_buddy_user', JSON.stringify(updatedUser));
       const { error } = await supabase.from('users').update(updates).eq('id', user.id);
-      if (error) showToast("Failed to save settings.", 'error');
-      else showToast("Settings Saved!", "success");
+      if (error) showToast(t('settings.saveFailed'), 'error');
+      else showToast(t('settings.saved'), "success");
       setIsSavingSettings(false);
       setIsSettingsOpen(false);
   };
@@ -282,26 +337,32 @@ const App: React.FC = () => {
     finally { setIsSendingFeedback(false); }
   };
 
-  const menuItems = [
-    { id: AppView.DASHBOARD, label: 'Dashboard', icon: LayoutDashboard },
-    { id: AppView.FEED, label: 'Your Feed', icon: Layout }, 
-    { id: AppView.TOPICS, label: 'Topics', icon: Layers }, 
-    { id: AppView.PERFORMANCE, label: 'My Performance', icon: BarChart2 }, 
-    { id: AppView.RESEARCH, label: 'Research Lab', icon: FileText },
-    { id: AppView.COMMUNITY, label: 'Community Notes', icon: Users }, 
-    { id: AppView.DISCUSSION, label: 'Discussion Board', icon: MessageCircle },
-    { id: AppView.VIDEO_GEN, label: 'AI Video Lab', icon: Clapperboard }, 
-    { id: AppView.LEADERBOARD, label: 'Leaderboard', icon: Trophy }, 
-    { id: AppView.CHAT, label: 'AI Chat', icon: MessageSquare },
-    { id: AppView.VOICE_CHAT, label: 'Voice Chat', icon: Mic },
-    { id: AppView.STUDY_POD, label: 'Study Pod', icon: Headphones },
-    { id: AppView.MATCHING, label: 'Mind Match', icon: Puzzle },
-    { id: AppView.STORY, label: 'Story Mode', icon: Book },
-    { id: AppView.QUIZ, label: 'Flash Quiz', icon: Zap },
-    { id: AppView.PUZZLE, label: 'Word Mine', icon: Search },
-    { id: AppView.CONCEPT_MAP, label: 'Concept Map', icon: Network },
-    { id: AppView.STYLE_SWAPPER, label: 'Style Swapper', icon: PenTool },
+  useEffect(() => {
+      loadSchool(user?.school_id).then(setSchool);
+  }, [user?.school_id]);
+
+  const allMenuItems = [
+    { id: AppView.DASHBOARD, label: t('nav.dashboard'), icon: LayoutDashboard },
+    { id: AppView.FEED, label: t('nav.feed'), icon: Layout }, 
+    { id: AppView.TOPICS, label: t('nav.topics'), icon: Layers }, 
+    { id: AppView.PERFORMANCE, label: t('nav.performance'), icon: BarChart2 }, 
+    { id: AppView.RESEARCH, label: t('nav.research'), icon: FileText },
+    { id: AppView.COMMUNITY, label: t('nav.community'), icon: Users }, 
+    { id: AppView.DISCUSSION, label: t('nav.discussion'), icon: MessageCircle },
+    { id: AppView.VIDEO_GEN, label: t('nav.videoLab'), icon: Clapperboard }, 
+    { id: AppView.LEADERBOARD, label: t('nav.leaderboard'), icon: Trophy }, 
+    { id: AppView.CHAT, label: t('nav.chat'), icon: MessageSquare },
+    { id: AppView.VOICE_CHAT, label: t('nav.voiceChat'), icon: Mic },
+    { id: AppView.STUDY_POD, label: t('nav.studyPod'), icon: Headphones },
+    { id: AppView.MATCHING, label: t('nav.mindMatch'), icon: Puzzle },
+    { id: AppView.STORY, label: t('nav.story'), icon: Book },
+    { id: AppView.QUIZ, label: t('nav.flashQuiz'), icon: Zap },
+    { id: AppView.PUZZLE, label: t('nav.wordMine'), icon: Search },
+    { id: AppView.CONCEPT_MAP, label: t('nav.conceptMap'), icon: Network },
+    { id: AppView.STYLE_SWAPPER, label: t('nav.styleSwapper'), icon: PenTool },
   ];
+  const isViewEnabled = (view: AppView) => !VIEW_FEATURES[view] || isFeatureEnabled(school, VIEW_FEATURES[view]!);
+  const menuItems = allMenuItems.filter(item => isViewEnabled(item.id));
 
   const renderContent = () => {
     if (currentView === AppView.TOPICS) {
@@ -322,11 +383,15 @@ const App: React.FC = () => {
         />;
     }
 
-    switch (currentView) {
+    // Hiding a switched-off feature from the menu is not enough; links elsewhere still lead to it
+    const view = isViewEnabled(currentView) ? currentView : AppView.DASHBOARD;
+
+    switch (view) {
       case AppView.DASHBOARD:
         return <Dashboard 
             user={user!} 
             onNavigate={setCurrentView} 
+            isViewEnabled={isViewEnabled}
             onResumeSession={(s) => {
                 setTargetSessionId(s.id);
                 setCurrentView(s.title.includes('Voice') ? AppView.VOICE_CHAT : AppView.CHAT);
@@ -339,7 +404,7 @@ const App: React.FC = () => {
       case AppView.PERFORMANCE:
           return <PerformanceAnalytics userId={user!.id} username={user!.username} currentUserPoints={user!.total_points || 0} />;
       case AppView.RESEARCH: return <ResearchMode userId={user!.id} username={user!.username} userClass={user!.class_level} />;
-      case AppView.COMMUNITY: return <CommunityNotes userId={user!.id} username={user!.username} />;
+      case AppView.COMMUNITY: return <CommunityNotes userId={user!.id} username={user!.username} userRole={user!.role} />;
       case AppView.DISCUSSION: return <DiscussionBoard user={user} />;
       case AppView.VIDEO_GEN: return <VideoGenerator userId={user!.id} userClass={user!.class_level} />;
       case AppView.CHAT: 
@@ -348,10 +413,11 @@ const App: React.FC = () => {
             onUpdateProfile={() => {}} 
             userId={user?.id}
             initialSessionId={targetSessionId}
+            userClass={user?.class_level}
         />;
       case AppView.VOICE_CHAT:
         return <VoiceChat 
-            userProfile={{ name: user?.username, interests: user?.interests }}
+            userProfile={{ name: user?.username, interests: user?.interests, classLevel: user?.class_level }}
             userId={user?.id}
             initialSessionId={targetSessionId}
         />;
@@ -412,12 +478,27 @@ const App: React.FC = () => {
   // 2. Auth Screen
   if (!user) return <><ToastContainer /><Auth onLogin={handleLogin} /></>;
 
-  // 3. Teacher App (Main Fix: Checked AFTER hooks)
+  // 3. Teacher signups wait for approval before getting the teacher app
+  if (isPendingTeacher(user)) {
+      return <><ToastContainer /><PendingApproval user={user} onApproved={handleLogin} onLogout={handleLogout} /></>;
+  }
+
+  // 4. Students who asked to be deleted can only cancel, download their data or leave
+  if (user.deletion_scheduled_at) {
+      return <><ToastContainer /><DeletionScheduled user={user} onRestored={handleLogin} onLogout={handleLogout} /></>;
+  }
+
+  // 5. Teacher App (Main Fix: Checked AFTER hooks)
   if (user.role === 'teacher') {
       return <TeacherApp user={user} onLogout={handleLogout} />;
   }
 
-  // 4. Study Mode
+  // 6. Parent App (read-only)
+  if (user.role === 'parent') {
+      return <ParentApp user={user} onLogout={handleLogout} />;
+  }
+
+  // 7. Study Mode
   if (isStudyMode) {
       return (
           <>
@@ -427,7 +508,7 @@ const App: React.FC = () => {
       );
   }
 
-  // 5. Student Dashboard
+  // 8. Student Dashboard
   const dock = user?.sidebar_dock || 'LEFT';
   const isHorizontalDock = dock === 'TOP' || dock === 'BOTTOM';
   const getContainerClass = () => {
@@ -468,12 +549,12 @@ const App: React.FC = () => {
               {/* Settings Modal (Simplified reuse) */}
               <div className="glass-panel w-full max-w-lg p-6 rounded-2xl flex flex-col max-h-[90vh] bg-[#050505]">
                   <div className="flex justify-between items-center mb-6 border-b border-white/10 pb-4">
-                      <h2 className="text-2xl font-bold flex items-center gap-2"><Settings className="text-cyan-400" /> Settings</h2>
+                      <h2 className="text-2xl font-bold flex items-center gap-2"><Settings className="text-cyan-400" /> {t('common.settings')}</h2>
                       <button onClick={() => setIsSettingsOpen(false)} className="hover:text-red-400"><X /></button>
                   </div>
                   <div className="flex-1 overflow-y-auto custom-scrollbar space-y-8 pr-2">
                       <div className="space-y-4">
-                          <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-cyan-200"><User size={14}/> Public Profile</h3>
+                          <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-cyan-200"><User size={14}/> {t('settings.publicProfile')}</h3>
                           <div className="flex items-center gap-4">
                               <div className="w-20 h-20 rounded-full bg-white/10 border border-white/20 overflow-hidden flex items-center justify-center shrink-0 relative group">
                                   {settingsAvatar ? <img src={settingsAvatar} alt="Profile" className="w-full h-full object-cover" /> : <User size={40} className="opacity-50" />}
@@ -491,11 +572,11 @@ const App: React.FC = () => {
                               </div>
                           </div>
                           <div>
-                              <label className="text-xs font-bold mb-1 block">DISPLAY NAME</label>
+                              <label className="text-xs font-bold mb-1 block">{t('settings.displayName')}</label>
                               <input className="w-full bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-sm" value={settingsName} onChange={(e) => setSettingsName(e.target.value)} />
                           </div>
                           <div>
-                              <label className="text-xs font-bold mb-1 block">NEW PASSWORD</label>
+                              <label className="text-xs font-bold mb-1 block">{t('settings.newPassword')}</label>
                               <input 
                                   type="password" 
                                   className="w-full bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-sm" 
@@ -504,12 +585,23 @@ const App: React.FC = () => {
                                   onChange={(e) => setSettingsPassword(e.target.value)} 
                               />
                           </div>
+                          {settingsPassword && (
+                              <div>
+                                  <label className="text-xs font-bold mb-1 block">{t('settings.currentPassword')}</label>
+                                  <input 
+                                      type="password" 
+                                      className="w-full bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-sm" 
+                                      value={settingsCurrentPassword} 
+                                      onChange={(e) => setSettingsCurrentPassword(e.target.value)} 
+                                  />
+                              </div>
+                          )}
                       </div>
 
                       <div className="space-y-4">
-                          <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-purple-200"><Brain size={14}/> AI Persona</h3>
+                          <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-purple-200"><Brain size={14}/> {t('settings.aiPersona')}</h3>
                           <div>
-                              <label className="text-xs font-bold mb-1 block">CUSTOM INSTRUCTIONS</label>
+                              <label className="text-xs font-bold mb-1 block">{t('settings.customInstructions')}</label>
                               <textarea 
                                   className="w-full bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-sm h-24 resize-none focus:border-purple-400 focus:outline-none" 
                                   placeholder="e.g. Speak like a pirate, or explain things using football analogies..." 
@@ -518,12 +610,36 @@ const App: React.FC = () => {
                               />
                               <p className="text-[10px] opacity-50 mt-1">This guides how Science Buddy talks to you.</p>
                           </div>
+                          <div>
+                              <label className="text-xs font-bold mb-2 block">{t('settings.language')}</label>
+                              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                  {LANGUAGE_OPTIONS.map(option => (
+                                      <button key={option.id} onClick={() => setSettingsLanguage(option.id)} className={`px-3 py-3 rounded-xl text-left border ${settingsLanguage === option.id ? 'bg-purple-500/20 border-purple-500 text-purple-200' : 'bg-white/5 border-white/10'}`}>
+                                          <div className="text-sm font-bold">{option.label}</div>
+                                          <div className="text-[10px] opacity-60">{option.hint}</div>
+                                      </button>
+                                  ))}
+                              </div>
+                          </div>
+                      </div>
+
+                      {isGatewayEnabled() && (
+                          <div className="space-y-3">
+                              <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-pink-200"><Users size={14}/> {t('settings.family')}</h3>
+                              <p className="text-[10px] opacity-50">{t('settings.inviteParentHint')}</p>
+                              <ParentInviteButton studentId={user.id} label={t('settings.inviteParent')} />
+                          </div>
+                      )}
+
+                      <div className="space-y-3">
+                          <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-red-200"><Database size={14}/> {t('settings.yourData')}</h3>
+                          <MyDataSettings user={user} onDeletionRequested={() => { setIsSettingsOpen(false); handleLogout(); }} />
                       </div>
 
                       <div className="space-y-4">
-                          <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-green-200"><Layout size={14}/> Layout</h3>
+                          <h3 className="text-sm font-bold uppercase tracking-widest opacity-50 flex items-center gap-2 text-green-200"><Layout size={14}/> {t('settings.layout')}</h3>
                           <div>
-                              <label className="text-xs font-bold mb-2 block">SIDEBAR POSITION</label>
+                              <label className="text-xs font-bold mb-2 block">{t('settings.sidebarPosition')}</label>
                               <div className="grid grid-cols-2 gap-2">
                                   {['LEFT', 'RIGHT', 'TOP', 'BOTTOM'].map((pos) => (
                                       <button key={pos} onClick={() => setSettingsDock(pos as any)} className={`px-4 py-3 rounded-xl text-xs font-bold border ${settingsDock === pos ? 'bg-green-500/20 border-green-500 text-green-300' : 'bg-white/5 border-white/10'}`}>{pos}</button>
@@ -531,7 +647,7 @@ const App: React.FC = () => {
                               </div>
                           </div>
                           <div>
-                              <label className="text-xs font-bold mb-2 block">THEME</label>
+                              <label className="text-xs font-bold mb-2 block">{t('settings.theme')}</label>
                               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                                   {Object.entries(THEMES).map(([key, theme]) => (
                                       <button key={key} onClick={() => setSettingsTheme(key)} className={`p-3 rounded-xl border text-left relative overflow-hidden group ${settingsTheme === key ? 'border-cyan-400 bg-white/10' : 'border-white/10 hover:bg-white/5'}`}>
@@ -544,9 +660,9 @@ const App: React.FC = () => {
                       </div>
                   </div>
                   <div className="pt-6 mt-2 border-t border-white/10 flex justify-end gap-3">
-                      <button onClick={() => setIsSettingsOpen(false)} className="px-4 py-2 rounded-lg hover:bg-white/10">Cancel</button>
+                      <button onClick={() => setIsSettingsOpen(false)} className="px-4 py-2 rounded-lg hover:bg-white/10">{t('common.cancel')}</button>
                       <button onClick={handleSaveSettings} disabled={isSavingSettings} className="px-6 py-2 rounded-lg bg-gradient-to-r from-cyan-600 to-blue-600 font-bold flex items-center gap-2 shadow-lg text-white">
-                          {isSavingSettings ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Save Changes
+                          {isSavingSettings ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} {t('settings.save')}
                       </button>
                   </div>
               </div>
@@ -587,6 +703,12 @@ const App: React.FC = () => {
           </div>
           <div className={isHorizontalDock && desktopSidebarOpen ? 'hidden lg:block' : ''}>
               <h1 className={`font-bold bg-clip-text text-transparent bg-gradient-to-r from-cyan-400 to-purple-400 ${isHorizontalDock && desktopSidebarOpen ? 'text-lg' : 'text-2xl'}`}>Science Buddy</h1>
+              {school && (
+                  <div className="flex items-center justify-center gap-1.5 mt-1 text-xs opacity-70">
+                      {school.branding?.logo_url && <img src={school.branding.logo_url} alt="" className="w-4 h-4 object-contain" />}
+                      <span style={{ color: school.branding?.accent_color }}>{school.name}</span>
+                  </div>
+              )}
               {!(isHorizontalDock && desktopSidebarOpen) && (
                   <div className="mt-4 flex flex-col items-center">
                       <div className="w-16 h-16 rounded-full overflow-hidden border-2 border-white/20 mb-2 shadow-[0_0_15px_rgba(255,255,255,0.1)]">{user.avatar_url ? <img src={user.avatar_url} className="w-full h-full object-cover"/> : <User size={32} className="w-full h-full p-3 bg-white/10"/>}</div>
@@ -609,8 +731,8 @@ const App: React.FC = () => {
         </div>
         <div className={`mt-auto pt-4 ${isHorizontalDock && desktopSidebarOpen ? 'md:pt-0 md:mt-0 md:flex md:items-center md:gap-2 md:px-4' : ''}`}>
             {isHorizontalDock && desktopSidebarOpen && <div className="hidden md:flex items-center gap-2 mr-4"><div className="w-8 h-8 rounded-full overflow-hidden border border-white/20">{user.avatar_url ? <img src={user.avatar_url} className="w-full h-full object-cover"/> : <User size={16} className="w-full h-full p-1 bg-white/10"/>}</div><div className="text-xs font-bold text-yellow-400 flex gap-1"><Trophy size={14}/> {user.total_points || 0}</div></div>}
-            {!isHorizontalDock && desktopSidebarOpen && <button onClick={() => setDesktopSidebarOpen(false)} className="w-full flex items-center justify-center gap-2 py-2 rounded-xl hover:bg-white/5 opacity-50 hover:opacity-100 transition-all text-xs mb-2 hidden md:flex"><PanelLeftClose size={14} /> Minimize Sidebar</button>}
-            <button onClick={handleLogout} className={`flex items-center justify-center gap-2 py-3 rounded-xl hover:bg-red-500/20 opacity-60 hover:opacity-100 transition-all text-sm ${isHorizontalDock && desktopSidebarOpen ? 'md:py-2 md:px-3 md:w-auto' : 'w-full mb-1'}`}><LogOut size={16} /> <span className={isHorizontalDock && desktopSidebarOpen ? 'hidden lg:inline' : ''}>Logout</span></button>
+            {!isHorizontalDock && desktopSidebarOpen && <button onClick={() => setDesktopSidebarOpen(false)} className="w-full flex items-center justify-center gap-2 py-2 rounded-xl hover:bg-white/5 opacity-50 hover:opacity-100 transition-all text-xs mb-2 hidden md:flex"><PanelLeftClose size={14} /> {t('common.minimizeSidebar')}</button>}
+            <button onClick={handleLogout} className={`flex items-center justify-center gap-2 py-3 rounded-xl hover:bg-red-500/20 opacity-60 hover:opacity-100 transition-all text-sm ${isHorizontalDock && desktopSidebarOpen ? 'md:py-2 md:px-3 md:w-auto' : 'w-full mb-1'}`}><LogOut size={16} /> <span className={isHorizontalDock && desktopSidebarOpen ? 'hidden lg:inline' : ''}>{t('common.logout')}</span></button>
         </div>
       </nav>
 
@@ -629,11 +751,11 @@ const App: React.FC = () => {
                   onClick={() => setIsStudyMode(true)}
                   className="hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full bg-blue-600 hover:bg-blue-500 text-white font-bold text-xs shadow-lg transition-transform active:scale-95"
               >
-                  <GraduationCap size={16} /> Study Mode
+                  <GraduationCap size={16} /> {t('common.studyMode')}
               </button>
 
-              <button onClick={() => setIsFeedbackOpen(true)} className="p-2 rounded-full hover:bg-white/10 transition-colors opacity-70 hover:opacity-100 active:scale-95" title="Report Issue"><AlertTriangle size={20} /></button>
-              <button onClick={() => setIsSettingsOpen(true)} className="p-2 rounded-full hover:bg-white/10 transition-colors opacity-70 hover:opacity-100 active:scale-95" title="Settings"><Settings size={20} /></button>
+              <button onClick={() => setIsFeedbackOpen(true)} className="p-2 rounded-full hover:bg-white/10 transition-colors opacity-70 hover:opacity-100 active:scale-95" title={t('common.reportIssue')}><AlertTriangle size={20} /></button>
+              <button onClick={() => setIsSettingsOpen(true)} className="p-2 rounded-full hover:bg-white/10 transition-colors opacity-70 hover:opacity-100 active:scale-95" title={t('common.settings')}><Settings size={20} /></button>
          </div>
          <div className="flex-1 overflow-hidden relative">
              <div className="h-full w-full">{renderContent()}</div>
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { LogOut, Loader2, Plus, User, Heart } from 'lucide-react';
+import { UserData, School } from './types';
+import { ToastContainer } from './components/ToastContainer';
+import { showToast } from './utils/notificationUtils';
+import { loadSchool } from './services/schools';
+import { listLinkedChildren, linkChild, LinkedChild } from './services/parents';
+import ParentProgress from './components/ParentProgress';
+
+interface ParentAppProps {
+    user: UserData;
+    onLogout: () => void;
+}
+
+// Read-only home for parent accounts: one tab per linked child.
+const ParentApp: React.FC<ParentAppProps> = ({ user, onLogout }) => {
+    const [school, setSchool] = useState<School | null>(null);
+    const [children, setChildren] = useState<LinkedChild[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [code, setCode] = useState('');
+    const [linking, setLinking] = useState(false);
+
+    useEffect(() => {
+        loadSchool(user.school_id).then(setSchool);
+        loadChildren();
+    }, [user.id]);
+
+    const loadChildren = async () => {
+        try {
+            const linked = await listLinkedChildren(user.id);
+            setChildren(linked);
+            setSelectedId(prev => (prev && linked.some(c => c.id === prev) ? prev : linked[0]?.id || null));
+        } catch (e: any) {
+            showToast("Could not load your children: " + e.message, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleLink = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim()) return;
+        setLinking(true);
+        try {
+            await linkChild(code);
+            setCode('');
+            showToast("Linked! You can now follow their progress.", 'success');
+            await loadChildren();
+        } catch (e: any) {
+            showToast(e.message, 'error');
+        }
+        setLinking(false);
+    };
+
+    const selected = children.find(c => c.id === selectedId) || null;
+
+    return (
+        <div className="min-h-screen bg-slate-950 text-white">
+            <ToastContainer />
+            <header className="bg-slate-900 border-b border-slate-800 px-6 py-4 flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                    {school?.branding?.logo_url ? <img src={school.branding.logo_url} alt="" className="w-8 h-8 rounded-lg object-contain" /> : <Heart size={24} className="text-pink-400" />}
+                    <div>
+                        <div className="font-bold">Science Buddy for Parents</div>
+                        {school && <div className="text-xs text-slate-500">{school.name}</div>}
+                    </div>
+                </div>
+                <div className="flex gap-2 flex-wrap">
+                    {children.map(child => (
+                        <button
+                            key={child.id}
+                            onClick={() => setSelectedId(child.id)}
+                            className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-bold transition-colors ${child.id === selectedId ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                        >
+                            <span className="w-6 h-6 rounded-full bg-slate-700 overflow-hidden">
+                                {child.avatar_url ? <img src={child.avatar_url} alt="" className="w-full h-full object-cover" /> : <User size={16} className="m-1" />}
+                            </span>
+                            {child.display_name || child.username}
+                            {child.class_level && <span className="text-[10px] opacity-60">{child.class_level}-{child.section}</span>}
+                        </button>
+                    ))}
+                </div>
+                <form onSubmit={handleLink} className="ml-auto flex items-center gap-2">
+                    <input
+                        value={code}
+                        onChange={e => setCode(e.target.value)}
+                        placeholder="Invite code"
+                        className="w-32 bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm font-mono uppercase outline-none focus:border-cyan-500"
+                    />
+                    <button type="submit" disabled={linking} className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-bold flex items-center gap-1">
+                        {linking ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />} Add child
+                    </button>
+                    <button type="button" onClick={onLogout} className="px-3 py-1.5 rounded-lg border border-red-900/50 bg-red-900/10 text-red-400 hover:bg-red-900/20 text-sm font-bold flex items-center gap-1">
+                        <LogOut size={14} /> Sign Out
+                    </button>
+                </form>
+            </header>
+
+            <main className="max-w-6xl mx-auto">
+                {loading ? (
+                    <div className="p-10 flex items-center justify-center text-slate-400"><Loader2 className="animate-spin mr-2" size={18} /> Loading...</div>
+                ) : selected ? (
+                    <ParentProgress key={selected.id} child={selected} school={school} parentId={user.id} />
+                ) : (
+                    <div className="p-10 text-center text-slate-400 text-sm">
+                        No children linked yet. Ask your child (in their Settings) or their teacher for an invite code and enter it above.
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+};
+
+export default ParentApp;
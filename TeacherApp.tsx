@@ -4,14 +4,20 @@ import {
     Settings, LogOut, Moon, Sun, 
     Search, FileText, 
     Mic, MessageSquare, Zap, Puzzle, Headphones, Network, PenTool, Book, Atom, BookOpen, ArrowLeft, Layout, MessageCircle, User, Lock, Save, Loader2,
-    Users, BarChart2, GraduationCap, ChevronRight, Brain, Trophy, Globe, Upload, Image as ImageIcon, X, CheckCircle, AlertTriangle, Send, Sparkles
+    Users, BarChart2, GraduationCap, ChevronRight, Brain, Trophy, Globe, Upload, Image as ImageIcon, X, CheckCircle, AlertTriangle, Send, Sparkles, Activity, ShieldAlert, Building2, UserCog
 } from 'lucide-react';
 import emailjs from '@emailjs/browser';
-import { UserData } from './types';
+import { UserData, School } from './types';
 import { ToastContainer } from './components/ToastContainer';
 import { supabase } from './services/supabaseClient';
 import { showToast } from './utils/notificationUtils';
-import { callGroqAPI } from './services/aiService';
+import { callAI } from './services/aiService';
+import { describeAIError } from './services/llmProvider';
+import { renderPrompt } from './services/promptRegistry';
+import { changePassword } from './services/account';
+import { isGatewayEnabled } from './services/gatewayClient';
+import { scopeToSchool, loadSchool, schoolClasses } from './services/schools';
+import { isAdmin } from './services/roles';
 
 // Import Child Features for preview/use
 import ChatInterface from './components/ChatInterface';
@@ -25,6 +31,14 @@ import DiscussionBoard from './components/DiscussionBoard';
 import PerformanceAnalytics from './components/PerformanceAnalytics';
 import CommunityNotes from './components/CommunityNotes';
 import Leaderboard from './components/Leaderboard';
+import AIUsageDashboard from './components/AIUsageDashboard';
+import CurriculumManager from './components/CurriculumManager';
+import ModerationQueue from './components/ModerationQueue';
+import SchoolSettings from './components/SchoolSettings';
+import RoleManager from './components/RoleManager';
+import ParentInviteButton from './components/ParentInviteButton';
+import RosterImport from './components/RosterImport';
+import RosterStudentActions from './components/RosterStudentActions';
 
 interface TeacherAppProps {
     user: UserData;
@@ -48,10 +62,17 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
     // Navigation State
     const [selectedClass, setSelectedClass] = useState<ClassSelection | null>(null);
     const [activeTab, setActiveTab] = useState<string>('overview');
+    const [school, setSchool] = useState<School | null>(null);
+
+    useEffect(() => {
+        loadSchool(user.school_id).then(setSchool);
+    }, [user.school_id]);
     
     // Data State
     const [students, setStudents] = useState<any[]>([]);
     const [loadingClass, setLoadingClass] = useState(false);
+    const [showArchived, setShowArchived] = useState(false);
+    const [isRosterImportOpen, setIsRosterImportOpen] = useState(false);
     const [classStats, setClassStats] = useState<any>(null);
     const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
     const [analyzing, setAnalyzing] = useState(false);
@@ -68,6 +89,7 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
     const [settingsName, setSettingsName] = useState(user.display_name || user.username || '');
     const [settingsAvatar, setSettingsAvatar] = useState(user.avatar_url || '');
     const [settingsPassword, setSettingsPassword] = useState('');
+    const [settingsCurrentPassword, setSettingsCurrentPassword] = useState('');
     const [isSavingSettings, setIsSavingSettings] = useState(false);
     const [uploadingAvatar, setUploadingAvatar] = useState(false);
 
@@ -93,7 +115,7 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
             setStudents([]);
             setClassStats(null);
         }
-    }, [selectedClass]);
+    }, [selectedClass, showArchived]);
 
     const fetchClassData = async () => {
         if (!selectedClass || selectedClass.grade === 'All') return;
@@ -102,17 +124,19 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
         setSelectedStudentId(null);
 
         try {
-            // 1. Fetch Students
-            const { data: studentsData, error } = await supabase
+            // 1. Fetch Students (archived ones only when asked for)
+            let query = scopeToSchool(supabase
                 .from('users')
-                .select('*')
+                .select('*'))
                 .eq('role', 'student')
                 .eq('class_level', selectedClass.grade)
-                .eq('section', selectedClass.section)
-                .order('username');
+                .eq('section', selectedClass.section);
+            if (!showArchived) query = query.or('account_status.is.null,account_status.neq.archived');
+            const { data: rosterData, error } = await query.order('username');
 
             if (error) throw error;
-            setStudents(studentsData || []);
+            setStudents(rosterData || []);
+            const studentsData = (rosterData || []).filter((s: any) => s.account_status !== 'archived');
 
             // 2. Aggregate Stats (Mock logic for calculation if real stats table doesn't exist)
             if (studentsData && studentsData.length > 0) {
@@ -140,22 +164,19 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
         if (!classStats || students.length === 0) return;
         setAnalyzing(true);
         
-        const prompt = `
-        Analyze this class performance for Class ${selectedClass?.grade}-${selectedClass?.section}.
-        Data:
-        - Total Students: ${classStats.totalStudents}
-        - Average XP Score: ${classStats.avgXP}
-        - Students needing attention (Low XP): ${classStats.needsAttention}
-        
-        Provide a concise 3-point summary for the teacher:
-        1. Overall Class Health (Excellent/Good/Needs Improvement)
-        2. Key Area of Focus
-        3. A motivational tip for the teacher.
-        Keep it professional but encouraging.
-        `;
-
-        const response = await callGroqAPI([{ role: 'user', content: prompt }]);
-        setAiAnalysis(response);
+        try {
+            const prompt = await renderPrompt('teacher.classAnalysis', {
+                grade: selectedClass?.grade || '',
+                section: selectedClass?.section || '',
+                totalStudents: classStats.totalStudents,
+                avgXP: classStats.avgXP,
+                needsAttention: classStats.needsAttention
+            });
+            const response = await callAI([{ role: 'user', content: prompt.text }], false, 0.7, { feature: 'class_analysis', promptRef: prompt.ref });
+            setAiAnalysis(response);
+        } catch (e) {
+            setAiAnalysis(`Analysis unavailable: ${describeAIError(e)}`);
+        }
         setAnalyzing(false);
     };
 
@@ -186,11 +207,22 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
     const handleSaveSettings = async () => {
         if (!user) return;
         setIsSavingSettings(true);
+        if (settingsPassword) {
+            try {
+                await changePassword(user.id, settingsCurrentPassword, settingsPassword);
+                setSettingsPassword('');
+                setSettingsCurrentPassword('');
+                showToast("Password changed.", 'success');
+            } catch (e: any) {
+                showToast(e.message, 'error');
+                setIsSavingSettings(false);
+                return;
+            }
+        }
         const updates: any = {
             display_name: settingsName,
             avatar_url: settingsAvatar,
         };
-        if (settingsPassword.trim()) updates.password = settingsPassword;
         
         const { error } = await supabase.from('users').update(updates).eq('id', user.id);
         if (error) showToast("Failed to save settings.", 'error');
@@ -303,6 +335,14 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                              {student.avatar_url ? <img src={student.avatar_url} className="w-full h-full object-cover"/> : <User className="p-1 w-full h-full"/>}
                         </div>
                         <div className="font-bold text-lg">{student.display_name || student.username}</div>
+                        {isGatewayEnabled() && (
+                            <>
+                                {student.account_status !== 'archived' && (
+                                    <ParentInviteButton key={student.id} studentId={student.id} label="Parent invite" className="px-3 py-1 rounded-lg text-xs font-bold flex items-center gap-1.5 bg-slate-800 text-slate-300 hover:text-white" />
+                                )}
+                                <RosterStudentActions key={`roster-${student.id}`} student={student} school={school} onChanged={fetchClassData} />
+                            </>
+                        )}
                         <div className="ml-auto flex gap-2">
                              {(['PERFORMANCE', 'NOTES', 'FEED'] as const).map(mode => (
                                  <button 
@@ -327,7 +367,17 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
         // List View
         return (
             <div className="h-full overflow-y-auto custom-scrollbar p-6">
-                <h2 className="text-2xl font-bold mb-6 flex items-center gap-2"><Users className="text-cyan-400" /> Class Roster ({students.length})</h2>
+                <div className="flex flex-wrap items-center gap-3 mb-6">
+                    <h2 className="text-2xl font-bold flex items-center gap-2"><Users className="text-cyan-400" /> Class Roster ({students.length})</h2>
+                    <label className="ml-auto flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                        <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} /> Show archived
+                    </label>
+                    {isGatewayEnabled() && school && (
+                        <button onClick={() => setIsRosterImportOpen(true)} className="px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 bg-slate-800 text-slate-300 hover:text-white">
+                            <Upload size={14} /> Import roster
+                        </button>
+                    )}
+                </div>
                 {loadingClass ? (
                     <div className="text-center py-10"><Loader2 className="animate-spin mx-auto"/> Loading class data...</div>
                 ) : (
@@ -336,7 +386,7 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                             <div 
                                 key={student.id}
                                 onClick={() => setSelectedStudentId(student.id)}
-                                className="bg-slate-900 border border-slate-800 p-4 rounded-xl cursor-pointer hover:border-cyan-500/50 hover:bg-slate-800 transition-all group"
+                                className={`bg-slate-900 border border-slate-800 p-4 rounded-xl cursor-pointer hover:border-cyan-500/50 hover:bg-slate-800 transition-all group ${student.account_status === 'archived' ? 'opacity-50' : ''}`}
                             >
                                 <div className="flex items-center gap-4 mb-3">
                                     <div className="w-12 h-12 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
@@ -345,6 +395,8 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                                     <div>
                                         <div className="font-bold text-white group-hover:text-cyan-400 transition-colors">{student.display_name || student.username}</div>
                                         <div className="text-xs text-slate-500">ID: {student.username}</div>
+                                        {student.account_status === 'invited' && <span className="inline-block mt-1 px-2 py-0.5 rounded border text-[10px] font-bold bg-amber-900/30 text-amber-300 border-amber-500/30">Setup pending</span>}
+                                        {student.account_status === 'archived' && <span className="inline-block mt-1 px-2 py-0.5 rounded border text-[10px] font-bold bg-slate-800 text-slate-400 border-slate-700">Archived</span>}
                                     </div>
                                     <div className="ml-auto">
                                         <ChevronRight className="text-slate-600 group-hover:text-cyan-400" />
@@ -425,8 +477,7 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
     };
 
     const renderClassSelectorContent = () => {
-        const grades = ['6', '7', '8'];
-        const sections = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+        const classes = schoolClasses(school);
 
         return (
             <div className="flex flex-col h-full w-full bg-slate-950 text-white overflow-hidden relative">
@@ -448,6 +499,13 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                             Science Buddy
                          </h1>
                          <p className="text-slate-400 text-lg md:text-xl tracking-widest uppercase font-medium">Teacher Command Center</p>
+                         {school && (
+                            <div className="mt-4 flex items-center gap-3 text-slate-300">
+                                {school.branding?.logo_url && <img src={school.branding.logo_url} alt="" className="w-8 h-8 rounded-lg object-contain" />}
+                                <span className="font-bold" style={{ color: school.branding?.accent_color }}>{school.name}</span>
+                                {school.branding?.tagline && <span className="text-slate-500 text-sm">· {school.branding.tagline}</span>}
+                            </div>
+                         )}
                     </div>
 
                     {/* Main Content Container */}
@@ -458,7 +516,7 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                                 <Users className="text-cyan-500" /> Select Class to Manage
                             </h2>
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-                                {grades.map(grade => (
+                                {classes.map(({ level: grade, sections }) => (
                                     <div key={grade} className="bg-slate-900/50 border border-slate-800 rounded-3xl p-6 backdrop-blur-sm hover:border-cyan-500/30 transition-all shadow-xl">
                                         <div className="flex items-center justify-between mb-6 border-b border-slate-800 pb-4">
                                             <h3 className="text-2xl font-bold text-white">Class {grade}</h3>
@@ -466,8 +524,6 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                                         </div>
                                         <div className="grid grid-cols-4 gap-3">
                                             {sections.map(section => {
-                                                // Remove G section for Class 8
-                                                if (grade === '8' && section === 'G') return null;
                                                 return (
                                                     <button
                                                         key={`${grade}-${section}`}
@@ -524,6 +580,24 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                                     <h3 className="text-xl font-bold text-white group-hover:text-orange-400 transition-colors mb-2">Notes</h3>
                                     <p className="text-sm text-slate-500">Review shared study materials.</p>
                                 </button>
+
+                                {isAdmin(user) && (
+                                    <button onClick={() => handleGlobalAccess('school')} className="bg-gradient-to-br from-slate-900 to-slate-900 hover:from-slate-800 hover:to-slate-900 border border-slate-800 p-8 rounded-3xl text-left group shadow-lg hover:shadow-2xl transition-all hover:-translate-y-1">
+                                        <div className="w-14 h-14 rounded-2xl bg-emerald-500/20 text-emerald-400 flex items-center justify-center mb-6 group-hover:scale-110 transition-transform shadow-[0_0_20px_rgba(16,185,129,0.2)]">
+                                            <Building2 size={28} />
+                                        </div>
+                                        <h3 className="text-xl font-bold text-white group-hover:text-emerald-400 transition-colors mb-2">School Settings</h3>
+                                        <p className="text-sm text-slate-500">Email rules, classes, branding and features.</p>
+                                    </button>
+                                )}
+
+                                <button onClick={() => handleGlobalAccess('roles')} className="bg-gradient-to-br from-slate-900 to-slate-900 hover:from-slate-800 hover:to-slate-900 border border-slate-800 p-8 rounded-3xl text-left group shadow-lg hover:shadow-2xl transition-all hover:-translate-y-1">
+                                    <div className="w-14 h-14 rounded-2xl bg-indigo-500/20 text-indigo-400 flex items-center justify-center mb-6 group-hover:scale-110 transition-transform shadow-[0_0_20px_rgba(99,102,241,0.2)]">
+                                        <UserCog size={28} />
+                                    </div>
+                                    <h3 className="text-xl font-bold text-white group-hover:text-indigo-400 transition-colors mb-2">Staff & Roles</h3>
+                                    <p className="text-sm text-slate-500">Approve teacher signups and manage roles.</p>
+                                </button>
                             </div>
                         </div>
                     </div>
@@ -538,6 +612,10 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
             <ToastContainer />
 
             {/* Settings Modal */}
+            {isRosterImportOpen && school && (
+                <RosterImport school={school} onClose={() => setIsRosterImportOpen(false)} onImported={fetchClassData} />
+            )}
+
             {isSettingsOpen && (
                 <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
                     <div className="w-full max-w-lg bg-slate-900 border border-slate-800 p-6 rounded-2xl flex flex-col shadow-2xl animate-in zoom-in-95">
@@ -570,6 +648,17 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                                     onChange={(e) => setSettingsPassword(e.target.value)} 
                                 />
                             </div>
+                            {settingsPassword && (
+                                <div>
+                                    <label className="text-xs font-bold mb-1 block text-slate-400">CURRENT PASSWORD</label>
+                                    <input 
+                                        type="password"
+                                        className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-3 text-sm text-white focus:outline-none focus:border-cyan-500" 
+                                        value={settingsCurrentPassword} 
+                                        onChange={(e) => setSettingsCurrentPassword(e.target.value)} 
+                                    />
+                                </div>
+                            )}
                         </div>
                         <div className="pt-6 mt-6 border-t border-slate-800 flex justify-end gap-3">
                             <button onClick={() => setIsSettingsOpen(false)} className="px-4 py-2 rounded-lg hover:bg-slate-800 text-slate-400">Cancel</button>
@@ -632,6 +721,15 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                             <button onClick={() => { setActiveTab('tools'); }} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all font-medium ${activeTab === 'tools' ? 'bg-blue-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}>
                                 <Puzzle size={20} /> Learning Tools
                             </button>
+                            <button onClick={() => { setActiveTab('usage'); }} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all font-medium ${activeTab === 'usage' ? 'bg-blue-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}>
+                                <Activity size={20} /> AI Usage
+                            </button>
+                            <button onClick={() => { setActiveTab('curriculum'); }} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all font-medium ${activeTab === 'curriculum' ? 'bg-blue-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}>
+                                <BookOpen size={20} /> Curriculum
+                            </button>
+                            <button onClick={() => { setActiveTab('moderation'); }} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all font-medium ${activeTab === 'moderation' ? 'bg-blue-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}>
+                                <ShieldAlert size={20} /> Moderation
+                            </button>
                         </nav>
 
                         <div className="p-4 border-t border-inherit space-y-3">
@@ -658,6 +756,11 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                                 {activeTab === 'overview' && <BarChart2 size={20} className="text-blue-400" />}
                                 {activeTab === 'students' && <Users size={20} className="text-blue-400" />}
                                 {activeTab === 'tools' && <Puzzle size={20} className="text-blue-400" />}
+                                {activeTab === 'usage' && <Activity size={20} className="text-blue-400" />}
+                                {activeTab === 'curriculum' && <BookOpen size={20} className="text-blue-400" />}
+                                {activeTab === 'moderation' && <ShieldAlert size={20} className="text-blue-400" />}
+                                {activeTab === 'school' && <Building2 size={20} className="text-blue-400" />}
+                                {activeTab === 'roles' && <UserCog size={20} className="text-blue-400" />}
                                 {activeTab.charAt(0).toUpperCase() + activeTab.slice(1)}
                             </div>
                             <div className="flex items-center gap-3">
@@ -674,6 +777,17 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                             {activeTab === 'overview' && renderOverview()}
                             {activeTab === 'students' && renderStudentsView()}
                             {activeTab === 'tools' && renderToolsGrid()}
+                            {activeTab === 'usage' && (
+                                selectedClass.grade === 'All'
+                                    ? <AIUsageDashboard />
+                                    : <AIUsageDashboard classLevel={selectedClass.grade} section={selectedClass.section} />
+                            )}
+                            {activeTab === 'curriculum' && (
+                                <CurriculumManager userId={user.id} classLevel={selectedClass.grade === 'All' ? undefined : selectedClass.grade} />
+                            )}
+                            {activeTab === 'moderation' && <ModerationQueue userId={user.id} />}
+                            {activeTab === 'school' && isAdmin(user) && <SchoolSettings school={school} onSaved={setSchool} />}
+                            {activeTab === 'roles' && <RoleManager user={user} />}
                             
                             {/* Community Features */}
                             {activeTab === 'feed' && (
@@ -688,7 +802,7 @@ const TeacherApp: React.FC<TeacherAppProps> = ({ user, onLogout }) => {
                             )}
                             {activeTab === 'notes' && (
                                 <div className="h-full p-4 overflow-hidden">
-                                    <FeatureWrapper><CommunityNotes userId={user.id} username={user.username} /></FeatureWrapper>
+                                    <FeatureWrapper><CommunityNotes userId={user.id} username={user.username} userRole={user.role} /></FeatureWrapper>
                                 </div>
                             )}
                             {activeTab === 'leaderboard' && (
@@ -0,0 +1,229 @@
+
+import React, { useEffect, useState } from 'react';
+import { Activity, Coins, Clock, AlertTriangle, Layers, Users, GraduationCap, Loader2, RefreshCw, FileText } from 'lucide-react';
+import { fetchAIUsage, AIUsageRecord, AI_FEATURE_LABELS, AIFeature, estimateCostUSD, getDailyTokenQuota } from '../services/aiUsage';
+import { showToast } from '../utils/notificationUtils';
+
+interface AIUsageDashboardProps {
+    // When set, only usage from this class/section is shown.
+    classLevel?: string;
+    section?: string;
+}
+
+interface UsageBucket {
+    key: string;
+    label: string;
+    calls: number;
+    failures: number;
+    fallbacks: number;
+    tokens: number;
+    cost: number;
+    latencyTotal: number;
+}
+
+const RANGE_OPTIONS = [7, 30];
+
+const emptyBucket = (key: string, label: string): UsageBucket => ({ key, label, calls: 0, failures: 0, fallbacks: 0, tokens: 0, cost: 0, latencyTotal: 0 });
+
+const isFailure = (row: AIUsageRecord) => row.outcome !== 'success' && row.outcome !== 'interrupted';
+
+const groupBy = (rows: AIUsageRecord[], keyOf: (r: AIUsageRecord) => string, labelOf: (key: string, r: AIUsageRecord) => string) => {
+    const buckets: Record<string, UsageBucket> = {};
+    rows.forEach(r => {
+        const key = keyOf(r);
+        const bucket = buckets[key] || (buckets[key] = emptyBucket(key, labelOf(key, r)));
+        const tokens = r.prompt_tokens + r.completion_tokens;
+        bucket.calls++;
+        bucket.tokens += tokens;
+        bucket.cost += estimateCostUSD(r.model, r.prompt_tokens, r.completion_tokens);
+        bucket.latencyTotal += r.latency_ms;
+        if (isFailure(r)) bucket.failures++;
+        if (r.fallback_depth > 0) bucket.fallbacks++;
+    });
+    return Object.values(buckets);
+};
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(3) : usd.toFixed(2)}`;
+const dayKey = (iso: string) => iso.slice(0, 10);
+
+const AIUsageDashboard: React.FC<AIUsageDashboardProps> = ({ classLevel, section }) => {
+    const [rangeDays, setRangeDays] = useState(7);
+    const [rows, setRows] = useState<AIUsageRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        loadUsage();
+    }, [rangeDays, classLevel, section]);
+
+    const loadUsage = async () => {
+        setLoading(true);
+        const since = new Date();
+        since.setHours(0, 0, 0, 0);
+        since.setDate(since.getDate() - (rangeDays - 1));
+        try {
+            setRows(await fetchAIUsage({ since, classLevel, section }));
+        } catch (e: any) {
+            showToast("Could not load AI usage: " + e.message, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="h-full flex items-center justify-center text-slate-400">
+                <Loader2 className="animate-spin mr-2" /> Loading usage...
+            </div>
+        );
+    }
+
+    const totals = groupBy(rows, () => 'all', () => 'All')[0] || emptyBucket('all', 'All');
+    const byDay = groupBy(rows, r => dayKey(r.created_at), key => new Date(key).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+    const byFeature = groupBy(rows, r => r.feature, key => AI_FEATURE_LABELS[key as AIFeature] || key)
+        .sort((a, b) => b.tokens - a.tokens);
+    const byClass = groupBy(rows.filter(r => r.class_level), r => `${r.class_level}-${r.section || '?'}`, key => `Class ${key}`)
+        .sort((a, b) => b.tokens - a.tokens);
+    const byModel = groupBy(rows.filter(r => r.model), r => r.model!, key => key)
+        .sort((a, b) => b.calls - a.calls);
+    // Side-by-side numbers for prompt versions and A/B variants
+    const byPrompt = groupBy(rows.filter(r => r.prompt_ref), r => r.prompt_ref!, key => key)
+        .sort((a, b) => a.key.localeCompare(b.key));
+
+    // Today's heaviest students against the daily quota
+    const today = dayKey(new Date().toISOString());
+    const quota = getDailyTokenQuota();
+    const topStudents = groupBy(rows.filter(r => r.user_id && dayKey(r.created_at) === today), r => r.user_id!, (_, r) => r.users?.display_name || r.users?.username || 'Unknown')
+        .sort((a, b) => b.tokens - a.tokens)
+        .slice(0, 8);
+
+    const peakDayTokens = Math.max(1, ...byDay.map(d => d.tokens));
+    const statCards = [
+        { label: 'AI Calls', value: totals.calls.toLocaleString(), icon: <Activity size={24} />, color: 'bg-blue-500/20 text-blue-400' },
+        { label: 'Tokens', value: formatTokens(totals.tokens), icon: <Layers size={24} />, color: 'bg-purple-500/20 text-purple-400' },
+        { label: 'Est. Cost', value: formatCost(totals.cost), icon: <Coins size={24} />, color: 'bg-yellow-500/20 text-yellow-400' },
+        { label: 'Avg Latency', value: totals.calls ? `${(totals.latencyTotal / totals.calls / 1000).toFixed(1)}s` : '-', icon: <Clock size={24} />, color: 'bg-green-500/20 text-green-400' },
+        { label: 'Failed / Fallback', value: `${totals.failures} / ${totals.fallbacks}`, icon: <AlertTriangle size={24} />, color: 'bg-red-500/20 text-red-400' }
+    ];
+
+    const renderTable = (title: string, icon: React.ReactNode, buckets: UsageBucket[]) => (
+        <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">{icon} {title}</h3>
+            {buckets.length === 0 ? (
+                <p className="text-sm text-slate-500">No data for this period.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-xs uppercase text-slate-500 text-left">
+                            <th className="pb-2 font-bold">Name</th>
+                            <th className="pb-2 font-bold text-right">Calls</th>
+                            <th className="pb-2 font-bold text-right">Tokens</th>
+                            <th className="pb-2 font-bold text-right">Cost</th>
+                            <th className="pb-2 font-bold text-right">Failed</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {buckets.map(b => (
+                            <tr key={b.key} className="border-t border-slate-800 text-slate-300">
+                                <td className="py-2 truncate max-w-[12rem]">{b.label}</td>
+                                <td className="py-2 text-right">{b.calls}</td>
+                                <td className="py-2 text-right">{formatTokens(b.tokens)}</td>
+                                <td className="py-2 text-right">{formatCost(b.cost)}</td>
+                                <td className={`py-2 text-right ${b.failures ? 'text-red-400' : 'text-slate-500'}`}>{b.failures}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-6">
+            <div className="flex items-center justify-between mb-6">
+                <p className="text-slate-400 text-sm">
+                    {classLevel ? `AI usage for Class ${classLevel}-${section}` : 'AI usage across the whole school'} · costs are estimates from published model prices
+                </p>
+                <div className="flex items-center gap-2">
+                    {RANGE_OPTIONS.map(days => (
+                        <button
+                            key={days}
+                            onClick={() => setRangeDays(days)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${rangeDays === days ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                        >
+                            {days} days
+                        </button>
+                    ))}
+                    <button onClick={loadUsage} className="p-2 rounded-lg bg-slate-800 text-slate-400 hover:text-white" title="Refresh"><RefreshCw size={14} /></button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+                {statCards.map(card => (
+                    <div key={card.label} className="glass-panel p-5 rounded-2xl bg-slate-900 border border-slate-800">
+                        <div className="flex justify-between items-start mb-3">
+                            <div className={`p-2 rounded-xl ${card.color}`}>{card.icon}</div>
+                            <span className="text-[10px] font-bold text-slate-500 uppercase text-right">{card.label}</span>
+                        </div>
+                        <div className="text-2xl font-bold text-white">{card.value}</div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Daily token chart */}
+            <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800 mb-6">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Activity size={18} className="text-blue-400" /> Tokens per Day</h3>
+                {byDay.length === 0 ? (
+                    <p className="text-sm text-slate-500">No AI calls in this period.</p>
+                ) : (
+                    <div className="flex items-end gap-2 h-40">
+                        {byDay.map(d => (
+                            <div key={d.key} className="flex-1 flex flex-col items-center justify-end h-full" title={`${d.calls} calls · ${formatTokens(d.tokens)} tokens · ${formatCost(d.cost)}`}>
+                                <div className="w-full bg-blue-500/70 rounded-t" style={{ height: `${Math.max(2, (d.tokens / peakDayTokens) * 100)}%` }} />
+                                <span className="text-[10px] text-slate-500 mt-1 whitespace-nowrap">{d.label}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {renderTable('By Feature', <Layers size={18} className="text-purple-400" />, byFeature)}
+                {renderTable('By Model', <Activity size={18} className="text-green-400" />, byModel)}
+                {!classLevel && renderTable('By Class', <GraduationCap size={18} className="text-cyan-400" />, byClass)}
+                {renderTable('By Prompt Version', <FileText size={18} className="text-pink-400" />, byPrompt)}
+
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Users size={18} className="text-yellow-400" /> Today's Heaviest Users</h3>
+                    {topStudents.length === 0 ? (
+                        <p className="text-sm text-slate-500">No student AI usage today.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {topStudents.map(s => {
+                                const percent = quota > 0 ? Math.min(100, Math.round((s.tokens / quota) * 100)) : 0;
+                                return (
+                                    <div key={s.key}>
+                                        <div className="flex justify-between text-sm mb-1">
+                                            <span className="text-slate-300">{s.label}</span>
+                                            <span className={percent >= 100 ? 'text-red-400' : 'text-slate-500'}>
+                                                {formatTokens(s.tokens)}{quota > 0 ? ` / ${formatTokens(quota)}` : ''}
+                                            </span>
+                                        </div>
+                                        {quota > 0 && (
+                                            <div className="w-full bg-black/40 rounded-full h-1.5 overflow-hidden">
+                                                <div className={`h-full rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 75 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${percent}%` }} />
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AIUsageDashboard;
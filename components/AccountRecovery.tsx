@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { KeyRound, Mail, Loader2, AlertCircle, ArrowLeft, Ticket } from 'lucide-react';
+import { showToast } from '../utils/notificationUtils';
+import { requestPasswordReset, resetPassword, checkNewPassword } from '../services/account';
+import { completeAccountSetup } from '../services/roster';
+
+interface AccountRecoveryProps {
+    // 'forgot' asks for the account; 'reset' sets a new password from an emailed link;
+    // 'setup' sets the first password of an imported account from a teacher's setup code
+    mode: 'forgot' | 'reset' | 'setup';
+    token?: string;
+    // Gets the username to sign in with after a setup
+    onDone: (username?: string) => void;
+}
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm";
+
+export const AccountRecovery: React.FC<AccountRecoveryProps> = ({ mode, token, onDone }) => {
+    const [identifier, setIdentifier] = useState('');
+    const [setupCode, setSetupCode] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [sent, setSent] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setLoading(true);
+        try {
+            if (mode === 'forgot') {
+                await requestPasswordReset(identifier);
+                setSent(true);
+            } else if (mode === 'setup') {
+                const problem = checkNewPassword(password, confirmation);
+                if (problem) throw new Error(problem);
+                const username = await completeAccountSetup(setupCode, password);
+                showToast(`Account ready. Sign in as ${username}.`, 'success');
+                onDone(username);
+            } else {
+                const problem = checkNewPassword(password, confirmation);
+                if (problem) throw new Error(problem);
+                await resetPassword(token || '', password);
+                showToast('Password changed. Sign in with your new password.', 'success');
+                onDone();
+            }
+        } catch (err: any) {
+            setError(err.message || 'Something went wrong.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (sent) {
+        return (
+            <div className="space-y-4 text-center">
+                <Mail size={32} className="mx-auto text-cyan-300" />
+                <p className="text-sm text-white/80">If an account matches, we've sent a reset link to its school email. It works for 30 minutes.</p>
+                <button onClick={() => onDone()} className="text-xs text-white/50 hover:text-white hover:underline">Back to login</button>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <h2 className="text-sm font-bold flex items-center gap-2 text-white/90">
+                {mode === 'setup' ? <><Ticket size={16} /> Set up your account</> : <><KeyRound size={16} /> {mode === 'forgot' ? 'Forgot your password?' : 'Choose a new password'}</>}
+            </h2>
+
+            {error && (
+                <div className="bg-red-500/20 border border-red-500/50 p-2.5 rounded-lg flex items-center gap-2 text-xs text-red-200 animate-in slide-in-from-top-1">
+                    <AlertCircle size={14} />
+                    {error}
+                </div>
+            )}
+
+            {mode === 'forgot' ? (
+                <div>
+                    <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Username or school email</label>
+                    <input type="text" required value={identifier} onChange={(e) => setIdentifier(e.target.value)} className={inputClass} />
+                </div>
+            ) : (
+                <>
+                    {mode === 'setup' && (
+                        <div>
+                            <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Setup code from your teacher</label>
+                            <input type="text" required value={setupCode} onChange={(e) => setSetupCode(e.target.value)} className={`${inputClass} font-mono uppercase tracking-widest`} placeholder="ABCD-2345" />
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">New password</label>
+                        <input type="password" required value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} placeholder="••••••••" />
+                    </div>
+                    <div>
+                        <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Repeat new password</label>
+                        <input type="password" required value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={inputClass} placeholder="••••••••" />
+                    </div>
+                </>
+            )}
+
+            <button
+                type="submit"
+                disabled={loading}
+                className="w-full font-bold py-3 rounded-lg shadow-lg transition-all flex items-center justify-center gap-2 mt-2 text-sm text-white bg-gradient-to-r from-cyan-600 to-purple-600 hover:from-cyan-500 hover:to-purple-500"
+            >
+                {loading ? <Loader2 className="animate-spin" size={16} /> : mode === 'forgot' ? 'Email me a reset link' : mode === 'setup' ? 'Activate account' : 'Save new password'}
+            </button>
+
+            <button type="button" onClick={() => onDone()} className="w-full flex items-center justify-center gap-1 text-xs text-white/50 hover:text-white hover:underline">
+                <ArrowLeft size={12} /> Back to login
+            </button>
+        </form>
+    );
+};
@@ -1,13 +1,20 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { supabase } from '../services/supabaseClient';
-import { Atom, LogIn, UserPlus, Loader2, AlertCircle, GraduationCap, School, AlertTriangle, ShieldAlert, Ban } from 'lucide-react';
+import { Atom, LogIn, UserPlus, Loader2, AlertCircle, GraduationCap, School, AlertTriangle, ShieldAlert, Ban, Heart } from 'lucide-react';
 import { showToast } from '../utils/notificationUtils';
+import { isGatewayEnabled, signIn, signUp, GatewayRequestError } from '../services/gatewayClient';
+import { verifyEmail, resendVerification } from '../services/account';
+import { AccountRecovery } from './AccountRecovery';
+import { findSchoolForEmail, checkSignupEmail, emailPlaceholder, schoolClasses } from '../services/schools';
+import { School as SchoolRecord } from '../types';
 
 interface AuthProps {
     onLogin: (user: any) => void;
 }
 
+const ROLE_NAMES = { student: 'Student', teacher: 'Teacher', parent: 'Parent' };
+
 export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -17,32 +24,136 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
   const [studentClass, setStudentClass] = useState('8');
   const [section, setSection] = useState('A');
   const [teacherConfirmation, setTeacherConfirmation] = useState(false);
+  // Parents sign up with a code from their child or the child's teacher
+  const [inviteCode, setInviteCode] = useState('');
+  // School matching the signup email's domain; decides the email rules and class list
+  const [signupSchool, setSignupSchool] = useState<SchoolRecord | null>(null);
 
   const [loading, setLoading] = useState(false);
   const [isLogin, setIsLogin] = useState(true);
-  const [role, setRole] = useState<'student' | 'teacher'>('student');
+  const [role, setRole] = useState<'student' | 'teacher' | 'parent'>('student');
   const [error, setError] = useState<string | null>(null);
 
+  // Password reset / verification links land here as ?reset=... or ?verify=...
+  const [recovery, setRecovery] = useState<'forgot' | 'reset' | 'setup' | null>(null);
+  const [resetToken, setResetToken] = useState('');
+  // Username of an account that still has to confirm its email
+  const [unverified, setUnverified] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const verifyToken = params.get('verify');
+    const reset = params.get('reset');
+    if (!verifyToken && !reset) return;
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (reset) {
+        setResetToken(reset);
+        setRecovery('reset');
+    } else if (verifyToken) {
+        verifyEmail(verifyToken)
+            .then(() => showToast('Email confirmed. You can sign in now.', 'success'))
+            .catch((err: any) => showToast(err.message, 'error'));
+    }
+  }, []);
+
+  // Look up the school once the address has a domain
+  useEffect(() => {
+    if (isLogin || role === 'parent' || !email.includes('@')) return;
+    const timer = setTimeout(() => {
+        findSchoolForEmail(email)
+            .then(school => setSignupSchool(prev => (prev?.id === school?.id ? prev : school)))
+            .catch(err => console.warn("Could not look up school", err));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [email, isLogin, role]);
+
+  const classes = schoolClasses(signupSchool);
+  const sectionsForClass = classes.find(c => c.level === studentClass)?.sections || [];
+
+  // Keep the class and section valid for the selected school
+  useEffect(() => {
+    if (!classes.some(c => c.level === studentClass)) setStudentClass(classes[classes.length - 1].level);
+    else if (!sectionsForClass.includes(section)) setSection(sectionsForClass[0] || '');
+  }, [signupSchool, studentClass]);
+
+  const handleResend = async () => {
+    if (!unverified) return;
+    try {
+        await resendVerification(unverified);
+        showToast('Verification email sent. Check your school inbox.', 'success');
+    } catch (err: any) {
+        showToast(err.message, 'error');
+    }
+  };
+
+  // With a gateway, sign-in goes through it and returns a server session.
+  // Without one (local development) the RPCs are called directly and nothing is stored server-side.
+  const loginUser = async () => {
+    if (isGatewayEnabled()) return signIn(username, password);
+
+    const { data, error } = await supabase.rpc('login_user', {
+        username_input: username,
+        password_input: password
+    });
+    if (error) throw error;
+    if (!data.success) {
+        throw new Error(data.message || 'Login failed');
+    }
+    if (data.user.account_status === 'revoked') {
+        throw new Error('This account has been disabled. Ask a school admin if you think this is a mistake.');
+    }
+    if (data.user.account_status === 'archived') {
+        throw new Error('This account has been archived. Ask your teacher if you are still at the school.');
+    }
+    return data.user;
+  };
+
+  // Returns the new user, or null when they must confirm their email first (gateway mode)
+  const signupUser = async (schoolId: string | null) => {
+    const details = {
+        username,
+        password,
+        role,
+        email,
+        schoolId,
+        classLevel: role === 'student' ? studentClass : null,
+        section: role === 'student' ? section : null,
+        ...(role === 'parent' ? { inviteCode } : {})
+    };
+    if (isGatewayEnabled()) {
+        const result = await signUp(details);
+        const approvalNote = result.approvalRequired ? ' A teacher or admin at your school will then approve your teacher account.' : '';
+        showToast(`Account created! Open the link we sent to ${result.email} to confirm it, then sign in.${approvalNote}`, 'success');
+        return null;
+    }
+
+    // Note: The RPC must be updated to accept email, class, and section
+    const { data, error } = await supabase.rpc('signup_user', {
+        username_input: details.username,
+        password_input: details.password,
+        role_input: details.role,
+        email_input: details.email,
+        class_input: details.classLevel,
+        section_input: details.section,
+        school_input: details.schoolId
+    });
+    if (error) throw error;
+    if (!data.success) {
+        throw new Error(data.message || 'Signup failed');
+    }
+    return data.user;
+  };
+
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
+    setUnverified(null);
 
     try {
       if (isLogin) {
-        // Secure Login via RPC
-        const { data, error } = await supabase.rpc('login_user', {
-            username_input: username,
-            password_input: password
-        });
-
-        if (error) throw error;
-        
-        if (!data.success) {
-            throw new Error(data.message || 'Login failed');
-        }
-
-        const userData = data.user;
+        const userData = await loginUser();
         
         // Basic check to ensure role matches if required
         if (userData.role && userData.role !== role) {
@@ -54,57 +165,42 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
 
       } else {
         // --- SIGNUP VALIDATION ---
-        
-        // 1. Gurukul Email Validation
-        if (!email.endsWith('@gurukultheschool.com')) {
-             throw new Error("Email must be a valid @gurukultheschool.com address.");
+
+        // Parents can use any address; the invite code links them to their child's school
+        if (role === 'parent') {
+            if (!isGatewayEnabled()) throw new Error("Parent accounts are not available on this server yet.");
+            if (!inviteCode.trim()) throw new Error("Enter the invite code from your child or their teacher.");
+            await signupUser(null);
+            setIsLogin(true);
+            setPassword('');
+            return;
         }
 
-        if (role === 'student') {
-            // Regex: Starts with letters, followed by exactly 4 digits, then @gurukultheschool.com
-            const studentEmailRegex = /^[a-zA-Z]+\d{4}@gurukultheschool\.com$/;
-            
-            if (!studentEmailRegex.test(email)) {
-                throw new Error("Student email must format: name1234@gurukultheschool.com");
-            }
-        } else if (role === 'teacher') {
-             // 1. Check Confirmation
-             if (!teacherConfirmation) {
-                 throw new Error("You must confirm you are a teacher to proceed.");
-             }
-
-             // Teacher regex: Flexible name part NO NUMBERS, strictly gurukultheschool.com domain
-             // e.g. akshaj@gurukultheschool.com
-             // Using character class that excludes 0-9
-             const teacherEmailRegex = /^[a-zA-Z._%+-]+@gurukultheschool\.com$/;
-             if (!teacherEmailRegex.test(email)) {
-                 throw new Error("Teacher email must contain only letters (no numbers) before @gurukultheschool.com");
-             }
+        // 1. The email domain decides the school; each school sets its own address rules
+        const school = await findSchoolForEmail(email);
+        if (!school) {
+             throw new Error(`No school on Science Buddy uses @${email.split('@')[1] || '...'} addresses. Use your school email.`);
         }
+        const emailProblem = checkSignupEmail(school, role, email);
+        if (emailProblem) throw new Error(emailProblem);
 
-        // Secure Signup via RPC
-        // Note: The RPC must be updated to accept email, class, and section
-        const { data, error } = await supabase.rpc('signup_user', {
-            username_input: username,
-            password_input: password,
-            role_input: role,
-            email_input: email,
-            class_input: role === 'student' ? studentClass : null,
-            section_input: role === 'student' ? section : null
-        });
-
-        if (error) throw error;
-
-        if (!data.success) {
-            throw new Error(data.message || 'Signup failed');
+        if (role === 'teacher' && !teacherConfirmation) {
+             throw new Error("You must confirm you are a teacher to proceed.");
         }
 
+        const newUser = await signupUser(school.id);
+        if (!newUser) {
+            setIsLogin(true);
+            setPassword('');
+            return;
+        }
         showToast(`Signup successful! Welcome, ${role === 'teacher' ? 'Professor' : 'Student'}!`, 'success');
-        onLogin(data.user);
+        onLogin(newUser);
       }
     } catch (err: any) {
       console.error(err);
       setError(err.message || 'An error occurred');
+      if (err instanceof GatewayRequestError && err.code === 'email_unverified') setUnverified(username);
       showToast(err.message || 'Authentication failed', 'error');
       // Clear password on error so user can retype easily
       setPassword('');
@@ -136,171 +232,214 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
                 </h1>
             </div>
 
-            {/* Role Switcher */}
-            <div className="flex bg-black/20 p-1 rounded-xl mb-6">
-                <button 
-                    type="button" 
-                    onClick={() => { setRole('student'); setTeacherConfirmation(false); }}
-                    className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all ${role === 'student' ? 'bg-cyan-600 text-white shadow-lg' : 'text-white/50 hover:bg-white/5'}`}
-                >
-                    <GraduationCap size={16} /> Student
-                </button>
-                <button 
-                    type="button" 
-                    onClick={() => { setRole('teacher'); setError(null); }}
-                    className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all ${role === 'teacher' ? 'bg-purple-600 text-white shadow-lg' : 'text-white/50 hover:bg-white/5'}`}
-                >
-                    <School size={16} /> Teacher
-                </button>
-            </div>
+            {recovery ? (
+              <AccountRecovery mode={recovery} token={resetToken} onDone={(name) => { setRecovery(null); if (name) { setUsername(name); setRole('student'); } }} />
+            ) : (
+              <>
+              {/* Role Switcher */}
+              <div className="flex bg-black/20 p-1 rounded-xl mb-6">
+                  <button 
+                      type="button" 
+                      onClick={() => { setRole('student'); setTeacherConfirmation(false); }}
+                      className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all ${role === 'student' ? 'bg-cyan-600 text-white shadow-lg' : 'text-white/50 hover:bg-white/5'}`}
+                  >
+                      <GraduationCap size={16} /> Student
+                  </button>
+                  <button 
+                      type="button" 
+                      onClick={() => { setRole('teacher'); setError(null); }}
+                      className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all ${role === 'teacher' ? 'bg-purple-600 text-white shadow-lg' : 'text-white/50 hover:bg-white/5'}`}
+                  >
+                      <School size={16} /> Teacher
+                  </button>
+                  <button 
+                      type="button" 
+                      onClick={() => { setRole('parent'); setTeacherConfirmation(false); setError(null); }}
+                      className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all ${role === 'parent' ? 'bg-pink-600 text-white shadow-lg' : 'text-white/50 hover:bg-white/5'}`}
+                  >
+                      <Heart size={16} /> Parent
+                  </button>
+              </div>
 
-            {/* TEACHER WARNING */}
-            {!isLogin && role === 'teacher' && (
-                <div className="mb-6 p-5 bg-[#1a0505] border-2 border-red-600 rounded-xl flex flex-col gap-4 animate-in fade-in zoom-in duration-300 shadow-[0_0_50px_rgba(220,38,38,0.4)] relative overflow-hidden">
-                    {/* Pulsing overlay */}
-                    <div className="absolute inset-0 bg-red-500/5 animate-pulse pointer-events-none"></div>
+              {/* TEACHER WARNING */}
+              {!isLogin && role === 'teacher' && (
+                  <div className="mb-6 p-5 bg-[#1a0505] border-2 border-red-600 rounded-xl flex flex-col gap-4 animate-in fade-in zoom-in duration-300 shadow-[0_0_50px_rgba(220,38,38,0.4)] relative overflow-hidden">
+                      {/* Pulsing overlay */}
+                      <div className="absolute inset-0 bg-red-500/5 animate-pulse pointer-events-none"></div>
                     
-                    <div className="flex gap-3 relative z-10">
-                        <div className="shrink-0">
-                            <ShieldAlert className="text-red-500 animate-[pulse_1s_infinite]" size={32} />
-                        </div>
-                        <div>
-                            <h4 className="text-red-500 font-black text-sm uppercase mb-2 tracking-widest border-b border-red-900/50 pb-1 flex items-center gap-2">
-                                RESTRICTED ACCESS
-                            </h4>
-                            <p className="text-[11px] text-red-200 leading-relaxed font-semibold">
-                                <span className="text-white bg-red-600 px-1 rounded mr-1">STOP</span>
-                                Impersonating faculty is a <span className="underline decoration-red-500 decoration-2">Level 4 Cyber Violation</span>.
-                            </p>
-                            <div className="mt-3 space-y-1.5">
-                                <div className="flex items-center gap-2 text-[10px] text-red-300">
-                                    <Ban size={12} /> <span>Immediate Permanent Suspension</span>
-                                </div>
-                                <div className="flex items-center gap-2 text-[10px] text-red-300">
-                                    <AlertTriangle size={12} /> <span>Report sent to Principal & Parents</span>
-                                </div>
-                                <div className="flex items-center gap-2 text-[10px] text-red-300">
-                                    <AlertCircle size={12} /> <span>Device IP & Location Logged</span>
-                                </div>
-                            </div>
-                        </div>
-                    </div>
+                      <div className="flex gap-3 relative z-10">
+                          <div className="shrink-0">
+                              <ShieldAlert className="text-red-500 animate-[pulse_1s_infinite]" size={32} />
+                          </div>
+                          <div>
+                              <h4 className="text-red-500 font-black text-sm uppercase mb-2 tracking-widest border-b border-red-900/50 pb-1 flex items-center gap-2">
+                                  RESTRICTED ACCESS
+                              </h4>
+                              <p className="text-[11px] text-red-200 leading-relaxed font-semibold">
+                                  <span className="text-white bg-red-600 px-1 rounded mr-1">STOP</span>
+                                  Impersonating faculty is a <span className="underline decoration-red-500 decoration-2">Level 4 Cyber Violation</span>.
+                              </p>
+                              <div className="mt-3 space-y-1.5">
+                                  <div className="flex items-center gap-2 text-[10px] text-red-300">
+                                      <Ban size={12} /> <span>Immediate Permanent Suspension</span>
+                                  </div>
+                                  <div className="flex items-center gap-2 text-[10px] text-red-300">
+                                      <AlertTriangle size={12} /> <span>Report sent to Principal & Parents</span>
+                                  </div>
+                                  <div className="flex items-center gap-2 text-[10px] text-red-300">
+                                      <AlertCircle size={12} /> <span>Device IP & Location Logged</span>
+                                  </div>
+                              </div>
+                          </div>
+                      </div>
                     
-                    <label className="relative z-10 flex items-start gap-3 p-3 bg-red-950/50 rounded-lg border border-red-500/50 cursor-pointer hover:bg-red-900/40 transition-colors group">
-                        <input 
-                            type="checkbox" 
-                            checked={teacherConfirmation} 
-                            onChange={(e) => setTeacherConfirmation(e.target.checked)}
-                            className="mt-0.5 w-5 h-5 accent-red-600 bg-black/50 border-red-500 rounded focus:ring-red-500 focus:ring-offset-0 cursor-pointer"
-                        />
-                        <span className="text-[11px] font-bold text-red-100 select-none group-hover:text-white transition-colors">
-                            I am a verified Faculty Member. I understand that false impersonation will result in severe disciplinary action.
-                        </span>
-                    </label>
-                </div>
-            )}
+                      <label className="relative z-10 flex items-start gap-3 p-3 bg-red-950/50 rounded-lg border border-red-500/50 cursor-pointer hover:bg-red-900/40 transition-colors group">
+                          <input 
+                              type="checkbox" 
+                              checked={teacherConfirmation} 
+                              onChange={(e) => setTeacherConfirmation(e.target.checked)}
+                              className="mt-0.5 w-5 h-5 accent-red-600 bg-black/50 border-red-500 rounded focus:ring-red-500 focus:ring-offset-0 cursor-pointer"
+                          />
+                          <span className="text-[11px] font-bold text-red-100 select-none group-hover:text-white transition-colors">
+                              I am a verified Faculty Member. I understand that false impersonation will result in severe disciplinary action.
+                          </span>
+                      </label>
+                  </div>
+              )}
 
-            <form onSubmit={handleAuth} className="space-y-3">
-                {error && (
-                    <div className="bg-red-500/20 border border-red-500/50 p-2.5 rounded-lg flex items-center gap-2 text-xs text-red-200 animate-in slide-in-from-top-1">
-                        <AlertCircle size={14} />
-                        {error}
-                    </div>
-                )}
+              <form onSubmit={handleAuth} className="space-y-3">
+                  {error && (
+                      <div className="bg-red-500/20 border border-red-500/50 p-2.5 rounded-lg flex items-center gap-2 text-xs text-red-200 animate-in slide-in-from-top-1">
+                          <AlertCircle size={14} />
+                          {error}
+                      </div>
+                  )}
+                  {unverified && (
+                      <button type="button" onClick={handleResend} className="w-full text-xs text-cyan-300 hover:text-white hover:underline">
+                          Resend verification email
+                      </button>
+                  )}
 
-                <div>
-                    <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Username</label>
-                    <input
-                        type="text"
-                        required
-                        value={username}
-                        onChange={(e) => setUsername(e.target.value)}
-                        className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm"
-                        placeholder={role === 'teacher' ? "Mr. Sharma" : "ScienceWizard123"}
-                    />
-                </div>
+                  <div>
+                      <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Username</label>
+                      <input
+                          type="text"
+                          required
+                          value={username}
+                          onChange={(e) => setUsername(e.target.value)}
+                          className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm"
+                          placeholder={role === 'teacher' ? "Mr. Sharma" : role === 'parent' ? "AshasMum" : "ScienceWizard123"}
+                      />
+                  </div>
 
-                {/* Email Field for Signup (Both Roles) */}
-                {!isLogin && (
-                    <div>
-                        <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Gurukul Email</label>
-                        <input
-                            type="email"
-                            required
-                            value={email}
-                            onChange={(e) => setEmail(e.target.value)}
-                            className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm"
-                            placeholder={role === 'teacher' ? "name@gurukultheschool.com" : "name1234@gurukultheschool.com"}
-                        />
-                    </div>
-                )}
+                  {/* Email Field for Signup (Both Roles) */}
+                  {!isLogin && (
+                      <div>
+                          <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">{role === 'parent' ? 'Email' : signupSchool ? `${signupSchool.name} Email` : 'School Email'}</label>
+                          <input
+                              type="email"
+                              required
+                              value={email}
+                              onChange={(e) => setEmail(e.target.value)}
+                              className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm"
+                              placeholder={role === 'parent' ? 'you@example.com' : emailPlaceholder(signupSchool, role)}
+                          />
+                      </div>
+                  )}
 
-                {/* Additional Fields for Student Signup */}
-                {!isLogin && role === 'student' && (
-                    <div className="grid grid-cols-2 gap-3">
-                        <div>
-                            <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Class</label>
-                            <select 
-                                value={studentClass}
-                                onChange={(e) => setStudentClass(e.target.value)}
-                                className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white focus:outline-none focus:border-cyan-400/50 transition-all text-sm appearance-none"
-                            >
-                                <option value="6" className="bg-slate-900">Class 6</option>
-                                <option value="7" className="bg-slate-900">Class 7</option>
-                                <option value="8" className="bg-slate-900">Class 8</option>
-                            </select>
-                        </div>
-                        <div>
-                            <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Section</label>
-                            <select 
-                                value={section}
-                                onChange={(e) => setSection(e.target.value)}
-                                className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white focus:outline-none focus:border-cyan-400/50 transition-all text-sm appearance-none"
-                            >
-                                {['A', 'B', 'C', 'D', 'E', 'F', 'G']
-                                    .filter(sec => !(studentClass === '8' && sec === 'G')) // Remove G if Class 8
-                                    .map(sec => (
-                                    <option key={sec} value={sec} className="bg-slate-900">Section {sec}</option>
-                                ))}
-                            </select>
-                        </div>
-                    </div>
-                )}
+                  {!isLogin && role === 'parent' && (
+                      <div>
+                          <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Invite Code</label>
+                          <input
+                              type="text"
+                              required
+                              value={inviteCode}
+                              onChange={(e) => setInviteCode(e.target.value)}
+                              className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm font-mono uppercase tracking-widest"
+                              placeholder="ABCD-2345"
+                          />
+                      </div>
+                  )}
+
+                  {/* Additional Fields for Student Signup */}
+                  {!isLogin && role === 'student' && (
+                      <div className="grid grid-cols-2 gap-3">
+                          <div>
+                              <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Class</label>
+                              <select 
+                                  value={studentClass}
+                                  onChange={(e) => setStudentClass(e.target.value)}
+                                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white focus:outline-none focus:border-cyan-400/50 transition-all text-sm appearance-none"
+                              >
+                                  {classes.map(c => (
+                                      <option key={c.level} value={c.level} className="bg-slate-900">Class {c.level}</option>
+                                  ))}
+                              </select>
+                          </div>
+                          <div>
+                              <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Section</label>
+                              <select 
+                                  value={section}
+                                  onChange={(e) => setSection(e.target.value)}
+                                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white focus:outline-none focus:border-cyan-400/50 transition-all text-sm appearance-none"
+                              >
+                                  {sectionsForClass.map(sec => (
+                                      <option key={sec} value={sec} className="bg-slate-900">Section {sec}</option>
+                                  ))}
+                              </select>
+                          </div>
+                      </div>
+                  )}
                 
-                <div>
-                    <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Password</label>
-                    <input
-                        type="password"
-                        required
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm"
-                        placeholder="••••••••"
-                    />
-                </div>
+                  <div>
+                      <label className="block text-[10px] font-bold text-white/60 mb-1 ml-1 uppercase">Password</label>
+                      <input
+                          type="password"
+                          required
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2.5 text-white placeholder-white/30 focus:outline-none focus:border-cyan-400/50 focus:bg-black/40 transition-all text-sm"
+                          placeholder="••••••••"
+                      />
+                  </div>
 
-                <button
-                    type="submit"
-                    disabled={loading}
-                    className={`w-full font-bold py-3 rounded-lg shadow-lg transition-all flex items-center justify-center gap-2 mt-2 text-sm text-white ${role === 'teacher' ? 'bg-gradient-to-r from-red-600 to-red-800 hover:from-red-500 hover:to-red-700' : 'bg-gradient-to-r from-cyan-600 to-purple-600 hover:from-cyan-500 hover:to-purple-500'}`}
-                >
-                    {loading ? (
-                        <Loader2 className="animate-spin" size={16} />
-                    ) : isLogin ? (
-                        <><LogIn size={16} /> Login as {role === 'student' ? 'Student' : 'Teacher'}</>
-                    ) : (
-                        <><UserPlus size={16} /> Create {role === 'student' ? 'Student' : 'Teacher'} Account</>
-                    )}
-                </button>
-            </form>
+                  {isLogin && isGatewayEnabled() && (
+                      <div className="flex justify-between">
+                          <button type="button" onClick={() => { setRecovery('setup'); setError(null); }} className="text-[11px] text-white/50 hover:text-white hover:underline">
+                              Have a setup code?
+                          </button>
+                          <button type="button" onClick={() => { setRecovery('forgot'); setError(null); }} className="text-[11px] text-white/50 hover:text-white hover:underline">
+                              Forgot password?
+                          </button>
+                      </div>
+                  )}
+
+                  <button
+                      type="submit"
+                      disabled={loading}
+                      className={`w-full font-bold py-3 rounded-lg shadow-lg transition-all flex items-center justify-center gap-2 mt-2 text-sm text-white ${role === 'teacher' ? 'bg-gradient-to-r from-red-600 to-red-800 hover:from-red-500 hover:to-red-700' : 'bg-gradient-to-r from-cyan-600 to-purple-600 hover:from-cyan-500 hover:to-purple-500'}`}
+                  >
+                      {loading ? (
+                          <Loader2 className="animate-spin" size={16} />
+                      ) : isLogin ? (
+                          <><LogIn size={16} /> Login as {ROLE_NAMES[role]}</>
+                      ) : (
+                          <><UserPlus size={16} /> Create {ROLE_NAMES[role]} Account</>
+                      )}
+                  </button>
+              </form>
+              </>
+            )}
 
             <div className="mt-4 text-center">
-                <button
-                    onClick={() => { setIsLogin(!isLogin); setError(null); }}
-                    className="text-xs text-white/50 hover:text-white hover:underline transition-colors"
-                >
-                    {isLogin ? "New here? Create Account" : "Already have an account? Login"}
-                </button>
+                {!recovery && (
+                    <button
+                        onClick={() => { setIsLogin(!isLogin); setError(null); setUnverified(null); }}
+                        className="text-xs text-white/50 hover:text-white hover:underline transition-colors"
+                    >
+                        {isLogin ? "New here? Create Account" : "Already have an account? Login"}
+                    </button>
+                )}
                 
                 <div className="mt-6 pt-4 border-t border-white/10">
                     <p className="text-[10px] text-white/30 font-mono tracking-widest uppercase">Developed By Akshaj</p>
@@ -1,28 +1,27 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Plus, MessageSquare, Trash2, Bot, User, Settings, X, Save, History, Sparkles, Brain, Zap, Wifi } from 'lucide-react';
-import { ChatSession, ChatMessage } from '../types';
+import { Send, Plus, MessageSquare, Trash2, Bot, User, Settings, X, Save, History, Sparkles, Brain, Zap, Wifi, Square, BookOpen } from 'lucide-react';
+import { ChatSession, ChatMessage, ChatSummary, CurriculumCitation } from '../types';
 import { generateTitle } from '../services/aiService';
+import { streamChatCompletion, isAbortError, describeAIError } from '../services/llmProvider';
+import { fitHistoryToBudget, shouldSummarize, summarizeOlderTurns } from '../services/chatContext';
+import { renderPrompt } from '../services/promptRegistry';
+import { buildCurriculumContext, formatCitation, CurriculumContext } from '../services/curriculumStore';
 import { supabase } from '../services/supabaseClient';
+import { scopeToSchool, onlyActiveStudents } from '../services/schools';
 import { renderRichText } from '../utils/textUtils';
 import { Skeleton } from './Skeleton';
+import { t, languageInstruction } from '../utils/i18n';
 
 interface ChatInterfaceProps {
     userProfile: { name?: string | null, interests?: string };
     onUpdateProfile: (profile: { name?: string | null, interests?: string }) => void;
     userId?: string;
     initialSessionId?: string | null;
+    userClass?: string;
 }
 
-// Priority List: High Intelligence -> High Speed -> Reliable Fallback
-const FALLBACK_MODELS = [
-    "llama-3.3-70b-versatile", 
-    "llama-3.1-8b-instant", 
-    "mixtral-8x7b-32768",
-    "gemma2-9b-it"
-];
-
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProfile, userId, initialSessionId }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProfile, userId, initialSessionId, userClass }) => {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>('new');
   const [input, setInput] = useState('');
@@ -31,8 +30,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
   const [showHistoryMobile, setShowHistoryMobile] = useState(false);
   const [contextActive, setContextActive] = useState(false);
   const [activeModelUsed, setActiveModelUsed] = useState<string>("");
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Load Chats from Supabase on mount
   useEffect(() => {
@@ -61,6 +62,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
     loadChats();
   }, [userId, initialSessionId]);
 
+  // Cancel any in-flight stream when leaving the chat
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [sessions, currentSessionId, loading]);
@@ -111,7 +117,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
           // 5. Community Contributions
           supabase.from('community_notes').select('id', { count: 'exact' }).eq('user_id', userId),
           // 6. Leaderboard Position (Simplified)
-          supabase.from('users').select('id').order('total_points', { ascending: false })
+          onlyActiveStudents(scopeToSchool(supabase.from('users').select('id'))).order('total_points', { ascending: false })
       ]);
 
       const userData = userRes.data;
@@ -159,75 +165,47 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
       return context;
   };
 
-  // --- ROBUST GROQ API HANDLER WITH FALLBACKS ---
-  const handleDirectGroqCall = async (messages: any[], userContext: string) => {
-      // Fetch API Key
-      const { data: secretData } = await supabase.from('app_secrets').select('value').eq('name', 'GROQ_API_KEY').single();
-      const apiKey = secretData?.value;
+  // --- AI HANDLER (provider fallbacks live in llmProvider) ---
+  const handleDirectGroqCall = async (history: ChatMessage[], summary: ChatSummary | null | undefined, userContext: string, curriculum: CurriculumContext, onToken: (token: string) => void, signal: AbortSignal) => {
+      const systemPrompt = await renderPrompt('chat.system', { userContext, curriculumContext: curriculum.text, languageInstruction: languageInstruction() });
+
+      // Fit the newest turns (plus the rolling summary) into the model context
+      const chatWindow = fitHistoryToBudget(systemPrompt.text, history, summary);
+
+      const result = await streamChatCompletion({
+          messages: chatWindow.messages,
+          temperature: 0.7,
+          maxTokens: 2048,
+          signal,
+          feature: 'chat',
+          promptRef: systemPrompt.ref
+      }, onToken);
+      setActiveModelUsed(result.model); // Track which model worked
+      return { ...result, chatWindow };
+  };
 
-      if (!apiKey) throw new Error("API Key configuration missing.");
+  // Folds turns that dropped out of the window into the session summary, in the background
+  const refreshSessionSummary = async (sessionId: string, summary: ChatSummary | null | undefined, turns: ChatMessage[]) => {
+      const nextSummary = await summarizeOlderTurns(summary, turns);
+      if (!nextSummary) return;
+      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, summary: nextSummary } : s));
+      if (userId) await supabase.from('chat_sessions').update({ summary: nextSummary }).eq('id', sessionId);
+  };
 
-      const systemPrompt = `
-      You are "Science Buddy", an advanced AI tutor STRICTLY for CBSE/NCERT students.
-      
-      ${userContext}
-      
-      *** CRITICAL INSTRUCTIONS ***
-      1. **Strict Content Boundary**: You must ONLY use the NCERT Science Textbooks for the student's specific class level mentioned above. 
-         - If they are in Class 6, do NOT use definitions from Class 9.
-         - If they ask about something advanced (e.g. Quantum Physics), strictly say: "That's a bit advanced for Class [X]! In our book, we learn that..." and explain the basic version.
-      2. **Persona**: Adhere strictly to the "Personal AI Settings" above.
-      3. **Context**: You know EVERYTHING in the profile above. Reference their rank, quizzes, or research naturally.
-      4. **Format**: Use Markdown. **Bold** key terms. Use emojis 🌟.
-      5. **Simplicity**: Use simple language suitable for a middle school student.
-      `;
-
-      const apiMessages = [
-          { role: "system", content: systemPrompt },
-          ...messages
-      ];
-
-      // FALLBACK LOOP
-      let lastError = null;
-      for (const model of FALLBACK_MODELS) {
-          try {
-              // console.log(`Attempting with model: ${model}`); // Debugging
-              const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-                  method: "POST",
-                  headers: {
-                      "Authorization": `Bearer ${apiKey}`,
-                      "Content-Type": "application/json"
-                  },
-                  body: JSON.stringify({
-                      model: model,
-                      messages: apiMessages,
-                      temperature: 0.7,
-                      max_tokens: 2048
-                  })
-              });
-
-              if (!response.ok) {
-                  // If 429 (Rate Limit) or 5xx, throw to trigger next loop
-                  if (response.status === 429 || response.status >= 500) {
-                      throw new Error(`Model ${model} unavailable (Status ${response.status})`);
-                  }
-                  // Other errors might be permanent, but let's try fallback anyway
-                  throw new Error(`API Error ${response.status}`);
-              }
-
-              const data = await response.json();
-              setActiveModelUsed(model); // Track which model worked
-              return data.choices[0]?.message?.content || "";
-
-          } catch (e) {
-              console.warn(`Fallback: ${model} failed.`, e);
-              lastError = e;
-              // Continue to next model in loop
-          }
-      }
+  const stopStreaming = () => {
+      abortControllerRef.current?.abort();
+  };
 
-      // If we get here, all models failed
-      throw lastError || new Error("All AI models currently offline.");
+  const saveSession = async (session: ChatSession | undefined) => {
+      if (!userId || !session) return;
+      await supabase.from('chat_sessions').upsert({
+          id: session.id,
+          user_id: userId,
+          title: session.title,
+          messages: session.messages,
+          summary: session.summary ?? null,
+          created_at: session.createdAt
+      });
   };
 
   const handleSend = async () => {
@@ -286,57 +264,84 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
     setSessions(updatedSessions);
 
     // --- AI EXECUTION ---
-    try {
-        // 1. Fetch ALL Data
-        const contextString = await buildDeepUserContext();
-        
-        // 2. Prepare Unlimited History
-        const apiFormatMessages = sessionHistory.map(m => ({
-            role: m.role === 'model' ? 'assistant' : 'user',
-            content: m.text
+    const botMsgId = (Date.now() + 1).toString();
+    let streamedText = "";
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let citations: CurriculumCitation[] = [];
+
+    const buildBotMsg = (text: string): ChatMessage => ({
+        id: botMsgId,
+        role: 'model',
+        text,
+        timestamp: Date.now(),
+        meta: { type: 'text' },
+        ...(citations.length > 0 && { citations })
+    });
+
+    const renderBotText = (text: string) => {
+        const botMsg = buildBotMsg(text);
+        setSessions(prev => prev.map(s => {
+            if (s.id !== targetSessionId) return s;
+            const hasBot = s.messages.some(m => m.id === botMsgId);
+            return { ...s, messages: hasBot ? s.messages.map(m => m.id === botMsgId ? botMsg : m) : [...s.messages, botMsg] };
         }));
+    };
 
-        // 3. Call API with Fallback System
-        const responseText = await handleDirectGroqCall(apiFormatMessages, contextString);
-
-        const botMsg: ChatMessage = {
-            id: (Date.now() + 1).toString(),
-            role: 'model',
-            text: responseText,
-            timestamp: Date.now(),
-            meta: { type: 'text' }
-        };
+    const persistBotText = async (text: string) => {
+        renderBotText(text);
+        const baseSession = updatedSessions.find(s => s.id === targetSessionId);
+        if (baseSession) {
+            await saveSession({ ...baseSession, messages: [...baseSession.messages, buildBotMsg(text)] });
+        }
+    };
 
-        // 4. Update UI & DB
-        const finalSessions = updatedSessions.map(s => 
-            s.id === targetSessionId ? { ...s, messages: [...s.messages, botMsg] } : s
-        );
-        setSessions(finalSessions);
-
-        if (userId && targetSessionId) {
-            const sessionToSave = finalSessions.find(s => s.id === targetSessionId);
-            if (sessionToSave) {
-                await supabase.from('chat_sessions').upsert({
-                    id: sessionToSave.id,
-                    user_id: userId,
-                    title: sessionToSave.title,
-                    messages: sessionToSave.messages,
-                    created_at: sessionToSave.createdAt
-                });
-            }
+    try {
+        // 1. Fetch ALL Data, plus textbook passages for the question (and the one before it, for follow-ups)
+        const recentQuestions = sessionHistory.filter(m => m.role === 'user').slice(-2).map(m => m.text).join(' ');
+        const [contextString, curriculum] = await Promise.all([
+            buildDeepUserContext(),
+            buildCurriculumContext(recentQuestions, userClass)
+        ]);
+        citations = curriculum.citations;
+        
+        // 2. History is windowed inside the call; older turns live in the session summary
+        const sessionSummary = updatedSessions.find(s => s.id === targetSessionId)?.summary;
+
+        // 3. Stream tokens into the bubble as they arrive
+        setStreamingMessageId(botMsgId);
+        const result = await handleDirectGroqCall(sessionHistory, sessionSummary, contextString, curriculum, (token) => {
+            streamedText += token;
+            renderBotText(streamedText);
+        }, controller.signal);
+
+        // 4. Update UI & DB (partial replies are kept if the stream was cut off)
+        await persistBotText(result.content);
+
+        if (shouldSummarize(result.chatWindow)) {
+            refreshSessionSummary(targetSessionId, sessionSummary, result.chatWindow.unsummarized as ChatMessage[])
+                .catch(e => console.warn("Chat summary could not be saved", e));
         }
 
     } catch (err) {
-        console.error("Chat Critical Failure", err);
-        const errorMsg: ChatMessage = {
-            id: Date.now().toString(),
-            role: 'model',
-            text: "⚠️ Neural Link Unstable: All AI models are currently unresponsive. Please check your connection or try again in a moment.",
-            timestamp: Date.now(),
-            meta: { type: 'text' }
-        };
-        setSessions(prev => prev.map(s => s.id === targetSessionId ? { ...s, messages: [...s.messages, errorMsg] } : s));
+        if (streamedText || isAbortError(err)) {
+            // Stopped or cut off mid-answer: keep whatever arrived
+            if (streamedText) await persistBotText(streamedText);
+        } else {
+            console.error("Chat Critical Failure", err);
+            const errorMsg: ChatMessage = {
+                id: Date.now().toString(),
+                role: 'model',
+                text: `⚠️ Neural Link Unstable: ${describeAIError(err)}`,
+                timestamp: Date.now(),
+                meta: { type: 'text' }
+            };
+            setSessions(prev => prev.map(s => s.id === targetSessionId ? { ...s, messages: [...s.messages, errorMsg] } : s));
+        }
     } finally {
+        abortControllerRef.current = null;
+        setStreamingMessageId(null);
         setLoading(false);
         setContextActive(false);
     }
@@ -360,7 +365,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
             onClick={createNewSession}
             className="glass-button w-full py-3 rounded-xl flex items-center justify-center gap-2 mb-4 font-bold text-white shadow-lg bg-gradient-to-r from-cyan-600/50 to-purple-600/50 hover:scale-[1.02] transition-transform"
         >
-            <Plus size={18} /> New Chat
+            <Plus size={18} /> {t('chat.newChat')}
         </button>
 
         <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
@@ -407,7 +412,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
               <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={() => setShowHistoryMobile(false)} />
               <div className="relative w-3/4 max-w-sm h-full glass-panel border-r border-white/20 p-4 flex flex-col animate-in slide-in-from-left duration-200">
                   <div className="flex justify-between items-center mb-4">
-                      <h3 className="font-bold text-lg">Chat History</h3>
+                      <h3 className="font-bold text-lg">{t('chat.history')}</h3>
                       <button onClick={() => setShowHistoryMobile(false)}><X size={20}/></button>
                   </div>
                   <SidebarContent />
@@ -483,10 +488,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
                 <div className="whitespace-pre-wrap leading-relaxed text-sm md:text-base">
                     {renderRichText(msg.text)}
                 </div>
+                {msg.citations && msg.citations.length > 0 && (
+                  <div className="mt-3 pt-2 border-t border-white/10 flex flex-wrap gap-1.5">
+                    {msg.citations.map(c => (
+                      <span key={`${c.chapter}-${c.section}`} className="inline-flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full bg-cyan-500/10 text-cyan-300 border border-cyan-500/20" title={c.chapterTitle}>
+                        <BookOpen size={10} /> {formatCitation(c)}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           ))}
-          {loading && (
+          {loading && !activeSession?.messages.some(m => m.id === streamingMessageId) && (
              <div className="flex justify-start">
                <div className="bg-white/10 backdrop-blur-md rounded-2xl rounded-tl-none p-4 flex gap-2 items-center border border-white/5">
                  <div className="w-2 h-2 bg-cyan-400 rounded-full animate-bounce" style={{animationDelay: '0ms'}}></div>
@@ -506,19 +520,29 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userProfile, onUpdateProf
                     type="text"
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                    placeholder={userProfile.name ? `Ask me anything, ${userProfile.name}...` : "Ask about science..."}
+                    onKeyDown={(e) => e.key === 'Enter' && !loading && handleSend()}
+                    placeholder={userProfile.name ? t('chat.placeholderNamed', { name: userProfile.name }) : t('chat.placeholder')}
                     className="w-full bg-white/10 border border-white/20 rounded-xl py-3 px-4 md:py-4 md:px-4 text-white placeholder-white/50 focus:outline-none focus:border-cyan-400/50 transition-all text-sm md:text-base shadow-inner"
                     />
                 </div>
 
-                <button 
-                onClick={handleSend}
-                disabled={loading || !input.trim()}
-                className="p-3 md:p-4 bg-gradient-to-r from-purple-600 to-blue-600 rounded-xl transition-all hover:shadow-lg disabled:opacity-30 disabled:shadow-none text-white active:scale-95"
-                >
-                <Send size={20} />
-                </button>
+                {loading ? (
+                    <button 
+                    onClick={stopStreaming}
+                    title="Stop generating"
+                    className="p-3 md:p-4 bg-red-500/80 hover:bg-red-500 rounded-xl transition-all hover:shadow-lg text-white active:scale-95"
+                    >
+                    <Square size={20} fill="white" />
+                    </button>
+                ) : (
+                    <button 
+                    onClick={handleSend}
+                    disabled={!input.trim()}
+                    className="p-3 md:p-4 bg-gradient-to-r from-purple-600 to-blue-600 rounded-xl transition-all hover:shadow-lg disabled:opacity-30 disabled:shadow-none text-white active:scale-95"
+                    >
+                    <Send size={20} />
+                    </button>
+                )}
             </div>
         </div>
       </div>
@@ -5,15 +5,21 @@ import { Upload, FileText, Loader2, Search, X, User, Image, FileType, Plus, Chec
 import { CommunityNote } from '../types';
 import { showToast } from '../utils/notificationUtils';
 import { Skeleton } from './Skeleton';
+import { moderateContent } from '../services/aiService';
+import { ModerationVerdict, moderationColumns, visibleToFilter, PENDING_REVIEW_MESSAGE } from '../services/moderation';
+import { scopeToSchool, schoolColumn } from '../services/schools';
+import { queueFlaggedContent } from '../services/moderationQueue';
+import { ModerationBadge, ReportButton } from './ModerationBadge';
 
 interface CommunityNotesProps {
     userId: string;
     username: string;
+    userRole?: string;
     readOnly?: boolean;
     filterByUserId?: string;
 }
 
-const CommunityNotes: React.FC<CommunityNotesProps> = ({ userId, username, readOnly = false, filterByUserId }) => {
+const CommunityNotes: React.FC<CommunityNotesProps> = ({ userId, username, userRole, readOnly = false, filterByUserId }) => {
     const [notes, setNotes] = useState<CommunityNote[]>([]);
     const [loading, setLoading] = useState(true);
     const [showUpload, setShowUpload] = useState(false);
@@ -32,9 +38,10 @@ const CommunityNotes: React.FC<CommunityNotesProps> = ({ userId, username, readO
     const fetchNotes = async () => {
         setLoading(true);
         
-        let query = supabase
+        let query = scopeToSchool(supabase
             .from('community_notes')
-            .select('*')
+            .select('*'))
+            .or(visibleToFilter(userId))
             .order('created_at', { ascending: false });
 
         if (filterByUserId) {
@@ -119,15 +126,32 @@ const CommunityNotes: React.FC<CommunityNotesProps> = ({ userId, username, readO
                 }
             }
 
+            // Notes used to skip moderation; extracted file text is checked too
+            let moderation: ModerationVerdict = { status: 'approved' };
+            if (userRole !== 'teacher') {
+                moderation = await moderateContent(noteTitle + "\n" + finalContent);
+                if (moderation.status === 'blocked') {
+                    queueFlaggedContent({ contentType: 'community_note', authorId: userId, text: noteTitle + "\n" + finalContent }, moderation);
+                    showToast(`Note blocked: ${moderation.reason}`, 'error');
+                    setUploading(false);
+                    return;
+                }
+            }
+
             const { data, error } = await supabase.from('community_notes').insert({
                 user_id: userId,
                 username: username, // Fallback
                 title: noteTitle,
                 content: finalContent,
-                file_type: fileTypeStr
+                file_type: fileTypeStr,
+                ...schoolColumn(),
+                ...moderationColumns(moderation)
             }).select().single();
 
             if (error) throw error;
+            if (moderation.status === 'pending') {
+                queueFlaggedContent({ contentType: 'community_note', contentId: data.id, authorId: userId, text: noteTitle + "\n" + finalContent }, moderation);
+            }
             
             // Re-fetch to get profile data
             await fetchNotes();
@@ -137,7 +161,7 @@ const CommunityNotes: React.FC<CommunityNotesProps> = ({ userId, username, readO
             setNoteTitle('');
             setNoteDescription('');
             setSelectedFile(null);
-            showToast("Note posted successfully!", 'success');
+            showToast(moderation.status === 'pending' ? PENDING_REVIEW_MESSAGE : "Note posted successfully!", moderation.status === 'pending' ? 'info' : 'success');
 
         } catch (err: any) {
             console.error(err);
@@ -253,7 +277,10 @@ const CommunityNotes: React.FC<CommunityNotesProps> = ({ userId, username, readO
                                 </p>
                             </div>
                         </div>
-                        <button onClick={() => setSelectedNote(null)} className="p-2 glass-button rounded-full hover:bg-white/20 text-white"><X/></button>
+                        <div className="flex items-center gap-2">
+                            {!readOnly && !filterByUserId && <ReportButton contentType="community_note" contentId={selectedNote.id} authorId={selectedNote.user_id} text={selectedNote.title + "\n" + selectedNote.content} reporterId={userId} size={18} className="p-2" />}
+                            <button onClick={() => setSelectedNote(null)} className="p-2 glass-button rounded-full hover:bg-white/20 text-white"><X/></button>
+                        </div>
                     </div>
                     <div className="flex-1 overflow-y-auto custom-scrollbar p-8 bg-[#0a0a0f]">
                         <div className="max-w-4xl mx-auto bg-white/5 p-8 rounded-2xl border border-white/10 shadow-2xl">
@@ -288,6 +315,7 @@ const CommunityNotes: React.FC<CommunityNotesProps> = ({ userId, username, readO
                                 <span className="text-[10px] bg-white/10 px-2 py-1 rounded border border-white/10">{new Date(note.created_at).toLocaleDateString()}</span>
                             </div>
                             <h3 className="font-bold text-lg mb-2 line-clamp-1 group-hover:text-cyan-300 transition-colors">{note.title}</h3>
+                            <ModerationBadge status={note.moderation_status} isOwner={note.user_id === userId} className="text-xs mb-2" />
                             <p className="text-sm opacity-50 line-clamp-3 mb-4 flex-1">{note.content.substring(0, 100)}...</p>
                             <div className="flex items-center gap-2 text-xs opacity-50 mt-auto pt-4 border-t border-white/5">
                                 <div className="w-5 h-5 rounded-full overflow-hidden bg-white/10 border border-white/10">
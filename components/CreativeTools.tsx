@@ -267,19 +267,20 @@ export const ConceptMap: React.FC<ConceptMapProps> = ({ userId, overrideData, us
         setViewState({ x: 0, y: 0, scale: 1 });
     };
 
-    const handleGenerate = async (searchTopic: string) => {
+    const handleGenerate = async (searchTopic: string, forceRefresh: boolean = false) => {
         if (!searchTopic) return;
         setSelectedNode(null);
         setHistory([]);
         resetView();
         setLoading(true);
         try {
-            const result = await generateConceptMapData(searchTopic, userClass);
-            if (result && result.root && Array.isArray(result.children)) {
-                setData(result);
-                if (userId) checkAndAwardDailyXP(userId, 15, "Generating Concept Map");
-            }
-        } catch (e) { console.error(e); }
+            const result = await generateConceptMapData(searchTopic, userClass, { forceRefresh });
+            setData(result);
+            if (userId) checkAndAwardDailyXP(userId, 15, "Generating Concept Map");
+        } catch (e: any) {
+            console.error(e);
+            showToast(e.message || "Failed to generate concept map.", 'error');
+        }
         setLoading(false);
     };
 
@@ -323,13 +324,14 @@ export const ConceptMap: React.FC<ConceptMapProps> = ({ userId, overrideData, us
         setLoading(true);
         try {
             const result = await generateConceptMapData(selectedNode.label, userClass);
-            if (result && result.root) {
-                setData(result);
-                setSelectedNode(null);
-                resetView();
-                if (userId) checkAndAwardDailyXP(userId, 5, "Deep Dive");
-            }
-        } catch(e) { console.error(e); }
+            setData(result);
+            setSelectedNode(null);
+            resetView();
+            if (userId) checkAndAwardDailyXP(userId, 5, "Deep Dive");
+        } catch(e: any) {
+            console.error(e);
+            showToast(e.message || "Failed to expand concept.", 'error');
+        }
         setLoading(false);
     };
 
@@ -423,6 +425,7 @@ export const ConceptMap: React.FC<ConceptMapProps> = ({ userId, overrideData, us
                         <button onClick={() => handleGenerate(topic)} disabled={loading || !topic} className="bg-white text-black px-6 py-2 rounded-full font-bold hover:bg-white/90 transition-colors flex items-center justify-center gap-2 shadow-lg hover:shadow-cyan-500/20 whitespace-nowrap flex-1 md:flex-none">
                             {loading ? <Loader2 className="animate-spin w-4 h-4" /> : 'Visualize'}
                         </button>
+                        {data && <button onClick={() => handleGenerate(topic, true)} disabled={loading || !topic} title="Generate a fresh map" className="glass-button px-4 py-2 rounded-full font-bold flex items-center gap-2 border-white/20"><RotateCcw size={18} /><span className="hidden md:inline">Regenerate</span></button>}
                         {data && <button onClick={handleSaveMap} disabled={saving} className="glass-button px-4 py-2 rounded-full font-bold flex items-center gap-2 border-white/20"><Save size={18} /><span className="hidden md:inline">Save</span></button>}
                     </div>
                 )}
@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { ListTree, Plus, Trash2, Save, Loader2, History, ChevronDown, ChevronRight, Undo2 } from 'lucide-react';
+import { listCurriculumVersions, saveCurriculumVersion, checkChapters, CurriculumVersion } from '../services/curriculumCatalog';
+import { CurriculumChapter } from '../services/curriculumChapters';
+import { showToast } from '../utils/notificationUtils';
+
+interface CurriculumCatalogEditorProps {
+    classLevel: string;
+    userId: string;
+}
+
+// Lists are edited as plain text: one item per line, keywords comma-separated.
+interface DraftChapter {
+    key: number;
+    number: string;
+    title: string;
+    titleHi: string;
+    subtopics: string;
+    learningOutcomes: string;
+    keywords: string;
+}
+
+let nextKey = 1;
+
+const toDraft = (chapter: CurriculumChapter): DraftChapter => ({
+    key: nextKey++,
+    number: String(chapter.number),
+    title: chapter.title,
+    titleHi: chapter.titleHi || '',
+    subtopics: chapter.subtopics.join('\n'),
+    learningOutcomes: chapter.learningOutcomes.join('\n'),
+    keywords: chapter.keywords.join(', ')
+});
+
+const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const fromDraft = (draft: DraftChapter): CurriculumChapter => ({
+    number: Number(draft.number),
+    title: draft.title.trim(),
+    titleHi: draft.titleHi.trim() || undefined,
+    subtopics: lines(draft.subtopics),
+    learningOutcomes: lines(draft.learningOutcomes),
+    keywords: draft.keywords.split(',').map(k => k.trim()).filter(Boolean)
+});
+
+const INPUT = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-cyan-500";
+
+const versionLabel = (v: CurriculumVersion) =>
+    v.version === 0 ? 'Built-in list' : `Version ${v.version}${v.createdAt ? ` · ${new Date(v.createdAt).toLocaleDateString()}` : ''}`;
+
+// Chapter list editor: every save becomes a new version that students see straight away.
+const CurriculumCatalogEditor: React.FC<CurriculumCatalogEditorProps> = ({ classLevel, userId }) => {
+    const [versions, setVersions] = useState<CurriculumVersion[]>([]);
+    const [drafts, setDrafts] = useState<DraftChapter[]>([]);
+    const [openKey, setOpenKey] = useState<number | null>(null);
+    const [note, setNote] = useState('');
+    const [showHistory, setShowHistory] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [dirty, setDirty] = useState(false);
+
+    const current = versions[0];
+
+    useEffect(() => {
+        loadVersions();
+    }, [classLevel]);
+
+    const loadVersions = async () => {
+        setLoading(true);
+        try {
+            const list = await listCurriculumVersions(classLevel);
+            setVersions(list);
+            startFrom(list[0]);
+        } catch (e: any) {
+            showToast("Could not load the chapter list: " + e.message, 'error');
+        }
+        setLoading(false);
+    };
+
+    const startFrom = (version: CurriculumVersion) => {
+        setDrafts(version.chapters.map(toDraft));
+        setOpenKey(null);
+        setNote('');
+        setDirty(false);
+    };
+
+    const update = (key: number, field: keyof Omit<DraftChapter, 'key'>, value: string) => {
+        setDrafts(prev => prev.map(d => d.key === key ? { ...d, [field]: value } : d));
+        setDirty(true);
+    };
+
+    const handleAdd = () => {
+        const number = Math.max(0, ...drafts.map(d => Number(d.number) || 0)) + 1;
+        const draft = toDraft({ number, title: '', subtopics: [], learningOutcomes: [], keywords: [] });
+        setDrafts(prev => [...prev, draft]);
+        setOpenKey(draft.key);
+        setDirty(true);
+    };
+
+    const handleRemove = (draft: DraftChapter) => {
+        if (draft.title && !window.confirm(`Remove "${draft.title}" from the list?`)) return;
+        setDrafts(prev => prev.filter(d => d.key !== draft.key));
+        setDirty(true);
+    };
+
+    const handleRestore = (version: CurriculumVersion) => {
+        if (dirty && !window.confirm("Discard your unsaved changes?")) return;
+        startFrom(version);
+        setNote(`Restored ${versionLabel(version).toLowerCase()}`);
+        setDirty(true);
+        setShowHistory(false);
+    };
+
+    const handleSave = async () => {
+        const chapters = drafts.map(fromDraft);
+        const problem = checkChapters(chapters);
+        if (problem) {
+            showToast(problem, 'error');
+            return;
+        }
+        // Quiz progress is saved under the chapter title
+        const titles = new Set(chapters.map(c => c.title));
+        const dropped = current.chapters.filter(c => !titles.has(c.title)).map(c => c.title);
+        if (dropped.length && !window.confirm(`Students' quiz progress for ${dropped.map(t => `"${t}"`).join(', ')} will no longer show, because these titles are gone. Save anyway?`)) return;
+
+        setSaving(true);
+        try {
+            const saved = await saveCurriculumVersion({ classLevel, chapters, note, createdBy: userId }, current.version);
+            setVersions(prev => [saved, ...prev]);
+            startFrom(saved);
+            showToast(`Saved version ${saved.version} of the Class ${classLevel} chapter list.`, 'success');
+        } catch (e: any) {
+            showToast("Could not save: " + e.message, 'error');
+        }
+        setSaving(false);
+    };
+
+    return (
+        <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-white flex items-center gap-2"><ListTree size={18} className="text-amber-400" /> Chapter List</h3>
+                {current && (
+                    <button onClick={() => setShowHistory(!showHistory)} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-400 hover:text-white flex items-center gap-1.5">
+                        <History size={14} /> {versionLabel(current)}
+                    </button>
+                )}
+            </div>
+            <p className="text-sm text-slate-400 mb-4">
+                The chapters students see in Topics and Study Mode. Subtopics and learning outcomes steer the chapter quizzes.
+            </p>
+
+            {showHistory && (
+                <div className="mb-4 rounded-xl border border-slate-800 divide-y divide-slate-800">
+                    {versions.map(v => (
+                        <div key={v.version} className="flex items-center justify-between px-3 py-2 text-sm">
+                            <div>
+                                <span className="text-white font-bold">{versionLabel(v)}</span>
+                                <span className="text-slate-500"> · {v.chapters.length} chapters{v.note ? ` · ${v.note}` : ''}</span>
+                            </div>
+                            {v !== current && (
+                                <button onClick={() => handleRestore(v)} className="px-2 py-1 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-slate-800 flex items-center gap-1">
+                                    <Undo2 size={12} /> Restore
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex items-center text-slate-400 text-sm"><Loader2 className="animate-spin mr-2" size={16} /> Loading...</div>
+            ) : (
+                <>
+                    <div className="space-y-2">
+                        {drafts.map(d => (
+                            <div key={d.key} className="rounded-xl bg-slate-950 border border-slate-800">
+                                <div className="flex items-center gap-2 px-3 py-2">
+                                    <button onClick={() => setOpenKey(openKey === d.key ? null : d.key)} className="text-slate-500 hover:text-white">
+                                        {openKey === d.key ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                    </button>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={d.number}
+                                        onChange={e => update(d.key, 'number', e.target.value)}
+                                        className="w-16 bg-transparent border border-slate-800 rounded px-2 py-1 text-sm text-slate-300 outline-none focus:border-cyan-500"
+                                    />
+                                    <input
+                                        value={d.title}
+                                        onChange={e => update(d.key, 'title', e.target.value)}
+                                        placeholder="Chapter title"
+                                        className="flex-1 bg-transparent border border-slate-800 rounded px-2 py-1 text-sm text-white outline-none focus:border-cyan-500"
+                                    />
+                                    <span className="text-xs text-slate-500 hidden md:inline">{lines(d.subtopics).length} subtopics · {lines(d.learningOutcomes).length} outcomes</span>
+                                    <button onClick={() => handleRemove(d)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-900/20" title="Remove"><Trash2 size={14} /></button>
+                                </div>
+                                {openKey === d.key && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 px-3 pb-3">
+                                        <label className="text-xs text-slate-500 space-y-1">
+                                            <span>Hindi title</span>
+                                            <input value={d.titleHi} onChange={e => update(d.key, 'titleHi', e.target.value)} lang="hi" className={INPUT} />
+                                        </label>
+                                        <label className="text-xs text-slate-500 space-y-1">
+                                            <span>Keywords (comma-separated)</span>
+                                            <input value={d.keywords} onChange={e => update(d.key, 'keywords', e.target.value)} className={INPUT} />
+                                        </label>
+                                        <label className="text-xs text-slate-500 space-y-1">
+                                            <span>Subtopics (one per line)</span>
+                                            <textarea value={d.subtopics} onChange={e => update(d.key, 'subtopics', e.target.value)} rows={5} className={`${INPUT} resize-none custom-scrollbar`} />
+                                        </label>
+                                        <label className="text-xs text-slate-500 space-y-1">
+                                            <span>Learning outcomes (one per line)</span>
+                                            <textarea value={d.learningOutcomes} onChange={e => update(d.key, 'learningOutcomes', e.target.value)} rows={5} className={`${INPUT} resize-none custom-scrollbar`} />
+                                        </label>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-col md:flex-row gap-3 mt-4">
+                        <button onClick={handleAdd} className="px-4 py-2 rounded-lg text-sm bg-slate-800 text-slate-300 hover:text-white flex items-center gap-2">
+                            <Plus size={16} /> Add chapter
+                        </button>
+                        <input
+                            value={note}
+                            onChange={e => { setNote(e.target.value); setDirty(true); }}
+                            placeholder="What changed? (optional)"
+                            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-cyan-500"
+                        />
+                        {dirty && (
+                            <button onClick={() => current && startFrom(current)} className="px-4 py-2 rounded-lg text-sm hover:bg-slate-800 text-slate-400">Discard</button>
+                        )}
+                        <button onClick={handleSave} disabled={saving || !dirty} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold disabled:opacity-50">
+                            {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} Save as version {(current?.version ?? 0) + 1}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CurriculumCatalogEditor;
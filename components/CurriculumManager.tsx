@@ -0,0 +1,266 @@
+
+import React, { useEffect, useState } from 'react';
+import { BookOpen, Upload, Trash2, Loader2, Search, Save, FileText, X } from 'lucide-react';
+import {
+    listChapters, importChapter, deleteChapter, splitChapterText, retrievePassages, formatCitation,
+    ChapterSummary, DraftPassage, RetrievedPassage
+} from '../services/curriculumStore';
+import { CURRICULUM_CLASSES, getChapters } from '../services/curriculumCatalog';
+import CurriculumCatalogEditor from './CurriculumCatalogEditor';
+import { extractPdfText } from '../utils/pdfUtils';
+import { showToast } from '../utils/notificationUtils';
+
+interface CurriculumManagerProps {
+    // Class being managed; the teacher can switch when opened from the global view.
+    classLevel?: string;
+    userId: string;
+}
+
+interface PendingImport {
+    fileName: string;
+    text: string;
+    drafts: DraftPassage[];
+}
+
+const CurriculumManager: React.FC<CurriculumManagerProps> = ({ classLevel: fixedClass, userId }) => {
+    const [classLevel, setClassLevel] = useState(fixedClass || '8');
+    const [chapters, setChapters] = useState<ChapterSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const [chapterNumber, setChapterNumber] = useState('');
+    const [chapterTitle, setChapterTitle] = useState('');
+    const [titleEdited, setTitleEdited] = useState(false);
+    const [pending, setPending] = useState<PendingImport | null>(null);
+    const [processing, setProcessing] = useState(false);
+
+    const [testQuery, setTestQuery] = useState('');
+    const [testResults, setTestResults] = useState<RetrievedPassage[] | null>(null);
+
+    useEffect(() => {
+        loadChapters();
+    }, [classLevel]);
+
+    const loadChapters = async () => {
+        setLoading(true);
+        try {
+            setChapters(await listChapters(classLevel));
+        } catch (e: any) {
+            showToast("Could not load curriculum: " + e.message, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Fill in the title from the chapter list unless the teacher typed one
+    const handleChapterNumber = async (value: string) => {
+        setChapterNumber(value);
+        const listed = (await getChapters(classLevel)).find(c => c.number === Number(value));
+        if (!titleEdited) setChapterTitle(listed?.title || '');
+    };
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const chapter = Number(chapterNumber);
+        if (!chapter) {
+            showToast("Enter the chapter number first.", 'error');
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const text = file.name.toLowerCase().endsWith('.pdf') ? await extractPdfText(file) : await file.text();
+            const drafts = splitChapterText(text, chapter);
+            if (drafts.length === 0) throw new Error("No readable text found. Scanned PDFs need OCR first.");
+            setPending({ fileName: file.name, text, drafts });
+        } catch (err: any) {
+            showToast("Error processing file: " + err.message, 'error');
+        }
+        setProcessing(false);
+    };
+
+    const handleSave = async () => {
+        if (!pending || !chapterTitle.trim()) {
+            showToast("Give the chapter a title.", 'error');
+            return;
+        }
+        const chapter = Number(chapterNumber);
+        if (chapters.some(c => c.chapter === chapter) && !window.confirm(`Replace the existing text for Chapter ${chapter}?`)) return;
+
+        setProcessing(true);
+        try {
+            const count = await importChapter({
+                classLevel,
+                chapter,
+                chapterTitle: chapterTitle.trim(),
+                text: pending.text,
+                source: pending.fileName,
+                uploadedBy: userId
+            });
+            showToast(`Chapter ${chapter} saved (${count} passages).`, 'success');
+            setPending(null);
+            setChapterNumber('');
+            setChapterTitle('');
+            setTitleEdited(false);
+            loadChapters();
+        } catch (e: any) {
+            showToast("Could not save chapter: " + e.message, 'error');
+        }
+        setProcessing(false);
+    };
+
+    const handleDelete = async (chapter: ChapterSummary) => {
+        if (!window.confirm(`Remove Chapter ${chapter.chapter}: ${chapter.chapterTitle}? Tutors will stop citing it.`)) return;
+        try {
+            await deleteChapter(classLevel, chapter.chapter);
+            setChapters(prev => prev.filter(c => c.chapter !== chapter.chapter));
+            showToast("Chapter removed.", 'success');
+        } catch (e: any) {
+            showToast("Could not remove chapter: " + e.message, 'error');
+        }
+    };
+
+    const handleTestSearch = async () => {
+        if (!testQuery.trim()) return;
+        try {
+            setTestResults(await retrievePassages(testQuery, classLevel));
+        } catch (e: any) {
+            showToast("Search failed: " + e.message, 'error');
+        }
+    };
+
+    const sectionCount = pending ? new Set(pending.drafts.map(d => d.section).filter(Boolean)).size : 0;
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <p className="text-slate-400 text-sm">
+                    The chapter list and the textbook text the AI tutor draws on and cites for Class {classLevel}.
+                </p>
+                {!fixedClass && (
+                    <div className="flex items-center gap-2">
+                        {CURRICULUM_CLASSES.map(c => (
+                            <button
+                                key={c}
+                                onClick={() => { setClassLevel(c); setTestResults(null); }}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${classLevel === c ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                            >
+                                Class {c}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <CurriculumCatalogEditor classLevel={classLevel} userId={userId} />
+
+            {/* Import */}
+            <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Upload size={18} className="text-cyan-400" /> Import a Chapter</h3>
+                <div className="flex flex-col md:flex-row gap-3">
+                    <input
+                        type="number"
+                        min={1}
+                        value={chapterNumber}
+                        onChange={e => handleChapterNumber(e.target.value)}
+                        placeholder="Ch. no."
+                        className="w-full md:w-28 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-cyan-500"
+                    />
+                    <input
+                        value={chapterTitle}
+                        onChange={e => { setChapterTitle(e.target.value); setTitleEdited(!!e.target.value); }}
+                        placeholder="Chapter title, e.g. Force and Pressure"
+                        className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-cyan-500"
+                    />
+                    <label className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-bold cursor-pointer transition-colors ${processing ? 'bg-slate-800 text-slate-500' : 'bg-cyan-600 hover:bg-cyan-500 text-white'}`}>
+                        {processing ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />} Choose PDF
+                        <input type="file" accept=".pdf,.txt" className="hidden" onChange={handleFileUpload} disabled={processing} />
+                    </label>
+                </div>
+
+                {pending && (
+                    <div className="mt-4 p-4 rounded-xl bg-slate-950 border border-slate-800">
+                        <div className="flex items-center justify-between mb-3">
+                            <div className="text-sm text-slate-300">
+                                <span className="font-bold text-white">{pending.fileName}</span> · {pending.drafts.length} passages · {sectionCount} sections detected
+                            </div>
+                            <button onClick={() => setPending(null)} className="p-1 text-slate-500 hover:text-white"><X size={16} /></button>
+                        </div>
+                        <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-2 mb-4">
+                            {pending.drafts.slice(0, 5).map((d, i) => (
+                                <div key={i} className="text-xs text-slate-400">
+                                    <span className="text-cyan-400 font-bold">{d.section ? `${d.section} ${d.sectionTitle}` : 'Introduction'}:</span> {d.content.slice(0, 180)}...
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={handleSave} disabled={processing} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold disabled:opacity-50">
+                            <Save size={16} /> Save Chapter
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* Chapters */}
+            <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><BookOpen size={18} className="text-purple-400" /> Chapters</h3>
+                {loading ? (
+                    <div className="flex items-center text-slate-400 text-sm"><Loader2 className="animate-spin mr-2" size={16} /> Loading...</div>
+                ) : chapters.length === 0 ? (
+                    <p className="text-sm text-slate-500">No chapters imported yet. Until then the tutor answers without textbook passages.</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-xs uppercase text-slate-500 text-left">
+                                <th className="pb-2 font-bold">Chapter</th>
+                                <th className="pb-2 font-bold">Source</th>
+                                <th className="pb-2 font-bold text-right">Passages</th>
+                                <th className="pb-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {chapters.map(c => (
+                                <tr key={c.chapter} className="border-t border-slate-800 text-slate-300">
+                                    <td className="py-2">{c.chapter}. {c.chapterTitle}</td>
+                                    <td className="py-2 text-slate-500 truncate max-w-[12rem]">{c.source || '-'}</td>
+                                    <td className="py-2 text-right">{c.passages}</td>
+                                    <td className="py-2 text-right">
+                                        <button onClick={() => handleDelete(c)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-900/20" title="Remove"><Trash2 size={14} /></button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Retrieval check */}
+            <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Search size={18} className="text-green-400" /> Try a Question</h3>
+                <div className="flex gap-2">
+                    <input
+                        value={testQuery}
+                        onChange={e => setTestQuery(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && handleTestSearch()}
+                        placeholder="What would a student ask?"
+                        className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-cyan-500"
+                    />
+                    <button onClick={handleTestSearch} className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:text-white text-sm font-bold">Search</button>
+                </div>
+                {testResults && (
+                    <div className="mt-4 space-y-3">
+                        {testResults.length === 0 && <p className="text-sm text-slate-500">No matching passages; the tutor would answer without a citation.</p>}
+                        {testResults.map(p => (
+                            <div key={p.id} className="p-3 rounded-xl bg-slate-950 border border-slate-800">
+                                <div className="text-xs font-bold text-cyan-400 mb-1">{formatCitation(p)} · score {p.score.toFixed(1)}</div>
+                                <p className="text-xs text-slate-400">{p.content}</p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CurriculumManager;
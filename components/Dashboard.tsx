@@ -1,13 +1,17 @@
 
 import React, { useEffect, useState } from 'react';
 import { supabase } from '../services/supabaseClient';
+import { scopeToSchool } from '../services/schools';
 import { ChatSession, AppView } from '../types';
 import { 
     Mic, MessageSquare, Book, Zap, ArrowRight, Play, Trophy, Sparkles, 
     Search, Headphones, Puzzle, Network, PenTool, BookOpen, FileText, 
-    Clock, Activity, Star, Clapperboard, Users, MessageCircle, Layout, Layers
+    Clock, Activity, Star, Clapperboard, Users, MessageCircle, Layout, Layers, RotateCcw
 } from 'lucide-react';
 import { Skeleton } from './Skeleton';
+import ReviewSession from './ReviewSession';
+import { getReviewSummary, ReviewSummary } from '../services/reviewDeck';
+import { t } from '../utils/i18n';
 
 interface DashboardProps {
     user: { id: string; username: string; interests: string };
@@ -15,9 +19,11 @@ interface DashboardProps {
     onResumeSession: (session: ChatSession) => void;
     onResumeTopic?: (topic: string) => void;
     onReportIssue: () => void;
+    // False for features the school switched off
+    isViewEnabled: (view: AppView) => boolean;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession, onResumeTopic }) => {
+const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession, onResumeTopic, isViewEnabled }) => {
     const [stats, setStats] = useState({ totalChats: 0, voiceSessions: 0 });
     const [userRank, setUserRank] = useState<number | string>('-');
     const [loading, setLoading] = useState(true);
@@ -27,6 +33,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
     const [resumeTextChats, setResumeTextChats] = useState<ChatSession[]>([]);
     const [resumeVoiceChats, setResumeVoiceChats] = useState<ChatSession[]>([]);
 
+    // Spaced-repetition deck of missed quiz questions
+    const [review, setReview] = useState<ReviewSummary | null>(null);
+    const [isReviewing, setIsReviewing] = useState(false);
+
+    const loadReviewSummary = () => {
+        getReviewSummary(user.id)
+            .then(setReview)
+            .catch(e => console.warn("Dashboard: could not load review deck", e));
+    };
+
     useEffect(() => {
         const fetchDashboardData = async () => {
             setLoading(true);
@@ -64,9 +80,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
             }
 
             // 3. Fetch Rank (All Time)
-            const { data: usersData } = await supabase
+            const { data: usersData } = await scopeToSchool(supabase
                 .from('users')
-                .select('id, total_points')
+                .select('id, total_points'))
                 .order('total_points', { ascending: false });
             
             if (usersData) {
@@ -76,13 +92,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
             setLoading(false);
         };
         fetchDashboardData();
+        loadReviewSummary();
     }, [user.id]);
 
     const getGreeting = () => {
         const hour = new Date().getHours();
-        if (hour < 12) return 'Good Morning';
-        if (hour < 18) return 'Good Afternoon';
-        return 'Good Evening';
+        if (hour < 12) return t('dashboard.morning');
+        if (hour < 18) return t('dashboard.afternoon');
+        return t('dashboard.evening');
     };
 
     const formatDate = (dateInput: string | number) => {
@@ -122,7 +139,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
 
     const hasJumpBackContent = resumeTopics.length > 0 || resumeTextChats.length > 0 || resumeVoiceChats.length > 0;
 
-    const allActions = [
+    const actions = [
         { id: AppView.CHAT, title: 'AI Tutor', icon: MessageSquare, desc: 'Chat with Science Buddy' },
         { id: AppView.TOPICS, title: 'Topic Explorer', icon: Layers, desc: 'NCERT Chapter Quizzes' },
         { id: AppView.RESEARCH, title: 'Research Lab', icon: FileText, desc: 'Upload PDFs & Generate Quizzes' },
@@ -139,7 +156,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
         { id: AppView.DISCUSSION, title: 'Discussion', icon: MessageCircle, desc: 'Ask & Answer Doubts' },
         { id: AppView.FEED, title: 'Social Feed', icon: Layout, desc: 'Share your Science' },
         { id: AppView.LEADERBOARD, title: 'Leaderboard', icon: Trophy, desc: 'Check Global Rankings' },
-    ];
+    ].filter(action => isViewEnabled(action.id));
 
     if (loading) {
         return (
@@ -179,7 +196,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
                             {getGreeting()}, <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-400">{user.username}</span>
                         </h1>
                         <p className="text-base md:text-lg text-white/60 max-w-xl">
-                            Ready to unlock some new knowledge today? Your personal AI lab is prepped and ready.
+                            {t('dashboard.tagline')}
                         </p>
                     </div>
                     
@@ -198,7 +215,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
                 <div className="glass-panel p-6 rounded-2xl border-l-4 border-l-cyan-500 flex flex-col justify-between group hover:bg-white/5 transition-all">
                     <div className="flex justify-between items-start mb-2">
                         <div className="p-3 bg-cyan-500/20 text-cyan-400 rounded-xl shadow-lg shadow-cyan-500/10"><MessageSquare size={24} /></div>
-                        <span className="text-xs text-white/40 font-bold uppercase tracking-wider mt-1">Total Chats</span>
+                        <span className="text-xs text-white/40 font-bold uppercase tracking-wider mt-1">{t('dashboard.totalChats')}</span>
                     </div>
                     <div>
                         <div className="text-4xl font-bold">{stats.totalChats}</div>
@@ -209,7 +226,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
                 <div className="glass-panel p-6 rounded-2xl border-l-4 border-l-purple-500 flex flex-col justify-between group hover:bg-white/5 transition-all">
                     <div className="flex justify-between items-start mb-2">
                         <div className="p-3 bg-purple-500/20 text-purple-400 rounded-xl shadow-lg shadow-purple-500/10"><Mic size={24} /></div>
-                        <span className="text-xs text-white/40 font-bold uppercase tracking-wider mt-1">Voice Labs</span>
+                        <span className="text-xs text-white/40 font-bold uppercase tracking-wider mt-1">{t('dashboard.voiceLabs')}</span>
                     </div>
                     <div>
                         <div className="text-4xl font-bold">{stats.voiceSessions}</div>
@@ -228,12 +245,32 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
                 </div>
             </div>
 
+            {/* Review due today */}
+            {review && review.total > 0 && (
+                <div className="glass-panel p-5 rounded-2xl border-l-4 border-l-cyan-400 flex items-center gap-4">
+                    <div className="p-3 bg-cyan-500/20 text-cyan-300 rounded-xl"><RotateCcw size={24} /></div>
+                    <div className="flex-1 min-w-0">
+                        <h2 className="font-bold text-lg">{t('dashboard.reviewDue')}</h2>
+                        <p className="text-sm text-white/60">
+                            {review.due > 0
+                                ? t('dashboard.reviewCount', { count: review.due })
+                                : t('dashboard.reviewCaughtUp', { date: review.nextDueAt ? new Date(review.nextDueAt).toLocaleDateString() : '-' })}
+                        </p>
+                    </div>
+                    {review.due > 0 && (
+                        <button onClick={() => setIsReviewing(true)} className="glass-button px-5 py-2 rounded-full font-bold text-sm flex items-center gap-2 shrink-0">
+                            {t('dashboard.reviewStart')} <ArrowRight size={14} />
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* 3. Continue Learning Section */}
             {hasJumpBackContent && (
                 <div className="space-y-4">
                     <div className="flex items-center gap-2 px-1 opacity-80">
                         <Clock size={20} className="text-cyan-400" />
-                        <h2 className="text-xl font-bold">Jump Back In</h2>
+                        <h2 className="text-xl font-bold">{t('dashboard.jumpBackIn')}</h2>
                     </div>
                     
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -313,12 +350,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
             <div className="space-y-4">
                  <div className="flex items-center gap-2 px-1 opacity-80">
                     <Network size={20} className="text-purple-400" />
-                    <h2 className="text-xl font-bold">Research & Tools</h2>
+                    <h2 className="text-xl font-bold">{t('dashboard.tools')}</h2>
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                     {/* Render tool cards with vibrant gradients on hover/icon backgrounds */}
-                    {allActions.map(action => (
+                    {actions.map(action => (
                          <button 
                             key={action.id}
                             onClick={() => onNavigate(action.id)}
@@ -343,6 +380,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onResumeSession
             </div>
             
             <div className="h-10"></div> {/* Bottom spacer */}
+
+            {isReviewing && (
+                <ReviewSession userId={user.id} onClose={() => { setIsReviewing(false); loadReviewSummary(); }} />
+            )}
         </div>
     );
 };
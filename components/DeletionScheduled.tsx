@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Trash2, Undo2, Download, LogOut, Loader2 } from 'lucide-react';
+import { UserData } from '../types';
+import { cancelAccountDeletion, downloadMyData } from '../services/privacy';
+import { showToast } from '../utils/notificationUtils';
+
+interface DeletionScheduledProps {
+    user: UserData;
+    onRestored: (user: UserData) => void;
+    onLogout: () => void;
+}
+
+// Shown instead of the app while a requested deletion waits out its grace period.
+const DeletionScheduled: React.FC<DeletionScheduledProps> = ({ user, onRestored, onLogout }) => {
+    const [busy, setBusy] = useState<'cancel' | 'download' | null>(null);
+
+    const handleCancel = async () => {
+        setBusy('cancel');
+        try {
+            const restored = await cancelAccountDeletion();
+            showToast("Deletion cancelled. Welcome back!", 'success');
+            onRestored(restored);
+        } catch (e: any) {
+            showToast("Could not cancel the deletion: " + e.message, 'error');
+        }
+        setBusy(null);
+    };
+
+    const handleDownload = async () => {
+        setBusy('download');
+        try {
+            await downloadMyData(user);
+        } catch (e: any) {
+            showToast("Could not export your data: " + e.message, 'error');
+        }
+        setBusy(null);
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-slate-950 p-6 text-white">
+            <div className="max-w-md w-full bg-slate-900 border border-slate-800 rounded-2xl p-8 text-center space-y-4">
+                <Trash2 size={36} className="mx-auto text-red-400" />
+                <h1 className="text-xl font-bold">Your account is being deleted</h1>
+                <p className="text-sm text-slate-400">
+                    On {new Date(user.deletion_scheduled_at!).toLocaleDateString()} your chats, quizzes, projects, notes and posts will be
+                    erased, {user.display_name || user.username}. Until then you can keep your account or download your data.
+                </p>
+                <div className="flex flex-wrap gap-3 justify-center pt-2">
+                    <button onClick={handleCancel} disabled={!!busy} className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-sm font-bold flex items-center gap-2">
+                        {busy === 'cancel' ? <Loader2 size={16} className="animate-spin" /> : <Undo2 size={16} />} Keep my account
+                    </button>
+                    <button onClick={handleDownload} disabled={!!busy} className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-bold flex items-center gap-2">
+                        {busy === 'download' ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} Download my data
+                    </button>
+                    <button onClick={onLogout} className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-bold flex items-center gap-2">
+                        <LogOut size={16} /> Sign out
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DeletionScheduled;
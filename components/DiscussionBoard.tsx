@@ -4,7 +4,11 @@ import { supabase } from '../services/supabaseClient';
 import { DiscussionThread, DiscussionComment } from '../types';
 import { MessageCircle, Plus, Search, User, ArrowLeft, Send, Loader2, X, AlertTriangle, Lock, CheckCircle, MoreVertical, Paperclip, GraduationCap, Bot } from 'lucide-react';
 import { showToast } from '../utils/notificationUtils';
-import { checkAndAwardDailyXP, checkContentSafety } from '../services/aiService';
+import { checkAndAwardDailyXP, moderateContent } from '../services/aiService';
+import { ModerationVerdict, moderationColumns, visibleToFilter, isVisibleTo, PENDING_REVIEW_MESSAGE } from '../services/moderation';
+import { scopeToSchool, schoolChangeFilter, schoolColumn } from '../services/schools';
+import { queueFlaggedContent } from '../services/moderationQueue';
+import { ModerationBadge, ReportButton } from './ModerationBadge';
 import { Skeleton } from './Skeleton';
 
 interface DiscussionBoardProps {
@@ -64,9 +68,9 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
         const channel = supabase.channel('public:discussion_threads')
             .on(
                 'postgres_changes', 
-                { event: 'INSERT', schema: 'public', table: 'discussion_threads' }, 
+                { event: 'INSERT', schema: 'public', table: 'discussion_threads', ...schoolChangeFilter() }, 
                 async (payload) => {
-                    if (payload.new.user_id !== user.id) {
+                    if (payload.new.user_id !== user.id && isVisibleTo(payload.new as DiscussionThread, user.id)) {
                         const userData = await getUserProfile(payload.new.user_id);
 
                         const newThread: DiscussionThread = {
@@ -95,7 +99,7 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
                 'postgres_changes', 
                 { event: 'INSERT', schema: 'public', table: 'discussion_comments', filter: `thread_id=eq.${activeThread.id}` }, 
                 async (payload) => {
-                    if (payload.new.user_id !== user.id) {
+                    if (payload.new.user_id !== user.id && isVisibleTo(payload.new as DiscussionComment, user.id)) {
                         const userData = await getUserProfile(payload.new.user_id);
 
                         const newComment: DiscussionComment = {
@@ -123,12 +127,13 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
     const fetchThreads = async () => {
         setLoading(true);
         // Include role in fetch
-        const { data, error } = await supabase
+        const { data, error } = await scopeToSchool(supabase
             .from('discussion_threads')
             .select(`
                 *,
                 users (username, display_name, avatar_url, role)
-            `)
+            `))
+            .or(visibleToFilter(user.id))
             .order('created_at', { ascending: false });
 
         if (data) {
@@ -151,6 +156,7 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
                 users (username, display_name, avatar_url, role)
             `)
             .eq('thread_id', threadId)
+            .or(visibleToFilter(user.id))
             .order('created_at', { ascending: true });
         
         if (data) {
@@ -177,18 +183,16 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
 
         setIsPosting(true);
 
-        try {
-            // Bypass safety check for teachers
-            if (user.role !== 'teacher') {
-                const safetyCheck = await checkContentSafety(newTitle + " " + newContent);
-                if (!safetyCheck.safe) {
-                    showToast(`Post blocked: ${safetyCheck.reason || "Inappropriate content detected."}`, 'error');
-                    setIsPosting(false);
-                    return;
-                }
+        // Bypass safety check for teachers
+        let moderation: ModerationVerdict = { status: 'approved' };
+        if (user.role !== 'teacher') {
+            moderation = await moderateContent(newTitle + " " + newContent);
+            if (moderation.status === 'blocked') {
+                queueFlaggedContent({ contentType: 'discussion_thread', authorId: user.id, text: newTitle + "\n" + newContent }, moderation);
+                showToast(`Post blocked: ${moderation.reason || "Inappropriate content detected."}`, 'error');
+                setIsPosting(false);
+                return;
             }
-        } catch (e) {
-            console.error("Moderation failed, proceeding with caution", e);
         }
 
         const { data, error } = await supabase
@@ -197,7 +201,9 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
                 user_id: user.id,
                 title: newTitle,
                 content: newContent,
-                category: newCategory
+                category: newCategory,
+                ...schoolColumn(),
+                ...moderationColumns(moderation)
             })
             .select()
             .single();
@@ -206,8 +212,13 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
             console.error("Thread creation error:", error);
             showToast("Failed to create thread. Check DB permissions.", 'error');
         } else if (data) {
-            showToast("Thread created successfully!", 'success');
-            checkAndAwardDailyXP(user.id, 20, "Starting Discussion");
+            if (moderation.status === 'pending') {
+                queueFlaggedContent({ contentType: 'discussion_thread', contentId: data.id, authorId: user.id, text: newTitle + "\n" + newContent }, moderation);
+                showToast(PENDING_REVIEW_MESSAGE, 'info');
+            } else {
+                showToast("Thread created successfully!", 'success');
+                checkAndAwardDailyXP(user.id, 20, "Starting Discussion");
+            }
             
             const newThreadWithUser: DiscussionThread = {
                 ...data,
@@ -239,25 +250,26 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
         const textToSend = replyText;
         setReplyText(''); // Optimistic clear
 
-        try {
-            // Bypass safety check for teachers
-            if (user.role !== 'teacher') {
-                const safetyCheck = await checkContentSafety(textToSend);
-                if (!safetyCheck.safe) {
-                    showToast(`Reply blocked: ${safetyCheck.reason || "Inappropriate content."}`, 'error');
-                    setReplyText(textToSend);
-                    setIsReplying(false);
-                    return;
-                }
+        // Bypass safety check for teachers
+        let moderation: ModerationVerdict = { status: 'approved' };
+        if (user.role !== 'teacher') {
+            moderation = await moderateContent(textToSend);
+            if (moderation.status === 'blocked') {
+                queueFlaggedContent({ contentType: 'discussion_comment', authorId: user.id, text: textToSend }, moderation);
+                showToast(`Reply blocked: ${moderation.reason || "Inappropriate content."}`, 'error');
+                setReplyText(textToSend);
+                setIsReplying(false);
+                return;
             }
-        } catch (e) { console.error(e); }
+        }
 
         const { data, error } = await supabase
             .from('discussion_comments')
             .insert({
                 user_id: user.id,
                 thread_id: activeThread.id,
-                content: textToSend
+                content: textToSend,
+                ...moderationColumns(moderation)
             })
             .select()
             .single();
@@ -279,9 +291,13 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
             };
             setComments(prev => [...prev, newCommentWithUser]);
             scrollToBottom();
+            if (moderation.status === 'pending') {
+                queueFlaggedContent({ contentType: 'discussion_comment', contentId: data.id, authorId: user.id, text: textToSend }, moderation);
+                showToast(PENDING_REVIEW_MESSAGE, 'info');
+            }
 
             // Trigger Notification
-            if (activeThread.user_id !== user.id) {
+            if (activeThread.user_id !== user.id && moderation.status === 'approved') {
                 await supabase.from('notifications').insert({
                     user_id: activeThread.user_id,
                     actor_id: user.id,
@@ -393,6 +409,7 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
                                         </div>
                                         <span className="text-[10px] text-gray-500 shrink-0 ml-2">{formatTime(t.created_at)}</span>
                                     </div>
+                                    <ModerationBadge status={t.moderation_status} isOwner={t.user_id === user.id} size={10} className="text-[10px]" />
                                     <p className="text-xs text-gray-400 truncate group-hover:text-gray-300">{t.content}</p>
                                 </div>
                             </div>
@@ -416,7 +433,9 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
                                 {(activeThread.users as any)?.role === 'teacher' && <TeacherBadge/>}
                             </h4>
                             <span className="text-xs text-gray-400 truncate block">{activeThread.category} • {activeThread.users?.display_name || activeThread.users?.username}</span>
+                            <ModerationBadge status={activeThread.moderation_status} isOwner={activeThread.user_id === user.id} size={10} className="text-[10px]" />
                         </div>
+                        <ReportButton contentType="discussion_thread" contentId={activeThread.id} authorId={activeThread.user_id} text={activeThread.title + "\n" + activeThread.content} reporterId={user.id} size={18} className="p-2" />
                     </div>
 
                     {/* Messages Background */}
@@ -461,6 +480,8 @@ const DiscussionBoard: React.FC<DiscussionBoardProps> = ({ user }) => {
                                         <div className="break-words leading-snug whitespace-pre-wrap text-[14px]">{c.content}</div>
                                         
                                         <div className="text-[9px] text-white/50 text-right mt-0.5 -mb-0.5 flex items-center justify-end gap-1 select-none">
+                                            <ModerationBadge status={c.moderation_status} isOwner={isMe} size={9} className="mr-1" />
+                                            <ReportButton contentType="discussion_comment" contentId={c.id} authorId={c.user_id} text={c.content} reporterId={user.id} size={10} className="opacity-0 group-hover:opacity-100 mr-1" />
                                             {formatTimeShort(c.created_at)}
                                             {isMe && <CheckCircle size={10} className="text-blue-400"/>}
                                         </div>
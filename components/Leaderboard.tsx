@@ -1,6 +1,7 @@
 
 import React, { useEffect, useState } from 'react';
 import { supabase } from '../services/supabaseClient';
+import { scopeToSchool, onlyActiveStudents } from '../services/schools';
 import { Trophy, Medal, Crown, User } from 'lucide-react';
 import { Skeleton } from './Skeleton';
 
@@ -15,11 +16,10 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ currentUserId, currentUserPoi
 
     useEffect(() => {
         const fetchLeaderboard = async () => {
-            // Fetch users ordered by total_points (All time), excluding teachers
-            const { data, error } = await supabase
+            // Fetch active students of this school ordered by total_points (All time)
+            const { data, error } = await onlyActiveStudents(scopeToSchool(supabase
                 .from('users')
-                .select('id, username, display_name, avatar_url, total_points, role')
-                .neq('role', 'teacher') // Exclude teachers
+                .select('id, username, display_name, avatar_url, total_points, role')))
                 .order('total_points', { ascending: false })
                 .limit(20);
 
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Clock, EyeOff, Flag, Loader2, ShieldAlert } from 'lucide-react';
+import { ModerationStatus } from '../types';
+import { MODERATION_LABELS } from '../services/moderation';
+import { reportContent, ModeratedContentType } from '../services/moderationQueue';
+import { showToast } from '../utils/notificationUtils';
+
+interface ModerationBadgeProps {
+  status?: ModerationStatus | null;
+  // Only the author is told their content is under review or hidden.
+  isOwner: boolean;
+  size?: number;
+  className?: string;
+}
+
+export const ModerationBadge: React.FC<ModerationBadgeProps> = ({ status, isOwner, size = 12, className = "" }) => {
+  const label = status && MODERATION_LABELS[status];
+  if (!label || !isOwner) return null;
+  const Icon = status === 'hidden' ? EyeOff : status === 'under_review' ? ShieldAlert : Clock;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-amber-400 ${className}`}>
+      <Icon size={size} /> {label}
+    </span>
+  );
+};
+
+interface ReportButtonProps {
+  contentType: ModeratedContentType;
+  contentId: string;
+  authorId: string;
+  text: string;
+  reporterId: string;
+  size?: number;
+  className?: string;
+}
+
+export const ReportButton: React.FC<ReportButtonProps> = ({ contentType, contentId, authorId, text, reporterId, size = 14, className = "" }) => {
+  const [sending, setSending] = useState(false);
+  if (authorId === reporterId) return null;
+
+  const handleReport = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const reason = window.prompt("What's wrong with this? A teacher will review it.");
+    if (!reason?.trim()) return;
+    setSending(true);
+    try {
+      await reportContent({ contentType, contentId, authorId, text }, reason.trim(), reporterId);
+      showToast("Thanks, a teacher will take a look.", 'success');
+    } catch (err: any) {
+      showToast("Could not send report: " + err.message, 'error');
+    }
+    setSending(false);
+  };
+
+  return (
+    <button onClick={handleReport} disabled={sending} title="Report" className={`text-white/30 hover:text-red-400 transition-colors ${className}`}>
+      {sending ? <Loader2 size={size} className="animate-spin" /> : <Flag size={size} />}
+    </button>
+  );
+};
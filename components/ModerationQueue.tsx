@@ -0,0 +1,237 @@
+
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Check, EyeOff, Trash2, AlertTriangle, Loader2, History, ListChecks, Plus, X } from 'lucide-react';
+import {
+    listQueue, listAuditLog, resolveQueueItem, CONTENT_TYPE_LABELS,
+    QueueItem, AuditEntry, ModerationAction, QueueSource
+} from '../services/moderationQueue';
+import { listSchoolTerms, addSchoolTerm, removeSchoolTerm, SchoolTermRow } from '../services/moderation';
+import { showToast } from '../utils/notificationUtils';
+
+interface ModerationQueueProps {
+    userId: string;
+}
+
+const SOURCE_LABELS: Record<QueueSource, string> = {
+    blocked: 'Blocked',
+    pending: 'Awaiting review',
+    report: 'Reported'
+};
+
+const SOURCE_STYLES: Record<QueueSource, string> = {
+    blocked: 'bg-red-900/30 text-red-300 border-red-500/30',
+    pending: 'bg-amber-900/30 text-amber-300 border-amber-500/30',
+    report: 'bg-purple-900/30 text-purple-300 border-purple-500/30'
+};
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+    approve: 'Approved',
+    hide: 'Hidden',
+    delete: 'Deleted',
+    warn: 'Warned author'
+};
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ userId }) => {
+    const [view, setView] = useState<'queue' | 'audit' | 'terms'>('queue');
+    const [items, setItems] = useState<QueueItem[]>([]);
+    const [audit, setAudit] = useState<AuditEntry[]>([]);
+    const [terms, setTerms] = useState<SchoolTermRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const [newTerm, setNewTerm] = useState('');
+    const [newKind, setNewKind] = useState<SchoolTermRow['kind']>('block');
+
+    useEffect(() => {
+        loadView();
+    }, [view]);
+
+    const loadView = async () => {
+        setLoading(true);
+        try {
+            if (view === 'queue') setItems(await listQueue());
+            if (view === 'audit') setAudit(await listAuditLog());
+            if (view === 'terms') setTerms(await listSchoolTerms());
+        } catch (e: any) {
+            showToast("Could not load moderation data: " + e.message, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleResolve = async (item: QueueItem, action: ModerationAction) => {
+        if (action === 'delete' && !window.confirm("Delete this content permanently?")) return;
+        let note: string | undefined;
+        if (action === 'warn') {
+            const message = window.prompt("Message to the student (leave empty for the standard warning):");
+            if (message === null) return;
+            note = message.trim() || undefined;
+        }
+
+        setBusyId(item.id);
+        try {
+            await resolveQueueItem(item, action, userId, note);
+            // Other reports of the same content were closed too
+            setItems(prev => prev.filter(i => i.id !== item.id && !(item.content_id && i.content_type === item.content_type && i.content_id === item.content_id)));
+            showToast(`${ACTION_LABELS[action]}.`, 'success');
+        } catch (e: any) {
+            showToast("Could not apply decision: " + e.message, 'error');
+        }
+        setBusyId(null);
+    };
+
+    const handleAddTerm = async () => {
+        if (!newTerm.trim()) return;
+        try {
+            await addSchoolTerm(newTerm, newKind, userId);
+            setNewTerm('');
+            setTerms(await listSchoolTerms());
+        } catch (e: any) {
+            showToast("Could not add word: " + e.message, 'error');
+        }
+    };
+
+    const handleRemoveTerm = async (term: SchoolTermRow) => {
+        try {
+            await removeSchoolTerm(term.id);
+            setTerms(prev => prev.filter(t => t.id !== term.id));
+        } catch (e: any) {
+            showToast("Could not remove word: " + e.message, 'error');
+        }
+    };
+
+    const tabClass = (tab: typeof view) =>
+        `flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${view === tab ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <p className="text-slate-400 text-sm">Blocked, unchecked and reported posts from the feed, discussions and notes.</p>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setView('queue')} className={tabClass('queue')}><ShieldAlert size={14} /> Queue</button>
+                    <button onClick={() => setView('audit')} className={tabClass('audit')}><History size={14} /> Audit Log</button>
+                    <button onClick={() => setView('terms')} className={tabClass('terms')}><ListChecks size={14} /> Word Lists</button>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center text-slate-400 text-sm"><Loader2 className="animate-spin mr-2" size={16} /> Loading...</div>
+            ) : view === 'queue' ? (
+                items.length === 0 ? (
+                    <div className="glass-panel p-10 rounded-2xl bg-slate-900 border border-slate-800 text-center text-slate-500 text-sm">Nothing to review.</div>
+                ) : (
+                    <div className="space-y-3">
+                        {items.map(item => (
+                            <div key={item.id} className="glass-panel p-5 rounded-2xl bg-slate-900 border border-slate-800">
+                                <div className="flex items-center justify-between gap-3 mb-3">
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <span className={`px-2 py-0.5 rounded border font-bold ${SOURCE_STYLES[item.source]}`}>{SOURCE_LABELS[item.source]}</span>
+                                        <span className="text-slate-400">{CONTENT_TYPE_LABELS[item.content_type]}</span>
+                                        <span className="text-slate-500">by {item.author?.display_name || item.author?.username || 'Unknown'}</span>
+                                    </div>
+                                    <span className="text-[10px] text-slate-500">{new Date(item.created_at).toLocaleString()}</span>
+                                </div>
+                                <p className="text-sm text-slate-200 whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded-xl p-3 max-h-40 overflow-y-auto custom-scrollbar">{item.excerpt}</p>
+                                <div className="mt-3 text-xs text-slate-400 space-y-1">
+                                    {item.reason && <div><span className="font-bold text-slate-300">{item.source === 'report' ? 'Report' : 'Reason'}:</span> {item.reason}</div>}
+                                    {item.verdict && <div><span className="font-bold text-slate-300">Moderator:</span> {item.verdict}</div>}
+                                </div>
+                                <div className="flex flex-wrap gap-2 mt-4">
+                                    {busyId === item.id ? (
+                                        <Loader2 className="animate-spin text-slate-400" size={18} />
+                                    ) : (
+                                        <>
+                                            <button onClick={() => handleResolve(item, 'approve')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-green-900/30 text-green-300 hover:bg-green-900/50 text-xs font-bold">
+                                                <Check size={14} /> {item.content_id ? 'Approve' : 'Dismiss'}
+                                            </button>
+                                            {item.content_id && (
+                                                <>
+                                                    <button onClick={() => handleResolve(item, 'hide')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 text-slate-300 hover:text-white text-xs font-bold">
+                                                        <EyeOff size={14} /> Hide
+                                                    </button>
+                                                    <button onClick={() => handleResolve(item, 'delete')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-900/30 text-red-300 hover:bg-red-900/50 text-xs font-bold">
+                                                        <Trash2 size={14} /> Delete
+                                                    </button>
+                                                </>
+                                            )}
+                                            <button onClick={() => handleResolve(item, 'warn')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-900/30 text-amber-300 hover:bg-amber-900/50 text-xs font-bold">
+                                                <AlertTriangle size={14} /> Warn
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )
+            ) : view === 'audit' ? (
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                    {audit.length === 0 ? (
+                        <p className="text-sm text-slate-500">No decisions yet.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs uppercase text-slate-500 text-left">
+                                    <th className="pb-2 font-bold">When</th>
+                                    <th className="pb-2 font-bold">Teacher</th>
+                                    <th className="pb-2 font-bold">Action</th>
+                                    <th className="pb-2 font-bold">Content</th>
+                                    <th className="pb-2 font-bold">Note</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {audit.map(entry => (
+                                    <tr key={entry.id} className="border-t border-slate-800 text-slate-300">
+                                        <td className="py-2 text-slate-500 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                                        <td className="py-2">{entry.actor?.display_name || entry.actor?.username || '-'}</td>
+                                        <td className="py-2">{ACTION_LABELS[entry.action]}</td>
+                                        <td className="py-2">{CONTENT_TYPE_LABELS[entry.content_type]}</td>
+                                        <td className="py-2 text-slate-500">{entry.note || '-'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            ) : (
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                    <p className="text-xs text-slate-500 mb-4">
+                        Blocked words are always rejected. Allowed words are never blocked and count as science talk.
+                    </p>
+                    <div className="flex gap-2 mb-4">
+                        <input
+                            value={newTerm}
+                            onChange={e => setNewTerm(e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && handleAddTerm()}
+                            placeholder="Word or phrase"
+                            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-cyan-500"
+                        />
+                        <select
+                            value={newKind}
+                            onChange={e => setNewKind(e.target.value as SchoolTermRow['kind'])}
+                            className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none"
+                        >
+                            <option value="block">Block</option>
+                            <option value="allow">Allow</option>
+                        </select>
+                        <button onClick={handleAddTerm} className="flex items-center gap-1 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold"><Plus size={16} /> Add</button>
+                    </div>
+                    {terms.length === 0 ? (
+                        <p className="text-sm text-slate-500">Only the built-in rules apply.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-2">
+                            {terms.map(term => (
+                                <span key={term.id} className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-bold border ${term.kind === 'block' ? 'bg-red-900/20 text-red-300 border-red-500/30' : 'bg-green-900/20 text-green-300 border-green-500/30'}`}>
+                                    {term.term}
+                                    <button onClick={() => handleRemoveTerm(term)} className="hover:text-white" title="Remove"><X size={12} /></button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ModerationQueue;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Download, Trash2, Loader2 } from 'lucide-react';
+import { UserData } from '../types';
+import { downloadMyData, requestAccountDeletion } from '../services/privacy';
+import { isGatewayEnabled } from '../services/gatewayClient';
+import { showToast } from '../utils/notificationUtils';
+import { t } from '../utils/i18n';
+
+interface MyDataSettingsProps {
+    user: UserData;
+    // Deletion signs the account out everywhere
+    onDeletionRequested: () => void;
+}
+
+// Settings section: download everything, or ask for the account to be deleted.
+const MyDataSettings: React.FC<MyDataSettingsProps> = ({ user, onDeletionRequested }) => {
+    const [downloading, setDownloading] = useState(false);
+    const [confirming, setConfirming] = useState(false);
+    const [password, setPassword] = useState('');
+    const [deleting, setDeleting] = useState(false);
+
+    const handleDownload = async () => {
+        setDownloading(true);
+        try {
+            await downloadMyData(user);
+        } catch (e: any) {
+            showToast(t('settings.exportFailed') + ' ' + e.message, 'error');
+        }
+        setDownloading(false);
+    };
+
+    const handleDelete = async () => {
+        setDeleting(true);
+        try {
+            const scheduledFor = await requestAccountDeletion(password);
+            showToast(t('settings.deletionScheduled', { date: new Date(scheduledFor).toLocaleDateString() }), 'info');
+            onDeletionRequested();
+        } catch (e: any) {
+            showToast(e.message, 'error');
+            setDeleting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <button onClick={handleDownload} disabled={downloading} className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-bold flex items-center gap-2">
+                {downloading ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} {t('settings.downloadData')}
+            </button>
+            {isGatewayEnabled() && (confirming ? (
+                <div className="p-3 rounded-xl border border-red-500/40 bg-red-900/10 space-y-2">
+                    <p className="text-xs text-red-200">{t('settings.deleteAccountHint')}</p>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        placeholder={t('settings.currentPassword')}
+                        className="w-full bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-sm"
+                    />
+                    <div className="flex gap-2 justify-end">
+                        <button onClick={() => { setConfirming(false); setPassword(''); }} className="px-3 py-1.5 rounded-lg text-xs hover:bg-white/10">{t('common.cancel')}</button>
+                        <button onClick={handleDelete} disabled={deleting || !password} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-red-600 hover:bg-red-500 text-white flex items-center gap-1.5 disabled:opacity-50">
+                            {deleting ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />} {t('settings.deleteAccount')}
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <button onClick={() => setConfirming(true)} className="px-4 py-2 rounded-lg border border-red-500/40 text-red-300 hover:bg-red-900/20 text-sm font-bold flex items-center gap-2">
+                    <Trash2 size={16} /> {t('settings.deleteAccount')}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default MyDataSettings;
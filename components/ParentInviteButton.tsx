@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { UserPlus, Loader2, Copy } from 'lucide-react';
+import { createParentInvite, ParentInvite } from '../services/parents';
+import { showToast } from '../utils/notificationUtils';
+
+interface ParentInviteButtonProps {
+    studentId: string;
+    label: string;
+    className?: string;
+}
+
+// Creates a single-use parent invite code and shows it once.
+const ParentInviteButton: React.FC<ParentInviteButtonProps> = ({ studentId, label, className }) => {
+    const [invite, setInvite] = useState<ParentInvite | null>(null);
+    const [creating, setCreating] = useState(false);
+
+    const handleCreate = async () => {
+        setCreating(true);
+        try {
+            setInvite(await createParentInvite(studentId));
+        } catch (e: any) {
+            showToast("Could not create an invite: " + e.message, 'error');
+        }
+        setCreating(false);
+    };
+
+    const handleCopy = () => {
+        if (!invite) return;
+        navigator.clipboard.writeText(invite.code)
+            .then(() => showToast("Code copied.", 'success'))
+            .catch(() => showToast("Copy the code by hand.", 'info'));
+    };
+
+    if (invite) {
+        return (
+            <div className="flex items-center gap-2 text-xs">
+                <span className="font-mono font-bold text-base tracking-widest px-2 py-1 rounded bg-black/30 border border-white/10">{invite.code}</span>
+                <button onClick={handleCopy} className="p-1.5 rounded hover:bg-white/10" title="Copy"><Copy size={14} /></button>
+                <span className="opacity-60">until {new Date(invite.expiresAt).toLocaleDateString()}</span>
+            </div>
+        );
+    }
+
+    return (
+        <button onClick={handleCreate} disabled={creating} className={className || "px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 bg-white/10 hover:bg-white/20"}>
+            {creating ? <Loader2 size={14} className="animate-spin" /> : <UserPlus size={14} />} {label}
+        </button>
+    );
+};
+
+export default ParentInviteButton;
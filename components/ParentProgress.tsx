@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Zap, TrendingUp, CheckCircle, FileText, Headphones, Target, Clock, Brain, Loader2, MessageSquare, BarChart2 } from 'lucide-react';
+import { School } from '../types';
+import { loadChildProgress, ChildProgress, LinkedChild, ActivityItem } from '../services/parents';
+import { generatePerformanceReport } from '../services/aiService';
+import { renderRichText } from '../utils/textUtils';
+import { showToast } from '../utils/notificationUtils';
+import { Skeleton } from './Skeleton';
+
+interface ParentProgressProps {
+    child: LinkedChild;
+    school: School | null;
+    parentId: string;
+}
+
+const ACTIVITY_ICONS: Record<ActivityItem['kind'], React.ReactNode> = {
+    quiz: <Target size={14} className="text-cyan-400" />,
+    research: <FileText size={14} className="text-blue-400" />,
+    library: <Headphones size={14} className="text-orange-400" />,
+    chat: <MessageSquare size={14} className="text-purple-400" />,
+    post: <TrendingUp size={14} className="text-pink-400" />,
+    note: <FileText size={14} className="text-green-400" />
+};
+
+// Read-only summary of one child's learning for a parent.
+const ParentProgress: React.FC<ParentProgressProps> = ({ child, school, parentId }) => {
+    const [progress, setProgress] = useState<ChildProgress | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [report, setReport] = useState<string | null>(null);
+    const [generating, setGenerating] = useState(false);
+    const [openChatId, setOpenChatId] = useState<string | null>(null);
+    const name = child.display_name || child.username;
+
+    useEffect(() => {
+        setReport(null);
+        setLoading(true);
+        loadChildProgress(child, school, parentId)
+            .then(setProgress)
+            .catch((e: any) => showToast(`Could not load ${name}'s progress: ${e.message}`, 'error'))
+            .finally(() => setLoading(false));
+    }, [child.id]);
+
+    const handleReport = async () => {
+        if (!progress) return;
+        setGenerating(true);
+        setReport(await generatePerformanceReport(name, progress.interests, progress.stats));
+        setGenerating(false);
+    };
+
+    if (loading) {
+        return (
+            <div className="p-6 space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    {[1, 2, 3, 4, 5].map(i => <Skeleton key={i} className="h-24 rounded-xl" />)}
+                </div>
+                <Skeleton className="h-64 rounded-2xl" />
+            </div>
+        );
+    }
+
+    if (!progress) return null;
+    const { stats, activity, chats } = progress;
+    const completed = stats.topicScores.filter(t => t.isComplete && t.chapter).length;
+
+    const card = (icon: React.ReactNode, value: React.ReactNode, label: string) => (
+        <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl flex flex-col items-center justify-center text-center">
+            <div className="mb-2">{icon}</div>
+            <div className="text-2xl font-bold text-white">{value}</div>
+            <div className="text-[10px] text-slate-500 uppercase tracking-wider">{label}</div>
+        </div>
+    );
+
+    return (
+        <div className="p-6 space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {card(<Zap size={22} className="text-cyan-400" />, stats.totalPoints, 'Total XP')}
+                {card(<TrendingUp size={22} className="text-purple-400" />, stats.quizzesAttempted, 'Chapters started')}
+                {card(<CheckCircle size={22} className="text-green-400" />, `${completed}/${stats.chaptersInSyllabus}`, 'Chapters finished')}
+                {card(<FileText size={22} className="text-blue-400" />, stats.researchProjects.length, 'Research docs')}
+                {card(<Headphones size={22} className="text-orange-400" />, stats.savedPods.length, 'Saved pods')}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-slate-900 border border-slate-800 p-6 rounded-2xl">
+                    <h3 className="text-lg font-bold text-white mb-5 flex items-center gap-2"><Target size={18} className="text-cyan-400" /> Chapter progress</h3>
+                    {stats.topicScores.length === 0 ? (
+                        <div className="text-center py-8 text-slate-500 text-sm">
+                            <BarChart2 size={40} className="mx-auto mb-3 opacity-50" />
+                            {name} hasn't started a chapter quiz yet.
+                        </div>
+                    ) : (
+                        <div className="space-y-5">
+                            {stats.topicScores.map(t => {
+                                const done = Math.min(100, Math.round((t.answered / Math.max(t.questions, 1)) * 100));
+                                return (
+                                    <div key={t.topic}>
+                                        <div className="flex justify-between mb-1.5 text-sm">
+                                            <span className="font-bold text-slate-200">{t.chapter && <span className="text-slate-500 mr-1">Ch. {t.chapter}</span>}{t.topic}</span>
+                                            <span className="text-slate-400">
+                                                {t.isComplete ? 'Finished' : `${t.answered}/${t.questions} answered`} · <span className={t.percent >= 80 ? 'text-green-400' : t.percent >= 50 ? 'text-yellow-400' : 'text-red-400'}>{t.percent}%</span>
+                                            </span>
+                                        </div>
+                                        <div className="w-full bg-slate-800 rounded-full h-2 overflow-hidden">
+                                            <div className={`h-full rounded-full ${t.isComplete ? 'bg-green-500' : 'bg-cyan-500'}`} style={{ width: `${t.isComplete ? 100 : done}%` }} />
+                                        </div>
+                                        {t.outcomesMastered.length > 0 && (
+                                            <p className="text-xs text-green-400/80 mt-1.5">Mastered: {t.outcomesMastered.join('; ')}</p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                <div className="bg-slate-900 border border-slate-800 p-6 rounded-2xl">
+                    <h3 className="text-lg font-bold text-white mb-5 flex items-center gap-2"><Clock size={18} className="text-amber-400" /> Recent activity</h3>
+                    {activity.length === 0 ? (
+                        <p className="text-sm text-slate-500">Nothing yet.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {activity.map((item, i) => (
+                                <li key={`${item.kind}-${i}`} className="flex items-start gap-3 text-sm">
+                                    <span className="mt-0.5">{ACTIVITY_ICONS[item.kind]}</span>
+                                    <div className="min-w-0 flex-1">
+                                        <div className="text-slate-200 truncate">{item.title}</div>
+                                        {item.detail && <div className="text-xs text-slate-500">{item.detail}</div>}
+                                    </div>
+                                    <span className="text-[10px] text-slate-500 whitespace-nowrap">{new Date(item.at).toLocaleDateString()}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-slate-900 border border-indigo-500/20 p-6 rounded-2xl">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Brain size={18} className="text-purple-400" /> Progress report</h3>
+                {report ? (
+                    <div className="prose prose-invert prose-sm max-w-none">{renderRichText(report)}</div>
+                ) : (
+                    <p className="text-sm text-slate-400 mb-4">An AI-written summary of {name}'s quizzes, research and saved study material.</p>
+                )}
+                <button onClick={handleReport} disabled={generating} className="mt-4 px-5 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold flex items-center gap-2">
+                    {generating ? <Loader2 size={16} className="animate-spin" /> : <Brain size={16} />}
+                    {report ? 'Refresh report' : 'Write report'}
+                </button>
+            </div>
+
+            {chats && (
+                <div className="bg-slate-900 border border-slate-800 p-6 rounded-2xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><MessageSquare size={18} className="text-purple-400" /> Chats with Science Buddy</h3>
+                    {chats.length === 0 ? (
+                        <p className="text-sm text-slate-500">No chats yet.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {chats.map(chat => (
+                                <div key={chat.id} className="border border-slate-800 rounded-xl">
+                                    <button onClick={() => setOpenChatId(openChatId === chat.id ? null : chat.id)} className="w-full flex justify-between px-4 py-2 text-sm text-left text-slate-200 hover:bg-slate-800/50">
+                                        <span className="truncate">{chat.title}</span>
+                                        <span className="text-xs text-slate-500">{new Date(chat.created_at).toLocaleDateString()}</span>
+                                    </button>
+                                    {openChatId === chat.id && (
+                                        <div className="px-4 pb-4 space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+                                            {(chat.messages || []).map((m, i) => (
+                                                <div key={i} className={`text-xs p-2 rounded-lg ${m.role === 'user' ? 'bg-cyan-900/30 text-cyan-100' : 'bg-slate-800 text-slate-300'}`}>
+                                                    <span className="font-bold mr-1">{m.role === 'user' ? name : 'Buddy'}:</span>{m.text}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ParentProgress;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Hourglass, RefreshCw, LogOut, Loader2 } from 'lucide-react';
+import { UserData } from '../types';
+import { reloadAccount, isPendingTeacher } from '../services/roles';
+import { showToast } from '../utils/notificationUtils';
+
+interface PendingApprovalProps {
+    user: UserData;
+    onApproved: (user: UserData) => void;
+    onLogout: () => void;
+}
+
+// Shown to teacher signups until a teacher or admin of their school approves them.
+const PendingApproval: React.FC<PendingApprovalProps> = ({ user, onApproved, onLogout }) => {
+    const [checking, setChecking] = useState(false);
+
+    const handleCheck = async () => {
+        setChecking(true);
+        try {
+            const latest = await reloadAccount(user.id);
+            if (!latest || latest.account_status === 'revoked') {
+                showToast("Your teacher signup was not approved. Ask your school's admin if you think this is a mistake.", 'error');
+                onLogout();
+            } else if (isPendingTeacher(latest)) {
+                showToast("Still waiting for approval.", 'info');
+            } else {
+                showToast("Your account has been approved!", 'success');
+                onApproved(latest);
+            }
+        } catch (e: any) {
+            showToast("Could not check your account: " + e.message, 'error');
+        }
+        setChecking(false);
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-slate-950 p-6 text-white">
+            <div className="max-w-md w-full bg-slate-900 border border-slate-800 rounded-2xl p-8 text-center space-y-4">
+                <Hourglass size={36} className="mx-auto text-amber-400" />
+                <h1 className="text-xl font-bold">Waiting for approval</h1>
+                <p className="text-sm text-slate-400">
+                    Thanks for signing up, {user.display_name || user.username}. A teacher or admin at your school needs to approve
+                    your teacher account before you can use the teacher tools.
+                </p>
+                <div className="flex gap-3 justify-center pt-2">
+                    <button onClick={handleCheck} disabled={checking} className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-sm font-bold flex items-center gap-2">
+                        {checking ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />} Check again
+                    </button>
+                    <button onClick={onLogout} className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-bold flex items-center gap-2">
+                        <LogOut size={16} /> Sign out
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PendingApproval;
@@ -1,6 +1,6 @@
 
 import React, { useEffect, useState } from 'react';
-import { supabase } from '../services/supabaseClient';
+import { loadPerformanceStats, PerformanceStats } from '../services/progress';
 import { generatePerformanceReport } from '../services/aiService';
 import { renderRichText } from '../utils/textUtils';
 import { BarChart2, TrendingUp, Target, Award, Brain, Zap, Loader2, FileText, Headphones, Users } from 'lucide-react';
@@ -13,7 +13,7 @@ interface PerformanceAnalyticsProps {
 }
 
 const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({ userId, username, currentUserPoints }) => {
-    const [stats, setStats] = useState<any>(null);
+    const [stats, setStats] = useState<PerformanceStats | null>(null);
     const [loading, setLoading] = useState(true);
     const [analysis, setAnalysis] = useState<string | null>(null);
     const [analyzing, setAnalyzing] = useState(false);
@@ -25,56 +25,9 @@ const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({ userId, use
 
     const fetchStats = async () => {
         setLoading(true);
-
-        // Parallel Fetching for holistic view
-        const [usersData, quizData, chatData, researchData, libraryData, notesData, userProfile] = await Promise.all([
-            supabase.from('users').select('id, total_points').order('total_points', { ascending: false }),
-            supabase.from('quiz_progress').select('*').eq('user_id', userId),
-            supabase.from('chat_sessions').select('id, title, messages').eq('user_id', userId),
-            supabase.from('research_projects').select('title, created_at').eq('user_id', userId),
-            supabase.from('study_library').select('topic, type').eq('user_id', userId),
-            supabase.from('community_notes').select('id').eq('user_id', userId),
-            supabase.from('users').select('interests').eq('id', userId).single()
-        ]);
-
-        // 1. Process Rank
-        let rank = '-';
-        if (usersData.data) {
-            const index = usersData.data.findIndex(u => u.id === userId);
-            if (index !== -1) {
-                rank = (index + 1).toString();
-            }
-        }
-
-        // 2. Process Quiz Progress
-        const quizzesAttempted = quizData.data ? quizData.data.length : 0;
-        const topicScores = quizData.data ? quizData.data.map((q: any) => ({
-            topic: q.topic,
-            score: q.score,
-            total: 60, // Assuming 30 questions * 2 points
-            percent: Math.round((q.score / 60) * 100)
-        })) : [];
-
-        // 3. Process Chat
-        const totalChats = chatData.data ? chatData.data.length : 0;
-        const voiceChats = chatData.data ? chatData.data.filter((c: any) => c.title.toLowerCase().includes('voice')).length : 0;
-
-        // 4. Set Profile Interests
-        if (userProfile.data) {
-            setUserInterests(userProfile.data.interests || "General Science");
-        }
-
-        setStats({
-            rank,
-            quizzesAttempted,
-            topicScores,
-            totalChats,
-            voiceChats,
-            researchProjects: researchData.data || [],
-            savedPods: libraryData.data || [],
-            communityNotes: notesData.data ? notesData.data.length : 0,
-            totalPoints: currentUserPoints
-        });
+        const { stats, interests } = await loadPerformanceStats(userId, currentUserPoints);
+        setUserInterests(interests);
+        setStats(stats);
         setLoading(false);
     };
 
@@ -145,7 +98,7 @@ const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({ userId, use
 
                 <div className="glass-panel p-4 rounded-xl flex flex-col justify-center items-center bg-gradient-to-br from-pink-900/40 to-black/20 text-center">
                     <div className="text-pink-300 mb-2"><Users size={24} /></div>
-                    <div className="text-2xl font-bold">{stats.communityNotes}</div>
+                    <div className="text-2xl font-bold">{stats.communityNotes ?? 0}</div>
                     <div className="text-[10px] text-white/50 uppercase tracking-wider">Contributions</div>
                 </div>
             </div>
@@ -155,6 +108,9 @@ const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({ userId, use
                 <div className="flex-1 glass-panel p-6 rounded-2xl">
                     <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
                         <Target size={20} className="text-cyan-400" /> Topic Mastery
+                        <span className="ml-auto text-xs font-normal text-white/50">
+                            {stats.topicScores.filter(t => t.chapter).length}/{stats.chaptersInSyllabus} chapters started
+                        </span>
                     </h3>
                     
                     {stats.topicScores.length === 0 ? (
@@ -164,10 +120,10 @@ const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({ userId, use
                         </div>
                     ) : (
                         <div className="space-y-6">
-                            {stats.topicScores.map((t: any) => (
+                            {stats.topicScores.map(t => (
                                 <div key={t.topic}>
                                     <div className="flex justify-between mb-2 text-sm">
-                                        <span className="font-bold">{t.topic}</span>
+                                        <span className="font-bold">{t.chapter && <span className="text-white/40 mr-1">Ch. {t.chapter}</span>}{t.topic}</span>
                                         <span className={t.percent >= 80 ? 'text-green-400' : t.percent >= 50 ? 'text-yellow-400' : 'text-red-400'}>
                                             {t.percent}% ({t.score} pts)
                                         </span>
@@ -178,6 +134,9 @@ const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({ userId, use
                                             style={{ width: `${t.percent}%` }}
                                         />
                                     </div>
+                                    {t.outcomesMastered.length > 0 && (
+                                        <p className="text-xs text-green-300/80 mt-1.5">Mastered: {t.outcomesMastered.join('; ')}</p>
+                                    )}
                                 </div>
                             ))}
                         </div>
@@ -2,12 +2,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '../services/supabaseClient';
 import { Upload, FileText, Loader2, Play, Headphones, Network, Zap, Download, Trash2, Pause, ChevronLeft, MessageSquare, Send, CheckCircle, XCircle } from 'lucide-react';
-import { generateResearchTitle, generateSummaryFromText, generateQuizFromText, generatePodcastScriptFromText } from '../services/aiService';
+import { generateResearchTitle, generateSummaryFromText, generateQuizFromText, generatePodcastScriptFromText, generateConceptMapFromText } from '../services/aiService';
+import { requestChatCompletion, describeAIError } from '../services/llmProvider';
 import { ResearchProject, ChatMessage } from '../types';
 import { ConceptMap } from './CreativeTools';
 import { renderRichText } from '../utils/textUtils';
 import { speechManager } from '../utils/audioUtils';
 import { showToast } from '../utils/notificationUtils';
+import { extractPdfText } from '../utils/pdfUtils';
 
 interface ResearchModeProps {
     userId: string;
@@ -59,33 +61,16 @@ const ResearchMode: React.FC<ResearchModeProps> = ({ userId, username, userClass
     }, [currentProject?.id]);
 
     // --- DIRECT AI UTILITIES FOR RESEARCH LAB ---
-    const getGroqKey = async () => {
-        const { data } = await supabase.from('app_secrets').select('value').eq('name', 'GROQ_API_KEY').single();
-        return data?.value;
-    };
-
     const callDirectAI = async (messages: any[], jsonMode: boolean = false) => {
-        const apiKey = await getGroqKey();
-        if (!apiKey) throw new Error("API Key not found");
-
-        const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                model: "llama-3.3-70b-versatile",
-                messages: messages,
-                temperature: 0.5,
-                max_tokens: 4096,
-                response_format: jsonMode ? { type: "json_object" } : undefined
-            })
+        const result = await requestChatCompletion({
+            messages,
+            jsonMode,
+            temperature: 0.5,
+            maxTokens: 4096,
+            priority: 'interactive',
+            feature: 'research_chat'
         });
-
-        if (!response.ok) throw new Error("AI Service Busy");
-        const data = await response.json();
-        return data.choices[0].message.content;
+        return result.content;
     };
     // --------------------------------------------
 
@@ -109,17 +94,7 @@ const ResearchMode: React.FC<ResearchModeProps> = ({ userId, username, userClass
             const fileType = file.name.split('.').pop()?.toLowerCase();
             
             if (fileType === 'pdf') {
-                const pdfjsLib = (window as any).pdfjsLib;
-                if (!pdfjsLib) throw new Error("PDF Engine not ready.");
-                const arrayBuffer = await file.arrayBuffer();
-                const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-                let fullText = "";
-                for (let i = 1; i <= pdf.numPages; i++) {
-                    const page = await pdf.getPage(i);
-                    const textContentPage = await page.getTextContent();
-                    fullText += textContentPage.items.map((item: any) => item.str).join(' ') + '\n';
-                }
-                textContent = fullText;
+                textContent = await extractPdfText(file);
             } else if (['jpg', 'jpeg', 'png'].includes(fileType || '')) {
                 const Tesseract = (window as any).Tesseract;
                 if (!Tesseract) throw new Error("OCR Engine not ready.");
@@ -172,7 +147,7 @@ const ResearchMode: React.FC<ResearchModeProps> = ({ userId, username, userClass
         try {
             const script = await generatePodcastScriptFromText(currentProject.source_text, userClass);
             await updateProjectInDb({ podcast_script: script });
-        } catch(e) { showToast("Failed to generate podcast.", 'error'); }
+        } catch(e: any) { showToast(e.message || "Failed to generate podcast.", 'error'); }
         setIsGenerating(false);
     };
 
@@ -237,39 +212,26 @@ const ResearchMode: React.FC<ResearchModeProps> = ({ userId, username, userClass
 
     // --- OTHER GENERATORS ---
     const handleGenerateSummary = async () => { if (!currentProject) return; setIsGenerating(true); const summary = await generateSummaryFromText(currentProject.source_text, userClass); await updateProjectInDb({ summary }); setIsGenerating(false); };
-    const handleGenerateQuiz = async () => { if (!currentProject) return; setIsGenerating(true); const questions = await generateQuizFromText(currentProject.source_text, userClass); await updateProjectInDb({ quiz_data: questions }); setIsGenerating(false); };
     
-    // --- FIXED GRAPH GENERATOR ---
+    const handleGenerateQuiz = async () => {
+        if (!currentProject) return;
+        setIsGenerating(true);
+        try {
+            const questions = await generateQuizFromText(currentProject.source_text, userClass);
+            await updateProjectInDb({ quiz_data: questions });
+        } catch (e: any) { showToast(e.message || "Failed to generate quiz.", 'error'); }
+        setIsGenerating(false);
+    };
+
     const handleGenerateGraph = async () => { 
         if (!currentProject) return; 
         setIsGenerating(true); 
         try {
-            const prompt = `Analyze this text and create a concept map structure JSON.
-            Rules:
-            1. Root node is the main topic.
-            2. Children are key sub-concepts.
-            3. Description should be short (15 words max).
-            4. Strictly adhere to NCERT Class ${userClass} Level.
-            Output STRICT JSON format: { "root": { "label": "Main Topic", "description": "..." }, "children": [ { "label": "Subconcept", "description": "..." } ] }
-            
-            TEXT: "${currentProject.source_text.slice(0, 4000)}"`; // Increased context limit for graph
-
-            const response = await callDirectAI([{ role: 'user', content: prompt }], true);
-            
-            // CLEAN RESPONSE BEFORE PARSING
-            let cleanResponse = response.trim();
-            if (cleanResponse.startsWith('```json')) {
-                cleanResponse = cleanResponse.replace(/^```json/, '').replace(/```$/, '').trim();
-            } else if (cleanResponse.startsWith('```')) {
-                cleanResponse = cleanResponse.replace(/^```/, '').replace(/```$/, '').trim();
-            }
-
-            const graphData = JSON.parse(cleanResponse);
-            
+            const graphData = await generateConceptMapFromText(currentProject.source_text, userClass);
             await updateProjectInDb({ infographic_data: graphData }); 
-        } catch(e) {
+        } catch(e: any) {
             console.error(e);
-            showToast("Failed to generate graph.", 'error');
+            showToast(e.message || "Failed to generate graph.", 'error');
         }
         setIsGenerating(false); 
     };
@@ -304,7 +266,7 @@ const ResearchMode: React.FC<ResearchModeProps> = ({ userId, username, userClass
             // Save to DB
             await updateProjectInDb({ chat_history: [...newHistory, aiMsg] });
         } catch(e) {
-            showToast("Chat Error. Try again.", 'error');
+            showToast(`Chat Error: ${describeAIError(e)}`, 'error');
         }
         setChatLoading(false);
     };
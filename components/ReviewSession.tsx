@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, CheckCircle, XCircle, ArrowRight, RotateCcw, Trophy } from 'lucide-react';
+import { getDueCards, recordReview, ReviewCard } from '../services/reviewDeck';
+import { showToast } from '../utils/notificationUtils';
+import { t } from '../utils/i18n';
+
+interface ReviewSessionProps {
+    userId: string;
+    onClose: () => void;
+}
+
+const normalize = (text: string) => text ? text.trim().toLowerCase() : '';
+
+// Works through today's due review cards, showing the explanation after each answer.
+const ReviewSession: React.FC<ReviewSessionProps> = ({ userId, onClose }) => {
+    const [cards, setCards] = useState<ReviewCard[] | null>(null);
+    const [index, setIndex] = useState(0);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [correctCount, setCorrectCount] = useState(0);
+
+    useEffect(() => {
+        getDueCards(userId)
+            .then(setCards)
+            .catch((e: any) => {
+                showToast(t('review.loadFailed') + ' ' + e.message, 'error');
+                onClose();
+            });
+    }, [userId]);
+
+    const card = cards?.[index];
+    const finished = !!cards && index >= cards.length;
+
+    const handleAnswer = async (option: string) => {
+        if (!card || selected) return;
+        setSelected(option);
+        const correct = normalize(option) === normalize(card.question.correctAnswer);
+        if (correct) setCorrectCount(c => c + 1);
+        try {
+            await recordReview(card, correct);
+        } catch (e: any) {
+            showToast(t('review.saveFailed') + ' ' + e.message, 'error');
+        }
+    };
+
+    const handleNext = () => {
+        setSelected(null);
+        setIndex(i => i + 1);
+    };
+
+    const isRight = !!card && !!selected && normalize(selected) === normalize(card.question.correctAnswer);
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="w-full max-w-2xl max-h-[90vh] glass-panel bg-slate-900/90 p-6 rounded-2xl flex flex-col shadow-2xl animate-in zoom-in-95 overflow-y-auto custom-scrollbar">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><RotateCcw className="text-cyan-400" size={20} /> {t('review.title')}</h2>
+                    <div className="flex items-center gap-4">
+                        {cards && !finished && <span className="text-xs opacity-50 uppercase tracking-widest">{t('quiz.progress', { current: index + 1, total: cards.length })}</span>}
+                        <button onClick={onClose} className="hover:text-red-400 opacity-60 hover:opacity-100"><X /></button>
+                    </div>
+                </div>
+
+                {!cards ? (
+                    <div className="py-16 flex justify-center"><Loader2 className="animate-spin text-cyan-400" size={32} /></div>
+                ) : cards.length === 0 ? (
+                    <p className="py-12 text-center opacity-70">{t('review.nothingDue')}</p>
+                ) : finished ? (
+                    <div className="py-8 flex flex-col items-center text-center">
+                        <Trophy size={56} className="text-yellow-300 mb-4" />
+                        <p className="text-lg font-bold mb-6">{t('review.done', { correct: correctCount, total: cards.length })}</p>
+                        <button onClick={onClose} className="glass-button px-8 py-3 rounded-full font-bold">{t('review.close')}</button>
+                    </div>
+                ) : card && (
+                    <>
+                        <div className="text-xs opacity-50 mb-2">{card.topic}</div>
+                        <h3 className="text-lg md:text-xl font-medium leading-relaxed mb-5">{card.question.question}</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {card.question.options.map((opt, i) => {
+                                const isAnswer = normalize(opt) === normalize(card.question.correctAnswer);
+                                let style = "glass-button hover:bg-white/10 border-white/10";
+                                if (selected) {
+                                    style = isAnswer
+                                        ? "bg-green-500/20 border-green-500"
+                                        : selected === opt ? "bg-red-500/20 border-red-500 opacity-80" : "bg-black/20 opacity-30 border-transparent";
+                                }
+                                return (
+                                    <button
+                                        key={i}
+                                        onClick={() => handleAnswer(opt)}
+                                        disabled={!!selected}
+                                        className={`p-4 rounded-xl text-left border transition-all flex items-center gap-3 ${style}`}
+                                    >
+                                        {selected && isAnswer ? <CheckCircle size={20} className="text-green-400 shrink-0" />
+                                            : selected === opt ? <XCircle size={20} className="text-red-400 shrink-0" />
+                                            : <span className="w-5 h-5 rounded-full border border-white/30 flex items-center justify-center text-[10px] shrink-0">{String.fromCharCode(65 + i)}</span>}
+                                        <span className="text-sm">{opt}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        {selected && (
+                            <>
+                                <div className={`mt-5 p-4 rounded-xl border ${isRight ? 'bg-green-900/20 border-green-500/30' : 'bg-blue-900/20 border-blue-500/30'}`}>
+                                    <div className="font-bold uppercase text-xs tracking-wider opacity-70 mb-2">{t('quiz.explanation')}</div>
+                                    <p className="text-sm opacity-90">{card.question.explanation}</p>
+                                </div>
+                                <button onClick={handleNext} className="mt-5 self-end glass-button px-6 py-2 rounded-full font-bold flex items-center gap-2">
+                                    {index + 1 < cards.length ? t('review.next') : t('review.finish')} <ArrowRight size={16} />
+                                </button>
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ReviewSession;
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { UserCog, Hourglass, Users, GraduationCap, Ban, History, Check, X, ArrowUp, ArrowDown, RotateCcw, Loader2 } from 'lucide-react';
+import { UserData, RoleAction, RoleChange } from '../types';
+import {
+    listAccounts, listRoleChanges, changeRole, availableActions, isAdmin,
+    AccountGroup, ManagedAccount, ROLE_LABELS, ROLE_ACTION_LABELS
+} from '../services/roles';
+import { showToast } from '../utils/notificationUtils';
+
+interface RoleManagerProps {
+    user: UserData;
+}
+
+const ACTION_STYLES: Record<RoleAction, { icon: React.ReactNode; className: string }> = {
+    approve: { icon: <Check size={14} />, className: 'bg-green-900/30 text-green-300 hover:bg-green-900/50' },
+    reject: { icon: <X size={14} />, className: 'bg-red-900/30 text-red-300 hover:bg-red-900/50' },
+    promote: { icon: <ArrowUp size={14} />, className: 'bg-blue-900/30 text-blue-300 hover:bg-blue-900/50' },
+    demote: { icon: <ArrowDown size={14} />, className: 'bg-amber-900/30 text-amber-300 hover:bg-amber-900/50' },
+    revoke: { icon: <Ban size={14} />, className: 'bg-red-900/30 text-red-300 hover:bg-red-900/50' },
+    restore: { icon: <RotateCcw size={14} />, className: 'bg-slate-800 text-slate-300 hover:text-white' }
+};
+
+// What promote/demote does to this account, for the confirmation prompt
+const describeAction = (action: RoleAction, target: ManagedAccount) => {
+    const name = target.display_name || target.username;
+    if (action === 'promote') return target.role === 'teacher' ? `Make ${name} a school admin?` : `Make ${name} a teacher?`;
+    if (action === 'demote') return target.is_admin ? `Remove ${name}'s admin rights?` : `Turn ${name} back into a student account?`;
+    if (action === 'revoke' || action === 'reject') return `Disable ${name}'s account? They will be signed out everywhere.`;
+    return null;
+};
+
+const RoleManager: React.FC<RoleManagerProps> = ({ user }) => {
+    const [view, setView] = useState<AccountGroup | 'history'>('pending');
+    const [accounts, setAccounts] = useState<ManagedAccount[]>([]);
+    const [history, setHistory] = useState<RoleChange[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const admin = isAdmin(user);
+
+    useEffect(() => {
+        loadView();
+    }, [view]);
+
+    const loadView = async () => {
+        setLoading(true);
+        try {
+            if (view === 'history') setHistory(await listRoleChanges());
+            else setAccounts(await listAccounts(view));
+        } catch (e: any) {
+            showToast("Could not load accounts: " + e.message, 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleAction = async (target: ManagedAccount, action: RoleAction) => {
+        const question = describeAction(action, target);
+        if (question && !window.confirm(question)) return;
+        const note = window.prompt("Note for the role history (optional):");
+        if (note === null) return;
+
+        setBusyId(target.id);
+        try {
+            await changeRole(target.id, action, note.trim() || undefined);
+            // The account moves to another group (or changes within this one)
+            await loadView();
+            showToast(`${ROLE_ACTION_LABELS[action]}: ${target.display_name || target.username}.`, 'success');
+        } catch (e: any) {
+            showToast("Could not change role: " + e.message, 'error');
+        }
+        setBusyId(null);
+    };
+
+    const tabClass = (tab: typeof view) =>
+        `flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${view === tab ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+
+    const roleBadge = (account: ManagedAccount) => {
+        if (account.account_status === 'revoked') return <span className="px-2 py-0.5 rounded border font-bold bg-red-900/30 text-red-300 border-red-500/30">Revoked</span>;
+        if (account.account_status === 'pending') return <span className="px-2 py-0.5 rounded border font-bold bg-amber-900/30 text-amber-300 border-amber-500/30">Pending</span>;
+        if (account.role === 'teacher') {
+            return account.is_admin
+                ? <span className="px-2 py-0.5 rounded border font-bold bg-purple-900/30 text-purple-300 border-purple-500/30">Admin</span>
+                : <span className="px-2 py-0.5 rounded border font-bold bg-blue-900/30 text-blue-300 border-blue-500/30">Teacher</span>;
+        }
+        return <span className="px-2 py-0.5 rounded border font-bold bg-slate-800 text-slate-300 border-slate-700">Student {account.class_level ? `${account.class_level}-${account.section}` : ''}</span>;
+    };
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <p className="text-slate-400 text-sm">
+                    {admin ? 'Approve teacher signups and manage who can teach or administer your school.' : 'Approve or reject teacher signups. Ask a school admin for other role changes.'}
+                </p>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setView('pending')} className={tabClass('pending')}><Hourglass size={14} /> Pending</button>
+                    <button onClick={() => setView('staff')} className={tabClass('staff')}><UserCog size={14} /> Staff</button>
+                    <button onClick={() => setView('students')} className={tabClass('students')}><GraduationCap size={14} /> Students</button>
+                    <button onClick={() => setView('revoked')} className={tabClass('revoked')}><Ban size={14} /> Revoked</button>
+                    <button onClick={() => setView('history')} className={tabClass('history')}><History size={14} /> History</button>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center text-slate-400 text-sm"><Loader2 className="animate-spin mr-2" size={16} /> Loading...</div>
+            ) : view === 'history' ? (
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                    {history.length === 0 ? (
+                        <p className="text-sm text-slate-500">No role changes yet.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs uppercase text-slate-500 text-left">
+                                    <th className="pb-2 font-bold">When</th>
+                                    <th className="pb-2 font-bold">By</th>
+                                    <th className="pb-2 font-bold">Account</th>
+                                    <th className="pb-2 font-bold">Change</th>
+                                    <th className="pb-2 font-bold">Note</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {history.map(entry => (
+                                    <tr key={entry.id} className="border-t border-slate-800 text-slate-300">
+                                        <td className="py-2 text-slate-500 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                                        <td className="py-2">{entry.actor?.display_name || entry.actor?.username || '-'}</td>
+                                        <td className="py-2">{entry.target?.display_name || entry.target?.username || '-'}</td>
+                                        <td className="py-2">
+                                            {ROLE_ACTION_LABELS[entry.action]}: {ROLE_LABELS[entry.from_role] || entry.from_role} → {ROLE_LABELS[entry.to_role] || entry.to_role}
+                                        </td>
+                                        <td className="py-2 text-slate-500">{entry.note || '-'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            ) : accounts.length === 0 ? (
+                <div className="glass-panel p-10 rounded-2xl bg-slate-900 border border-slate-800 text-center text-slate-500 text-sm">
+                    {view === 'pending' ? 'No teacher signups are waiting.' : 'No accounts here.'}
+                </div>
+            ) : (
+                <div className="glass-panel rounded-2xl bg-slate-900 border border-slate-800 divide-y divide-slate-800">
+                    {accounts.map(account => {
+                        const actions = availableActions(user, account);
+                        return (
+                            <div key={account.id} className="flex items-center justify-between gap-4 p-4">
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2 text-sm">
+                                        <span className="font-bold text-white truncate">{account.display_name || account.username}</span>
+                                        <span className="text-xs">{roleBadge(account)}</span>
+                                        {account.id === user.id && <span className="text-xs text-slate-500">(you)</span>}
+                                    </div>
+                                    <div className="text-xs text-slate-500 truncate">
+                                        @{account.username}{account.email ? ` · ${account.email}` : ''}
+                                        {account.approved_at && ` · approved ${new Date(account.approved_at).toLocaleDateString()}${account.approver ? ` by ${account.approver.display_name || account.approver.username}` : ''}`}
+                                    </div>
+                                </div>
+                                <div className="flex flex-wrap gap-2 shrink-0">
+                                    {busyId === account.id ? (
+                                        <Loader2 className="animate-spin text-slate-400" size={18} />
+                                    ) : actions.map(action => (
+                                        <button key={action} onClick={() => handleAction(account, action)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold ${ACTION_STYLES[action].className}`}>
+                                            {ACTION_STYLES[action].icon} {ROLE_ACTION_LABELS[action]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RoleManager;
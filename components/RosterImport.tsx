@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Upload, X, Loader2, CheckCircle, AlertTriangle, Copy, Download, FileSpreadsheet } from 'lucide-react';
+import { School } from '../types';
+import {
+    parseRosterCsv, checkRoster, importRoster, downloadSetupCodes,
+    CheckedRosterRow, ImportedStudent, RosterRowStatus
+} from '../services/roster';
+import { showToast } from '../utils/notificationUtils';
+
+interface RosterImportProps {
+    school: School;
+    onClose: () => void;
+    onImported: () => void;
+}
+
+const STATUS_STYLES: Record<RosterRowStatus, string> = {
+    ok: 'bg-green-900/30 text-green-300 border-green-500/30',
+    invalid: 'bg-red-900/30 text-red-300 border-red-500/30',
+    duplicate: 'bg-amber-900/30 text-amber-300 border-amber-500/30'
+};
+
+const SAMPLE = 'name,email,class,section\nAsha Verma,asha1234@school.edu,8,A';
+
+// Paste or upload a CSV, check every row, then create the valid accounts and hand out setup codes.
+const RosterImport: React.FC<RosterImportProps> = ({ school, onClose, onImported }) => {
+    const [csv, setCsv] = useState('');
+    const [rows, setRows] = useState<CheckedRosterRow[] | null>(null);
+    const [checking, setChecking] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [imported, setImported] = useState<ImportedStudent[] | null>(null);
+
+    const valid = rows?.filter(r => r.status === 'ok') || [];
+    const skipped = (rows?.length || 0) - valid.length;
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(text => { setCsv(text); setRows(null); });
+        e.target.value = '';
+    };
+
+    const handleCheck = async () => {
+        const parsed = parseRosterCsv(csv);
+        if (!parsed.length) {
+            showToast("The file has no student rows.", 'error');
+            return;
+        }
+        setChecking(true);
+        try {
+            setRows(await checkRoster(parsed, school));
+        } catch (e: any) {
+            showToast("Could not check the roster: " + e.message, 'error');
+        }
+        setChecking(false);
+    };
+
+    const handleImport = async () => {
+        if (!valid.length) return;
+        if (skipped && !window.confirm(`${skipped} row(s) have problems and will be skipped. Import the other ${valid.length}?`)) return;
+        setImporting(true);
+        try {
+            setImported(await importRoster(valid));
+            onImported();
+        } catch (e: any) {
+            showToast("Import failed: " + e.message, 'error');
+        }
+        setImporting(false);
+    };
+
+    const handleCopy = () => {
+        if (!imported) return;
+        const text = imported.map(s => `${s.name}\t${s.username}\t${s.setupCode}`).join('\n');
+        navigator.clipboard.writeText(text)
+            .then(() => showToast("Codes copied.", 'success'))
+            .catch(() => showToast("Download the codes instead.", 'info'));
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="w-full max-w-4xl max-h-[90vh] bg-slate-900 border border-slate-800 p-6 rounded-2xl flex flex-col shadow-2xl animate-in zoom-in-95">
+                <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-4">
+                    <h2 className="text-2xl font-bold flex items-center gap-2 text-white"><FileSpreadsheet className="text-cyan-400" /> Import roster</h2>
+                    <button onClick={onClose} className="hover:text-red-400 text-slate-400"><X /></button>
+                </div>
+
+                {imported ? (
+                    <div className="flex-1 min-h-0 flex flex-col">
+                        <p className="text-sm text-slate-300 mb-4">
+                            <CheckCircle size={16} className="inline text-green-400 mr-1" />
+                            Created {imported.length} account(s). Give each student their setup code: they enter it under
+                            "Have a setup code?" on the login screen to choose a password. The codes are shown only now and work for 30 days.
+                        </p>
+                        <div className="flex-1 overflow-y-auto custom-scrollbar border border-slate-800 rounded-xl">
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-950 text-slate-500 text-xs uppercase sticky top-0">
+                                    <tr><th className="text-left p-2">Name</th><th className="text-left p-2">Class</th><th className="text-left p-2">Username</th><th className="text-left p-2">Setup code</th></tr>
+                                </thead>
+                                <tbody>
+                                    {imported.map(s => (
+                                        <tr key={s.email} className="border-t border-slate-800">
+                                            <td className="p-2 text-white">{s.name}</td>
+                                            <td className="p-2 text-slate-400">{s.classLevel}-{s.section}</td>
+                                            <td className="p-2 text-slate-300">{s.username}</td>
+                                            <td className="p-2 font-mono font-bold tracking-widest text-cyan-300">{s.setupCode}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="flex gap-2 justify-end mt-4">
+                            <button onClick={handleCopy} className="px-4 py-2 rounded-lg text-sm bg-slate-800 text-slate-300 hover:text-white flex items-center gap-2"><Copy size={16} /> Copy</button>
+                            <button onClick={() => downloadSetupCodes(imported)} className="px-4 py-2 rounded-lg text-sm bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-bold flex items-center gap-2"><Download size={16} /> Download CSV</button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex-1 min-h-0 flex flex-col gap-4">
+                        <p className="text-sm text-slate-400">
+                            One student per line with name, email, class and section. A header row can put the columns in any order.
+                        </p>
+                        <textarea
+                            value={csv}
+                            onChange={e => { setCsv(e.target.value); setRows(null); }}
+                            placeholder={SAMPLE}
+                            className="w-full h-32 shrink-0 bg-slate-950 border border-slate-800 rounded-xl p-3 text-sm font-mono text-white resize-none focus:outline-none focus:border-cyan-500"
+                        />
+                        <div className="flex gap-2">
+                            <label className="px-4 py-2 rounded-lg text-sm bg-slate-800 text-slate-300 hover:text-white flex items-center gap-2 cursor-pointer">
+                                <Upload size={16} /> Upload CSV
+                                <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+                            </label>
+                            <button onClick={handleCheck} disabled={checking || !csv.trim()} className="px-4 py-2 rounded-lg text-sm bg-slate-800 text-slate-300 hover:text-white flex items-center gap-2">
+                                {checking ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle size={16} />} Check rows
+                            </button>
+                        </div>
+
+                        {rows && (
+                            <>
+                                <div className="text-sm text-slate-300">
+                                    {valid.length} ready to import
+                                    {skipped > 0 && <span className="text-amber-300"> · <AlertTriangle size={14} className="inline" /> {skipped} will be skipped</span>}
+                                </div>
+                                <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar border border-slate-800 rounded-xl">
+                                    <table className="w-full text-sm">
+                                        <thead className="bg-slate-950 text-slate-500 text-xs uppercase sticky top-0">
+                                            <tr><th className="text-left p-2">Line</th><th className="text-left p-2">Name</th><th className="text-left p-2">Email</th><th className="text-left p-2">Class</th><th className="text-left p-2">Status</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {rows.map(row => (
+                                                <tr key={row.line} className="border-t border-slate-800">
+                                                    <td className="p-2 text-slate-500">{row.line}</td>
+                                                    <td className="p-2 text-white">{row.name || '—'}</td>
+                                                    <td className="p-2 text-slate-300">{row.email || '—'}</td>
+                                                    <td className="p-2 text-slate-400">{row.classLevel}-{row.section}</td>
+                                                    <td className="p-2 text-xs">
+                                                        <span className={`px-2 py-0.5 rounded border font-bold capitalize ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                                                        {row.problem && <span className="ml-2 text-slate-400">{row.problem}</span>}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                <div className="flex gap-2 justify-end">
+                                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm hover:bg-slate-800 text-slate-400">Cancel</button>
+                                    <button onClick={handleImport} disabled={importing || !valid.length} className="px-4 py-2 rounded-lg text-sm bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-bold flex items-center gap-2 disabled:opacity-50">
+                                        {importing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import {valid.length} student(s)
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RosterImport;
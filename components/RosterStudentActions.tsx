@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, KeyRound, Loader2 } from 'lucide-react';
+import { School, UserData } from '../types';
+import { schoolClasses } from '../services/schools';
+import { moveStudent, setArchived, reissueSetupCode } from '../services/roster';
+import { showToast } from '../utils/notificationUtils';
+
+interface RosterStudentActionsProps {
+    student: UserData;
+    school: School | null;
+    onChanged: () => void;
+}
+
+const BUTTON = "px-3 py-1 rounded-lg text-xs font-bold flex items-center gap-1.5 bg-slate-800 text-slate-300 hover:text-white";
+
+// Move, archive/restore and setup-code controls for the student detail header.
+const RosterStudentActions: React.FC<RosterStudentActionsProps> = ({ student, school, onChanged }) => {
+    const [busy, setBusy] = useState(false);
+    const [setupCode, setSetupCode] = useState<string | null>(null);
+    const name = student.display_name || student.username;
+    const archived = student.account_status === 'archived';
+    const current = `${student.class_level}|${student.section}`;
+
+    const run = async (task: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await task();
+        } catch (e: any) {
+            showToast(e.message, 'error');
+        }
+        setBusy(false);
+    };
+
+    const handleMove = (value: string) => {
+        const [classLevel, section] = value.split('|');
+        if (value === current || !window.confirm(`Move ${name} to class ${classLevel}-${section}?`)) return;
+        run(async () => {
+            await moveStudent(student.id, classLevel, section);
+            showToast(`${name} moved to ${classLevel}-${section}.`, 'success');
+            onChanged();
+        });
+    };
+
+    const handleArchive = () => {
+        if (!archived && !window.confirm(`Archive ${name}? They will be signed out and can no longer sign in. Their work is kept.`)) return;
+        run(async () => {
+            await setArchived(student.id, !archived);
+            showToast(archived ? `${name} restored.` : `${name} archived.`, 'success');
+            onChanged();
+        });
+    };
+
+    const handleNewCode = () => run(async () => {
+        setSetupCode((await reissueSetupCode(student.id)).setupCode);
+    });
+
+    return (
+        <div className="flex items-center gap-2">
+            {!archived && (
+                <select
+                    value={current}
+                    disabled={busy}
+                    onChange={e => handleMove(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none"
+                    title="Move to another section"
+                >
+                    {schoolClasses(school).flatMap(c => c.sections.map(s => (
+                        <option key={`${c.level}|${s}`} value={`${c.level}|${s}`}>Class {c.level}-{s}</option>
+                    )))}
+                </select>
+            )}
+            {student.account_status === 'invited' && (setupCode
+                ? <span className="font-mono font-bold text-sm tracking-widest px-2 py-1 rounded bg-black/30 border border-white/10 text-cyan-300">{setupCode}</span>
+                : <button onClick={handleNewCode} disabled={busy} className={BUTTON}><KeyRound size={14} /> New setup code</button>
+            )}
+            <button onClick={handleArchive} disabled={busy} className={BUTTON}>
+                {busy ? <Loader2 size={14} className="animate-spin" /> : archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                {archived ? 'Restore' : 'Archive'}
+            </button>
+        </div>
+    );
+};
+
+export default RosterStudentActions;
@@ -0,0 +1,167 @@
+
+import React, { useState } from 'react';
+import { Building2, Save, Loader2 } from 'lucide-react';
+import { School, SchoolClass, SchoolFeature, EmailRule } from '../types';
+import { updateSchool, FEATURE_LABELS, isFeatureEnabled } from '../services/schools';
+import { showToast } from '../utils/notificationUtils';
+
+interface SchoolSettingsProps {
+    school: School | null;
+    onSaved: (school: School) => void;
+}
+
+// "8: A, B, C" per line
+const formatClasses = (classes: SchoolClass[]) =>
+    classes.map(c => `${c.level}: ${c.sections.join(', ')}`).join('\n');
+
+const parseClasses = (text: string): SchoolClass[] =>
+    text
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+            const [level, sections = ''] = line.split(':');
+            return { level: level.trim(), sections: sections.split(',').map(s => s.trim()).filter(Boolean) };
+        })
+        .filter(c => c.level && c.sections.length);
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-cyan-500";
+
+const SchoolSettings: React.FC<SchoolSettingsProps> = ({ school, onSaved }) => {
+    const [name, setName] = useState(school?.name || '');
+    const [domains, setDomains] = useState(school?.email_domains.join(', ') || '');
+    const [studentRule, setStudentRule] = useState<EmailRule>(school?.email_rules?.student || { pattern: '', example: '' });
+    const [teacherRule, setTeacherRule] = useState<EmailRule>(school?.email_rules?.teacher || { pattern: '', example: '' });
+    const [classesText, setClassesText] = useState(formatClasses(school?.classes || []));
+    const [tagline, setTagline] = useState(school?.branding?.tagline || '');
+    const [logoUrl, setLogoUrl] = useState(school?.branding?.logo_url || '');
+    const [accentColor, setAccentColor] = useState(school?.branding?.accent_color || '#06b6d4');
+    const [features, setFeatures] = useState<Partial<Record<SchoolFeature, boolean>>>(school?.features || {});
+    const [saving, setSaving] = useState(false);
+
+    if (!school) {
+        return (
+            <div className="p-10 text-center text-slate-500 text-sm">Your account is not linked to a school yet.</div>
+        );
+    }
+
+    const ruleOrUndefined = (rule: EmailRule) => (rule.pattern.trim() ? { pattern: rule.pattern.trim(), example: rule.example.trim() } : undefined);
+
+    const handleSave = async () => {
+        const classes = parseClasses(classesText);
+        const emailDomains = domains.split(',').map(d => d.trim().replace(/^@/, '').toLowerCase()).filter(Boolean);
+        if (!name.trim() || !emailDomains.length || !classes.length) {
+            showToast("A school needs a name, at least one email domain and one class.", 'error');
+            return;
+        }
+        for (const rule of [studentRule, teacherRule]) {
+            try {
+                if (rule.pattern.trim()) new RegExp(rule.pattern);
+            } catch (e) {
+                showToast(`Invalid email pattern: ${rule.pattern}`, 'error');
+                return;
+            }
+        }
+
+        const changes = {
+            name: name.trim(),
+            email_domains: emailDomains,
+            email_rules: { student: ruleOrUndefined(studentRule), teacher: ruleOrUndefined(teacherRule) },
+            classes,
+            branding: { tagline: tagline.trim() || undefined, logo_url: logoUrl.trim() || undefined, accent_color: accentColor },
+            features
+        };
+        setSaving(true);
+        try {
+            await updateSchool(school.id, changes);
+            onSaved({ ...school, ...changes });
+            showToast("School settings saved.", 'success');
+        } catch (e: any) {
+            showToast("Could not save school settings: " + e.message, 'error');
+        }
+        setSaving(false);
+    };
+
+    const ruleInputs = (label: string, rule: EmailRule, setRule: (rule: EmailRule) => void) => (
+        <div className="grid grid-cols-2 gap-2">
+            <div>
+                <label className="text-xs font-bold mb-1 block text-slate-400">{label} PATTERN</label>
+                <input value={rule.pattern} onChange={e => setRule({ ...rule, pattern: e.target.value })} placeholder="^[a-z]+\d{4}$" className={`${inputClass} font-mono`} />
+            </div>
+            <div>
+                <label className="text-xs font-bold mb-1 block text-slate-400">{label} EXAMPLE</label>
+                <input value={rule.example} onChange={e => setRule({ ...rule, example: e.target.value })} placeholder="name1234" className={inputClass} />
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-6">
+            <div className="max-w-3xl mx-auto space-y-6">
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800 space-y-4">
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2"><Building2 size={18} className="text-cyan-400" /> School</h3>
+                    <div>
+                        <label className="text-xs font-bold mb-1 block text-slate-400">NAME</label>
+                        <input value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-xs font-bold mb-1 block text-slate-400">EMAIL DOMAINS (comma separated)</label>
+                        <input value={domains} onChange={e => setDomains(e.target.value)} placeholder="myschool.edu" className={inputClass} />
+                    </div>
+                    <p className="text-xs text-slate-500">Patterns are regular expressions for the part before the @. Leave empty to accept any address on the school's domains.</p>
+                    {ruleInputs('STUDENT', studentRule, setStudentRule)}
+                    {ruleInputs('TEACHER', teacherRule, setTeacherRule)}
+                </div>
+
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800 space-y-3">
+                    <h3 className="text-lg font-bold text-white">Classes and sections</h3>
+                    <p className="text-xs text-slate-500">One class per line, e.g. <span className="font-mono">8: A, B, C</span></p>
+                    <textarea value={classesText} onChange={e => setClassesText(e.target.value)} className={`${inputClass} h-32 font-mono resize-none`} />
+                </div>
+
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800 space-y-4">
+                    <h3 className="text-lg font-bold text-white">Branding</h3>
+                    <div>
+                        <label className="text-xs font-bold mb-1 block text-slate-400">TAGLINE</label>
+                        <input value={tagline} onChange={e => setTagline(e.target.value)} className={inputClass} />
+                    </div>
+                    <div className="grid grid-cols-[1fr_auto] gap-3 items-end">
+                        <div>
+                            <label className="text-xs font-bold mb-1 block text-slate-400">LOGO URL</label>
+                            <input value={logoUrl} onChange={e => setLogoUrl(e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold mb-1 block text-slate-400">ACCENT</label>
+                            <input type="color" value={accentColor} onChange={e => setAccentColor(e.target.value)} className="h-9 w-16 bg-slate-950 border border-slate-700 rounded-lg" />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="glass-panel p-6 rounded-2xl bg-slate-900 border border-slate-800">
+                    <h3 className="text-lg font-bold text-white mb-4">Features</h3>
+                    <div className="grid grid-cols-2 gap-3">
+                        {(Object.keys(FEATURE_LABELS) as SchoolFeature[]).map(feature => (
+                            <label key={feature} className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={isFeatureEnabled({ ...school, features }, feature)}
+                                    onChange={e => setFeatures(prev => ({ ...prev, [feature]: e.target.checked }))}
+                                    className="w-4 h-4 accent-cyan-500"
+                                />
+                                {FEATURE_LABELS[feature]}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex justify-end">
+                    <button onClick={handleSave} disabled={saving} className="px-6 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 font-bold flex items-center gap-2 text-white">
+                        {saving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Save School Settings
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SchoolSettings;
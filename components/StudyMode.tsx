@@ -4,16 +4,22 @@ import { BookOpen, Network, HelpCircle, ArrowLeft, Sun, Moon, Send, X, Loader2,
 import TopicsDashboard from './TopicsDashboard';
 import TopicQuiz from './TopicQuiz';
 import { ConceptMap } from './CreativeTools';
-import { callGroqAPI } from '../services/aiService';
+import { callAI } from '../services/aiService';
+import { describeAIError } from '../services/llmProvider';
+import { renderPrompt } from '../services/promptRegistry';
+import { buildCurriculumContext } from '../services/curriculumStore';
+import { findChapter, formatChapterOutline } from '../services/curriculumCatalog';
+import { languageInstruction } from '../utils/i18n';
 import { renderRichText } from '../utils/textUtils';
 
 interface StudyModeProps {
     userId: string;
     userInterests: string;
     onExit: () => void;
+    userClass?: string;
 }
 
-export const StudyMode: React.FC<StudyModeProps> = ({ userId, userInterests, onExit }) => {
+export const StudyMode: React.FC<StudyModeProps> = ({ userId, userInterests, onExit, userClass = '8' }) => {
     const [view, setView] = useState<'TOPICS' | 'MINDMAP' | 'QUIZ'>('TOPICS');
     const [theme, setTheme] = useState<'light' | 'dark'>('light');
     const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
@@ -53,26 +59,24 @@ export const StudyMode: React.FC<StudyModeProps> = ({ userId, userInterests, onE
         setStuckAnswer(null);
 
         try {
-            // Direct Prompt Construction
-            const prompt = `
-            You are a helpful, patient Science Tutor for a Class 8 student.
-            The student is stuck on this problem: "${stuckQuery}".
-            
-            Provide a very detailed explanation.
-            Structure:
-            1. **Simple Definition**: What is it?
-            2. **Step-by-Step Logic**: How does it work?
-            3. **Real World Analogy**: Compare it to something daily (like a car, kitchen, sport).
-            4. **Key Takeaway**: One sentence summary.
-            
-            Use formatting like bolding and bullet points. Be encouraging.
-            `;
+            const [curriculum, chapter] = await Promise.all([
+                buildCurriculumContext(stuckQuery, userClass),
+                // While quizzing, keep the hint within that chapter
+                view === 'QUIZ' && selectedTopic ? findChapter(selectedTopic, userClass) : Promise.resolve(undefined)
+            ]);
+            const prompt = await renderPrompt('studyMode.stuck', {
+                question: stuckQuery,
+                classLevel: userClass,
+                chapterOutline: chapter ? formatChapterOutline(chapter) : undefined,
+                curriculumContext: curriculum.text,
+                languageInstruction: languageInstruction()
+            });
 
             // Direct call to AI service function we exported
-            const response = await callGroqAPI([{ role: 'user', content: prompt }]);
+            const response = await callAI([{ role: 'user', content: prompt.text }], false, 0.7, { priority: 'interactive', feature: 'study_mode', promptRef: prompt.ref });
             setStuckAnswer(response);
         } catch (e) {
-            setStuckAnswer("I'm having trouble connecting to the brain network. Please try again.");
+            setStuckAnswer(`I'm having trouble connecting to the brain network. ${describeAIError(e)}`);
         }
         setStuckLoading(false);
     };
@@ -121,6 +125,7 @@ export const StudyMode: React.FC<StudyModeProps> = ({ userId, userInterests, onE
                     <div className="h-full">
                         <TopicsDashboard 
                             userId={userId} 
+                            userClass={userClass}
                             onSelectTopic={(topic) => {
                                 setSelectedTopic(topic);
                                 setView('QUIZ');
@@ -134,6 +139,7 @@ export const StudyMode: React.FC<StudyModeProps> = ({ userId, userInterests, onE
                         userId={userId} 
                         topic={selectedTopic} 
                         userInterests={userInterests} 
+                        userClass={userClass}
                         onBack={() => setView('TOPICS')} 
                     />
                 )}
@@ -2,10 +2,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Mic, CheckCircle, Brain, Volume2, Search, StopCircle, Atom, Puzzle, RefreshCw, Gauge, Podcast, Radio, Trophy, Play, Pause, Download, RotateCcw, List, Save, Trash2, Library, X, Loader2, Headphones, Zap, ArrowRight, ArrowLeft, Grid, XCircle } from 'lucide-react';
 import { generateQuizQuestions, generateWordPuzzle, generateStudyPodSummary, generateMatchingPairs, generatePodcastScript, checkAndAwardDailyXP } from '../services/aiService';
-import { QuizQuestion, PuzzleWord, MatchCard, PodcastSegment, StudyItem } from '../types';
+import { QuizQuestion, PuzzleWord, MatchCard, MatchingPair, PodcastSegment, StudyItem } from '../types';
 import { speechManager } from '../utils/audioUtils';
 import { supabase } from '../services/supabaseClient';
 import { showToast } from '../utils/notificationUtils';
+import { getPromptRef } from '../services/promptRegistry';
+import { addMissedQuestion } from '../services/reviewDeck';
 
 interface MindMatchProps {
     userClass?: string;
@@ -27,14 +29,19 @@ export const MindMatch: React.FC<MindMatchProps> = ({ userClass = '8' }) => {
         if (userStr) setUserId(JSON.parse(userStr).id);
     }, []);
 
-    const handleStart = async () => {
+    const handleStart = async (forceRefresh: boolean = false) => {
         if (!topic) return;
         setLoading(true);
         setCards([]);
         setMatches(0);
         setSelectedCard(null);
 
-        const pairs = await generateMatchingPairs(topic, userClass);
+        let pairs: MatchingPair[] = [];
+        try {
+            pairs = await generateMatchingPairs(topic, userClass, { forceRefresh });
+        } catch (e: any) {
+            showToast(e.message || "Failed to generate pairs.", 'error');
+        }
         const deck: MatchCard[] = [];
         pairs.forEach(p => {
             deck.push({ id: p.id, text: p.term, type: 'term', isMatched: false });
@@ -78,7 +85,7 @@ export const MindMatch: React.FC<MindMatchProps> = ({ userClass = '8' }) => {
     if (!cards.length && !loading) return (
         <div className="flex flex-col items-center justify-center h-full p-6 text-center animate-in fade-in zoom-in">
             <Puzzle size={64} className="mb-4 text-green-300" /><h2 className="text-3xl font-bold mb-4">Mind Match (Class {userClass})</h2>
-            <div className="relative w-full max-w-md"><input className="w-full bg-white/10 rounded-full px-6 py-4 border border-white/20 outline-none focus:border-green-400 transition-colors" placeholder="Topic (e.g. Gravity)" value={topic} onChange={(e) => setTopic(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleStart()} /><button onClick={handleStart} className="absolute right-2 top-2 bottom-2 glass-button px-6 rounded-full active:scale-95 transition-transform bg-green-500/20 hover:bg-green-500/40 font-bold">Start</button></div>
+            <div className="relative w-full max-w-md"><input className="w-full bg-white/10 rounded-full px-6 py-4 border border-white/20 outline-none focus:border-green-400 transition-colors" placeholder="Topic (e.g. Gravity)" value={topic} onChange={(e) => setTopic(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleStart()} /><button onClick={() => handleStart()} className="absolute right-2 top-2 bottom-2 glass-button px-6 rounded-full active:scale-95 transition-transform bg-green-500/20 hover:bg-green-500/40 font-bold">Start</button></div>
         </div>
     )
 
@@ -87,7 +94,7 @@ export const MindMatch: React.FC<MindMatchProps> = ({ userClass = '8' }) => {
     return (
         <div className="h-full flex flex-col p-6 overflow-hidden">
              <div className="flex justify-between items-center mb-6"><h2 className="text-2xl font-bold">{topic}</h2><button onClick={() => setCards([])}><RefreshCw/></button></div>
-             {matches === cards.length / 2 ? <div className="flex-1 flex flex-col items-center justify-center animate-in zoom-in"><h1 className="text-5xl font-bold text-green-300 animate-bounce">Done!</h1><button onClick={() => setCards([])} className="mt-4 glass-button px-6 py-3 rounded-full font-bold">Play Another</button></div> : 
+             {matches === cards.length / 2 ? <div className="flex-1 flex flex-col items-center justify-center animate-in zoom-in"><h1 className="text-5xl font-bold text-green-300 animate-bounce">Done!</h1><div className="flex gap-3 mt-4"><button onClick={() => setCards([])} className="glass-button px-6 py-3 rounded-full font-bold">Play Another</button><button onClick={() => handleStart(true)} className="glass-button px-6 py-3 rounded-full font-bold flex items-center gap-2"><RefreshCw size={16}/> Fresh Pairs</button></div></div> : 
              <div className="flex-1 overflow-y-auto custom-scrollbar"><div className="grid grid-cols-2 md:grid-cols-4 gap-4 pb-10">{cards.map((card, idx) => <button key={idx} onClick={() => handleCardClick(card)} className={`glass-button p-4 rounded-xl min-h-[120px] flex items-center justify-center text-center transition-all active:scale-95 text-sm md:text-base font-medium ${card.isMatched ? 'opacity-20 bg-green-500' : selectedCard === card ? 'bg-yellow-500/30 border-yellow-400 scale-105' : errorId === card.id && selectedCard ? 'bg-red-500/30 animate-pulse border-red-500' : 'bg-white/5 hover:bg-white/10'}`}>{card.text}</button>)}</div></div>}
         </div>
     );
@@ -105,6 +112,7 @@ export const StudyPod: React.FC<StudyPodProps> = ({ userId, userClass = '8' }) =
     const [playing, setPlaying] = useState(false);
     const [summary, setSummary] = useState('');
     const [mode, setMode] = useState<'SUMMARY' | 'PODCAST'>('SUMMARY');
+    const [promptVersion, setPromptVersion] = useState<string | null>(null);
     const [savedItems, setSavedItems] = useState<StudyItem[]>([]);
     const [isSaving, setIsSaving] = useState(false);
     const [showLibrary, setShowLibrary] = useState(false);
@@ -138,7 +146,8 @@ export const StudyPod: React.FC<StudyPodProps> = ({ userId, userClass = '8' }) =
             user_id: userId,
             topic: topic || 'Untitled',
             type: mode,
-            content: contentToSave
+            content: contentToSave,
+            prompt_version: promptVersion
         }).select().single();
 
         if (!error && data) {
@@ -153,7 +162,7 @@ export const StudyPod: React.FC<StudyPodProps> = ({ userId, userClass = '8' }) =
         setIsSaving(false);
     };
 
-    const handleGenerate = async () => {
+    const handleGenerate = async (forceRefresh: boolean = false) => {
         if (!topic) return;
         setLoading(true);
         speechManager.stop();
@@ -161,8 +170,9 @@ export const StudyPod: React.FC<StudyPodProps> = ({ userId, userClass = '8' }) =
         setCurrentPodcastLine(-1);
         
         if (mode === 'SUMMARY') {
-            const text = await generateStudyPodSummary(topic, userClass);
+            const text = await generateStudyPodSummary(topic, userClass, { forceRefresh });
             setSummary(text);
+            setPromptVersion(await getPromptRef('studyPod.summary'));
             // Auto-play
             speechManager.speak(text, {
                 voice: speechManager.getFemaleVoice(),
@@ -170,11 +180,18 @@ export const StudyPod: React.FC<StudyPodProps> = ({ userId, userClass = '8' }) =
                 onEnd: () => setPlaying(false)
             });
         } else {
-            const script = await generatePodcastScript(topic, userClass);
-            setPodcastScript(script);
-            // Auto-play
-            setCurrentPodcastLine(0);
-            setPlaying(true);
+            try {
+                const script = await generatePodcastScript(topic, userClass, { forceRefresh });
+                setPodcastScript(script);
+                setPromptVersion(await getPromptRef('podcast.script'));
+                // Auto-play
+                setCurrentPodcastLine(0);
+                setPlaying(true);
+            } catch (e: any) {
+                showToast(e.message || "Failed to generate podcast.", 'error');
+                setLoading(false);
+                return;
+            }
         }
         
         if (userId) checkAndAwardDailyXP(userId, 15, "Generating Study Pod");
@@ -331,7 +348,7 @@ export const StudyPod: React.FC<StudyPodProps> = ({ userId, userClass = '8' }) =
             
             <div className="flex gap-2 w-full max-w-2xl mb-6">
                 <input className="flex-1 bg-white/10 rounded-xl px-4 py-3 border border-white/10 focus:border-cyan-400 outline-none transition-colors" placeholder={mode === 'SUMMARY' ? "Enter topic for Summary..." : "Enter topic for Podcast..."} value={topic} onChange={e => setTopic(e.target.value)} />
-                <button onClick={handleGenerate} disabled={loading || !topic} className="glass-button px-6 rounded-xl font-bold bg-white/10 hover:bg-white/20 active:scale-95 transition-transform">
+                <button onClick={() => handleGenerate()} disabled={loading || !topic} className="glass-button px-6 rounded-xl font-bold bg-white/10 hover:bg-white/20 active:scale-95 transition-transform">
                     {loading ? <Loader2 className="animate-spin" /> : <RefreshCw />}
                 </button>
             </div>
@@ -347,9 +364,14 @@ export const StudyPod: React.FC<StudyPodProps> = ({ userId, userClass = '8' }) =
                             <div className="font-bold">{topic}</div>
                         </div>
                     </div>
-                    <button onClick={handleSave} disabled={isSaving} className="glass-button px-4 py-2 rounded-lg flex items-center gap-2 text-sm bg-white/5 hover:bg-white/10 active:scale-95">
-                        {isSaving ? <Loader2 className="animate-spin" size={16}/> : <Save size={16} />} Save
-                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={() => handleGenerate(true)} disabled={loading} title="Generate a fresh version" className="glass-button px-4 py-2 rounded-lg flex items-center gap-2 text-sm bg-white/5 hover:bg-white/10 active:scale-95">
+                            <RefreshCw size={16} /> Regenerate
+                        </button>
+                        <button onClick={handleSave} disabled={isSaving} className="glass-button px-4 py-2 rounded-lg flex items-center gap-2 text-sm bg-white/5 hover:bg-white/10 active:scale-95">
+                            {isSaving ? <Loader2 className="animate-spin" size={16}/> : <Save size={16} />} Save
+                        </button>
+                    </div>
                  </div>
             )}
 
@@ -406,7 +428,7 @@ export const QuizModule: React.FC<QuizModuleProps> = ({ userClass = '8' }) => {
         try {
             const qs = await generateQuizQuestions(topic, questionCount, 'General Science', userClass);
             setQuestions(qs);
-        } catch(e) { showToast("Failed to gen quiz", 'error'); }
+        } catch(e: any) { showToast(e.message || "Failed to gen quiz", 'error'); }
         setLoading(false);
     };
 
@@ -423,6 +445,8 @@ export const QuizModule: React.FC<QuizModuleProps> = ({ userClass = '8' }) => {
         
         if (correct) {
             setScore(s => s + 1);
+        } else if (userId) {
+            addMissedQuestion(userId, currentQ, topic, 'flash_quiz');
         }
         
         setTimeout(() => {
@@ -584,7 +608,7 @@ export const WordPuzzle: React.FC<WordPuzzleProps> = ({ userClass = '8' }) => {
 
     const gridSize = 10;
 
-    const startPuzzle = async () => {
+    const startPuzzle = async (forceRefresh: boolean = false) => {
         if (!topic) return;
         setLoading(true);
         setWords([]);
@@ -592,7 +616,12 @@ export const WordPuzzle: React.FC<WordPuzzleProps> = ({ userClass = '8' }) => {
         setFoundCount(0);
         setSelectedCells([]);
 
-        const puzzleData = await generateWordPuzzle(topic, userClass);
+        let puzzleData: PuzzleWord[] = [];
+        try {
+            puzzleData = await generateWordPuzzle(topic, userClass, { forceRefresh });
+        } catch (e: any) {
+            showToast(e.message || "Failed to generate puzzle.", 'error');
+        }
         if (puzzleData.length > 0) {
             // Generate Grid Client Side
             const newGrid = Array(gridSize).fill(null).map(() => Array(gridSize).fill(''));
@@ -698,7 +727,7 @@ export const WordPuzzle: React.FC<WordPuzzleProps> = ({ userClass = '8' }) => {
             <p className="mb-8 opacity-60">Find hidden scientific terms generated by AI.</p>
             <div className="relative w-full max-w-md">
                 <input className="w-full bg-white/10 rounded-full px-6 py-4 border border-white/20 outline-none focus:border-cyan-400 transition-colors" placeholder="Topic (e.g. Atoms)" value={topic} onChange={(e) => setTopic(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && startPuzzle()} />
-                <button onClick={startPuzzle} disabled={loading || !topic} className="absolute right-2 top-2 bottom-2 glass-button px-6 rounded-full font-bold bg-cyan-500/20 hover:bg-cyan-500/40">{loading ? <Loader2 className="animate-spin" /> : 'Mine'}</button>
+                <button onClick={() => startPuzzle()} disabled={loading || !topic} className="absolute right-2 top-2 bottom-2 glass-button px-6 rounded-full font-bold bg-cyan-500/20 hover:bg-cyan-500/40">{loading ? <Loader2 className="animate-spin" /> : 'Mine'}</button>
             </div>
         </div>
     );
@@ -727,6 +756,7 @@ export const WordPuzzle: React.FC<WordPuzzleProps> = ({ userClass = '8' }) => {
                 </div>
                 <div className="mt-4 flex gap-4">
                      <button onClick={() => setSelectedCells([])} className="glass-button px-4 py-2 rounded-full text-xs">Clear Selection</button>
+                     <button onClick={() => startPuzzle(true)} disabled={loading} className="glass-button px-4 py-2 rounded-full text-xs flex items-center gap-1"><RefreshCw size={12}/> New Words</button>
                      {foundCount === words.length && <div className="text-green-400 font-bold animate-bounce">ALL WORDS FOUND!</div>}
                 </div>
             </div>
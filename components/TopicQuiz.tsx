@@ -3,9 +3,16 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../services/supabaseClient';
 import { generateQuizQuestions } from '../services/aiService';
 import { QuizQuestion } from '../types';
-import { Loader2, CheckCircle, XCircle, ArrowLeft, Trophy, ArrowRight } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, ArrowLeft, Trophy, ArrowRight, Target, Circle } from 'lucide-react';
 import { showToast } from '../utils/notificationUtils';
+import { getPromptRef } from '../services/promptRegistry';
 import { Skeleton } from './Skeleton';
+import { t, StringKey } from '../utils/i18n';
+import { addMissedQuestion } from '../services/reviewDeck';
+import {
+    QUIZ_LENGTH, QUIZ_POOL_SIZE, QuizAnswer,
+    answersOf, quizLengthOf, pickNextQuestion, summarizeOutcomes
+} from '../services/adaptiveQuiz';
 
 interface TopicQuizProps {
     userId: string;
@@ -17,8 +24,11 @@ interface TopicQuizProps {
 }
 
 const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onBack, onScoreUpdate, userClass = '8' }) => {
+    // The generated pool; answers pick questions out of it
     const [questions, setQuestions] = useState<QuizQuestion[]>([]);
-    const [currentIndex, setCurrentIndex] = useState(0);
+    const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+    const [quizLength, setQuizLength] = useState(QUIZ_LENGTH);
+    const [currentIndex, setCurrentIndex] = useState<number | null>(null);
     const [score, setScore] = useState(0);
     const [loading, setLoading] = useState(true);
     const [generating, setGenerating] = useState(false);
@@ -44,8 +54,11 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
 
         if (data) {
             // Resume
+            const saved = answersOf(data);
             setQuestions(data.questions);
-            setCurrentIndex(data.current_index);
+            setAnswers(saved);
+            setQuizLength(quizLengthOf(data));
+            setCurrentIndex(data.is_complete ? null : pickNextQuestion(data.questions, saved));
             setScore(data.score);
             setIsComplete(data.is_complete);
             setLoading(false);
@@ -57,12 +70,29 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
 
     const generateNewQuiz = async () => {
         setGenerating(true);
-        // Generate 15 questions with a random seed
+        // Generate a pool of QUIZ_POOL_SIZE questions with a random seed
         const seed = Date.now().toString();
         // Passed userClass strictly as 4th arg
-        const newQuestions = await generateQuizQuestions(topic, 15, userInterests, userClass, seed);
+        let newQuestions: QuizQuestion[] = [];
+        try {
+            newQuestions = await generateQuizQuestions(topic, QUIZ_POOL_SIZE, userInterests, userClass, seed);
+        } catch (e: any) {
+            console.error("Quiz generation failed", e);
+            showToast(e.message || "Failed to generate valid questions. Please try again.", 'error');
+            onBack();
+            setGenerating(false);
+            setLoading(false);
+            return;
+        }
         
-        if (newQuestions && newQuestions.length > 0) {
+        if (newQuestions.length > 0) {
+            const failed = QUIZ_POOL_SIZE - newQuestions.length;
+            if (failed > 0) {
+                // Only a pool smaller than the quiz makes the quiz itself shorter
+                showToast(newQuestions.length < QUIZ_LENGTH
+                    ? `${failed} questions failed our answer check, so this quiz has ${newQuestions.length} questions.`
+                    : `${failed} questions failed our answer check and were left out.`, 'info');
+            }
             // Save to DB
             const { error } = await supabase
                 .from('quiz_progress')
@@ -70,9 +100,11 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
                     user_id: userId,
                     topic: topic,
                     questions: newQuestions,
+                    answers: [],
                     current_index: 0,
                     score: 0,
-                    is_complete: false
+                    is_complete: false,
+                    prompt_version: await getPromptRef('quiz.topic')
                 });
             
             if (error) {
@@ -81,7 +113,9 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
             }
 
             setQuestions(newQuestions);
-            setCurrentIndex(0);
+            setAnswers([]);
+            setQuizLength(quizLengthOf({ questions: newQuestions, answers: [] }));
+            setCurrentIndex(pickNextQuestion(newQuestions, []));
             setScore(0);
             setIsComplete(false);
         } else {
@@ -95,7 +129,7 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
     const normalize = (text: string) => text ? text.trim().toLowerCase() : '';
 
     const handleAnswer = async (option: string) => {
-        if (selectedOption) return; // Prevent double click
+        if (selectedOption || currentIndex === null) return; // Prevent double click
         
         setSelectedOption(option);
         const currentQ = questions[currentIndex];
@@ -103,6 +137,7 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
         // Robust comparison: Check exact text match (case-insensitive)
         const correct = normalize(option) === normalize(currentQ.correctAnswer);
         setIsCorrect(correct);
+        const newAnswers = [...answers, { question: currentIndex, correct }];
 
         let newScore = score;
         if (correct) {
@@ -116,24 +151,29 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
             window.dispatchEvent(new CustomEvent('science-buddy-points-update', { detail: 2 }));
             
             if (onScoreUpdate) onScoreUpdate(2);
+        } else {
+            addMissedQuestion(userId, currentQ, topic, 'chapter_quiz');
         }
 
         // Wait a bit to show result then move on
         setTimeout(async () => {
-            const nextIndex = currentIndex + 1;
-            const complete = nextIndex >= questions.length;
+            // Easier after a miss, harder after a streak
+            const nextIndex = newAnswers.length < quizLength ? pickNextQuestion(questions, newAnswers) : null;
+            const complete = nextIndex === null;
             
             // Update Progress in DB
             await supabase
                 .from('quiz_progress')
                 .update({
-                    current_index: complete ? currentIndex : nextIndex, // If complete, stay on last index or mark complete
+                    current_index: newAnswers.length,
+                    answers: newAnswers,
                     score: newScore,
                     is_complete: complete
                 })
                 .eq('user_id', userId)
                 .eq('topic', topic);
 
+            setAnswers(newAnswers);
             if (complete) {
                 setIsComplete(true);
             } else {
@@ -174,23 +214,41 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
     }
 
     if (isComplete) {
+        const outcomes = summarizeOutcomes(questions, answers);
         return (
             <div className="h-full flex flex-col items-center justify-center text-center p-8">
                 <Trophy size={80} className="text-yellow-300 mb-6 drop-shadow-[0_0_15px_rgba(250,204,21,0.5)]" />
-                <h2 className="text-4xl font-bold mb-2">Topic Mastered!</h2>
-                <p className="text-xl mb-6 opacity-80">You completed {topic}</p>
+                <h2 className="text-4xl font-bold mb-2">{t('quiz.mastered')}</h2>
+                <p className="text-xl mb-6 opacity-80">{t('quiz.completed', { topic })}</p>
                 <div className="glass-panel p-6 rounded-2xl mb-8 min-w-[200px]">
-                    <div className="text-sm uppercase tracking-widest opacity-50 mb-1">Total Score</div>
-                    <div className="text-5xl font-bold text-cyan-300">{score} <span className="text-2xl text-white/50">/ {questions.length * 2}</span></div>
+                    <div className="text-sm uppercase tracking-widest opacity-50 mb-1">{t('quiz.totalScore')}</div>
+                    <div className="text-5xl font-bold text-cyan-300">{score} <span className="text-2xl text-white/50">/ {quizLength * 2}</span></div>
                 </div>
+                {outcomes.length > 0 && (
+                    <div className="glass-panel p-5 rounded-2xl mb-8 w-full max-w-xl text-left">
+                        <div className="text-sm uppercase tracking-widest opacity-50 mb-3 flex items-center gap-2"><Target size={14} /> {t('quiz.outcomes')}</div>
+                        <div className="space-y-2">
+                            {outcomes.map(o => (
+                                <div key={o.outcome} className="flex items-start gap-3 text-sm">
+                                    {o.mastered ? <CheckCircle size={18} className="text-green-400 shrink-0" /> : <Circle size={18} className="text-yellow-300 shrink-0" />}
+                                    <span className="flex-1">{o.outcome}</span>
+                                    <span className={`shrink-0 text-xs ${o.mastered ? 'text-green-300' : 'text-yellow-200'}`}>
+                                        {o.mastered ? t('quiz.outcomeMastered') : t('quiz.outcomePractice')} · {t('quiz.outcomeScore', { correct: o.correct, answered: o.answered })}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
                 <button onClick={onBack} className="glass-button px-8 py-3 rounded-full font-bold flex items-center gap-2">
-                    <ArrowLeft size={20} /> Back to Topics
+                    <ArrowLeft size={20} /> {t('quiz.backToTopics')}
                 </button>
             </div>
         );
     }
 
-    const currentQ = questions[currentIndex];
+    const currentQ = currentIndex === null ? undefined : questions[currentIndex];
+    const position = answers.length + 1;
     // Safety check
     if (!currentQ) return <div className="p-4">Error loading question. <button onClick={onBack}>Back</button></div>;
 
@@ -200,21 +258,24 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
             <div className="flex items-center justify-between mb-6">
                 <button onClick={onBack} className="p-2 hover:bg-white/10 rounded-full transition-colors"><ArrowLeft/></button>
                 <div className="flex flex-col items-end">
-                    <span className="text-xs opacity-50 uppercase tracking-widest">Question {currentIndex + 1} / {questions.length}</span>
+                    <span className="text-xs opacity-50 uppercase tracking-widest">{t('quiz.progress', { current: position, total: quizLength })}</span>
                     <div className="w-32 bg-white/10 h-1.5 rounded-full mt-1">
-                        <div className="bg-cyan-400 h-full rounded-full transition-all duration-300" style={{width: `${((currentIndex + 1)/questions.length)*100}%`}}></div>
+                        <div className="bg-cyan-400 h-full rounded-full transition-all duration-300" style={{width: `${(position / quizLength) * 100}%`}}></div>
                     </div>
                 </div>
             </div>
 
             {/* Score Pill */}
             <div className="self-center bg-black/20 px-4 py-1 rounded-full border border-white/5 text-sm font-mono text-yellow-300 mb-6">
-                Score: {score} pts
+                {t('quiz.score', { score })}
             </div>
 
             {/* Question Card */}
             <div className="glass-panel p-6 md:p-8 rounded-2xl mb-6 min-h-[160px] flex items-center justify-center text-center shadow-2xl relative overflow-hidden">
                 <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-cyan-400 to-purple-500"></div>
+                {currentQ.difficulty && (
+                    <span className="absolute top-3 right-4 text-[10px] uppercase tracking-widest opacity-50">{t(`quiz.level.${currentQ.difficulty}` as StringKey)}</span>
+                )}
                 <h3 className="text-xl md:text-2xl font-medium leading-relaxed">{currentQ.question}</h3>
             </div>
 
@@ -262,7 +323,7 @@ const TopicQuiz: React.FC<TopicQuizProps> = ({ userId, topic, userInterests, onB
                     <div className={`p-4 rounded-xl border ${isCorrect ? 'bg-green-900/20 border-green-500/30' : 'bg-blue-900/20 border-blue-500/30'}`}>
                         <div className="flex items-center gap-2 mb-2 font-bold uppercase text-xs tracking-wider opacity-70">
                             {isCorrect ? <CheckCircle size={14} /> : <ArrowRight size={14}/>}
-                            Explanation
+                            {t('quiz.explanation')}
                         </div>
                         <p className="text-sm md:text-base opacity-90">{currentQ.explanation}</p>
                     </div>
@@ -4,6 +4,10 @@ import { supabase } from '../services/supabaseClient';
 import { BookOpen, CheckCircle, Circle, ArrowRight, RefreshCw, Loader2, Play } from 'lucide-react';
 import { TopicProgress } from '../types';
 import { Skeleton } from './Skeleton';
+import { t } from '../utils/i18n';
+import { getChapters } from '../services/curriculumCatalog';
+import { quizLengthOf } from '../services/adaptiveQuiz';
+import { CurriculumChapter } from '../services/curriculumChapters';
 
 interface TopicsDashboardProps {
     userId: string;
@@ -11,77 +15,24 @@ interface TopicsDashboardProps {
     userClass?: string; // Prop to receive class level
 }
 
-// Chapter Lists
-const CHAPTERS_CLASS_6 = [
-    "The Wonderful World of Science",
-    "Diversity in the Living World",
-    "Mindful Eating: A Path to a Healthy Body",
-    "Exploring Magnets",
-    "Measurement of Length and Motion",
-    "Materials Around Us",
-    "Temperature and its Measurement",
-    "A Journey through States of Water",
-    "Methods of Separation in Everyday Life",
-    "Living Creatures: Exploring their Characteristics",
-    "Nature's Treasures",
-    "Beyond Earth"
-];
-
-const CHAPTERS_CLASS_7 = [
-    "Matter in Our Surroundings",
-    "Is Matter Around Us Pure?",
-    "Atoms and Molecules",
-    "Structure of the Atom",
-    "The Fundamental Unit of Life",
-    "Tissues",
-    "Motion",
-    "Force and Laws of Motion",
-    "Gravitation",
-    "Work and Energy",
-    "Sound",
-    "Improvement in Food Resources"
-];
-
-const CHAPTERS_CLASS_8 = [
-    "Crop Production and Management",
-    "Microorganisms: Friend and Foe",
-    "Coal and Petroleum",
-    "Combustion and Flame",
-    "Conservation of Plants and Animals",
-    "Reproduction in Animals",
-    "Reaching the Age of Adolescence",
-    "Force and Pressure",
-    "Friction",
-    "Sound",
-    "Chemical Effects Of Electric Current",
-    "Some Natural Phenomena",
-    "Light"
-];
-
 const TopicsDashboard: React.FC<TopicsDashboardProps> = ({ userId, onSelectTopic, userClass }) => {
     const [progressMap, setProgressMap] = useState<Record<string, TopicProgress>>({});
     const [loading, setLoading] = useState(true);
-    const [chapters, setChapters] = useState<string[]>(CHAPTERS_CLASS_8); // Default to 8
+    const [chapters, setChapters] = useState<CurriculumChapter[]>([]);
 
     useEffect(() => {
-        // Determine chapters based on userClass
-        if (userClass === '6') {
-            setChapters(CHAPTERS_CLASS_6);
-        } else if (userClass === '7') {
-            setChapters(CHAPTERS_CLASS_7);
-        } else if (userClass === '8') {
-            setChapters(CHAPTERS_CLASS_8);
-        } else {
-            // Fallback for teacher or undefined
-            setChapters(CHAPTERS_CLASS_8); 
-        }
+        let cancelled = false;
+        getChapters(userClass).then(list => {
+            if (!cancelled) setChapters(list);
+        });
+        return () => { cancelled = true; };
     }, [userClass]);
 
     const fetchProgress = async () => {
         setLoading(true);
         const { data } = await supabase
             .from('quiz_progress')
-            .select('topic, current_index, score, is_complete, questions')
+            .select('topic, current_index, score, is_complete, questions, answers')
             .eq('user_id', userId);
         
         const map: Record<string, TopicProgress> = {};
@@ -92,7 +43,7 @@ const TopicsDashboard: React.FC<TopicsDashboardProps> = ({ userId, onSelectTopic
                     current_index: row.current_index,
                     score: row.score,
                     is_complete: row.is_complete,
-                    total_questions: Array.isArray(row.questions) ? row.questions.length : 30
+                    total_questions: Array.isArray(row.questions) ? quizLengthOf(row) : 30
                 };
             });
         }
@@ -106,7 +57,7 @@ const TopicsDashboard: React.FC<TopicsDashboardProps> = ({ userId, onSelectTopic
 
     const handleCreateNew = async (e: React.MouseEvent, topic: string) => {
         e.stopPropagation();
-        if (!window.confirm("This will generate a completely new set of questions and reset your score for this topic. Are you sure?")) return;
+        if (!window.confirm(t('topics.regenerateConfirm'))) return;
         
         // Delete existing progress
         await supabase
@@ -127,9 +78,9 @@ const TopicsDashboard: React.FC<TopicsDashboardProps> = ({ userId, onSelectTopic
         <div className="h-full flex flex-col p-6 overflow-hidden">
              <div className="mb-6">
                 <h2 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-cyan-300 to-purple-300">
-                    Class {userClass || '8'} Science
+                    {t('topics.heading', { classLevel: userClass || '8' })}
                 </h2>
-                <p className="text-white/60">Select a chapter to start your personalized quiz journey.</p>
+                <p className="text-white/60">{t('topics.subtitle')}</p>
             </div>
 
             {loading ? (
@@ -140,7 +91,7 @@ const TopicsDashboard: React.FC<TopicsDashboardProps> = ({ userId, onSelectTopic
                 </div>
             ) : (
                 <div className="flex-1 overflow-y-auto custom-scrollbar grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pb-10">
-                    {chapters.map((chapter) => {
+                    {chapters.map(({ title: chapter, titleHi }) => {
                         const progress = progressMap[chapter];
                         const hasStarted = !!progress;
                         const isComplete = progress?.is_complete;
@@ -159,20 +110,23 @@ const TopicsDashboard: React.FC<TopicsDashboardProps> = ({ userId, onSelectTopic
                                         <button 
                                             onClick={(e) => handleCreateNew(e, chapter)}
                                             className="p-2 hover:bg-white/10 rounded-full text-white/40 hover:text-white transition-colors z-10"
-                                            title="Generate New Questions"
+                                            title={t('topics.regenerate')}
                                         >
                                             <RefreshCw size={16} />
                                         </button>
                                     )}
                                 </div>
                                 
-                                <h3 className="text-lg font-bold mb-2 leading-tight min-h-[50px]">{chapter}</h3>
+                                <div className="mb-2 min-h-[50px]">
+                                    <h3 className="text-lg font-bold leading-tight">{chapter}</h3>
+                                    {titleHi && <p className="text-sm text-white/60 leading-snug mt-0.5" lang="hi">{titleHi}</p>}
+                                </div>
                                 
                                 {hasStarted ? (
                                     <div>
                                         <div className="flex justify-between text-xs text-white/50 mb-1 uppercase tracking-wider">
-                                            <span>{isComplete ? 'Completed' : 'In Progress'}</span>
-                                            <span>Score: {progress.score}</span>
+                                            <span>{isComplete ? t('topics.completed') : t('topics.inProgress')}</span>
+                                            <span>{t('topics.score', { score: progress.score })}</span>
                                         </div>
                                         <div className="w-full bg-black/30 rounded-full h-2 mb-2">
                                             <div 
@@ -182,13 +136,13 @@ const TopicsDashboard: React.FC<TopicsDashboardProps> = ({ userId, onSelectTopic
                                         </div>
                                         <div className="flex items-center gap-2 text-sm text-white/80">
                                             {isComplete ? <CheckCircle size={14} className="text-green-400"/> : <Play size={14} className="text-cyan-400"/>}
-                                            {isComplete ? 'Review Topic' : `Resume (Q${progress.current_index + 1})`}
+                                            {isComplete ? t('topics.review') : t('topics.resume', { question: progress.current_index + 1 })}
                                         </div>
                                     </div>
                                 ) : (
                                     <div className="flex items-center gap-2 text-sm text-white/50 mt-4 group-hover:text-cyan-300 transition-colors">
                                         <Circle size={14} />
-                                        Start Quiz
+                                        {t('topics.start')}
                                         <ArrowRight size={14} className="ml-auto opacity-0 group-hover:opacity-100 transition-opacity transform group-hover:translate-x-1" />
                                     </div>
                                 )}
@@ -52,8 +52,8 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ userId, userClass = '8'
             setCurrentSlideIndex(0);
             slideIndexRef.current = 0;
             handlePlay();
-        } catch (e) {
-            showToast("Failed to generate video.", 'error');
+        } catch (e: any) {
+            showToast(e.message || "Failed to generate video.", 'error');
         }
         setLoading(false);
     };
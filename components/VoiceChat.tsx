@@ -6,9 +6,10 @@ import { chatWithAIVoice, generateTitle, fetchLiveUserStats } from '../services/
 import { supabase } from '../services/supabaseClient';
 import { ChatSession, ChatMessage } from '../types';
 import { showToast } from '../utils/notificationUtils';
+import { t, speechLocale, StringKey } from '../utils/i18n';
 
 interface VoiceChatProps {
-    userProfile: { name?: string | null, interests?: string };
+    userProfile: { name?: string | null, interests?: string, classLevel?: string };
     userId?: string;
     initialSessionId?: string | null;
 }
@@ -105,7 +106,7 @@ const VoiceChat: React.FC<VoiceChatProps> = ({ userProfile, userId, initialSessi
 
         const recognition = new SpeechRecognition();
         recognitionRef.current = recognition;
-        recognition.lang = 'en-US';
+        recognition.lang = speechLocale();
         recognition.interimResults = false;
         recognition.maxAlternatives = 1;
         recognition.continuous = false;
@@ -244,13 +245,13 @@ const VoiceChat: React.FC<VoiceChatProps> = ({ userProfile, userId, initialSessi
 
                             <div className="h-8">
                                 <p className="text-sm font-bold tracking-[0.3em] text-white/40 uppercase animate-in fade-in slide-in-from-bottom-2">
-                                    {status === 'IDLE' ? 'Tap to Speak' : status}
+                                    {status === 'IDLE' ? t('voice.tapToSpeak') : t(`voice.${status}` as StringKey)}
                                 </p>
                             </div>
 
                              {sessionHistory.length > 0 && (
                                 <div className="max-w-md text-center glass-panel p-4 rounded-xl opacity-60 mx-4">
-                                     <p className="text-xs text-white/50 mb-1 font-bold uppercase">{sessionHistory[sessionHistory.length - 1].role === 'user' ? 'You said' : 'Science Buddy said'}</p>
+                                     <p className="text-xs text-white/50 mb-1 font-bold uppercase">{sessionHistory[sessionHistory.length - 1].role === 'user' ? t('voice.youSaid') : t('voice.buddySaid')}</p>
                                      <p className="text-sm italic line-clamp-3">"{sessionHistory[sessionHistory.length - 1].text}"</p>
                                 </div>
                              )}
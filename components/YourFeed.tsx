@@ -4,7 +4,11 @@ import { supabase } from '../services/supabaseClient';
 import { FeedPost, FeedComment } from '../types';
 import { Upload, Image as ImageIcon, Video, Send, Loader2, User, Trash2, Heart, AlertTriangle, X, MessageCircle, Bookmark, Globe, Lock, GraduationCap, Bot } from 'lucide-react';
 import { showToast } from '../utils/notificationUtils';
-import { checkContentSafety, checkAndAwardDailyXP } from '../services/aiService';
+import { moderateContent, checkAndAwardDailyXP } from '../services/aiService';
+import { ModerationVerdict, moderationColumns, visibleToFilter, isVisibleTo, PENDING_REVIEW_MESSAGE } from '../services/moderation';
+import { scopeToSchool, schoolChangeFilter, schoolColumn } from '../services/schools';
+import { queueFlaggedContent } from '../services/moderationQueue';
+import { ModerationBadge, ReportButton } from './ModerationBadge';
 import { Skeleton } from './Skeleton';
 
 interface YourFeedProps {
@@ -47,9 +51,10 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
         
         // Subscribe to real-time changes
         const channel = supabase.channel('public:feed_posts')
-            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'feed_posts' }, async (payload) => {
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'feed_posts', ...schoolChangeFilter() }, async (payload) => {
                  // Logic for real-time: if filter is active, only add if matches user.
                  if (filterByUserId && payload.new.user_id !== filterByUserId) return;
+                 if (!isVisibleTo(payload.new as FeedPost, userId)) return;
 
                  if (payload.new.user_id !== userId || filterByUserId) {
                      const { data: userProfile } = await supabase.from('users').select('username, display_name, avatar_url, role').eq('id', payload.new.user_id).single();
@@ -64,12 +69,13 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
 
     const fetchPosts = async () => {
         setLoading(true);
-        let query = supabase
+        let query = scopeToSchool(supabase
             .from('feed_posts')
             .select(`
                 *,
                 users (username, display_name, avatar_url, role)
-            `)
+            `))
+            .or(visibleToFilter(userId))
             .order('created_at', { ascending: false });
 
         if (filterByUserId) {
@@ -113,10 +119,12 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
 
         try {
             // Bypass safety check for teachers
+            let moderation: ModerationVerdict = { status: 'approved' };
             if (userRole !== 'teacher') {
-                const safety = await checkContentSafety(postText);
-                if (!safety.safe) {
-                    showToast(`Post blocked by AI: ${safety.reason}`, 'error');
+                moderation = await moderateContent(postText);
+                if (moderation.status === 'blocked') {
+                    queueFlaggedContent({ contentType: 'feed_post', authorId: userId, text: postText }, moderation);
+                    showToast(`Post blocked: ${moderation.reason}`, 'error');
                     setUploading(false);
                     return;
                 }
@@ -141,7 +149,9 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
                 user_id: userId,
                 content: postText,
                 media_url: mediaUrl,
-                media_type: mediaType
+                media_type: mediaType,
+                ...schoolColumn(),
+                ...moderationColumns(moderation)
             }).select(`
                 *,
                 users (username, display_name, avatar_url, role)
@@ -154,8 +164,13 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
                 setPostText('');
                 setSelectedMedia(null);
                 setMediaType(null);
-                showToast("Posted successfully!", 'success');
-                checkAndAwardDailyXP(userId, 10, "Sharing on Feed");
+                if (moderation.status === 'pending') {
+                    queueFlaggedContent({ contentType: 'feed_post', contentId: data.id, authorId: userId, text: data.content }, moderation);
+                    showToast(PENDING_REVIEW_MESSAGE, 'info');
+                } else {
+                    showToast("Posted successfully!", 'success');
+                    checkAndAwardDailyXP(userId, 10, "Sharing on Feed");
+                }
             }
 
         } catch (err: any) {
@@ -230,6 +245,7 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
                     .from('feed_comments')
                     .select('*, users(username, display_name, avatar_url, role)')
                     .eq('post_id', postId)
+                    .or(visibleToFilter(userId))
                     .order('created_at', { ascending: true });
                 
                 if (data) {
@@ -244,10 +260,12 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
         setCommentLoading(true);
 
         // Bypass safety check for teachers
+        let moderation: ModerationVerdict = { status: 'approved' };
         if (userRole !== 'teacher') {
-            const safety = await checkContentSafety(newCommentText);
-            if (!safety.safe) {
-                showToast(`Comment blocked: ${safety.reason}`, 'error');
+            moderation = await moderateContent(newCommentText);
+            if (moderation.status === 'blocked') {
+                queueFlaggedContent({ contentType: 'feed_comment', authorId: userId, text: newCommentText }, moderation);
+                showToast(`Comment blocked: ${moderation.reason}`, 'error');
                 setCommentLoading(false);
                 return;
             }
@@ -256,7 +274,8 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
         const { data, error } = await supabase.from('feed_comments').insert({
             post_id: postId,
             user_id: userId,
-            content: newCommentText
+            content: newCommentText,
+            ...moderationColumns(moderation)
         }).select('*, users(username, display_name, avatar_url, role)').single();
 
         if (data && !error) {
@@ -265,12 +284,17 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
                 [postId]: [...(prev[postId] || []), data]
             }));
             setNewCommentText('');
-            showToast("Comment posted.", 'success');
-            checkAndAwardDailyXP(userId, 2, "Commenting on Feed");
+            if (moderation.status === 'pending') {
+                queueFlaggedContent({ contentType: 'feed_comment', contentId: data.id, authorId: userId, text: data.content }, moderation);
+                showToast(PENDING_REVIEW_MESSAGE, 'info');
+            } else {
+                showToast("Comment posted.", 'success');
+                checkAndAwardDailyXP(userId, 2, "Commenting on Feed");
+            }
 
             // Trigger Notification
             const post = posts.find(p => p.id === postId);
-            if (post && post.user_id !== userId) {
+            if (post && post.user_id !== userId && moderation.status === 'approved') {
                 await supabase.from('notifications').insert({
                     user_id: post.user_id,
                     actor_id: userId,
@@ -426,12 +450,16 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
                                         <p className="text-[10px] opacity-50">{new Date(post.created_at).toLocaleDateString()} • {new Date(post.created_at).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</p>
                                     </div>
                                 </div>
-                                {(post.user_id === userId || userRole === 'teacher') && (
-                                    <button onClick={() => handleDeletePost(post.id)} className="text-white/20 hover:text-red-400 transition-colors p-1"><Trash2 size={16}/></button>
-                                )}
+                                <div className="flex items-center gap-1">
+                                    {!readOnly && <ReportButton contentType="feed_post" contentId={post.id} authorId={post.user_id} text={post.content} reporterId={userId} size={16} className="p-1" />}
+                                    {(post.user_id === userId || userRole === 'teacher') && (
+                                        <button onClick={() => handleDeletePost(post.id)} className="text-white/20 hover:text-red-400 transition-colors p-1"><Trash2 size={16}/></button>
+                                    )}
+                                </div>
                             </div>
 
                             {/* Content */}
+                            <ModerationBadge status={post.moderation_status} isOwner={post.user_id === userId} className="text-xs mb-2" />
                             <p className="text-sm md:text-base mb-4 whitespace-pre-wrap leading-relaxed">{post.content}</p>
 
                             {/* Media */}
@@ -477,9 +505,13 @@ const YourFeed: React.FC<YourFeedProps> = ({ userId, username, avatarUrl, readOn
                                                             <span className="text-xs font-bold text-cyan-300">{comment.users?.display_name || comment.users?.username}</span>
                                                             {(comment.users as any)?.role === 'teacher' && <TeacherBadge/>}
                                                         </div>
-                                                        <span className="text-[10px] opacity-40">{new Date(comment.created_at).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                                                        <span className="text-[10px] opacity-40 flex items-center gap-2">
+                                                            {!readOnly && <ReportButton contentType="feed_comment" contentId={comment.id} authorId={comment.user_id} text={comment.content} reporterId={userId} size={10} />}
+                                                            {new Date(comment.created_at).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                                                        </span>
                                                     </div>
                                                     <p className="text-sm opacity-90">{comment.content}</p>
+                                                    <ModerationBadge status={comment.moderation_status} isOwner={comment.user_id === userId} size={10} className="text-[10px] mt-1" />
                                                 </div>
                                             </div>
                                         ))}
@@ -0,0 +1,1380 @@
+
+import { signSession, verifySession, createRandomToken, hashToken, parseRefreshToken } from './session.ts';
+import type { SessionClaims } from './session.ts';
+import type { MailSender } from './mail.ts';
+
+// --- AI GATEWAY ---
+// Holds the provider and image API keys so they never reach the browser, and
+// issues the app's sessions. Sign-in and signup go through `login_user` /
+// `signup_user` here; the gateway records a row in `user_sessions` and returns
+// a short-lived access token (see session.ts) plus a refresh token. Every
+// chat completion and image search is then authenticated, checked against
+// the daily token quota, proxied upstream and logged to `ai_usage_log`.
+// Verification and password reset emails go out through a MailSender (mail.ts).
+// Teacher signups wait for approval, and role changes go through `/v1/roles`
+// so every change is checked here and recorded in `role_changes`; admins
+// change School Settings through `/v1/school`. Parents
+// sign up with an invite code from a student or teacher (`/v1/parents/*`).
+// Teachers import class rosters, move and archive students (`/v1/roster/*`);
+// imported students choose a password with a one-time setup code.
+// Teachers share generated learning content with their school through
+// `/v1/content-cache`, after a moderation check.
+// Students can ask for their account to be deleted (`/v1/account/*`); after a
+// grace period a scheduled call to `/v1/maintenance/purge` erases it.
+// Written against web-standard Request/Response so it runs under Node
+// (gateway/node.ts) or as a Supabase Edge Function.
+
+export interface GatewayConfig {
+    supabaseUrl: string;
+    serviceRoleKey: string;
+    // Must be the Supabase project's JWT secret so PostgREST accepts the tokens.
+    sessionSecret: string;
+    // OpenAI-compatible upstream, e.g. https://api.groq.com/openai/v1
+    upstreamBaseUrl: string;
+    upstreamId: string;
+    // Falls back to the GROQ_API_KEY / PEXELS_API_KEY rows in app_secrets.
+    upstreamApiKey?: string;
+    pexelsApiKey?: string;
+    models: string[];
+    dailyTokenQuota: number;
+    // Access token lifetime; the client refreshes shortly before expiry.
+    accessTtlSeconds: number;
+    // How long a session (its refresh token) lasts without signing in again.
+    sessionTtlSeconds: number;
+    allowedOrigins: string[];
+    // Web app URL that emailed links open.
+    appUrl: string;
+    // Bearer token for `/v1/maintenance/*`, called by a scheduler; unset disables those routes.
+    cronSecret?: string;
+}
+
+const DEFAULT_MODELS = ["llama-3.3-70b-versatile", "llama-3.1-8b-instant", "mixtral-8x7b-32768", "gemma2-9b-it"];
+const MAX_COMPLETION_TOKENS = 8192;
+const QUOTA_CACHE_MS = 60 * 1000;
+// How long a "session not revoked" check is trusted before asking the database again.
+const SESSION_CHECK_MS = 30 * 1000;
+// Never returned to the browser.
+const PRIVATE_USER_FIELDS = ['password', 'password_hash'];
+const VERIFY_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+const RESET_LINK_TTL_MS = 30 * 60 * 1000;
+// At most one email of each kind per account in this window
+const MAIL_COOLDOWN_MS = 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const PARENT_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SETUP_CODE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_ROSTER_ROWS = 500;
+const DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+// No 0/O or 1/I: codes are read out and typed by hand
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+// What admins may change under School Settings
+const SCHOOL_SETTINGS_FIELDS = ['name', 'email_domains', 'email_rules', 'classes', 'branding', 'features'];
+// Generators whose output may be shared through ai_content_cache (see services/aiService.ts)
+const CACHED_GENERATORS = ['conceptMap', 'matchingPairs', 'studyPodSummary', 'podcastScript', 'wordPuzzle'];
+const MAX_CACHED_CONTENT_CHARS = 64 * 1024;
+
+export const configFromEnv = (get: (name: string) => string | undefined): GatewayConfig => {
+    const required = (name: string) => {
+        const value = get(name);
+        if (!value) throw new Error(`AI gateway: ${name} is not set.`);
+        return value;
+    };
+    const list = (value: string | undefined) => (value || '').split(',').map(s => s.trim()).filter(Boolean);
+    const models = list(get('GATEWAY_MODELS'));
+    return {
+        supabaseUrl: required('SUPABASE_URL').replace(/\/$/, ''),
+        serviceRoleKey: required('SUPABASE_SERVICE_ROLE_KEY'),
+        sessionSecret: get('GATEWAY_SESSION_SECRET') || required('SUPABASE_JWT_SECRET'),
+        upstreamBaseUrl: (get('GATEWAY_UPSTREAM_BASE_URL') || 'https://api.groq.com/openai/v1').replace(/\/$/, ''),
+        upstreamId: get('GATEWAY_UPSTREAM_ID') || 'groq',
+        upstreamApiKey: get('GATEWAY_UPSTREAM_API_KEY') || get('GROQ_API_KEY'),
+        pexelsApiKey: get('PEXELS_API_KEY'),
+        models: models.length ? models : DEFAULT_MODELS,
+        dailyTokenQuota: Number(get('GATEWAY_DAILY_TOKEN_QUOTA') ?? 100000),
+        accessTtlSeconds: Number(get('GATEWAY_ACCESS_TTL_SECONDS') ?? 15 * 60),
+        sessionTtlSeconds: Number(get('GATEWAY_SESSION_TTL_SECONDS') ?? 30 * 24 * 60 * 60),
+        allowedOrigins: list(get('GATEWAY_ALLOWED_ORIGINS') || '*'),
+        appUrl: (get('APP_URL') || 'http://localhost:3000').replace(/\/$/, ''),
+        cronSecret: get('GATEWAY_CRON_SECRET')
+    };
+};
+
+class GatewayError extends Error {
+    status: number;
+    code: string;
+    constructor(status: number, code: string, message: string) {
+        super(message);
+        this.status = status;
+        this.code = code;
+    }
+}
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const createGateway = (config: GatewayConfig, mailer: MailSender) => {
+    // --- SUPABASE (service role, server side only) ---
+
+    const rest = (path: string, init: RequestInit = {}) => fetch(`${config.supabaseUrl}/rest/v1/${path}`, {
+        ...init,
+        headers: {
+            apikey: config.serviceRoleKey,
+            Authorization: `Bearer ${config.serviceRoleKey}`,
+            'Content-Type': 'application/json',
+            ...(init.headers || {})
+        }
+    });
+
+    const secretCache: Record<string, string> = {};
+    const getSecret = async (name: string, configured?: string) => {
+        if (configured) return configured;
+        if (secretCache[name]) return secretCache[name];
+        const res = await rest(`app_secrets?select=value&name=eq.${encodeURIComponent(name)}`);
+        const rows = res.ok ? await res.json() : [];
+        if (rows[0]?.value) secretCache[name] = rows[0].value;
+        return rows[0]?.value as string | undefined;
+    };
+
+    // --- QUOTA & LOGGING ---
+
+    const usageCache: Record<string, { day: string; tokens: number; loadedAt: number }> = {};
+    const today = () => new Date().toISOString().slice(0, 10);
+
+    const tokensUsedToday = async (userId: string) => {
+        const cached = usageCache[userId];
+        if (cached && cached.day === today() && Date.now() - cached.loadedAt < QUOTA_CACHE_MS) return cached.tokens;
+        const since = `${today()}T00:00:00Z`;
+        const res = await rest(`ai_usage_log?select=prompt_tokens,completion_tokens&user_id=eq.${userId}&created_at=gte.${since}`);
+        const rows: any[] = res.ok ? await res.json() : [];
+        const tokens = rows.reduce((sum, r) => sum + (r.prompt_tokens || 0) + (r.completion_tokens || 0), 0);
+        usageCache[userId] = { day: today(), tokens, loadedAt: Date.now() };
+        return tokens;
+    };
+
+    const enforceQuota = async (claims: SessionClaims) => {
+        if (claims.app_role === 'teacher' || config.dailyTokenQuota <= 0) return;
+        const used = await tokensUsedToday(claims.sub);
+        if (used >= config.dailyTokenQuota) {
+            throw new GatewayError(429, 'quota_exceeded', `Daily AI quota reached (${used}/${config.dailyTokenQuota} tokens).`);
+        }
+    };
+
+    interface UsageEntry {
+        feature: string | null;
+        promptRef: string | null;
+        model: string | null;
+        latencyMs: number;
+        promptTokens: number;
+        completionTokens: number;
+        outcome: string;
+    }
+
+    const logUsage = async (claims: SessionClaims, entry: UsageEntry) => {
+        const cached = usageCache[claims.sub];
+        if (cached && cached.day === today()) cached.tokens += entry.promptTokens + entry.completionTokens;
+        const res = await rest('ai_usage_log', {
+            method: 'POST',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({
+                user_id: claims.sub,
+                class_level: claims.class_level,
+                section: claims.section,
+                school_id: claims.school_id,
+                feature: entry.feature || 'unknown',
+                prompt_ref: entry.promptRef,
+                provider: config.upstreamId,
+                model: entry.model,
+                fallback_depth: 0,
+                latency_ms: entry.latencyMs,
+                prompt_tokens: entry.promptTokens,
+                completion_tokens: entry.completionTokens,
+                outcome: entry.outcome
+            })
+        });
+        if (!res.ok) console.warn('AI gateway: usage log failed', res.status, await res.text());
+    };
+
+    // --- HTTP HELPERS ---
+
+    const corsHeaders = (req: Request): Record<string, string> => {
+        const origin = req.headers.get('origin') || '';
+        const allowed = config.allowedOrigins.includes('*') ? '*' : config.allowedOrigins.includes(origin) ? origin : config.allowedOrigins[0];
+        return {
+            'Access-Control-Allow-Origin': allowed,
+            'Access-Control-Allow-Headers': 'authorization, content-type, x-ai-feature, x-prompt-ref',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Expose-Headers': 'retry-after',
+            Vary: 'Origin'
+        };
+    };
+
+    const json = (req: Request, status: number, body: unknown, extra: Record<string, string> = {}) =>
+        new Response(JSON.stringify(body), { status, headers: { ...corsHeaders(req), 'Content-Type': 'application/json', ...extra } });
+
+    // --- SESSIONS ---
+
+    const sessionChecks: Record<string, { active: boolean; checkedAt: number }> = {};
+
+    // Signed and unexpired is not enough: logout revokes the session row.
+    const isSessionActive = async (sessionId: string) => {
+        const cached = sessionChecks[sessionId];
+        if (cached && Date.now() - cached.checkedAt < SESSION_CHECK_MS) return cached.active;
+        const res = await rest(`user_sessions?select=id&id=eq.${encodeURIComponent(sessionId)}&revoked_at=is.null&expires_at=gt.${new Date().toISOString()}`);
+        const rows: any[] = res.ok ? await res.json() : [];
+        sessionChecks[sessionId] = { active: rows.length > 0, checkedAt: Date.now() };
+        return rows.length > 0;
+    };
+
+    const authenticate = async (req: Request) => {
+        const header = req.headers.get('authorization') || '';
+        const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+        const claims = token ? await verifySession(token, config.sessionSecret) : null;
+        if (!claims || !(await isSessionActive(claims.sid))) throw new GatewayError(401, 'session_expired', 'Your session has ended. Please sign in again.');
+        return claims;
+    };
+
+    const publicUser = (user: Record<string, any>) => {
+        const copy = { ...user };
+        PRIVATE_USER_FIELDS.forEach(field => delete copy[field]);
+        return copy;
+    };
+
+    // Fresh from the database so role or class changes apply at the next refresh.
+    const loadUser = async (userId: string) => {
+        const res = await rest(`users?select=*&id=eq.${encodeURIComponent(userId)}`);
+        const rows: any[] = res.ok ? await res.json() : [];
+        return rows[0] || null;
+    };
+
+    // Teachers get teacher rights only once someone approves them.
+    const sessionRole = (user: Record<string, any>) =>
+        user.role === 'teacher' && user.account_status === 'pending' ? 'pending_teacher' : user.role || 'student';
+
+    const isRevoked = (user: Record<string, any>) => user.account_status === 'revoked';
+
+    // Students who have left the school; their work is kept but they cannot sign in.
+    const isArchived = (user: Record<string, any>) => user.account_status === 'archived';
+
+    const issueTokens = async (sessionId: string, refreshSecret: string, user: Record<string, any>) => {
+        const now = Math.floor(Date.now() / 1000);
+        const exp = now + config.accessTtlSeconds;
+        const accessToken = await signSession({
+            sub: user.id,
+            role: 'authenticated',
+            app_role: sessionRole(user),
+            app_admin: !!user.is_admin && sessionRole(user) === 'teacher',
+            username: user.username,
+            class_level: user.class_level ?? null,
+            section: user.section ?? null,
+            school_id: user.school_id ?? null,
+            sid: sessionId,
+            iat: now,
+            exp
+        }, config.sessionSecret);
+        return { accessToken, refreshToken: `${sessionId}.${refreshSecret}`, expiresAt: exp * 1000, user: publicUser(user) };
+    };
+
+    const startSession = async (req: Request, user: Record<string, any>) => {
+        const refreshSecret = createRandomToken();
+        const res = await rest('user_sessions', {
+            method: 'POST',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify({
+                user_id: user.id,
+                refresh_token_hash: await hashToken(refreshSecret),
+                expires_at: new Date(Date.now() + config.sessionTtlSeconds * 1000).toISOString(),
+                user_agent: req.headers.get('user-agent')
+            })
+        });
+        if (!res.ok) throw new GatewayError(500, 'session_store', 'Could not start a session.');
+        const [session] = await res.json();
+        return json(req, 200, await issueTokens(session.id, refreshSecret, user));
+    };
+
+    // --- ACCOUNT EMAILS ---
+
+    type AccountTokenKind = 'verify_email' | 'reset_password' | 'account_setup';
+    // Setup codes are handed out by teachers, not emailed
+    type EmailTokenKind = Exclude<AccountTokenKind, 'account_setup'>;
+
+    const findUser = async (identifier: string) => {
+        const value = identifier.trim();
+        if (!value) return null;
+        const [column, match] = value.includes('@') ? ['email', value.toLowerCase()] : ['username', value];
+        const res = await rest(`users?select=*&${column}=eq.${encodeURIComponent(match)}`);
+        const rows: any[] = res.ok ? await res.json() : [];
+        return rows[0] || null;
+    };
+
+    // Stored as a hash in `account_tokens`; the raw token only appears in the email.
+    const createAccountToken = async (userId: string, kind: EmailTokenKind) => {
+        const since = new Date(Date.now() - MAIL_COOLDOWN_MS).toISOString();
+        const recent = await rest(`account_tokens?select=id&user_id=eq.${encodeURIComponent(userId)}&kind=eq.${kind}&created_at=gt.${since}`);
+        if (recent.ok && (await recent.json()).length) return null;
+
+        const token = createRandomToken();
+        const ttl = kind === 'verify_email' ? VERIFY_LINK_TTL_MS : RESET_LINK_TTL_MS;
+        const res = await rest('account_tokens', {
+            method: 'POST',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ user_id: userId, kind, token_hash: await hashToken(token), expires_at: new Date(Date.now() + ttl).toISOString() })
+        });
+        if (!res.ok) throw new Error(`account_tokens insert failed (Status ${res.status})`);
+        return token;
+    };
+
+    /**
+     * Marks an emailed token used and returns its user id; null if it is
+     * unknown, expired or already used. Single use even under concurrent calls.
+     */
+    const consumeAccountToken = async (token: string, kind: AccountTokenKind): Promise<string | null> => {
+        const now = new Date().toISOString();
+        const res = await rest(`account_tokens?token_hash=eq.${encodeURIComponent(await hashToken(token))}&kind=eq.${kind}&used_at=is.null&expires_at=gt.${now}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify({ used_at: now })
+        });
+        const rows: any[] = res.ok ? await res.json() : [];
+        return rows[0]?.user_id || null;
+    };
+
+    const ACCOUNT_EMAILS: Record<EmailTokenKind, (user: Record<string, any>, link: string) => { subject: string; text: string }> = {
+        verify_email: (user, link) => ({
+            subject: 'Confirm your Science Buddy email',
+            text: `Hi ${user.username},\n\nOpen this link within 24 hours to confirm ${user.email} and finish setting up your account:\n${link}\n\nIf you didn't sign up for Science Buddy, you can ignore this email.`
+        }),
+        reset_password: (user, link) => ({
+            subject: 'Reset your Science Buddy password',
+            text: `Hi ${user.username},\n\nOpen this link within 30 minutes to choose a new password:\n${link}\n\nIf you didn't ask for this, you can ignore this email; your password stays the same.`
+        })
+    };
+
+    const LINK_PARAMS: Record<EmailTokenKind, string> = { verify_email: 'verify', reset_password: 'reset' };
+
+    // Never throws: a failed email must not fail signup or reveal whether an account exists.
+    const sendAccountEmail = async (user: Record<string, any>, kind: EmailTokenKind) => {
+        if (!user?.email) return;
+        try {
+            const token = await createAccountToken(user.id, kind);
+            if (!token) return;
+            const link = `${config.appUrl}/?${LINK_PARAMS[kind]}=${encodeURIComponent(token)}`;
+            await mailer.send({ to: user.email, ...ACCOUNT_EMAILS[kind](user, link) });
+        } catch (e) {
+            console.error(`AI gateway: could not send ${kind} email via ${mailer.id}`, e);
+        }
+    };
+
+    const readIdentifier = async (req: Request) => {
+        const { identifier } = await req.json().catch(() => ({}));
+        if (typeof identifier !== 'string' || !identifier.trim()) throw new GatewayError(400, 'bad_request', 'Enter your username or school email.');
+        return identifier;
+    };
+
+    const verifyEmail = async (req: Request) => {
+        const { token } = await req.json().catch(() => ({}));
+        const userId = typeof token === 'string' ? await consumeAccountToken(token, 'verify_email') : null;
+        if (!userId) throw new GatewayError(400, 'invalid_token', 'This verification link is invalid or has expired.');
+        const res = await rest(`users?id=eq.${encodeURIComponent(userId)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ email_verified_at: new Date().toISOString() })
+        });
+        if (!res.ok) throw new GatewayError(500, 'user_store', 'Could not confirm the email address.');
+        return json(req, 200, { ok: true });
+    };
+
+    // Same answer whether or not the account exists.
+    const resendVerification = async (req: Request) => {
+        const user = await findUser(await readIdentifier(req));
+        if (user && !user.email_verified_at) await sendAccountEmail(user, 'verify_email');
+        return json(req, 200, { ok: true });
+    };
+
+    const forgotPassword = async (req: Request) => {
+        const user = await findUser(await readIdentifier(req));
+        if (user) await sendAccountEmail(user, 'reset_password');
+        return json(req, 200, { ok: true });
+    };
+
+    // Sets the new password (hashed by `set_user_password`) and signs out every session.
+    const resetPassword = async (req: Request) => {
+        const { token, password } = await req.json().catch(() => ({}));
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            throw new GatewayError(400, 'weak_password', `Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+        }
+        const userId = typeof token === 'string' ? await consumeAccountToken(token, 'reset_password') : null;
+        if (!userId) throw new GatewayError(400, 'invalid_token', 'This reset link is invalid or has expired.');
+
+        const res = await rest('rpc/set_user_password', {
+            method: 'POST',
+            body: JSON.stringify({ user_id_input: userId, password_input: password })
+        });
+        if (!res.ok) throw new GatewayError(500, 'user_store', 'Could not update the password.');
+
+        await revokeUserSessions(userId);
+        return json(req, 200, { ok: true });
+    };
+
+    // --- ROLES ---
+
+    type RoleAction = 'approve' | 'reject' | 'promote' | 'demote' | 'revoke' | 'restore';
+
+    // Pending teachers can be approved by any teacher; everything else needs an admin.
+    const TEACHER_ACTIONS: RoleAction[] = ['approve', 'reject'];
+
+    /**
+     * Column changes for an action on this account, or null if the action does
+     * not apply to its current role and status.
+     */
+    const roleTransition = (target: Record<string, any>, action: RoleAction, actorId: string): Record<string, any> | null => {
+        const status = target.account_status || 'active';
+        const approval = { approved_by: actorId, approved_at: new Date().toISOString() };
+        switch (action) {
+            case 'approve':
+                return target.role === 'teacher' && status === 'pending' ? { account_status: 'active', ...approval } : null;
+            case 'reject':
+                return target.role === 'teacher' && status === 'pending' ? { account_status: 'revoked' } : null;
+            case 'promote':
+                if (status !== 'active') return null;
+                if (target.role === 'student') return { role: 'teacher', class_level: null, section: null, ...approval };
+                return target.role === 'teacher' && !target.is_admin ? { is_admin: true } : null;
+            case 'demote':
+                if (target.role !== 'teacher') return null;
+                return target.is_admin ? { is_admin: false } : { role: 'student', account_status: 'active' };
+            case 'revoke':
+                return status === 'revoked' ? null : { account_status: 'revoked', is_admin: false };
+            case 'restore':
+                return status === 'revoked' ? { account_status: 'active' } : null;
+        }
+    };
+
+    const describeRole = (user: Record<string, any>) =>
+        isRevoked(user) ? 'revoked' : user.role === 'teacher' && user.is_admin ? 'admin' : sessionRole(user);
+
+    const revokeUserSessions = async (userId: string) => {
+        await rest(`user_sessions?user_id=eq.${encodeURIComponent(userId)}&revoked_at=is.null`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ revoked_at: new Date().toISOString() })
+        });
+        Object.keys(sessionChecks).forEach(sessionId => { delete sessionChecks[sessionId]; });
+    };
+
+    // --- PARENT INVITES ---
+
+    // Normalised so "abcd-2345" and "ABCD2345" are the same code.
+    const normalizeInviteCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+    const createInviteCode = () => {
+        const bytes = crypto.getRandomValues(new Uint8Array(8));
+        const chars = Array.from(bytes, b => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join('');
+        return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+    };
+
+    // The unused, unexpired invite for a code, without using it up.
+    const findParentInvite = async (code: string) => {
+        const hash = await hashToken(normalizeInviteCode(code));
+        const res = await rest(`parent_invites?select=*&code_hash=eq.${encodeURIComponent(hash)}&used_at=is.null&expires_at=gt.${new Date().toISOString()}`);
+        const rows: any[] = res.ok ? await res.json() : [];
+        return rows[0] || null;
+    };
+
+    /**
+     * Uses up an invite and links the parent to its student. False if someone
+     * else used the invite first.
+     */
+    const redeemParentInvite = async (invite: Record<string, any>, parentId: string) => {
+        const res = await rest(`parent_invites?id=eq.${encodeURIComponent(invite.id)}&used_at=is.null`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify({ used_at: new Date().toISOString(), used_by: parentId })
+        });
+        const used: any[] = res.ok ? await res.json() : [];
+        if (!used.length) return false;
+        const link = await rest('parent_links', {
+            method: 'POST',
+            headers: { Prefer: 'resolution=ignore-duplicates,return=minimal' },
+            body: JSON.stringify({ parent_id: parentId, student_id: invite.student_id, invite_id: invite.id })
+        });
+        if (!link.ok) throw new GatewayError(500, 'link_store', 'Could not link the accounts.');
+        return true;
+    };
+
+    // --- ROSTER ---
+
+    const ROSTER_EMAIL = /^[^@\s",()]+@[^@\s",()]+$/;
+
+    // PostgREST `in.(...)` list; values are quoted so dots and @ are safe.
+    const inList = (values: string[]) => encodeURIComponent(`(${values.map(v => `"${v}"`).join(',')})`);
+
+    const loadSchoolRow = async (schoolId: string | null) => {
+        if (!schoolId) return null;
+        const res = await rest(`schools?select=id,email_domains,classes&id=eq.${encodeURIComponent(schoolId)}`);
+        const rows: any[] = res.ok ? await res.json() : [];
+        return rows[0] || null;
+    };
+
+    // Schools without a class list accept any class and section.
+    const isKnownSection = (school: Record<string, any>, classLevel: string, section: string) => {
+        if (!classLevel || !section) return false;
+        const classes: { level: string; sections: string[] }[] = school.classes || [];
+        if (!classes.length) return true;
+        return !!classes.find(c => c.level === classLevel)?.sections.includes(section);
+    };
+
+    /**
+     * Usernames from the email's local part, with a number added where the
+     * name is already taken in the database or earlier in the same import.
+     */
+    const assignUsernames = async (emails: string[]) => {
+        const bases = emails.map(email => email.split('@')[0].toLowerCase().replace(/[^a-z0-9_]/g, '').slice(0, 20) || 'student');
+        const res = await rest(`users?select=username&username=in.${inList(Array.from(new Set(bases)))}`);
+        const taken = new Set<string>((res.ok ? await res.json() : []).map((u: any) => u.username));
+        // Numbered variants of a taken name may exist too; fetch them in one go
+        const clashing = Array.from(new Set(bases.filter(b => taken.has(b))));
+        if (clashing.length) {
+            const like = clashing.map(b => `username.like.${b}*`).join(',');
+            const more = await rest(`users?select=username&or=${encodeURIComponent(`(${like})`)}`);
+            (more.ok ? await more.json() : []).forEach((u: any) => taken.add(u.username));
+        }
+        return bases.map(base => {
+            let name = base;
+            for (let n = 2; taken.has(name); n++) name = `${base}${n}`;
+            taken.add(name);
+            return name;
+        });
+    };
+
+    // One-time code a student uses to choose their password; stored hashed in `account_tokens`.
+    const issueSetupCodes = async (userIds: string[]) => {
+        const codes = userIds.map(() => createInviteCode());
+        const expiresAt = new Date(Date.now() + SETUP_CODE_TTL_MS).toISOString();
+        const rows = await Promise.all(userIds.map(async (userId, i) => ({
+            user_id: userId,
+            kind: 'account_setup',
+            token_hash: await hashToken(normalizeInviteCode(codes[i])),
+            expires_at: expiresAt
+        })));
+        const res = await rest('account_tokens', { method: 'POST', headers: { Prefer: 'return=minimal' }, body: JSON.stringify(rows) });
+        if (!res.ok) throw new GatewayError(500, 'token_store', 'Could not create setup codes.');
+        return codes;
+    };
+
+    const requireTeacher = (claims: SessionClaims) => {
+        if (claims.app_role !== 'teacher') throw new GatewayError(403, 'forbidden', 'Only teachers can manage class rosters.');
+    };
+
+    // A student in the teacher's school, including archived and not-yet-set-up accounts.
+    const loadRosterStudent = async (claims: SessionClaims, userId: unknown) => {
+        const student = typeof userId === 'string' ? await loadUser(userId) : null;
+        if (!student || student.role !== 'student' || !claims.school_id || student.school_id !== claims.school_id) {
+            throw new GatewayError(404, 'not_found', 'No such student in your school.');
+        }
+        return student;
+    };
+
+    // --- ACCOUNT DELETION ---
+
+    // Private data that goes entirely, by the column naming its owner.
+    const PURGED_TABLES: [table: string, ownerColumn: string][] = [
+        ['chat_sessions', 'user_id'],
+        ['quiz_progress', 'user_id'],
+        ['review_cards', 'user_id'],
+        ['research_projects', 'user_id'],
+        ['study_library', 'user_id'],
+        ['concept_maps', 'user_id'],
+        ['video_projects', 'user_id'],
+        ['community_notes', 'user_id'],
+        ['feed_saved_posts', 'user_id'],
+        ['feed_comments', 'user_id'],
+        ['parent_invites', 'student_id'],
+        ['account_tokens', 'user_id'],
+        ['user_sessions', 'user_id']
+    ];
+
+    const removeRows = async (path: string) => {
+        const res = await rest(path, { method: 'DELETE', headers: { Prefer: 'return=minimal' } });
+        if (!res.ok) throw new Error(`delete ${path.split('?')[0]} failed (Status ${res.status})`);
+    };
+
+    const updateRows = async (path: string, changes: Record<string, unknown>) => {
+        const res = await rest(path, { method: 'PATCH', headers: { Prefer: 'return=minimal' }, body: JSON.stringify(changes) });
+        if (!res.ok) throw new Error(`update ${path.split('?')[0]} failed (Status ${res.status})`);
+    };
+
+    // Uploaded files are named `<user id>-...` in each bucket.
+    const removeUserFiles = async (bucket: string, userId: string) => {
+        const storage = (path: string, body: unknown) => fetch(`${config.supabaseUrl}/storage/v1/object/${path}`, {
+            method: path.startsWith('list/') ? 'POST' : 'DELETE',
+            headers: { apikey: config.serviceRoleKey, Authorization: `Bearer ${config.serviceRoleKey}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const list = await storage(`list/${bucket}`, { prefix: '', limit: 1000, search: userId });
+        const files: any[] = list.ok ? await list.json() : [];
+        const names = files.map(f => f.name as string).filter(name => name.startsWith(`${userId}-`));
+        if (names.length) await storage(bucket, { prefixes: names });
+    };
+
+    /**
+     * Erases an account. Private data and the user's feed posts (with the
+     * comments on them) are deleted; discussion threads and replies stay so
+     * conversations still make sense, but lose their text. The `users` row is
+     * kept, anonymised, because moderation and role history point at it.
+     */
+    const purgeAccount = async (userId: string) => {
+        const id = encodeURIComponent(userId);
+        const postsRes = await rest(`feed_posts?select=id&user_id=eq.${id}`);
+        const postIds: string[] = (postsRes.ok ? await postsRes.json() : []).map((p: any) => p.id);
+        if (postIds.length) {
+            await removeRows(`feed_comments?post_id=in.${inList(postIds)}`);
+            await removeRows(`feed_saved_posts?post_id=in.${inList(postIds)}`);
+            await removeRows(`feed_posts?user_id=eq.${id}`);
+        }
+        await removeRows(`parent_links?or=${encodeURIComponent(`(parent_id.eq.${userId},student_id.eq.${userId})`)}`);
+        await removeRows(`notifications?or=${encodeURIComponent(`(user_id.eq.${userId},actor_id.eq.${userId})`)}`);
+        for (const [table, column] of PURGED_TABLES) await removeRows(`${table}?${column}=eq.${id}`);
+
+        await updateRows(`discussion_threads?user_id=eq.${id}`, { title: '[deleted]', content: '[deleted]' });
+        await updateRows(`discussion_comments?user_id=eq.${id}`, { content: '[deleted]' });
+        await updateRows(`moderation_queue?author_id=eq.${id}`, { excerpt: '[deleted]' });
+        await Promise.all(['avatars', 'feed_uploads'].map(bucket => removeUserFiles(bucket, userId).catch(e => {
+            console.warn(`AI gateway: could not remove ${bucket} files`, e);
+        })));
+
+        await updateRows(`users?id=eq.${id}`, {
+            username: `deleted-${userId.slice(0, 8)}`,
+            display_name: 'Deleted user',
+            email: null,
+            password: null,
+            avatar_url: null,
+            interests: '',
+            custom_ai_behavior: null,
+            class_level: null,
+            section: null,
+            total_points: 0,
+            is_admin: false,
+            account_status: 'deleted',
+            deletion_scheduled_at: null,
+            deleted_at: new Date().toISOString()
+        });
+        Object.keys(sessionChecks).forEach(sessionId => { delete sessionChecks[sessionId]; });
+    };
+
+    // --- ROUTES ---
+
+    const createSession = async (req: Request) => {
+        const { username, password } = await req.json().catch(() => ({}));
+        if (!username || !password) throw new GatewayError(400, 'bad_request', 'username and password are required.');
+
+        const res = await rest('rpc/login_user', {
+            method: 'POST',
+            body: JSON.stringify({ username_input: username, password_input: password })
+        });
+        const data = res.ok ? await res.json() : null;
+        if (!data?.success) throw new GatewayError(401, 'invalid_credentials', data?.message || 'Login failed.');
+        if (!data.user.email_verified_at) {
+            throw new GatewayError(403, 'email_unverified', 'Open the verification link we emailed to your school address before signing in.');
+        }
+        if (isRevoked(data.user)) throw new GatewayError(403, 'account_revoked', 'This account has been disabled. Ask a school admin if you think this is a mistake.');
+        if (isArchived(data.user)) throw new GatewayError(403, 'account_archived', 'This account has been archived. Ask your teacher if you are still at the school.');
+        // Pending teachers do get a session, but only to see that they are waiting;
+        // accounts waiting for deletion get one to cancel it
+        return startSession(req, data.user);
+    };
+
+    // Anything else would skip the teacher approval hold below
+    const SIGNUP_ROLES = ['student', 'teacher', 'parent'];
+
+    const signup = async (req: Request) => {
+        const body = await req.json().catch(() => ({}));
+        const role = body.role ?? 'student';
+        if (!SIGNUP_ROLES.includes(role)) throw new GatewayError(400, 'bad_request', 'role must be student, teacher or parent.');
+        const isParent = role === 'parent';
+        if (!body.username || !body.password || !body.email || !(isParent ? body.inviteCode : body.schoolId)) {
+            throw new GatewayError(400, 'bad_request', isParent
+                ? 'username, password, email and inviteCode are required.'
+                : 'username, password, email and schoolId are required.');
+        }
+
+        // Parents use any address; the invite decides their school and first child
+        const invite = isParent ? await findParentInvite(String(body.inviteCode)) : null;
+        if (isParent && !invite) throw new GatewayError(400, 'invalid_invite', 'This invite code is invalid, used or expired. Ask for a new one.');
+        if (!isParent) {
+            // The browser picked the school from the email domain; check it here too
+            const schoolRes = await rest(`schools?select=email_domains&id=eq.${encodeURIComponent(body.schoolId)}`);
+            const [school] = schoolRes.ok ? await schoolRes.json() : [];
+            const domain = String(body.email).split('@')[1]?.toLowerCase();
+            if (!school || !school.email_domains?.includes(domain)) {
+                throw new GatewayError(400, 'signup_failed', 'This email address does not belong to the selected school.');
+            }
+        }
+
+        const res = await rest('rpc/signup_user', {
+            method: 'POST',
+            body: JSON.stringify({
+                username_input: body.username,
+                password_input: body.password,
+                role_input: role,
+                email_input: body.email,
+                class_input: isParent ? null : body.classLevel ?? null,
+                section_input: isParent ? null : body.section ?? null,
+                school_input: isParent ? invite.school_id : body.schoolId
+            })
+        });
+        const data = res.ok ? await res.json() : null;
+        if (!data?.success) throw new GatewayError(400, 'signup_failed', data?.message || 'Signup failed.');
+        if (isParent && !(await redeemParentInvite(invite, data.user.id))) {
+            console.warn('AI gateway: parent invite was used during signup', invite.id);
+        }
+        const approvalRequired = data.user.role === 'teacher';
+        if (approvalRequired && data.user.account_status !== 'pending') {
+            // signup_user should already do this; never let a teacher signup through unapproved
+            const hold = await rest(`users?id=eq.${encodeURIComponent(data.user.id)}`, {
+                method: 'PATCH',
+                headers: { Prefer: 'return=minimal' },
+                body: JSON.stringify({ account_status: 'pending' })
+            });
+            if (!hold.ok) throw new GatewayError(500, 'user_store', 'Could not hold the teacher account for approval.');
+        }
+        // No session until the school address is confirmed
+        await sendAccountEmail(data.user, 'verify_email');
+        return json(req, 200, { verificationRequired: true, approvalRequired, email: data.user.email });
+    };
+
+    // Verified profile for the current session; the app restores from this, not from local storage.
+    const currentSession = async (req: Request) => {
+        const claims = await authenticate(req);
+        const user = await loadUser(claims.sub);
+        if (!user) throw new GatewayError(401, 'session_expired', 'This account no longer exists.');
+        return json(req, 200, { user: publicUser(user), expiresAt: claims.exp * 1000 });
+    };
+
+    /**
+     * Swaps a refresh token for a new access token and a new refresh token;
+     * the old refresh token stops working.
+     */
+    const refreshSession = async (req: Request) => {
+        const { refreshToken } = await req.json().catch(() => ({}));
+        const parsed = typeof refreshToken === 'string' ? parseRefreshToken(refreshToken) : null;
+        const expired = new GatewayError(401, 'session_expired', 'Your session has ended. Please sign in again.');
+        if (!parsed) throw expired;
+
+        const res = await rest(`user_sessions?select=id,user_id,refresh_token_hash,expires_at,revoked_at&id=eq.${encodeURIComponent(parsed.sessionId)}`);
+        const [session] = res.ok ? await res.json() : [];
+        const oldHash = await hashToken(parsed.secret);
+        if (!session || session.revoked_at || new Date(session.expires_at) <= new Date() || session.refresh_token_hash !== oldHash) throw expired;
+
+        const user = await loadUser(session.user_id);
+        if (!user || isRevoked(user) || isArchived(user)) throw expired;
+
+        const refreshSecret = createRandomToken();
+        // Only succeeds if no one else rotated the token in the meantime
+        const update = await rest(`user_sessions?id=eq.${session.id}&refresh_token_hash=eq.${encodeURIComponent(oldHash)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify({ refresh_token_hash: await hashToken(refreshSecret), last_used_at: new Date().toISOString() })
+        });
+        const rotated: any[] = update.ok ? await update.json() : [];
+        if (!rotated.length) throw expired;
+        return json(req, 200, await issueTokens(session.id, refreshSecret, user));
+    };
+
+    const revokeSession = async (req: Request) => {
+        const claims = await authenticate(req);
+        const res = await rest(`user_sessions?id=eq.${encodeURIComponent(claims.sid)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ revoked_at: new Date().toISOString() })
+        });
+        if (!res.ok) throw new GatewayError(500, 'session_store', 'Could not end the session.');
+        sessionChecks[claims.sid] = { active: false, checkedAt: Date.now() };
+        return json(req, 200, { ok: true });
+    };
+
+    /**
+     * Applies a role action to another account in the actor's school, records
+     * it in `role_changes` and, when rights are taken away, ends the account's
+     * sessions so the change applies immediately.
+     */
+    const changeRole = async (req: Request) => {
+        const claims = await authenticate(req);
+        const { userId, action, note } = await req.json().catch(() => ({}));
+        if (typeof userId !== 'string' || !['approve', 'reject', 'promote', 'demote', 'revoke', 'restore'].includes(action)) {
+            throw new GatewayError(400, 'bad_request', 'userId and a valid action are required.');
+        }
+        // Re-read the actor: the token may predate a demotion
+        const actor = await loadUser(claims.sub);
+        const actorRole = actor && !isRevoked(actor) ? sessionRole(actor) : null;
+        const allowed = actorRole === 'teacher' && (actor.is_admin || TEACHER_ACTIONS.includes(action));
+        if (!allowed) throw new GatewayError(403, 'forbidden', TEACHER_ACTIONS.includes(action) ? 'Only teachers can approve teacher accounts.' : 'Only school admins can change roles.');
+        if (userId === actor.id) throw new GatewayError(400, 'bad_request', 'You cannot change your own role.');
+
+        const target = await loadUser(userId);
+        if (!target || target.school_id !== actor.school_id) throw new GatewayError(404, 'not_found', 'No such account in your school.');
+        const changes = roleTransition(target, action, actor.id);
+        if (!changes) throw new GatewayError(409, 'invalid_transition', `Cannot ${action} an account that is ${describeRole(target)}.`);
+
+        const res = await rest(`users?id=eq.${encodeURIComponent(target.id)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify(changes)
+        });
+        const [updated] = res.ok ? await res.json() : [];
+        if (!updated) throw new GatewayError(500, 'user_store', 'Could not update the account.');
+
+        const log = await rest('role_changes', {
+            method: 'POST',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({
+                school_id: actor.school_id,
+                target_id: target.id,
+                actor_id: actor.id,
+                action,
+                from_role: describeRole(target),
+                to_role: describeRole(updated),
+                note: typeof note === 'string' && note.trim() ? note.trim().slice(0, 500) : null
+            })
+        });
+        if (!log.ok) console.warn('AI gateway: role change log failed', log.status, await log.text());
+
+        if (['reject', 'demote', 'revoke'].includes(action)) await revokeUserSessions(target.id);
+        return json(req, 200, { user: publicUser(updated) });
+    };
+
+    /**
+     * School Settings, for the actor's own school. Only admins: signup trusts
+     * `email_domains`, so a teacher adding e.g. gmail.com would open signups
+     * to anyone.
+     */
+    const updateSchoolSettings = async (req: Request) => {
+        const claims = await authenticate(req);
+        // Re-read the actor: the token may predate a demotion
+        const actor = await loadUser(claims.sub);
+        if (!actor || isRevoked(actor) || sessionRole(actor) !== 'teacher' || !actor.is_admin) {
+            throw new GatewayError(403, 'forbidden', 'Only school admins can change school settings.');
+        }
+        if (!actor.school_id) throw new GatewayError(400, 'no_school', 'Your account is not linked to a school.');
+
+        const { changes } = await req.json().catch(() => ({}));
+        const update = Object.fromEntries(Object.entries(changes || {}).filter(([field]) => SCHOOL_SETTINGS_FIELDS.includes(field)));
+        if (!Object.keys(update).length) throw new GatewayError(400, 'bad_request', 'No school settings to change.');
+        if ('name' in update && (typeof update.name !== 'string' || !update.name.trim())) {
+            throw new GatewayError(400, 'bad_request', 'A school needs a name.');
+        }
+        if ('email_domains' in update && (!Array.isArray(update.email_domains) || !update.email_domains.length
+            || !update.email_domains.every((d: unknown) => typeof d === 'string' && /^[a-z0-9.-]+\.[a-z]{2,}$/.test(d)))) {
+            throw new GatewayError(400, 'bad_request', 'email_domains must be a list of domains.');
+        }
+
+        const res = await rest(`schools?id=eq.${encodeURIComponent(actor.school_id)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify(update)
+        });
+        const [school] = res.ok ? await res.json() : [];
+        if (!school) throw new GatewayError(500, 'school_store', 'Could not save the school settings.');
+        return json(req, 200, { school });
+    };
+
+    // A student invites their own parent; an approved teacher can invite for any student in their school.
+    const createParentInvite = async (req: Request) => {
+        const claims = await authenticate(req);
+        const { studentId } = await req.json().catch(() => ({}));
+        if (typeof studentId !== 'string') throw new GatewayError(400, 'bad_request', 'studentId is required.');
+        const student = await loadUser(studentId);
+        if (!student || student.role !== 'student' || isRevoked(student) || isArchived(student)) throw new GatewayError(404, 'not_found', 'No such student.');
+        const isSelf = claims.sub === student.id;
+        const isTeacher = claims.app_role === 'teacher' && claims.school_id === student.school_id;
+        if (!isSelf && !isTeacher) throw new GatewayError(403, 'forbidden', 'You can only invite parents for yourself or your students.');
+
+        const code = createInviteCode();
+        const expiresAt = new Date(Date.now() + PARENT_INVITE_TTL_MS).toISOString();
+        const res = await rest('parent_invites', {
+            method: 'POST',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({
+                code_hash: await hashToken(normalizeInviteCode(code)),
+                student_id: student.id,
+                school_id: student.school_id,
+                created_by: claims.sub,
+                expires_at: expiresAt
+            })
+        });
+        if (!res.ok) throw new GatewayError(500, 'invite_store', 'Could not create the invite.');
+        // Only the hash is stored; this is the one time the code is shown
+        return json(req, 200, { code, expiresAt });
+    };
+
+    // Adds another child to a signed-in parent account.
+    const linkParent = async (req: Request) => {
+        const claims = await authenticate(req);
+        if (claims.app_role !== 'parent') throw new GatewayError(403, 'forbidden', 'Only parent accounts can use invite codes.');
+        const { code } = await req.json().catch(() => ({}));
+        const invite = typeof code === 'string' ? await findParentInvite(code) : null;
+        if (!invite) throw new GatewayError(400, 'invalid_invite', 'This invite code is invalid, used or expired. Ask for a new one.');
+        if (invite.school_id !== claims.school_id) {
+            throw new GatewayError(400, 'other_school', "This child is at a different school. Use a separate parent account for them.");
+        }
+        if (!(await redeemParentInvite(invite, claims.sub))) throw new GatewayError(400, 'invalid_invite', 'This invite code has already been used.');
+        return json(req, 200, { ok: true });
+    };
+
+    /**
+     * Creates `invited` student accounts from roster rows and returns each
+     * one's username and setup code. All or nothing: any bad or duplicate row
+     * fails the whole import, so the browser checks the file first, and the
+     * accounts are removed again if their setup codes cannot be stored.
+     */
+    const importRoster = async (req: Request) => {
+        const claims = await authenticate(req);
+        requireTeacher(claims);
+        const { students } = await req.json().catch(() => ({}));
+        if (!Array.isArray(students) || !students.length) throw new GatewayError(400, 'bad_request', 'students are required.');
+        if (students.length > MAX_ROSTER_ROWS) throw new GatewayError(400, 'too_many_rows', `Import at most ${MAX_ROSTER_ROWS} students at a time.`);
+
+        const school = await loadSchoolRow(claims.school_id);
+        if (!school) throw new GatewayError(400, 'no_school', 'Your account is not linked to a school.');
+
+        const rows = students.map((s: any) => ({
+            name: String(s?.name || '').trim(),
+            email: String(s?.email || '').trim().toLowerCase(),
+            classLevel: String(s?.classLevel || '').trim(),
+            section: String(s?.section || '').trim().toUpperCase()
+        }));
+        const problems: string[] = [];
+        const seen = new Set<string>();
+        rows.forEach((row, i) => {
+            const domain = row.email.split('@')[1];
+            if (!row.name || !ROSTER_EMAIL.test(row.email)) problems.push(`Row ${i + 1}: a name and a valid email are required.`);
+            else if (!school.email_domains?.includes(domain)) problems.push(`Row ${i + 1}: ${row.email} is not a school address.`);
+            else if (!isKnownSection(school, row.classLevel, row.section)) problems.push(`Row ${i + 1}: unknown class ${row.classLevel}-${row.section}.`);
+            else if (seen.has(row.email)) problems.push(`Row ${i + 1}: ${row.email} appears twice.`);
+            seen.add(row.email);
+        });
+        if (!problems.length) {
+            const existing = await rest(`users?select=email&email=in.${inList(rows.map(r => r.email))}`);
+            (existing.ok ? await existing.json() : []).forEach((u: any) => problems.push(`${u.email} already has an account.`));
+        }
+        if (problems.length) {
+            const more = problems.length > 5 ? ` (and ${problems.length - 5} more)` : '';
+            throw new GatewayError(400, 'invalid_roster', problems.slice(0, 5).join(' ') + more);
+        }
+
+        const usernames = await assignUsernames(rows.map(r => r.email));
+        const res = await rest('users', {
+            method: 'POST',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify(rows.map((row, i) => ({
+                username: usernames[i],
+                display_name: row.name,
+                email: row.email,
+                role: 'student',
+                account_status: 'invited',
+                class_level: row.classLevel,
+                section: row.section,
+                school_id: school.id,
+                interests: ''
+            })))
+        });
+        if (!res.ok) throw new GatewayError(500, 'user_store', `Could not create the accounts (Status ${res.status}).`);
+        const created: any[] = await res.json();
+        const byEmail = new Map(created.map(u => [u.email, u]));
+        const ordered = rows.map(r => byEmail.get(r.email));
+        let codes: string[];
+        try {
+            codes = await issueSetupCodes(ordered.map(u => u.id));
+        } catch (e) {
+            // Accounts nobody has a code for could never be set up; take them back out
+            const undo = await rest(`users?id=in.${inList(created.map(u => u.id))}`, { method: 'DELETE', headers: { Prefer: 'return=minimal' } })
+                .catch(() => null);
+            if (!undo?.ok) console.warn('AI gateway: could not remove accounts from a failed roster import', created.map(u => u.id));
+            throw e;
+        }
+
+        return json(req, 200, {
+            students: rows.map((row, i) => ({ ...row, username: ordered[i].username, setupCode: codes[i] }))
+        });
+    };
+
+    // New setup code for an imported student who lost theirs; earlier codes stop working.
+    const reissueSetupCode = async (req: Request) => {
+        const claims = await authenticate(req);
+        requireTeacher(claims);
+        const { userId } = await req.json().catch(() => ({}));
+        const student = await loadRosterStudent(claims, userId);
+        if (student.account_status !== 'invited') throw new GatewayError(409, 'already_set_up', 'This student has already set up their account.');
+        await rest(`account_tokens?user_id=eq.${encodeURIComponent(student.id)}&kind=eq.account_setup&used_at=is.null`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ used_at: new Date().toISOString() })
+        });
+        const [setupCode] = await issueSetupCodes([student.id]);
+        return json(req, 200, { username: student.username, setupCode });
+    };
+
+    /**
+     * Student side of an import: a setup code and a new password make the
+     * account active. The teacher vouched for the school address, so it
+     * counts as verified.
+     */
+    const completeSetup = async (req: Request) => {
+        const { code, password } = await req.json().catch(() => ({}));
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            throw new GatewayError(400, 'weak_password', `Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+        }
+        const userId = typeof code === 'string' ? await consumeAccountToken(normalizeInviteCode(code), 'account_setup') : null;
+        const user = userId ? await loadUser(userId) : null;
+        if (!user || user.account_status !== 'invited') throw new GatewayError(400, 'invalid_token', 'This setup code is invalid, used or expired. Ask your teacher for a new one.');
+
+        const res = await rest('rpc/set_user_password', {
+            method: 'POST',
+            body: JSON.stringify({ user_id_input: user.id, password_input: password })
+        });
+        if (!res.ok) throw new GatewayError(500, 'user_store', 'Could not set the password.');
+        const activate = await rest(`users?id=eq.${encodeURIComponent(user.id)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ account_status: 'active', email_verified_at: new Date().toISOString() })
+        });
+        if (!activate.ok) throw new GatewayError(500, 'user_store', 'Could not activate the account.');
+        return json(req, 200, { username: user.username });
+    };
+
+    const moveStudent = async (req: Request) => {
+        const claims = await authenticate(req);
+        requireTeacher(claims);
+        const { userId, classLevel, section } = await req.json().catch(() => ({}));
+        const student = await loadRosterStudent(claims, userId);
+        const school = await loadSchoolRow(claims.school_id);
+        if (!school || typeof classLevel !== 'string' || typeof section !== 'string' || !isKnownSection(school, classLevel, section)) {
+            throw new GatewayError(400, 'bad_request', 'Pick a class and section that exist in your school.');
+        }
+        const res = await rest(`users?id=eq.${encodeURIComponent(student.id)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ class_level: classLevel, section })
+        });
+        if (!res.ok) throw new GatewayError(500, 'user_store', 'Could not move the student.');
+        return json(req, 200, { ok: true });
+    };
+
+    // Archiving signs the student out everywhere; restoring returns them to where they were.
+    const archiveStudent = async (req: Request) => {
+        const claims = await authenticate(req);
+        requireTeacher(claims);
+        const { userId, archived } = await req.json().catch(() => ({}));
+        const student = await loadRosterStudent(claims, userId);
+        if (isRevoked(student)) throw new GatewayError(409, 'invalid_transition', 'This account has been revoked; an admin must restore it.');
+        if (isArchived(student) === !!archived) return json(req, 200, { ok: true });
+
+        const status = archived ? 'archived' : student.email_verified_at ? 'active' : 'invited';
+        const res = await rest(`users?id=eq.${encodeURIComponent(student.id)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ account_status: status })
+        });
+        if (!res.ok) throw new GatewayError(500, 'user_store', 'Could not update the student.');
+        if (archived) await revokeUserSessions(student.id);
+        return json(req, 200, { ok: true });
+    };
+
+    /**
+     * Schedules the caller's account for deletion after the grace period and
+     * signs it out everywhere. Signing in again shows how to cancel.
+     */
+    const requestDeletion = async (req: Request) => {
+        const claims = await authenticate(req);
+        if (claims.app_role !== 'student') throw new GatewayError(403, 'forbidden', 'Staff accounts are removed by a school admin.');
+        const { password } = await req.json().catch(() => ({}));
+        const check = await rest('rpc/login_user', {
+            method: 'POST',
+            body: JSON.stringify({ username_input: claims.username, password_input: typeof password === 'string' ? password : '' })
+        });
+        const verified = check.ok ? await check.json() : null;
+        if (!verified?.success || verified.user?.id !== claims.sub) throw new GatewayError(401, 'invalid_credentials', 'That password is not right.');
+
+        const deletionScheduledAt = new Date(Date.now() + DELETION_GRACE_MS).toISOString();
+        const res = await rest(`users?id=eq.${encodeURIComponent(claims.sub)}`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=minimal' },
+            body: JSON.stringify({ deletion_scheduled_at: deletionScheduledAt })
+        });
+        if (!res.ok) throw new GatewayError(500, 'user_store', 'Could not schedule the deletion.');
+        await revokeUserSessions(claims.sub);
+        return json(req, 200, { deletionScheduledAt });
+    };
+
+    const cancelDeletion = async (req: Request) => {
+        const claims = await authenticate(req);
+        const res = await rest(`users?id=eq.${encodeURIComponent(claims.sub)}&deletion_scheduled_at=not.is.null`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify({ deletion_scheduled_at: null })
+        });
+        const [user] = res.ok ? await res.json() : [];
+        if (!user) throw new GatewayError(409, 'not_scheduled', 'This account is not scheduled for deletion.');
+        return json(req, 200, { user: publicUser(user) });
+    };
+
+    // For a scheduler: erases every account whose grace period is over.
+    const purgeDueAccounts = async (req: Request) => {
+        const header = req.headers.get('authorization') || '';
+        if (!config.cronSecret || header !== `Bearer ${config.cronSecret}`) throw new GatewayError(403, 'forbidden', 'Not allowed.');
+        const res = await rest(`users?select=id&deletion_scheduled_at=lt.${new Date().toISOString()}`);
+        const due: any[] = res.ok ? await res.json() : [];
+        const failed: string[] = [];
+        for (const user of due) {
+            try {
+                await purgeAccount(user.id);
+            } catch (e) {
+                console.error('AI gateway: account purge failed', user.id, e);
+                failed.push(user.id);
+            }
+        }
+        return json(req, failed.length ? 500 : 200, { purged: due.length - failed.length, failed });
+    };
+
+    const chatCompletions = async (req: Request) => {
+        const claims = await authenticate(req);
+        await enforceQuota(claims);
+
+        const body = await req.json().catch(() => null);
+        if (!body || !Array.isArray(body.messages)) throw new GatewayError(400, 'bad_request', 'messages are required.');
+        if (!config.models.includes(body.model)) throw new GatewayError(400, 'model_not_allowed', `Model "${body.model}" is not available.`);
+
+        const apiKey = await getSecret('GROQ_API_KEY', config.upstreamApiKey);
+        const upstreamBody: Record<string, unknown> = {
+            model: body.model,
+            messages: body.messages,
+            temperature: body.temperature ?? 0.7,
+            max_tokens: Math.min(Number(body.max_tokens) || MAX_COMPLETION_TOKENS, MAX_COMPLETION_TOKENS)
+        };
+        if (body.response_format) upstreamBody.response_format = body.response_format;
+        if (body.stream) upstreamBody.stream = true;
+
+        const meta = {
+            feature: req.headers.get('x-ai-feature'),
+            promptRef: req.headers.get('x-prompt-ref'),
+            model: body.model as string
+        };
+        const promptEstimate = body.messages.reduce((sum: number, m: any) => sum + estimateTokens(String(m.content || '')), 0);
+        const started = Date.now();
+
+        const upstream = await fetch(`${config.upstreamBaseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify(upstreamBody)
+        });
+
+        if (!upstream.ok) {
+            logUsage(claims, { ...meta, latencyMs: Date.now() - started, promptTokens: 0, completionTokens: 0, outcome: upstream.status === 429 ? 'rate_limited' : upstream.status >= 500 ? 'unavailable' : 'rejected' });
+            const retryAfter = upstream.headers.get('retry-after');
+            return new Response(await upstream.text(), {
+                status: upstream.status,
+                headers: { ...corsHeaders(req), 'Content-Type': 'application/json', ...(retryAfter ? { 'Retry-After': retryAfter } : {}) }
+            });
+        }
+
+        if (!body.stream || !upstream.body) {
+            const data = await upstream.json();
+            logUsage(claims, {
+                ...meta,
+                latencyMs: Date.now() - started,
+                promptTokens: data.usage?.prompt_tokens ?? promptEstimate,
+                completionTokens: data.usage?.completion_tokens ?? estimateTokens(data.choices?.[0]?.message?.content || ''),
+                outcome: 'success'
+            });
+            return json(req, 200, data);
+        }
+
+        // Pass the stream straight through while reading usage from a copy of it
+        const [toClient, toMeter] = upstream.body.tee();
+        (async () => {
+            const reader = toMeter.getReader();
+            const textDecoder = new TextDecoder();
+            let text = '';
+            let usage: any = null;
+            let completion = 0;
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                text += textDecoder.decode(value, { stream: true });
+                const lines = text.split('\n');
+                text = lines.pop() || '';
+                for (const line of lines) {
+                    if (!line.startsWith('data:') || line.includes('[DONE]')) continue;
+                    try {
+                        const chunk = JSON.parse(line.slice(5));
+                        usage = chunk.usage ?? chunk.x_groq?.usage ?? usage;
+                        completion += estimateTokens(chunk.choices?.[0]?.delta?.content || '');
+                    } catch (e) { /* partial frame */ }
+                }
+            }
+            await logUsage(claims, {
+                ...meta,
+                latencyMs: Date.now() - started,
+                promptTokens: usage?.prompt_tokens ?? promptEstimate,
+                completionTokens: usage?.completion_tokens ?? completion,
+                outcome: 'success'
+            });
+        })().catch(e => console.warn('AI gateway: stream metering failed', e));
+
+        return new Response(toClient, {
+            status: 200,
+            headers: { ...corsHeaders(req), 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+        });
+    };
+
+    // --- SHARED CONTENT CACHE ---
+
+    // Same key as buildCacheKey in services/contentCache.ts; the school comes from the session
+    const contentCacheKey = (body: any, schoolId: string) => [
+        body.generator,
+        `v${body.promptVersion}`,
+        `class${body.classLevel}`,
+        `school${schoolId}`,
+        ...(body.language && body.language !== 'en' ? [body.language] : []),
+        String(body.topic).trim().toLowerCase().replace(/\s+/g, ' ')
+    ].join(':');
+
+    // Every string in the payload, for moderation
+    const textOf = (value: unknown): string[] =>
+        typeof value === 'string' ? [value]
+            : Array.isArray(value) ? value.flatMap(textOf)
+            : value && typeof value === 'object' ? Object.values(value).flatMap(textOf)
+            : [];
+
+    /**
+     * Asks the upstream model whether content is fit for Class 6-8 students,
+     * with the rules of the app's `moderation.check` prompt. Throws when the
+     * model cannot be asked, so nothing unchecked is stored.
+     */
+    const isContentSafe = async (claims: SessionClaims, text: string) => {
+        const apiKey = await getSecret('GROQ_API_KEY', config.upstreamApiKey);
+        const model = config.models[0];
+        const started = Date.now();
+        const res = await fetch(`${config.upstreamBaseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify({
+                model,
+                temperature: 0.1,
+                response_format: { type: 'json_object' },
+                messages: [{
+                    role: 'user',
+                    content: 'Act as a strict Content Moderator for a Class 6-8 Science App. BLOCK bullying, hate speech, '
+                        + 'sexual content, violence, self-harm, insults and made-up or wrong science. ALLOW scientific '
+                        + 'discussions (e.g. "reproduction", "acids burn", "killing bacteria"). '
+                        + `Reply with JSON {"safe": boolean, "reason": string}.\n\nTEXT: "${text}"`
+                }]
+            })
+        });
+        if (!res.ok) throw new GatewayError(503, 'moderation_unavailable', 'The content could not be checked, so it was not shared.');
+        const data = await res.json();
+        logUsage(claims, {
+            feature: 'moderation', promptRef: null, model, latencyMs: Date.now() - started,
+            promptTokens: data.usage?.prompt_tokens ?? estimateTokens(text),
+            completionTokens: data.usage?.completion_tokens ?? 0,
+            outcome: 'success'
+        });
+        try {
+            return JSON.parse(data.choices?.[0]?.message?.content || '{}').safe === true;
+        } catch (e) {
+            return false;
+        }
+    };
+
+    /**
+     * Stores generated content in `ai_content_cache`, which clients may only
+     * read. Only teachers share content, only with their own school (the key
+     * is rebuilt here with the session's school), and only after it passes
+     * moderation.
+     */
+    const storeCachedContent = async (req: Request) => {
+        const claims = await authenticate(req);
+        if (claims.app_role !== 'teacher') throw new GatewayError(403, 'forbidden', 'Only teachers can share generated content.');
+        if (!claims.school_id) throw new GatewayError(400, 'no_school', 'Your account is not linked to a school.');
+        const body = await req.json().catch(() => ({}));
+        if (!CACHED_GENERATORS.includes(body.generator) || typeof body.topic !== 'string' || !body.topic.trim()
+            || !body.classLevel || body.promptVersion === undefined || body.payload === undefined) {
+            throw new GatewayError(400, 'bad_request', 'generator, topic, classLevel, promptVersion and payload are required.');
+        }
+        const payload = JSON.stringify(body.payload);
+        if (payload.length > MAX_CACHED_CONTENT_CHARS) throw new GatewayError(413, 'too_large', 'This content is too large to share.');
+        if (!(await isContentSafe(claims, textOf(body.payload).join('\n')))) {
+            throw new GatewayError(422, 'content_blocked', 'This content did not pass moderation and was not shared.');
+        }
+
+        const cacheKey = contentCacheKey(body, claims.school_id);
+        const res = await rest('ai_content_cache?on_conflict=cache_key', {
+            method: 'POST',
+            headers: { Prefer: 'resolution=merge-duplicates,return=minimal' },
+            body: JSON.stringify({
+                cache_key: cacheKey,
+                school_id: claims.school_id,
+                generator: body.generator,
+                topic: String(body.topic).trim().toLowerCase().replace(/\s+/g, ' '),
+                class_level: String(body.classLevel),
+                prompt_version: String(body.promptVersion),
+                payload: body.payload,
+                created_by: claims.sub,
+                created_at: new Date().toISOString()
+            })
+        });
+        if (!res.ok) throw new GatewayError(500, 'cache_store', 'Could not store the content.');
+        return json(req, 200, { cacheKey });
+    };
+
+    const imageSearch = async (req: Request) => {
+        await authenticate(req);
+        const query = new URL(req.url).searchParams.get('query')?.trim();
+        if (!query) throw new GatewayError(400, 'bad_request', 'query is required.');
+
+        const apiKey = await getSecret('PEXELS_API_KEY', config.pexelsApiKey);
+        if (!apiKey) throw new GatewayError(503, 'not_configured', 'Image search is not configured.');
+        const res = await fetch(`https://api.pexels.com/v1/search?query=${encodeURIComponent(query)}&per_page=1`, {
+            headers: { Authorization: apiKey }
+        });
+        if (!res.ok) throw new GatewayError(502, 'upstream_error', `Image search failed (Status ${res.status}).`);
+        const data = await res.json();
+        const photos = (data.photos || []).map((p: any) => ({ imageUrl: p.src?.large, photographer: p.photographer }));
+        return json(req, 200, { photos });
+    };
+
+    return async (req: Request): Promise<Response> => {
+        if (req.method === 'OPTIONS') return new Response(null, { status: 204, headers: corsHeaders(req) });
+
+        // Edge functions are mounted under /functions/v1/<name>; match on the tail
+        const path = new URL(req.url).pathname.replace(/\/$/, '');
+        try {
+            if (req.method === 'GET' && path.endsWith('/health')) return json(req, 200, { ok: true });
+            if (req.method === 'POST' && path.endsWith('/v1/session')) return await createSession(req);
+            if (req.method === 'GET' && path.endsWith('/v1/session')) return await currentSession(req);
+            if (req.method === 'POST' && path.endsWith('/v1/session/refresh')) return await refreshSession(req);
+            if (req.method === 'POST' && path.endsWith('/v1/session/logout')) return await revokeSession(req);
+            if (req.method === 'POST' && path.endsWith('/v1/signup')) return await signup(req);
+            if (req.method === 'POST' && path.endsWith('/v1/email/verify')) return await verifyEmail(req);
+            if (req.method === 'POST' && path.endsWith('/v1/email/resend')) return await resendVerification(req);
+            if (req.method === 'POST' && path.endsWith('/v1/password/forgot')) return await forgotPassword(req);
+            if (req.method === 'POST' && path.endsWith('/v1/password/reset')) return await resetPassword(req);
+            if (req.method === 'POST' && path.endsWith('/v1/roles')) return await changeRole(req);
+            if (req.method === 'POST' && path.endsWith('/v1/school')) return await updateSchoolSettings(req);
+            if (req.method === 'POST' && path.endsWith('/v1/parents/invites')) return await createParentInvite(req);
+            if (req.method === 'POST' && path.endsWith('/v1/parents/link')) return await linkParent(req);
+            if (req.method === 'POST' && path.endsWith('/v1/roster/import')) return await importRoster(req);
+            if (req.method === 'POST' && path.endsWith('/v1/roster/codes')) return await reissueSetupCode(req);
+            if (req.method === 'POST' && path.endsWith('/v1/roster/setup')) return await completeSetup(req);
+            if (req.method === 'POST' && path.endsWith('/v1/roster/move')) return await moveStudent(req);
+            if (req.method === 'POST' && path.endsWith('/v1/roster/archive')) return await archiveStudent(req);
+            if (req.method === 'POST' && path.endsWith('/v1/account/delete')) return await requestDeletion(req);
+            if (req.method === 'POST' && path.endsWith('/v1/account/delete/cancel')) return await cancelDeletion(req);
+            if (req.method === 'POST' && path.endsWith('/v1/maintenance/purge')) return await purgeDueAccounts(req);
+            if (req.method === 'POST' && path.endsWith('/v1/chat/completions')) return await chatCompletions(req);
+            if (req.method === 'GET' && path.endsWith('/v1/images/search')) return await imageSearch(req);
+            if (req.method === 'POST' && path.endsWith('/v1/content-cache')) return await storeCachedContent(req);
+            return json(req, 404, { error: { code: 'not_found', message: 'Unknown gateway route.' } });
+        } catch (e) {
+            if (e instanceof GatewayError) return json(req, e.status, { error: { code: e.code, message: e.message } });
+            console.error('AI gateway error', e);
+            return json(req, 500, { error: { code: 'internal', message: 'Gateway error.' } });
+        }
+    };
+};
@@ -0,0 +1,50 @@
+
+// --- MAIL ---
+// The gateway sends verification and password reset emails through a
+// MailSender: set MAIL_API_URL/MAIL_API_KEY for a transactional mail API, or
+// GATEWAY_SMTP_URL when running under Node to use an SMTP server such as a
+// local catch-all (see smtp.ts). Logging messages instead (enough to copy a
+// link in development) puts live tokens in the server log, so it needs
+// MAIL_DRIVER=console; with none of these the gateway refuses to start.
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface MailSender {
+    id: string;
+    send: (message: MailMessage) => Promise<void>;
+}
+
+export const consoleMailSender: MailSender = {
+    id: 'console',
+    send: async (message) => {
+        console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+};
+
+/**
+ * JSON mail API taking `{ from, to, subject, text }` with a bearer key
+ * (Resend's /emails endpoint, or anything shaped like it).
+ */
+export const createHttpMailSender = (apiUrl: string, apiKey: string, from: string): MailSender => ({
+    id: 'http',
+    send: async (message) => {
+        const res = await fetch(apiUrl, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text })
+        });
+        if (!res.ok) throw new Error(`Mail API error (Status ${res.status}): ${await res.text()}`);
+    }
+});
+
+export const mailSenderFromEnv = (get: (name: string) => string | undefined): MailSender => {
+    const apiUrl = get('MAIL_API_URL');
+    const apiKey = get('MAIL_API_KEY');
+    if (apiUrl && apiKey) return createHttpMailSender(apiUrl, apiKey, get('MAIL_FROM') || 'Science Buddy <no-reply@localhost>');
+    if (get('MAIL_DRIVER') === 'console') return consoleMailSender;
+    throw new Error('AI gateway: no mail sender. Set MAIL_API_URL and MAIL_API_KEY, or MAIL_DRIVER=console in development.');
+};
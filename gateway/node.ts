@@ -0,0 +1,41 @@
+
+import { createServer } from 'node:http';
+import { Readable } from 'node:stream';
+import { createGateway, configFromEnv } from './core.ts';
+import { mailSenderFromEnv } from './mail.ts';
+import { createSmtpMailSender } from './smtp.ts';
+
+// Local runner: `node --env-file=gateway/.env gateway/node.ts` (Node 22.18+ runs TypeScript directly).
+
+const env = (name: string) => process.env[name];
+const mailer = env('GATEWAY_SMTP_URL')
+    ? createSmtpMailSender(env('GATEWAY_SMTP_URL')!, env('MAIL_FROM') || 'Science Buddy <no-reply@localhost>')
+    : mailSenderFromEnv(env);
+const handle = createGateway(configFromEnv(env), mailer);
+const port = Number(process.env.GATEWAY_PORT || 8787);
+
+createServer(async (req, res) => {
+    try {
+        const headers = new Headers();
+        Object.entries(req.headers).forEach(([name, value]) => {
+            if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+        });
+        const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+        const request = new Request(`http://${req.headers.host || 'localhost'}${req.url}`, {
+            method: req.method,
+            headers,
+            body: hasBody ? (Readable.toWeb(req) as ReadableStream) : undefined,
+            duplex: 'half'
+        } as RequestInit);
+
+        const response = await handle(request);
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        if (response.body) Readable.fromWeb(response.body as any).pipe(res);
+        else res.end();
+    } catch (e) {
+        console.error('AI gateway: request failed', e);
+        res.writeHead(500).end();
+    }
+}).listen(port, () => {
+    console.log(`AI gateway listening on http://localhost:${port}`);
+});
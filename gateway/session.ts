@@ -0,0 +1,79 @@
+
+// --- GATEWAY SESSIONS ---
+// Access tokens are standard HS256 JWTs. Signed with the Supabase project's JWT
+// secret, the same token authenticates gateway routes and every PostgREST,
+// Storage and Realtime request, where RLS policies read `auth.uid()` (the
+// `sub` claim) and `auth.jwt() ->> 'app_role'`. Refresh tokens are opaque
+// (`<session id>.<random>`); only their SHA-256 hash is stored.
+// Uses only Web Crypto so the same code runs under Node and Deno.
+
+export interface SessionClaims {
+    sub: string;              // user id
+    role: 'authenticated';    // Postgres role PostgREST switches to
+    app_role: string;         // 'student' | 'teacher' | 'pending_teacher' | 'parent'
+    app_admin: boolean;       // may promote, demote and revoke accounts
+    username: string;
+    class_level: string | null;
+    section: string | null;
+    school_id: string | null; // RLS keeps each school's data apart
+    sid: string;              // user_sessions.id, checked for revocation
+    iat: number;
+    exp: number;              // expiry, seconds since epoch
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) =>
+    Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const hmacKey = (secret: string) =>
+    crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const JWT_HEADER = toBase64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+
+export const signSession = async (claims: SessionClaims, secret: string) => {
+    const signingInput = `${JWT_HEADER}.${toBase64Url(encoder.encode(JSON.stringify(claims)))}`;
+    const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(signingInput));
+    return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Returns the claims if the signature is valid and the token has not expired.
+ * Revocation is checked separately against `user_sessions`.
+ */
+export const verifySession = async (token: string, secret: string): Promise<SessionClaims | null> => {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+    try {
+        const { alg } = JSON.parse(decoder.decode(fromBase64Url(header)));
+        if (alg !== 'HS256') return null;
+        const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64Url(signature), encoder.encode(`${header}.${payload}`));
+        if (!valid) return null;
+        const claims = JSON.parse(decoder.decode(fromBase64Url(payload))) as SessionClaims;
+        return claims.exp > Date.now() / 1000 && claims.sid ? claims : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+// --- OPAQUE TOKENS ---
+// Refresh tokens and emailed links (verification, password reset).
+
+export const createRandomToken = () => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+export const hashToken = async (value: string) =>
+    toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value))));
+
+// Splits a refresh token (`<session id>.<secret>`); null if malformed.
+export const parseRefreshToken = (token: string) => {
+    const dot = token.indexOf('.');
+    if (dot <= 0 || dot === token.length - 1) return null;
+    return { sessionId: token.slice(0, dot), secret: token.slice(dot + 1) };
+};
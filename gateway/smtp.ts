@@ -0,0 +1,60 @@
+import { connect } from 'node:net';
+import type { MailSender } from './mail.ts';
+
+// Minimal SMTP client for development: plain connection, no auth or TLS.
+// Meant for a local catch-all such as Mailpit (`smtp://localhost:1025`); use a
+// mail API in production.
+
+const CRLF = '\r\n';
+
+export const createSmtpMailSender = (url: string, from: string): MailSender => {
+    const { hostname, port } = new URL(url);
+    const address = (value: string) => value.match(/<([^>]+)>/)?.[1] || value;
+
+    return {
+        id: 'smtp',
+        send: (message) => new Promise((resolve, reject) => {
+            const socket = connect(Number(port || 25), hostname);
+            const body = [
+                `From: ${from}`,
+                `To: ${message.to}`,
+                `Subject: ${message.subject}`,
+                `Date: ${new Date().toUTCString()}`,
+                'Content-Type: text/plain; charset=utf-8',
+                '',
+                // Dot-stuffing: a line starting with "." would end the message early
+                ...message.text.split(/\r?\n/).map(line => (line.startsWith('.') ? '.' + line : line)),
+                '.'
+            ].join(CRLF);
+            // Each command is sent once the server answers the previous one
+            const commands = [
+                'EHLO localhost',
+                `MAIL FROM:<${address(from)}>`,
+                `RCPT TO:<${address(message.to)}>`,
+                'DATA',
+                body,
+                'QUIT'
+            ];
+            let buffer = '';
+
+            socket.setEncoding('utf8');
+            socket.setTimeout(10000, () => socket.destroy(new Error('SMTP timeout')));
+            socket.on('error', reject);
+            socket.on('close', () => (commands.length ? reject(new Error('SMTP connection closed early')) : resolve()));
+            socket.on('data', (chunk: string) => {
+                buffer += chunk;
+                // Multi-line replies use "250-"; the last line is "250 "
+                const lines = buffer.split(CRLF).filter(Boolean);
+                const last = lines[lines.length - 1];
+                if (!buffer.endsWith(CRLF) || !/^\d{3} /.test(last)) return;
+                buffer = '';
+                if (Number(last.slice(0, 3)) >= 400) {
+                    socket.destroy(new Error(`SMTP error: ${last}`));
+                    return;
+                }
+                const next = commands.shift();
+                if (next) socket.write(next + CRLF);
+            });
+        })
+    };
+};
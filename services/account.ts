@@ -0,0 +1,48 @@
+
+import { supabase } from "./supabaseClient";
+import { gatewayPost } from "./gatewayClient";
+
+// --- ACCOUNT SECURITY ---
+// Email verification and password resets are handled by the gateway, which
+// emails single-use links (`?verify=` / `?reset=`) to the school address.
+// Password changes go through the `change_password` RPC, which checks the
+// current password and stores only a hash; the app never writes `password`
+// to the users table.
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Problem with a proposed new password, or null if it is acceptable.
+export const checkNewPassword = (password: string, confirmation?: string): string | null => {
+    if (password.length < MIN_PASSWORD_LENGTH) return `Use at least ${MIN_PASSWORD_LENGTH} characters.`;
+    if (confirmation !== undefined && password !== confirmation) return "The passwords don't match.";
+    return null;
+};
+
+/**
+ * Emails a reset link if an account matches the username or email. The
+ * answer is the same either way.
+ */
+export const requestPasswordReset = (identifier: string) =>
+    gatewayPost<{ ok: boolean }>('/v1/password/forgot', { identifier });
+
+// Sets a new password from an emailed link; signs out every existing session.
+export const resetPassword = (token: string, password: string) =>
+    gatewayPost<{ ok: boolean }>('/v1/password/reset', { token, password });
+
+export const verifyEmail = (token: string) =>
+    gatewayPost<{ ok: boolean }>('/v1/email/verify', { token });
+
+export const resendVerification = (identifier: string) =>
+    gatewayPost<{ ok: boolean }>('/v1/email/resend', { identifier });
+
+export const changePassword = async (userId: string, currentPassword: string, newPassword: string) => {
+    const problem = checkNewPassword(newPassword);
+    if (problem) throw new Error(problem);
+    const { data, error } = await supabase.rpc('change_password', {
+        user_id_input: userId,
+        current_password_input: currentPassword,
+        new_password_input: newPassword
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.message || 'Could not change the password.');
+};
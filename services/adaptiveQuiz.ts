@@ -0,0 +1,132 @@
+import { QuizQuestion, QuizDifficulty } from "../types";
+
+// --- ADAPTIVE CHAPTER QUIZ ---
+// A chapter quiz is generated as a pool of questions tagged with a difficulty
+// and a learning outcome, larger than the number the student answers. After
+// each answer the next question is picked from the unused ones: an easier
+// question on the same outcome after a miss, a harder one after a streak, and
+// otherwise the outcome asked least so far. Answers are kept in order on the
+// `quiz_progress` row (`answers`), so a quiz resumes where it left off and the
+// result can say which outcomes were mastered.
+
+export const QUIZ_LENGTH = 15;
+export const QUIZ_POOL_SIZE = 24;
+
+const LEVELS: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+const START_LEVEL = 1;
+// Correct answers in a row, at the current level or above, before stepping up
+const STREAK_TO_STEP_UP = 2;
+// Share of an outcome's questions answered correctly for it to count as mastered
+const MASTERY_SHARE = 0.75;
+
+export interface QuizAnswer {
+    // Index into the question pool
+    question: number;
+    // Missing for answers given before quizzes were adaptive
+    correct?: boolean;
+}
+
+export interface OutcomeResult {
+    outcome: string;
+    answered: number;
+    correct: number;
+    mastered: boolean;
+}
+
+interface SavedQuiz {
+    questions: QuizQuestion[];
+    answers?: QuizAnswer[] | null;
+    current_index?: number;
+}
+
+const levelIndex = (q: QuizQuestion | undefined) => {
+    const index = q?.difficulty ? LEVELS.indexOf(q.difficulty) : -1;
+    return index === -1 ? START_LEVEL : index;
+};
+
+/**
+ * Answers so far. Quizzes saved before answers were recorded were served in
+ * order, so their first `current_index` questions count as asked.
+ */
+export const answersOf = (row: SavedQuiz): QuizAnswer[] =>
+    row.answers || row.questions.slice(0, row.current_index || 0).map((_, question) => ({ question }));
+
+/**
+ * How many questions the student answers; older quizzes used the whole pool.
+ */
+export const quizLengthOf = (row: SavedQuiz) =>
+    row.answers ? Math.min(QUIZ_LENGTH, row.questions.length) : row.questions.length;
+
+export const targetLevel = (pool: QuizQuestion[], answers: QuizAnswer[]): QuizDifficulty => {
+    const last = answers[answers.length - 1];
+    if (!last) return LEVELS[START_LEVEL];
+    const level = levelIndex(pool[last.question]);
+    if (last.correct === false) return LEVELS[Math.max(0, level - 1)];
+
+    let streak = 0;
+    for (let i = answers.length - 1; i >= 0; i--) {
+        const answer = answers[i];
+        if (answer.correct !== true || levelIndex(pool[answer.question]) < level) break;
+        streak++;
+    }
+    return LEVELS[streak >= STREAK_TO_STEP_UP ? Math.min(LEVELS.length - 1, level + 1) : level];
+};
+
+/**
+ * Pool index of the next question, or null when the pool is used up. Ties go
+ * to the earliest question so a resumed quiz continues the same way.
+ */
+export const pickNextQuestion = (pool: QuizQuestion[], answers: QuizAnswer[]): number | null => {
+    const asked = new Set(answers.map(a => a.question));
+    const target = LEVELS.indexOf(targetLevel(pool, answers));
+    const last = answers[answers.length - 1];
+    const remedialOutcome = last?.correct === false ? pool[last.question]?.outcome : undefined;
+
+    const timesAsked: Record<string, number> = {};
+    answers.forEach(a => {
+        const outcome = pool[a.question]?.outcome;
+        if (outcome) timesAsked[outcome] = (timesAsked[outcome] || 0) + 1;
+    });
+
+    let best: number | null = null;
+    let bestCost = Infinity;
+    pool.forEach((q, i) => {
+        if (asked.has(i)) return;
+        // Difficulty matters most, then staying on a missed outcome, then spreading across outcomes
+        const cost = Math.abs(levelIndex(q) - target) * 100
+            + (remedialOutcome && q.outcome !== remedialOutcome ? 10 : 0)
+            + (q.outcome ? timesAsked[q.outcome] || 0 : 0);
+        if (cost < bestCost) {
+            best = i;
+            bestCost = cost;
+        }
+    });
+    return best;
+};
+
+/**
+ * Per-outcome results, in the order outcomes first appear in the pool. An
+ * outcome is mastered when most of its questions were right, including at
+ * least one above the easy level.
+ */
+export const summarizeOutcomes = (pool: QuizQuestion[], answers: QuizAnswer[]): OutcomeResult[] => {
+    const results = new Map<string, OutcomeResult & { beyondEasy: boolean }>();
+    pool.forEach(q => {
+        if (q.outcome && !results.has(q.outcome)) {
+            results.set(q.outcome, { outcome: q.outcome, answered: 0, correct: 0, mastered: false, beyondEasy: false });
+        }
+    });
+    answers.forEach(a => {
+        const q = pool[a.question];
+        const result = q?.outcome ? results.get(q.outcome) : undefined;
+        if (!result || a.correct === undefined) return;
+        result.answered++;
+        if (a.correct) {
+            result.correct++;
+            if (levelIndex(q) > 0) result.beyondEasy = true;
+        }
+    });
+    return [...results.values()]
+        .filter(r => r.answered > 0)
+        .map(({ beyondEasy, ...r }) => ({ ...r, mastered: beyondEasy && r.correct / r.answered >= MASTERY_SHARE }));
+};
@@ -0,0 +1,97 @@
+
+// --- AI REQUEST SCHEDULER ---
+// A client-side queue in front of the provider layer. It caps how many AI
+// requests this tab has in flight, serves them by priority (a student waiting
+// on a chat reply goes ahead of background title generation), and lets queued
+// requests be cancelled before they ever hit the network.
+
+export type AIPriority = 'interactive' | 'standard' | 'background';
+
+export interface ScheduleOptions {
+    priority?: AIPriority;
+    signal?: AbortSignal;
+}
+
+interface QueuedTask {
+    run: () => void;
+    priority: number;
+    seq: number;
+}
+
+const PRIORITY_RANK: Record<AIPriority, number> = {
+    interactive: 0,
+    standard: 1,
+    background: 2
+};
+
+const MAX_CONCURRENT = 2;
+
+let running = 0;
+let seqCounter = 0;
+const queue: QueuedTask[] = [];
+
+const abortError = () => new DOMException("The AI request was cancelled.", "AbortError");
+
+const pump = () => {
+    while (running < MAX_CONCURRENT && queue.length > 0) {
+        queue.sort((a, b) => a.priority - b.priority || a.seq - b.seq);
+        const next = queue.shift()!;
+        running++;
+        next.run();
+    }
+};
+
+/**
+ * Runs the task once a slot is free. Rejects with an AbortError if the
+ * signal fires while the task is still waiting in the queue.
+ */
+export const scheduleAIRequest = <T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+    const { priority = 'standard', signal } = options;
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    return new Promise<T>((resolve, reject) => {
+        const entry: QueuedTask = {
+            priority: PRIORITY_RANK[priority],
+            seq: seqCounter++,
+            run: () => {
+                signal?.removeEventListener('abort', onAbort);
+                task()
+                    .then(resolve, reject)
+                    .finally(() => {
+                        running--;
+                        pump();
+                    });
+            }
+        };
+
+        const onAbort = () => {
+            const idx = queue.indexOf(entry);
+            if (idx !== -1) {
+                queue.splice(idx, 1);
+                reject(abortError());
+            }
+        };
+        signal?.addEventListener('abort', onAbort);
+
+        queue.push(entry);
+        pump();
+    });
+};
+
+/**
+ * Promise-based sleep that wakes early (and rejects) if the signal aborts.
+ */
+export const waitWithSignal = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const getQueueDepth = () => queue.length;
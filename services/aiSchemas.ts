@@ -0,0 +1,214 @@
+
+import { QuizQuestion, QuizDifficulty, MatchingPair, PodcastSegment, VideoSlide, PuzzleWord } from "../types";
+import type { QuizAnswerCheck } from "./quizVerification";
+
+// --- RUNTIME SCHEMAS FOR AI OUTPUT ---
+// Small validator combinators so model JSON can be checked before it reaches
+// the UI or the database. Each validator returns the cleaned value plus a list
+// of path-qualified errors (e.g. `questions[2].options: expected 4 items`).
+
+export interface ValidationResult<T> {
+    value?: T;
+    errors: string[];
+}
+
+export type Schema<T> = (input: unknown, path: string) => ValidationResult<T>;
+
+export class StructuredOutputError extends Error {
+    errors: string[];
+    constructor(label: string, errors: string[]) {
+        super(`${label} failed validation: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+        this.name = "StructuredOutputError";
+        this.errors = errors;
+    }
+}
+
+const fail = <T>(path: string, message: string): ValidationResult<T> => ({ errors: [`${path || 'root'}: ${message}`] });
+
+export const str = (opts: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Schema<string> => (input, path) => {
+    if (typeof input !== 'string') return fail(path, `expected string, got ${input === null ? 'null' : typeof input}`);
+    const value = input.trim();
+    if (value.length < (opts.minLength ?? 1)) return fail(path, 'must not be empty');
+    if (opts.maxLength && value.length > opts.maxLength) return fail(path, `must be at most ${opts.maxLength} characters`);
+    if (opts.pattern && !opts.pattern.test(value)) return fail(path, `does not match ${opts.pattern}`);
+    return { value, errors: [] };
+};
+
+// Accepts numeric ids from the model and normalises them to strings.
+export const idString: Schema<string> = (input, path) => {
+    if (typeof input === 'number') return { value: String(input), errors: [] };
+    return str()(input, path);
+};
+
+export const bool: Schema<boolean> = (input, path) =>
+    typeof input === 'boolean' ? { value: input, errors: [] } : fail(path, `expected boolean, got ${typeof input}`);
+
+export const oneOf = <T extends string>(...options: T[]): Schema<T> => (input, path) =>
+    options.includes(input as T) ? { value: input as T, errors: [] } : fail(path, `expected one of ${options.map(o => `"${o}"`).join(', ')}, got ${JSON.stringify(input)}`);
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (input, path) =>
+    input === undefined || input === null ? { value: undefined, errors: [] } : schema(input, path);
+
+export const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => (input, path) =>
+    input === undefined || input === null ? { value: fallback, errors: [] } : schema(input, path);
+
+export const arrayOf = <T>(item: Schema<T>, opts: { min?: number; max?: number } = {}): Schema<T[]> => (input, path) => {
+    if (!Array.isArray(input)) return fail(path, `expected array, got ${input === null ? 'null' : typeof input}`);
+    const errors: string[] = [];
+    if (opts.min !== undefined && input.length < opts.min) {
+        errors.push(`${path}: expected ${opts.min === opts.max ? 'exactly' : 'at least'} ${opts.min} items, got ${input.length}`);
+    }
+    if (opts.max !== undefined && input.length > opts.max) {
+        errors.push(`${path}: expected ${opts.min === opts.max ? 'exactly' : 'at most'} ${opts.max} items, got ${input.length}`);
+    }
+    const value: T[] = [];
+    input.forEach((entry, i) => {
+        const result = item(entry, `${path}[${i}]`);
+        errors.push(...result.errors);
+        if (result.value !== undefined) value.push(result.value);
+    });
+    return errors.length ? { errors } : { value, errors };
+};
+
+type Shape<T> = { [K in keyof T]: Schema<T[K]> };
+
+export const objectOf = <T>(shape: Shape<T>): Schema<T> => (input, path) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) return fail(path, 'expected object');
+    const errors: string[] = [];
+    const value = {} as T;
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+        const result = shape[key]((input as any)[key], path ? `${path}.${String(key)}` : String(key));
+        errors.push(...result.errors);
+        if (result.value !== undefined) value[key] = result.value as T[keyof T];
+    }
+    return errors.length ? { errors } : { value, errors };
+};
+
+// Runs extra cross-field checks once the basic shape is valid.
+export const refine = <T>(schema: Schema<T>, check: (value: T) => string[]): Schema<T> => (input, path) => {
+    const result = schema(input, path);
+    if (result.errors.length || result.value === undefined) return result;
+    const errors = check(result.value).map(e => `${path || 'root'}: ${e}`);
+    return errors.length ? { errors } : result;
+};
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const findDuplicates = (values: string[]) =>
+    values.filter((v, i) => values.findIndex(o => normalize(o) === normalize(v)) !== i);
+
+// --- APP SCHEMAS ---
+
+// Models often capitalise the level ("Easy"), which is still a valid tag.
+const difficulty: Schema<QuizDifficulty> = (input, path) =>
+    oneOf<QuizDifficulty>('easy', 'medium', 'hard')(typeof input === 'string' ? input.trim().toLowerCase() : input, path);
+
+export const QuizQuestionSchema: Schema<QuizQuestion> = refine(
+    objectOf<QuizQuestion>({
+        question: str(),
+        options: arrayOf(str(), { min: 4, max: 4 }),
+        correctAnswer: str(),
+        explanation: str(),
+        difficulty: optional(difficulty),
+        outcome: optional(str({ minLength: 0 }))
+    }),
+    q => {
+        const errors: string[] = [];
+        const dupes = findDuplicates(q.options);
+        if (dupes.length) errors.push(`options contain duplicates (${dupes.map(d => `"${d}"`).join(', ')})`);
+        if (!q.options.some(o => normalize(o) === normalize(q.correctAnswer))) {
+            errors.push(`correctAnswer "${q.correctAnswer}" is not one of the options`);
+        }
+        return errors;
+    }
+);
+
+export const quizPayloadSchema = (count?: number) => objectOf<{ questions: QuizQuestion[] }>({
+    questions: arrayOf(QuizQuestionSchema, { min: count ?? 1, max: count })
+});
+
+export const quizCheckPayloadSchema = (count: number) => objectOf<{ answers: QuizAnswerCheck[] }>({
+    answers: arrayOf(objectOf<QuizAnswerCheck>({
+        id: idString,
+        answer: str(),
+        ambiguous: withDefault(bool, false)
+    }), { min: count, max: count })
+});
+
+export const moderationPayloadSchema = objectOf<{ safe: boolean; reason: string }>({
+    safe: bool,
+    reason: withDefault(str({ minLength: 0 }), '')
+});
+
+export const MatchingPairSchema: Schema<MatchingPair> = objectOf<MatchingPair>({
+    id: idString,
+    term: str({ maxLength: 60 }),
+    definition: str()
+});
+
+export const matchingPairsSchema = refine(arrayOf(MatchingPairSchema, { min: 4 }), pairs => {
+    const dupes = findDuplicates(pairs.map(p => p.id));
+    return dupes.length ? [`pair ids must be unique (duplicate ${dupes.join(', ')})`] : [];
+});
+
+export const matchingPayloadSchema = objectOf<{ pairs: MatchingPair[] }>({
+    pairs: matchingPairsSchema
+});
+
+export const PodcastSegmentSchema: Schema<PodcastSegment> = objectOf<PodcastSegment>({
+    speaker: oneOf('Host 1', 'Host 2'),
+    text: str()
+});
+
+export const podcastScriptSchema = arrayOf(PodcastSegmentSchema, { min: 2 });
+
+export const podcastPayloadSchema = objectOf<{ script: PodcastSegment[] }>({
+    script: podcastScriptSchema
+});
+
+export const VideoSlideSchema: Schema<VideoSlide> = objectOf<VideoSlide>({
+    text: str(),
+    keyword: str({ maxLength: 40 }),
+    imageUrl: optional(str()),
+    photographer: optional(str())
+});
+
+export const videoPayloadSchema = objectOf<{ slides: VideoSlide[] }>({
+    slides: arrayOf(VideoSlideSchema, { min: 3 })
+});
+
+export const PuzzleWordSchema: Schema<PuzzleWord> = objectOf<PuzzleWord>({
+    // Words are placed on a 10x10 grid after non-letters are stripped.
+    word: refine(str(), w => {
+        const letters = w.replace(/[^A-Za-z]/g, '').length;
+        return letters < 2 || letters > 10 ? [`"${w}" must have 2-10 letters to fit the grid`] : [];
+    }),
+    clue: str(),
+    found: withDefault(bool, false)
+});
+
+export const puzzleWordsSchema = arrayOf(PuzzleWordSchema, { min: 4 });
+
+export const puzzlePayloadSchema = objectOf<{ words: PuzzleWord[] }>({
+    words: puzzleWordsSchema
+});
+
+export interface ConceptMapNodeData {
+    label: string;
+    description: string;
+}
+
+export interface ConceptMapData {
+    root: ConceptMapNodeData;
+    children: ConceptMapNodeData[];
+}
+
+const ConceptMapNodeSchema = objectOf<ConceptMapNodeData>({
+    label: str(),
+    description: str()
+});
+
+export const ConceptMapSchema: Schema<ConceptMapData> = objectOf<ConceptMapData>({
+    root: ConceptMapNodeSchema,
+    children: arrayOf(ConceptMapNodeSchema, { min: 2 })
+});
@@ -1,100 +1,101 @@
 
 import { supabase } from "./supabaseClient";
+import { requestChatCompletion, getAppSecret, describeAIError, isOfflineAIMode } from "./llmProvider";
+import { AIPriority } from "./aiScheduler";
+import { AIFeature } from "./aiUsage";
 import { QuizQuestion, PuzzleWord, ChatSession, MatchingPair, PodcastSegment, VideoSlide } from "../types";
+import {
+    Schema, StructuredOutputError, ConceptMapData, ConceptMapSchema,
+    quizPayloadSchema, quizCheckPayloadSchema, moderationPayloadSchema, matchingPayloadSchema, podcastPayloadSchema, videoPayloadSchema, puzzlePayloadSchema,
+    matchingPairsSchema, podcastScriptSchema, puzzleWordsSchema, str
+} from "./aiSchemas";
+import { readThroughCache, CacheOptions } from "./contentCache";
+import { checkQuestion, compareWithCheck, formatQuestionsForCheck, QuizAnswerCheck, RejectedQuestion } from "./quizVerification";
+import { checkLocalRules, loadSchoolTerms, ModerationVerdict } from "./moderation";
+import { currentSchoolId, scopeToSchool, onlyActiveStudents } from "./schools";
+import { fitHistoryToBudget } from "./chatContext";
+import { renderPrompt, promptVersionTag } from "./promptRegistry";
+import { isGatewayEnabled, gatewayGet } from "./gatewayClient";
+import { buildCurriculumContext } from "./curriculumStore";
+import { findChapter } from "./curriculumCatalog";
 import { showToast } from "../utils/notificationUtils";
+import { getLanguage, languageInstruction } from "../utils/i18n";
 
-// --- CORE GROQ CONFIGURATION ---
+// --- CORE AI CONFIGURATION ---
 
-// Priority list of models to use. If one fails, the app automatically switches to the next.
-const BACKUP_MODELS = [
-    "llama-3.3-70b-versatile", // Primary: Highest Intelligence
-    "llama-3.1-8b-instant",    // Secondary: Ultra Fast
-    "mixtral-8x7b-32768",      // Tertiary: Reliable Fallback
-    "gemma2-9b-it"             // Final Resort
-];
+const getPexelsApiKey = () => getAppSecret('PEXELS_API_KEY');
 
-let cachedGroqKey: string | null = null;
-let cachedPexelsKey: string | null = null;
-
-const getGroqApiKey = async () => {
-    if (cachedGroqKey) return cachedGroqKey;
-    try {
-        const { data, error } = await supabase.from('app_secrets').select('value').eq('name', 'GROQ_API_KEY').single();
-        if (error || !data) return null;
-        cachedGroqKey = data.value;
-        return cachedGroqKey;
-    } catch (e) { return null; }
+/**
+ * Finds one stock photo for a keyword. Goes through the AI gateway when one is
+ * configured so the Pexels key stays server-side.
+ */
+const searchImage = async (keyword: string): Promise<{ imageUrl: string; photographer: string } | null> => {
+    if (isGatewayEnabled()) {
+        const data = await gatewayGet<{ photos: { imageUrl: string; photographer: string }[] }>(`/v1/images/search?query=${encodeURIComponent(keyword)}`);
+        return data?.photos?.[0] || null;
+    }
+    const pexelsKey = await getPexelsApiKey();
+    if (!pexelsKey) return null;
+    const pexelsRes = await fetch(`https://api.pexels.com/v1/search?query=${encodeURIComponent(keyword)}&per_page=1`, {
+        headers: { Authorization: pexelsKey }
+    });
+    const pexelsData = await pexelsRes.json();
+    const photo = pexelsData.photos?.[0];
+    return photo ? { imageUrl: photo.src.large, photographer: photo.photographer } : null;
 };
 
-const getPexelsApiKey = async () => {
-    if (cachedPexelsKey) return cachedPexelsKey;
-    try {
-        const { data, error } = await supabase.from('app_secrets').select('value').eq('name', 'PEXELS_API_KEY').single();
-        if (error || !data) return null;
-        cachedPexelsKey = data.value;
-        return cachedPexelsKey;
-    } catch (e) { return null; }
+export interface AICallOptions {
+    priority?: AIPriority;
+    signal?: AbortSignal;
+    // Recorded in the usage log; see AI_FEATURE_LABELS.
+    feature?: AIFeature;
+    promptRef?: string;
+}
+
+interface StructuredOptions {
+    feature: AIFeature;
+    temperature?: number;
+    promptRef?: string;
+    avoidModel?: string;
+}
+
+interface StructuredResult<T> {
+    value: T;
+    // Model that produced the accepted output
+    model: string;
+}
+
+/**
+ * Sends a completion through the scheduler and provider layer. Throws an
+ * error that describeAIError can turn into a message for the student.
+ */
+export const callAI = async (
+    messages: { role: string; content: string }[],
+    jsonMode: boolean = false,
+    temperature: number = 0.7,
+    options: AICallOptions = {}
+): Promise<string> => {
+    const result = await requestChatCompletion({ messages, jsonMode, temperature, ...options });
+    return result.content;
 };
 
 /**
- * Core function to communicate with Groq API.
+ * Core function to communicate with the configured LLM providers.
+ * Kept under its original name so existing call sites keep working;
+ * returns null instead of throwing.
  */
 export const callGroqAPI = async (
     messages: { role: string; content: string }[],
     jsonMode: boolean = false,
-    temperature: number = 0.7
+    temperature: number = 0.7,
+    options: AICallOptions = {}
 ): Promise<string | null> => {
-    const apiKey = await getGroqApiKey();
-    if (!apiKey) {
-        console.error("No Groq API Key found.");
+    try {
+        return await callAI(messages, jsonMode, temperature, options);
+    } catch (e) {
+        console.error("AI request failed", e);
         return null;
     }
-
-    // Attempt to get a response using the models in priority order
-    for (let i = 0; i < BACKUP_MODELS.length; i++) {
-        const model = BACKUP_MODELS[i];
-        
-        try {
-            const body: any = {
-                model: model,
-                messages: messages,
-                temperature: temperature,
-                max_tokens: 8096
-            };
-
-            if (jsonMode) {
-                body.response_format = { type: "json_object" };
-            }
-
-            const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-                method: "POST",
-                headers: {
-                    "Authorization": `Bearer ${apiKey}`,
-                    "Content-Type": "application/json"
-                },
-                body: JSON.stringify(body)
-            });
-
-            if (!response.ok) {
-                const status = response.status;
-                if (status === 429) {
-                    await new Promise(r => setTimeout(r, 1200)); 
-                    continue; 
-                }
-                if (status >= 500) continue;
-                continue;
-            }
-
-            const data = await response.json();
-            const content = data.choices?.[0]?.message?.content;
-            if (content) return content;
-            continue;
-
-        } catch (e) {
-            continue; 
-        }
-    }
-    return null;
 };
 
 const cleanAndParseJSON = (text: string | null): any => {
@@ -118,6 +119,46 @@ const cleanAndParseJSON = (text: string | null): any => {
     }
 };
 
+// --- STRUCTURED GENERATION ---
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const buildRepairPrompt = (errors: string[]) => `
+Your previous JSON did not pass validation. Fix ONLY these problems and keep everything else the same:
+${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+
+Return the corrected RAW JSON object only. No markdown, no explanation.
+`;
+
+/**
+ * Requests JSON from the model and validates it against a schema. Invalid
+ * output is sent back with a repair prompt listing the exact errors. Throws
+ * StructuredOutputError (with every error) if it still fails after retries.
+ */
+const generateStructuredResult = async <T>(label: string, prompt: string, schema: Schema<T>, options: StructuredOptions): Promise<StructuredResult<T>> => {
+    const { feature, temperature = 0.7, promptRef, avoidModel } = options;
+    const messages = [{ role: "user", content: prompt }];
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        // Provider failures (rate limits, outages) propagate with their own reason
+        const { content: raw, model } = await requestChatCompletion({ messages, jsonMode: true, temperature, feature, promptRef, avoidModel });
+
+        const parsed = cleanAndParseJSON(raw);
+        const result = parsed === null ? { value: undefined, errors: ["response is not valid JSON"] } : schema(parsed, "");
+        if (result.errors.length === 0 && result.value !== undefined) return { value: result.value, model };
+
+        errors = result.errors;
+        console.warn(`${label}: attempt ${attempt + 1} failed validation`, errors);
+        messages.push({ role: "assistant", content: raw }, { role: "user", content: buildRepairPrompt(errors) });
+    }
+
+    throw new StructuredOutputError(label, errors);
+};
+
+const generateStructured = async <T>(label: string, prompt: string, schema: Schema<T>, options: StructuredOptions): Promise<T> =>
+    (await generateStructuredResult(label, prompt, schema, options)).value;
+
 // --- XP SYSTEM ---
 
 export const checkAndAwardDailyXP = async (userId: string, amount: number, activityName: string) => {
@@ -132,29 +173,7 @@ export const checkAndAwardDailyXP = async (userId: string, amount: number, activ
 };
 
 // --- PROMPTS & FEATURES ---
-
-const NCERT_SYSTEM_PROMPT = `
-You are "Science Buddy", a friendly and personalized AI tutor strictly for CBSE/NCERT Science students (Classes 6, 7, and 8).
-
-*** STRICT CONTENT BOUNDARIES ***
-1. **Source Material**: You must ONLY refer to the NCERT Science Textbooks. Do not introduce concepts, formulas, or terminology from higher grades (9-12) or college level.
-2. **Difficulty Level**: Keep explanations simple, concrete, and age-appropriate.
-   - For Class 6: Very basic, observational, fun.
-   - For Class 7: slightly more detailed but simple terms.
-   - For Class 8: Conceptual but strictly within the syllabus.
-3. **Tone**: Enthusiastic, Relatable, Socratic (ask questions to guide them), and Encouraging. Use emojis 🌟.
-4. **No Hallucinations**: If a topic is not in the NCERT book, politely say it's advanced and explain the basic version found in their book.
-`;
-
-const VOICE_SYSTEM_PROMPT = `
-You are "Science Buddy", speaking directly to a middle school student (Class 6-8) via a voice call.
-RULES:
-1. **NO VISUALS**: Output is for Text-to-Speech only.
-2. **Conversational**: Speak like a human friend.
-3. **Simple Language**: Use simple English. Avoid complex jargon unless it's a key NCERT definition.
-4. **Concise**: Short answers (1-2 sentences max unless explained).
-`;
-
+// Prompt wording lives in promptTemplates.ts and is resolved via the registry.
 export interface LiveUserContext {
     name?: string | null;
     interests?: string;
@@ -179,7 +198,7 @@ export const fetchLiveUserStats = async (userId: string) => {
             supabase.from('research_projects').select('title').eq('user_id', userId).order('created_at', {ascending: false}).limit(3),
             supabase.from('study_library').select('topic').eq('user_id', userId).order('created_at', {ascending: false}).limit(3),
             supabase.from('community_notes').select('id', { count: 'exact' }).eq('user_id', userId),
-            supabase.from('users').select('id, total_points').order('total_points', { ascending: false })
+            onlyActiveStudents(scopeToSchool(supabase.from('users').select('id, total_points'))).order('total_points', { ascending: false })
         ]);
 
         let rank = '-';
@@ -211,37 +230,46 @@ export const analyzeUserProfile = async (data: any) => {
 };
 
 export const chatWithAI = async (message: string, history: any[], userContext: LiveUserContext) => {
-  let systemInstruction = NCERT_SYSTEM_PROMPT;
-  const name = userContext.name || "Student";
-  const interests = userContext.interests || "General Science";
-  const grade = userContext.classLevel || "8";
-  
-  systemInstruction += `\n\nCURRENT STUDENT CONTEXT:\n- Class: ${grade} (Strictly adhere to this grade's NCERT level)\n- Name: ${name}\n- Interests: ${interests}`;
-
-  if (userContext.stats) {
-      systemInstruction += `\n- Recent Activity: ${JSON.stringify(userContext.stats.recentQuizScores)}`;
+  const classLevel = userContext.classLevel || "8";
+  const curriculum = await buildCurriculumContext(message, classLevel);
+  const system = await renderPrompt('tutor.system', {
+      classLevel,
+      name: userContext.name || "Student",
+      interests: userContext.interests || "General Science",
+      recentActivity: userContext.stats ? JSON.stringify(userContext.stats.recentQuizScores) : undefined,
+      customBehavior: userContext.customBehavior,
+      curriculumContext: curriculum.text,
+      languageInstruction: languageInstruction()
+  });
+
+  const { messages } = fitHistoryToBudget(system.text, [...history, { role: "user", text: message }]);
+  try {
+      return await callAI(messages, false, 0.7, { priority: 'interactive', feature: 'chat', promptRef: system.ref });
+  } catch (e) {
+      return `⚠️ ${describeAIError(e)}`;
   }
-
-  if (userContext.customBehavior) systemInstruction += `\n\nUSER CUSTOM INSTRUCTION: "${userContext.customBehavior}"`;
-
-  const messages = [{ role: "system", content: systemInstruction }, ...history.map(h => ({ role: h.role === 'model' ? "assistant" : "user", content: h.text })), { role: "user", content: message }];
-  const response = await callGroqAPI(messages, false);
-  return response || "My brain is buffering...";
 };
 
 export const chatWithAIVoice = async (message: string, history: any[], userContext: LiveUserContext) => {
-  let systemInstruction = VOICE_SYSTEM_PROMPT;
-  if (userContext.name) systemInstruction += `\nUser Name: ${userContext.name}`;
-  if (userContext.classLevel) systemInstruction += `\nStudent Class: ${userContext.classLevel} (Keep explanations simple and NCERT aligned).`;
-
-  const messages = [{ role: "system", content: systemInstruction }, ...history.map(h => ({ role: h.role === 'model' ? "assistant" : "user", content: h.text })), { role: "user", content: message }];
-  const response = await callGroqAPI(messages, false, 0.9);
-  return response || "I'm not sure I heard that correctly.";
+  const curriculum = await buildCurriculumContext(message, userContext.classLevel);
+  const system = await renderPrompt('voice.system', {
+      name: userContext.name || undefined,
+      classLevel: userContext.classLevel,
+      curriculumContext: curriculum.text,
+      languageInstruction: languageInstruction()
+  });
+
+  const { messages } = fitHistoryToBudget(system.text, [...history, { role: "user", text: message }]);
+  try {
+      return await callAI(messages, false, 0.9, { priority: 'interactive', feature: 'voice_chat', promptRef: system.ref });
+  } catch (e) {
+      return describeAIError(e);
+  }
 };
 
 export const generateTitle = async (message: string) => {
     const prompt = `Summarize this message into a 3-5 word title: "${message}"`;
-    const response = await callGroqAPI([{ role: "user", content: prompt }]);
+    const response = await callGroqAPI([{ role: "user", content: prompt }], false, 0.7, { priority: 'background', feature: 'chat_title' });
     return response?.replace(/"/g, '').trim();
 };
 
@@ -260,147 +288,224 @@ export const generateStoryNode = async (history: string, choice: string | null |
         "isEnding": false
     }
     `;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    return cleanAndParseJSON(res);
+    try {
+        const res = await callAI([{ role: "user", content: prompt }], true, 0.7, { feature: 'story' });
+        return cleanAndParseJSON(res);
+    } catch (e) {
+        showToast(describeAIError(e), 'error');
+        return null;
+    }
 };
 
 export const rewriteText = async (text: string, style: string, classLevel: string = '8') => {
     const prompt = `Rewrite the following text in the style of ${style}. Keep it simple and understandable for a Class ${classLevel} student (NCERT Level):\n\n"${text}"`;
-    return await callGroqAPI([{ role: "user", content: prompt }]) || "Failed to rewrite.";
+    try {
+        return await callAI([{ role: "user", content: prompt }], false, 0.7, { feature: 'style_swap' });
+    } catch (e) {
+        return `Failed to rewrite: ${describeAIError(e)}`;
+    }
 };
 
-export const generateConceptMapData = async (topic: string, classLevel: string = '8') => {
-    const prompt = `Generate a simple concept map for "${topic}" in JSON format. 
-    Use ONLY terms found in NCERT Class ${classLevel} Science textbooks. Do not use high school terms.
-    OUTPUT JSON: { "root": {"label": "${topic}", "description": "short desc"}, "children": [{"label": "Subconcept", "description": "desc"}] }`;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    return cleanAndParseJSON(res);
+export const generateConceptMapData = async (topic: string, classLevel: string = '8', cacheOptions?: CacheOptions): Promise<ConceptMapData> => {
+    const prompt = await renderPrompt('conceptMap.topic', { topic, classLevel, languageInstruction: languageInstruction() });
+    return readThroughCache(
+        { generator: 'conceptMap', topic, classLevel, promptVersion: promptVersionTag(prompt), language: getLanguage() },
+        () => generateStructured("Concept map", prompt.text, ConceptMapSchema, { feature: 'concept_map', promptRef: prompt.ref }),
+        ConceptMapSchema,
+        cacheOptions
+    );
 };
 
-export const generateMatchingPairs = async (topic: string, classLevel: string = '8'): Promise<MatchingPair[]> => {
-    const prompt = `Generate 6 matching pairs (term and definition) for topic: ${topic}. 
-    STRICTLY NCERT Class ${classLevel} LEVEL. No advanced definitions.
-    OUTPUT JSON: { "pairs": [{ "id": "1", "term": "...", "definition": "..." }] }`;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    return cleanAndParseJSON(res)?.pairs || [];
+export const generateMatchingPairs = async (topic: string, classLevel: string = '8', cacheOptions?: CacheOptions): Promise<MatchingPair[]> => {
+    const prompt = await renderPrompt('matchingPairs.topic', { topic, classLevel, languageInstruction: languageInstruction() });
+    return readThroughCache(
+        { generator: 'matchingPairs', topic, classLevel, promptVersion: promptVersionTag(prompt), language: getLanguage() },
+        async () => (await generateStructured("Matching pairs", prompt.text, matchingPayloadSchema, { feature: 'mind_match', promptRef: prompt.ref })).pairs,
+        matchingPairsSchema,
+        cacheOptions
+    );
 };
 
-export const generateStudyPodSummary = async (topic: string, classLevel: string = '8') => {
-    const prompt = `Write a concise, engaging audio summary script about ${topic} for a Class ${classLevel} student based on NCERT. Max 150 words. Use simple language.`;
-    return await callGroqAPI([{ role: "user", content: prompt }]) || "";
+export const generateStudyPodSummary = async (topic: string, classLevel: string = '8', cacheOptions?: CacheOptions): Promise<string> => {
+    const prompt = await renderPrompt('studyPod.summary', { topic, classLevel, languageInstruction: languageInstruction() });
+    return readThroughCache(
+        { generator: 'studyPodSummary', topic, classLevel, promptVersion: promptVersionTag(prompt), language: getLanguage() },
+        async () => await callGroqAPI([{ role: "user", content: prompt.text }], false, 0.7, { feature: 'study_pod', promptRef: prompt.ref }) || "",
+        str(),
+        cacheOptions
+    );
 };
 
-export const generatePodcastScript = async (topic: string, classLevel: string = '8'): Promise<PodcastSegment[]> => {
-    const prompt = `Create a 2-person podcast script about ${topic}. Host 1 is Ms. Rachel (Teacher), Host 2 is Rohan (Student). 
-    Keep the content strictly within NCERT Class ${classLevel} science level.
-    OUTPUT JSON: { "script": [ {"speaker": "Host 1", "text": "..."}, {"speaker": "Host 2", "text": "..."} ] }`;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    return cleanAndParseJSON(res)?.script || [];
+export const generatePodcastScript = async (topic: string, classLevel: string = '8', cacheOptions?: CacheOptions): Promise<PodcastSegment[]> => {
+    const prompt = await renderPrompt('podcast.script', { topic, classLevel, languageInstruction: languageInstruction() });
+    return readThroughCache(
+        { generator: 'podcastScript', topic, classLevel, promptVersion: promptVersionTag(prompt), language: getLanguage() },
+        async () => (await generateStructured("Podcast script", prompt.text, podcastPayloadSchema, { feature: 'podcast', promptRef: prompt.ref })).script,
+        podcastScriptSchema,
+        cacheOptions
+    );
 };
 
-// FIXED QUIZ GENERATION TO ENSURE ROBUST JSON AND CORRECT ANSWERS
+// --- QUIZ VERIFICATION ---
+
+// Rounds of replacement questions for ones that fail verification.
+const MAX_QUIZ_REGENERATIONS = 1;
+
+/**
+ * Runs the local checks plus a blind answer from a different model than the
+ * one that wrote the questions. If the checker is unavailable the questions
+ * are judged on the local checks alone.
+ */
+export const verifyQuizQuestions = async (questions: QuizQuestion[], classLevel: string = '8', generatorModel?: string) => {
+    const passed: QuizQuestion[] = [];
+    const rejected: RejectedQuestion[] = [];
+    const candidates: QuizQuestion[] = [];
+    questions.forEach(q => {
+        const issues = checkQuestion(q);
+        if (issues.length) rejected.push({ question: q, issues });
+        else candidates.push(q);
+    });
+
+    let checks: QuizAnswerCheck[] = [];
+    if (candidates.length) {
+        try {
+            const prompt = await renderPrompt('quiz.verify', { classLevel, count: candidates.length, questions: formatQuestionsForCheck(candidates) });
+            const data = await generateStructured("Quiz check", prompt.text, quizCheckPayloadSchema(candidates.length), {
+                feature: 'quiz_verify', temperature: 0, promptRef: prompt.ref, avoidModel: generatorModel
+            });
+            checks = data.answers;
+        } catch (e) {
+            console.warn("Quiz check: second-model verification unavailable, using local checks only", e);
+        }
+    }
+
+    candidates.forEach((q, i) => {
+        const issues = compareWithCheck(q, checks[i]);
+        if (issues.length) rejected.push({ question: q, issues });
+        else passed.push(q);
+    });
+    if (rejected.length) console.warn(`Quiz check: rejected ${rejected.length} of ${questions.length} questions`, rejected);
+    return { passed, rejected };
+};
+
+/**
+ * Generates a topic quiz and verifies every question. Questions come tagged
+ * with a difficulty and, when the topic is a catalog chapter, the learning
+ * outcome they check. Failed questions are replaced once; any that still fail
+ * are dropped, so fewer than `count` may come back.
+ */
 export const generateQuizQuestions = async (topic: string, count: number, interests: string, classLevel: string = '8', seed?: string): Promise<QuizQuestion[]> => {
-    const prompt = `
-    Role: Expert NCERT Science Teacher for Class ${classLevel}.
-    Task: Create ${count} multiple-choice questions on "${topic}".
-    Constraint: Strictly adhere to Class ${classLevel} NCERT syllabus. No advanced concepts.
-    User Interest: ${interests}.
-    
-    Output Format: RAW JSON Object ONLY. No Markdown code blocks. No intro text.
-    
-    CRITICAL SCHEMA RULES:
-    1. "options" must contain 4 distinct strings.
-    2. "correctAnswer" MUST BE AN EXACT COPY of one of the strings in "options". 
-       (e.g., if options is ["A", "B"], correctAnswer must be "A", not the index 0).
-    
-    JSON Structure:
-    {
-      "questions": [
-        {
-          "question": "Clear question text?",
-          "options": ["Option 1 Text", "Option 2 Text", "Option 3 Text", "Option 4 Text"],
-          "correctAnswer": "Option 2 Text", 
-          "explanation": "Brief explanation."
+    const chapter = await findChapter(topic, classLevel);
+    const outline = chapter ? {
+        chapter: chapter.number,
+        subtopics: chapter.subtopics.join('; '),
+        learningOutcomes: chapter.learningOutcomes.join('; '),
+        keywords: chapter.keywords.join(', ')
+    } : {};
+    // Outcome tags must name one of the chapter's outcomes so results can be grouped by them
+    const tagOutcome = (q: QuizQuestion): QuizQuestion => {
+        if (!chapter?.learningOutcomes.length) return { ...q, outcome: q.outcome || undefined };
+        const key = (q.outcome || '').trim().toLowerCase();
+        return { ...q, outcome: chapter.learningOutcomes.find(o => o.toLowerCase() === key) };
+    };
+    const accepted: QuizQuestion[] = [];
+    const isRepeat = (q: QuizQuestion) => accepted.some(a => a.question.trim().toLowerCase() === q.question.trim().toLowerCase());
+
+    for (let round = 0; round <= MAX_QUIZ_REGENERATIONS && accepted.length < count; round++) {
+        const needed = count - accepted.length;
+        const prompt = await renderPrompt('quiz.topic', { topic, count: needed, classLevel, interests, ...outline, languageInstruction: languageInstruction() });
+        let generated: StructuredResult<{ questions: QuizQuestion[] }>;
+        try {
+            generated = await generateStructuredResult("Quiz", prompt.text, quizPayloadSchema(needed), { feature: 'quiz', promptRef: prompt.ref });
+        } catch (e) {
+            // The first batch must succeed; a failed top-up just leaves the quiz shorter
+            if (round === 0) throw e;
+            console.warn("Quiz: replacement questions failed", e);
+            break;
         }
-      ]
+        const fresh = generated.value.questions.filter(q => !isRepeat(q)).map(tagOutcome);
+        const { passed } = await verifyQuizQuestions(fresh, classLevel, generated.model);
+        accepted.push(...passed.filter(q => !isRepeat(q)));
     }
-    `;
-    
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    const data = cleanAndParseJSON(res);
-    return data?.questions || [];
+    return accepted.slice(0, count);
 };
 
-export const generateWordPuzzle = async (topic: string, classLevel: string = '8'): Promise<PuzzleWord[]> => {
-    const prompt = `Generate 8 scientific terms related to ${topic} for a word search. Use only terms found in NCERT Class ${classLevel} textbooks. 
-    OUTPUT JSON: { "words": [ {"word": "ATOM", "clue": "Basic unit of matter"} ] }`;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    return cleanAndParseJSON(res)?.words || [];
+export const generateWordPuzzle = async (topic: string, classLevel: string = '8', cacheOptions?: CacheOptions): Promise<PuzzleWord[]> => {
+    const prompt = await renderPrompt('wordPuzzle.topic', { topic, classLevel });
+    return readThroughCache(
+        { generator: 'wordPuzzle', topic, classLevel, promptVersion: promptVersionTag(prompt) },
+        async () => (await generateStructured("Word puzzle", prompt.text, puzzlePayloadSchema, { feature: 'word_puzzle', promptRef: prompt.ref })).words,
+        puzzleWordsSchema,
+        cacheOptions
+    );
 };
 
 export const generateResearchTitle = async (text: string) => {
     const prompt = `Generate a short title for this research note (max 5 words): ${text.substring(0, 500)}`;
-    return await callGroqAPI([{ role: "user", content: prompt }]) || "New Research";
+    return await callGroqAPI([{ role: "user", content: prompt }], false, 0.7, { priority: 'background', feature: 'research_title' }) || "New Research";
 };
 
 export const generateSummaryFromText = async (text: string, classLevel: string = '8') => {
     const prompt = `Summarize this text in bullet points suitable for a Class ${classLevel} student. Simple words, NCERT level: ${text.substring(0, 5000)}`;
-    return await callGroqAPI([{ role: "user", content: prompt }]) || "Summary unavailable.";
+    try {
+        return await callAI([{ role: "user", content: prompt }], false, 0.7, { feature: 'research_summary' });
+    } catch (e) {
+        return `Summary unavailable: ${describeAIError(e)}`;
+    }
 };
 
-export const generateQuizFromText = async (text: string, classLevel: string = '8') => {
-    const prompt = `Generate 5 simple quiz questions based on this text. Level: Class ${classLevel}. JSON format: { "questions": [...] }. Text: ${text.substring(0, 5000)}`;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    return cleanAndParseJSON(res)?.questions || [];
+export const generateQuizFromText = async (text: string, classLevel: string = '8'): Promise<QuizQuestion[]> => {
+    const prompt = `Generate 5 simple quiz questions based on this text. Level: Class ${classLevel}.
+    Each question has exactly 4 distinct "options" and "correctAnswer" is an exact copy of one option.
+    JSON format: { "questions": [ { "question": "...", "options": ["...", "...", "...", "..."], "correctAnswer": "...", "explanation": "..." } ] }. Text: ${text.substring(0, 5000)}`;
+    const data = await generateStructured("Quiz", prompt, quizPayloadSchema(5), { feature: 'research_quiz' });
+    return data.questions;
 };
 
-export const generatePodcastScriptFromText = async (text: string, classLevel: string = '8') => {
-    const prompt = `Convert this text into a simple dialogue script between a Teacher and Student (Class ${classLevel} level). JSON format: { "script": [...] }. Text: ${text.substring(0, 5000)}`;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    return cleanAndParseJSON(res)?.script || [];
+export const generatePodcastScriptFromText = async (text: string, classLevel: string = '8'): Promise<PodcastSegment[]> => {
+    const prompt = `Convert this text into a simple dialogue script between a Teacher (Host 1) and Student (Host 2) (Class ${classLevel} level).
+    JSON format: { "script": [ {"speaker": "Host 1", "text": "..."}, {"speaker": "Host 2", "text": "..."} ] }. Text: ${text.substring(0, 5000)}`;
+    const data = await generateStructured("Podcast script", prompt, podcastPayloadSchema, { feature: 'research_podcast' });
+    return data.script;
 };
 
-export const checkContentSafety = async (text: string) => {
-    // 1. Quick local keyword check (Fail-fast)
-    const badWords = ['hate', 'kill', 'stupid', 'idiot', 'shut up', 'dumb', 'sex', 'porn', 'drug', 'suicide', 'die']; 
-    if (badWords.some(w => text.toLowerCase().includes(w))) {
-        return { safe: false, reason: "Contains flagged keywords." };
-    }
-
-    // 2. AI Moderation Check
-    const prompt = `
-    Act as a strict Content Moderator for a Class 6-8 Science App.
-    Analyze the text below for safety.
+export const generateConceptMapFromText = async (text: string, classLevel: string = '8'): Promise<ConceptMapData> => {
+    const prompt = `Analyze this text and create a concept map structure JSON.
+    Rules:
+    1. Root node is the main topic.
+    2. Children are key sub-concepts.
+    3. Description should be short (15 words max).
+    4. Strictly adhere to NCERT Class ${classLevel} Level.
+    Output STRICT JSON format: { "root": { "label": "Main Topic", "description": "..." }, "children": [ { "label": "Subconcept", "description": "..." } ] }
     
-    TEXT: "${text.substring(0, 500)}"
-    
-    RULES:
-    - BLOCK: Bullying, hate speech, sexual content, violence, self-harm, insults.
-    - ALLOW: Scientific discussions (e.g. "reproduction", "acids burn", "killing bacteria").
-    - ALLOW: Helpful feedback.
-    
-    RESPONSE FORMAT (JSON ONLY):
-    {
-        "safe": boolean,
-        "reason": "Short reason if unsafe"
-    }
-    `;
+    TEXT: "${text.slice(0, 4000)}"`;
+    return generateStructured("Concept map", prompt, ConceptMapSchema, { feature: 'research_concept_map', temperature: 0.5 });
+};
+
+// --- MODERATION ---
+
+// Text sent to the AI moderator; the local rules see all of it.
+const MODERATION_CHARS = 1500;
+
+/**
+ * Local rules first, then the AI moderator. When the moderator cannot be
+ * reached (or its answer is unusable) the verdict is 'pending' so a teacher
+ * reviews the content before anyone else sees it.
+ */
+export const moderateContent = async (text: string, school: string | null = currentSchoolId()): Promise<ModerationVerdict> => {
+    const local = checkLocalRules(text, await loadSchoolTerms(school));
+    if (local) return local;
 
     try {
-        const response = await callGroqAPI([{ role: "user", content: prompt }], true, 0.1); 
-        const result = cleanAndParseJSON(response);
-        
-        if (result && typeof result.safe === 'boolean') {
-            return {
-                safe: result.safe,
-                reason: result.reason || "Content flagged by AI moderator."
-            };
-        }
+        const prompt = await renderPrompt('moderation.check', { text: text.substring(0, MODERATION_CHARS) });
+        const result = await generateStructured("Moderation", prompt.text, moderationPayloadSchema, {
+            feature: 'moderation', temperature: 0.1, promptRef: prompt.ref
+        });
+        return result.safe ? { status: 'approved' } : { status: 'blocked', reason: result.reason || "Content flagged by AI moderator." };
     } catch (e) {
         console.error("Moderation API failed", e);
+        return { status: 'pending', reason: "AI moderator unavailable" };
     }
-
-    return { safe: true };
 };
 
 export const generatePerformanceReport = async (username: string, interests: string, stats: any) => {
@@ -409,7 +514,11 @@ export const generatePerformanceReport = async (username: string, interests: str
     Stats: ${JSON.stringify(stats)}.
     Keep it under 200 words. Focus on their progress in their Science class.
     `;
-    return await callGroqAPI([{ role: "user", content: prompt }]) || "Analysis unavailable.";
+    try {
+        return await callAI([{ role: "user", content: prompt }], false, 0.7, { feature: 'performance_report' });
+    } catch (e) {
+        return `Analysis unavailable: ${describeAIError(e)}`;
+    }
 };
 
 export const createVideoProject = async (topic: string, classLevel: string = '8'): Promise<VideoSlide[]> => {
@@ -422,24 +531,25 @@ export const createVideoProject = async (topic: string, classLevel: string = '8'
     
     JSON Format: { "slides": [ {"text": "...", "keyword": "..."} ] }
     `;
-    const res = await callGroqAPI([{ role: "user", content: prompt }], true);
-    const data = cleanAndParseJSON(res)?.slides || [];
+    const { slides: data } = await generateStructured("Video slides", prompt, videoPayloadSchema, { feature: 'video' });
 
-    // Fetch images from Pexels for each slide
-    const pexelsKey = await getPexelsApiKey();
-    if (pexelsKey) {
+    if (isOfflineAIMode()) {
         for (let slide of data) {
-            try {
-                const pexelsRes = await fetch(`https://api.pexels.com/v1/search?query=${slide.keyword}&per_page=1`, {
-                    headers: { Authorization: pexelsKey }
-                });
-                const pexelsData = await pexelsRes.json();
-                if (pexelsData.photos && pexelsData.photos.length > 0) {
-                    slide.imageUrl = pexelsData.photos[0].src.large;
-                    slide.photographer = pexelsData.photos[0].photographer;
-                }
-            } catch (e) { console.error("Pexels error", e); }
+            slide.imageUrl = `data:image/svg+xml,${encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" width="800" height="450"><rect width="100%" height="100%" fill="#1e1b4b"/><text x="50%" y="50%" fill="#67e8f9" font-size="48" font-family="sans-serif" text-anchor="middle">${slide.keyword}</text></svg>`)}`;
+            slide.photographer = "Offline placeholder";
         }
+        return data;
+    }
+
+    // Fetch images from Pexels for each slide
+    for (let slide of data) {
+        try {
+            const photo = await searchImage(slide.keyword);
+            if (photo) {
+                slide.imageUrl = photo.imageUrl;
+                slide.photographer = photo.photographer;
+            }
+        } catch (e) { console.error("Pexels error", e); }
     }
     
     return data;
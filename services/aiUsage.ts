@@ -0,0 +1,275 @@
+
+import { supabase } from "./supabaseClient";
+import type { AIFailureReason, LLMMessage } from "./llmProvider";
+import { getStoredUser } from "./currentUser";
+import { scopeToSchool } from "./schools";
+
+// --- AI USAGE METERING ---
+// Every completion that goes through the provider layer is logged to the
+// `ai_usage_log` table: which feature asked, which model answered (and how many
+// fallbacks it took), latency, token counts and outcome, tagged with the
+// signed-in user, their class and school. Teachers read their school's back in the AI Usage tab,
+// and the same numbers drive the per-student daily token quota.
+
+export type AIFeature =
+    | 'chat' | 'chat_title' | 'chat_summary' | 'voice_chat'
+    | 'story' | 'style_swap' | 'concept_map' | 'mind_match' | 'study_pod' | 'podcast'
+    | 'quiz' | 'quiz_verify' | 'word_puzzle' | 'video' | 'study_mode'
+    | 'research_chat' | 'research_title' | 'research_summary' | 'research_quiz' | 'research_podcast' | 'research_concept_map'
+    | 'moderation' | 'performance_report' | 'class_analysis' | 'unknown';
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+    chat: "AI Tutor Chat",
+    chat_title: "Chat Titles",
+    chat_summary: "Chat Memory Summaries",
+    voice_chat: "Voice Chat",
+    story: "Interactive Story",
+    style_swap: "Style Swapper",
+    concept_map: "Concept Map",
+    mind_match: "Mind Match",
+    study_pod: "Study Pod",
+    podcast: "Podcast",
+    quiz: "Quizzes",
+    quiz_verify: "Quiz Answer Checks",
+    word_puzzle: "Word Puzzle",
+    video: "Video Generator",
+    study_mode: "Study Mode",
+    research_chat: "Research Chat",
+    research_title: "Research Titles",
+    research_summary: "Research Summary",
+    research_quiz: "Research Quiz",
+    research_podcast: "Research Podcast",
+    research_concept_map: "Research Concept Map",
+    moderation: "Content Moderation",
+    performance_report: "Performance Report",
+    class_analysis: "Class Analysis",
+    unknown: "Other"
+};
+
+export type AIUsageOutcome = 'success' | 'interrupted' | AIFailureReason;
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface AIUsageEvent {
+    feature: AIFeature;
+    promptRef?: string;
+    provider: string | null;
+    model: string | null;
+    // How many models failed before this one answered (0 = primary model).
+    fallbackDepth: number;
+    latencyMs: number;
+    usage: TokenUsage;
+    outcome: AIUsageOutcome;
+}
+
+// Row shape of the `ai_usage_log` table.
+export interface AIUsageRow {
+    user_id: string | null;
+    class_level: string | null;
+    section: string | null;
+    school_id: string | null;
+    feature: string;
+    prompt_ref: string | null;
+    provider: string | null;
+    model: string | null;
+    fallback_depth: number;
+    latency_ms: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    outcome: string;
+    created_at: string;
+}
+
+const USAGE_TABLE = 'ai_usage_log';
+const FLUSH_BATCH_SIZE = 10;
+const FLUSH_DELAY_MS = 5000;
+const DEFAULT_DAILY_TOKEN_QUOTA = 100000;
+
+// USD per million tokens. Models not listed (local, offline) are treated as free.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+    "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+    "mixtral-8x7b-32768": { input: 0.24, output: 0.24 },
+    "gemma2-9b-it": { input: 0.20, output: 0.20 }
+};
+
+export const estimateCostUSD = (model: string | null, promptTokens: number, completionTokens: number) => {
+    const price = model ? MODEL_PRICING[model] : undefined;
+    if (!price) return 0;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Rough token estimate (~4 characters per token for English, plus per-message
+ * framing). Devanagari and emoji tokenise worse, so we round up generously.
+ */
+export const estimateTokens = (text: string) => {
+    const nonAscii = (text.match(/[^\x00-\x7F]/g) || []).length;
+    return Math.ceil((text.length - nonAscii) / 4 + nonAscii) + 4;
+};
+
+// Used when a provider does not report usage (local servers, offline mode).
+export const estimateUsage = (messages: LLMMessage[], completion: string): TokenUsage => ({
+    promptTokens: messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+    completionTokens: completion ? estimateTokens(completion) : 0
+});
+
+// --- LOGGING ---
+
+let buffer: AIUsageRow[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const flushAIUsage = async () => {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    if (buffer.length === 0) return;
+    const rows = buffer;
+    buffer = [];
+    const { error } = await supabase.from(USAGE_TABLE).insert(rows);
+    if (error) console.warn("AI usage: could not write log", error);
+};
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => { flushAIUsage(); });
+}
+
+export const recordAIUsage = (event: AIUsageEvent) => {
+    const user = getStoredUser();
+    buffer.push({
+        user_id: user?.id ?? null,
+        class_level: user?.class_level ?? null,
+        section: user?.section ?? null,
+        school_id: user?.school_id ?? null,
+        feature: event.feature,
+        prompt_ref: event.promptRef ?? null,
+        provider: event.provider,
+        model: event.model,
+        fallback_depth: event.fallbackDepth,
+        latency_ms: Math.round(event.latencyMs),
+        prompt_tokens: event.usage.promptTokens,
+        completion_tokens: event.usage.completionTokens,
+        outcome: event.outcome,
+        created_at: new Date().toISOString()
+    });
+    if (user) addToToday(user.id, event.usage.promptTokens + event.usage.completionTokens);
+
+    if (buffer.length >= FLUSH_BATCH_SIZE) flushAIUsage();
+    else if (!flushTimer) flushTimer = setTimeout(flushAIUsage, FLUSH_DELAY_MS);
+};
+
+// --- DAILY QUOTA ---
+
+export const getDailyTokenQuota = () => {
+    const configured = Number(process.env.AI_DAILY_TOKEN_QUOTA);
+    return process.env.AI_DAILY_TOKEN_QUOTA && !isNaN(configured) ? configured : DEFAULT_DAILY_TOKEN_QUOTA;
+};
+
+const startOfToday = () => {
+    const d = new Date();
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+interface DailyTally {
+    userId: string;
+    day: number;
+    tokens: number;
+}
+
+let tally: DailyTally | null = null;
+let tallyLoading: Promise<DailyTally> | null = null;
+
+const addToToday = (userId: string, tokens: number) => {
+    if (tally && tally.userId === userId && tally.day === startOfToday().getTime()) tally.tokens += tokens;
+};
+
+// Seeds today's total from the log once per day, then counts locally.
+const loadTally = (userId: string): Promise<DailyTally> => {
+    const day = startOfToday().getTime();
+    if (tally && tally.userId === userId && tally.day === day) return Promise.resolve(tally);
+    if (tallyLoading) return tallyLoading;
+
+    tallyLoading = (async () => {
+        let tokens = 0;
+        try {
+            const { data } = await supabase
+                .from(USAGE_TABLE)
+                .select('prompt_tokens, completion_tokens')
+                .eq('user_id', userId)
+                .gte('created_at', new Date(day).toISOString());
+            tokens = (data || []).reduce((sum, r: any) => sum + (r.prompt_tokens || 0) + (r.completion_tokens || 0), 0);
+        } catch (e) {
+            console.warn("AI usage: could not load today's total", e);
+        }
+        // Include anything buffered but not yet written
+        tokens += buffer
+            .filter(r => r.user_id === userId)
+            .reduce((sum, r) => sum + r.prompt_tokens + r.completion_tokens, 0);
+        tally = { userId, day, tokens };
+        tallyLoading = null;
+        return tally;
+    })();
+    return tallyLoading;
+};
+
+export interface QuotaStatus {
+    limited: boolean;
+    used: number;
+    limit: number;
+}
+
+/**
+ * Today's token use for the signed-in student against AI_DAILY_TOKEN_QUOTA
+ * (0 disables the quota). Teachers and signed-out visitors are never limited.
+ */
+export const getQuotaStatus = async (): Promise<QuotaStatus> => {
+    const limit = getDailyTokenQuota();
+    const user = getStoredUser();
+    if (!user || user.role === 'teacher' || limit <= 0) return { limited: false, used: 0, limit };
+    const { tokens } = await loadTally(user.id);
+    return { limited: tokens >= limit, used: tokens, limit };
+};
+
+// --- REPORTING ---
+
+export interface UsageQuery {
+    since: Date;
+    classLevel?: string;
+    section?: string;
+}
+
+export interface AIUsageRecord extends AIUsageRow {
+    users?: { username: string; display_name?: string } | null;
+}
+
+const REPORT_PAGE_SIZE = 1000;
+const REPORT_MAX_ROWS = 20000;
+
+/**
+ * Loads the current school's raw usage rows for the teacher dashboard, page
+ * by page, optionally narrowed to one class and section.
+ */
+export const fetchAIUsage = async (query: UsageQuery): Promise<AIUsageRecord[]> => {
+    const rows: AIUsageRecord[] = [];
+    for (let from = 0; from < REPORT_MAX_ROWS; from += REPORT_PAGE_SIZE) {
+        let request = scopeToSchool(supabase
+            .from(USAGE_TABLE)
+            .select('*, users(username, display_name)'))
+            .gte('created_at', query.since.toISOString())
+            .order('created_at', { ascending: true })
+            .range(from, from + REPORT_PAGE_SIZE - 1);
+        if (query.classLevel) request = request.eq('class_level', query.classLevel);
+        if (query.section) request = request.eq('section', query.section);
+
+        const { data, error } = await request;
+        if (error) throw error;
+        rows.push(...(data as AIUsageRecord[]));
+        if (!data || data.length < REPORT_PAGE_SIZE) break;
+    }
+    return rows;
+};
@@ -0,0 +1,110 @@
+
+import { requestChatCompletion, LLMMessage } from "./llmProvider";
+import { estimateTokens } from "./aiUsage";
+import { renderPrompt } from "./promptRegistry";
+import { ChatSummary } from "../types";
+
+// --- CHAT CONTEXT WINDOW ---
+// Long study chats outgrow the model context. Each turn we keep as many recent
+// messages as fit the budget, and older turns are folded into a rolling
+// summary that is stored with the session and sent as extra system context.
+
+// The smallest model in the fallback chain has an 8k context, so budget for that.
+export const CONTEXT_WINDOW_TOKENS = 8192;
+export const RESPONSE_RESERVE_TOKENS = 2048;
+
+// Summarise once this much history has fallen out of the window unsummarised.
+const SUMMARY_TRIGGER_TOKENS = 1200;
+
+interface HistoryMessage {
+    id?: string;
+    role: string;
+    text: string;
+}
+
+export interface ChatWindow {
+    messages: LLMMessage[];
+    // Messages outside the window that the stored summary does not cover yet.
+    unsummarized: HistoryMessage[];
+    estimatedTokens: number;
+}
+
+const toApiRole = (role: string) => role === 'model' || role === 'assistant' ? 'assistant' : 'user';
+
+const summaryBlock = (summary: ChatSummary) =>
+    `SUMMARY OF EARLIER CONVERSATION (older messages are not shown):\n${summary.text}`;
+
+/**
+ * Picks the newest messages that fit alongside the system prompt and summary.
+ * The latest message is always kept (truncated if it alone is too large).
+ */
+export const fitHistoryToBudget = (
+    systemPrompt: string,
+    history: HistoryMessage[],
+    summary?: ChatSummary | null,
+    budget: number = CONTEXT_WINDOW_TOKENS - RESPONSE_RESERVE_TOKENS
+): ChatWindow => {
+    const head: LLMMessage[] = [{ role: "system", content: systemPrompt }];
+    if (summary?.text) head.push({ role: "system", content: summaryBlock(summary) });
+
+    let used = head.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    const kept: LLMMessage[] = [];
+    let firstKept = history.length;
+
+    for (let i = history.length - 1; i >= 0; i--) {
+        const cost = estimateTokens(history[i].text);
+        if (used + cost > budget) {
+            if (kept.length === 0) {
+                // Even the newest message is too long: keep its tail end
+                const room = Math.max(200, (budget - used) * 4);
+                kept.unshift({ role: toApiRole(history[i].role), content: history[i].text.slice(-room) });
+                used = budget;
+                firstKept = i;
+            }
+            break;
+        }
+        kept.unshift({ role: toApiRole(history[i].role), content: history[i].text });
+        used += cost;
+        firstKept = i;
+    }
+
+    const coveredIdx = summary ? history.findIndex(m => m.id === summary.coveredUntilId) : -1;
+    const unsummarized = history.slice(coveredIdx + 1, firstKept);
+
+    return { messages: [...head, ...kept], unsummarized, estimatedTokens: used };
+};
+
+export const shouldSummarize = (window: ChatWindow) =>
+    window.unsummarized.reduce((sum, m) => sum + estimateTokens(m.text), 0) >= SUMMARY_TRIGGER_TOKENS;
+
+/**
+ * Folds turns that dropped out of the window into the running summary.
+ * Runs at background priority so it never delays a student's reply.
+ */
+export const summarizeOlderTurns = async (previous: ChatSummary | null | undefined, turns: HistoryMessage[]): Promise<ChatSummary | null> => {
+    const last = turns[turns.length - 1];
+    if (!last?.id) return null;
+
+    const transcript = turns.map(t => `${toApiRole(t.role) === 'assistant' ? 'Tutor' : 'Student'}: ${t.text}`).join('\n').slice(0, 12000);
+
+    try {
+        const prompt = await renderPrompt('chat.summary', { transcript, previousNotes: previous?.text || undefined });
+        const result = await requestChatCompletion({
+            messages: [{ role: "user", content: prompt.text }],
+            temperature: 0.3,
+            maxTokens: 400,
+            priority: 'background',
+            feature: 'chat_summary',
+            promptRef: prompt.ref
+        });
+        return {
+            text: result.content.trim(),
+            coveredUntilId: last.id,
+            coveredCount: (previous?.coveredCount || 0) + turns.length,
+            updatedAt: Date.now()
+        };
+    } catch (e) {
+        console.warn("Chat summary failed; will retry next turn", e);
+        return null;
+    }
+};
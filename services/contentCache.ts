@@ -0,0 +1,160 @@
+
+import { supabase } from "./supabaseClient";
+import { Schema } from "./aiSchemas";
+import { gatewayPost, isGatewayEnabled } from "./gatewayClient";
+import { getStoredUser } from "./currentUser";
+import { currentSchoolId } from "./schools";
+
+// --- AI CONTENT CACHE ---
+// Generated learning content (concept maps, Mind Match pairs, Study Pod
+// scripts...) is the same for every student on the same chapter, so it is
+// cached in two tiers: IndexedDB on this device, then the shared
+// `ai_content_cache` table so a whole school reuses one generation.
+// Bumping a generator's prompt version naturally invalidates old entries.
+// Cached entries are checked against the generator's schema before use. Only
+// the gateway writes to the shared table, for teachers, after moderating the
+// content; shared entries are keyed by school.
+
+export interface CacheKeyParts {
+    generator: string;
+    topic: string;
+    classLevel: string;
+    promptVersion: number | string;
+    // Output language; English entries keep their original keys.
+    language?: string;
+    // Filled in by readThroughCache
+    schoolId?: string | null;
+}
+
+export interface CacheOptions {
+    // Skip both tiers and overwrite them with a fresh generation.
+    forceRefresh?: boolean;
+    ttlMs?: number;
+}
+
+interface CacheEntry<T> {
+    key: string;
+    payload: T;
+    createdAt: number;
+}
+
+const DB_NAME = 'science_buddy_cache';
+const STORE_NAME = 'ai_content';
+const SHARED_TABLE = 'ai_content_cache';
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const normalizeTopic = (topic: string) => topic.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const buildCacheKey = (parts: CacheKeyParts) =>
+    [
+        parts.generator,
+        `v${parts.promptVersion}`,
+        `class${parts.classLevel}`,
+        ...(parts.schoolId ? [`school${parts.schoolId}`] : []),
+        ...(parts.language && parts.language !== 'en' ? [parts.language] : []),
+        normalizeTopic(parts.topic)
+    ].join(':');
+
+// --- LOCAL TIER (IndexedDB) ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn("Content cache: IndexedDB unavailable", request.error);
+            resolve(null);
+        };
+    });
+    return dbPromise;
+};
+
+const readLocal = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+    const db = await openDb();
+    if (!db) return null;
+    return new Promise(resolve => {
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => resolve(null);
+    });
+};
+
+const writeLocal = async <T>(entry: CacheEntry<T>) => {
+    const db = await openDb();
+    if (!db) return;
+    return new Promise<void>(resolve => {
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        tx.objectStore(STORE_NAME).put(entry);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => resolve();
+    });
+};
+
+export const clearLocalContentCache = async () => {
+    const db = await openDb();
+    if (!db) return;
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear();
+};
+
+// --- SHARED TIER (Supabase) ---
+
+const readShared = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+    try {
+        const { data, error } = await supabase.from(SHARED_TABLE).select('payload, created_at').eq('cache_key', key).maybeSingle();
+        if (error || !data) return null;
+        return { key, payload: data.payload, createdAt: new Date(data.created_at).getTime() };
+    } catch (e) { return null; }
+};
+
+// Only teachers share, and only through the gateway; everyone else keeps a copy on this device.
+const writeShared = async <T>(parts: CacheKeyParts, entry: CacheEntry<T>) => {
+    if (!isGatewayEnabled() || !parts.schoolId || getStoredUser()?.role !== 'teacher') return;
+    const { schoolId, ...keyParts } = parts;
+    try {
+        await gatewayPost('/v1/content-cache', { ...keyParts, payload: entry.payload }, { auth: true });
+    } catch (e) {
+        console.warn("Content cache: shared write failed", e);
+    }
+};
+
+const isUsable = (payload: unknown) =>
+    payload !== null && payload !== undefined && payload !== '' && !(Array.isArray(payload) && payload.length === 0);
+
+/**
+ * Returns cached content for the key if present, fresh and valid for
+ * `schema`, otherwise runs the generator and stores the result in both tiers.
+ * Generator errors propagate and are never cached.
+ */
+export const readThroughCache = async <T>(keyParts: CacheKeyParts, generate: () => Promise<T>, schema: Schema<T>, options: CacheOptions = {}): Promise<T> => {
+    const parts = { ...keyParts, schoolId: currentSchoolId() };
+    const key = buildCacheKey(parts);
+    const ttl = options.ttlMs ?? DEFAULT_TTL_MS;
+    const isFresh = (entry: CacheEntry<T> | null): entry is CacheEntry<T> =>
+        !!entry && isUsable(entry.payload) && Date.now() - entry.createdAt < ttl && schema(entry.payload, parts.generator).errors.length === 0;
+
+    if (!options.forceRefresh) {
+        const local = await readLocal<T>(key);
+        if (isFresh(local)) return local.payload;
+
+        const shared = await readShared<T>(key);
+        if (isFresh(shared)) {
+            writeLocal(shared);
+            return shared.payload;
+        }
+    }
+
+    const payload = await generate();
+    if (isUsable(payload)) {
+        const entry: CacheEntry<T> = { key, payload, createdAt: Date.now() };
+        writeLocal(entry);
+        writeShared(parts, entry);
+    }
+    return payload;
+};
@@ -0,0 +1,12 @@
+import { UserData } from "../types";
+
+/**
+ * The signed-in user as persisted by App.tsx. Lets services (metering, prompt
+ * experiments) know who is asking without threading React state through.
+ */
+export const getStoredUser = (): UserData | null => {
+    try {
+        const saved = localStorage.getItem('science_buddy_user');
+        return saved ? JSON.parse(saved) : null;
+    } catch (e) { return null; }
+};
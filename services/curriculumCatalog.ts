@@ -0,0 +1,203 @@
+import { supabase } from "./supabaseClient";
+import { BUILT_IN_CURRICULUM, CurriculumChapter } from "./curriculumChapters";
+import { currentSchoolId, SchoolFilterable, scopeToSchool, schoolColumn } from "./schools";
+
+// --- CURRICULUM CATALOG ---
+// The chapter list for each class, with subtopics, learning outcomes and
+// keywords. Each school keeps its own lists: teachers edit them under
+// Curriculum, every save adds a row to `curriculum_catalog` (school_id,
+// class_level, version, chapters, note, created_by, created_at) and the
+// school's newest version is the one its students see. Earlier versions stay
+// for history and can be restored. Classes a school has not saved use the
+// built-in list (version 0, see curriculumChapters.ts).
+
+export const CURRICULUM_CLASSES = ['6', '7', '8'];
+const DEFAULT_CLASS = '8';
+
+const CATALOG_TABLE = 'curriculum_catalog';
+const CATALOG_COLUMNS = 'school_id, class_level, version, chapters, note, created_by, created_at';
+
+export interface CurriculumVersion {
+    classLevel: string;
+    // 0 is the built-in list
+    version: number;
+    chapters: CurriculumChapter[];
+    note: string | null;
+    createdBy: string | null;
+    createdAt: string | null;
+}
+
+export interface CurriculumSave {
+    classLevel: string;
+    chapters: CurriculumChapter[];
+    note?: string;
+    createdBy?: string;
+}
+
+/**
+ * The class whose chapters apply; teachers and unknown classes get Class 8.
+ */
+export const catalogClass = (classLevel?: string | null) =>
+    classLevel && CURRICULUM_CLASSES.includes(classLevel) ? classLevel : DEFAULT_CLASS;
+
+// Versions saved without a school belong to deployments that have none.
+const forSchool = <T extends SchoolFilterable>(query: T, schoolId: string | null): T =>
+    schoolId ? scopeToSchool(query, schoolId) : query.filter('school_id', 'is', null);
+
+const builtInVersion = (classLevel: string): CurriculumVersion => ({
+    classLevel,
+    version: 0,
+    chapters: BUILT_IN_CURRICULUM[classLevel] || [],
+    note: 'Built-in NCERT chapter list',
+    createdBy: null,
+    createdAt: null
+});
+
+const strings = (value: unknown) =>
+    Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+// Rows can also be edited by hand in the Supabase dashboard, so missing lists are tolerated.
+const toChapter = (raw: any): CurriculumChapter => ({
+    number: Number(raw?.number) || 0,
+    title: String(raw?.title || '').trim(),
+    titleHi: raw?.titleHi ? String(raw.titleHi).trim() : undefined,
+    subtopics: strings(raw?.subtopics),
+    learningOutcomes: strings(raw?.learningOutcomes),
+    keywords: strings(raw?.keywords)
+});
+
+const toVersion = (row: any): CurriculumVersion => ({
+    classLevel: row.class_level,
+    version: row.version,
+    chapters: (Array.isArray(row.chapters) ? row.chapters : []).map(toChapter).sort((a: CurriculumChapter, b: CurriculumChapter) => a.number - b.number),
+    note: row.note || null,
+    createdBy: row.created_by || null,
+    createdAt: row.created_at || null
+});
+
+// --- READING ---
+
+// Keyed by school and class
+const current: Record<string, Promise<CurriculumVersion>> = {};
+
+/**
+ * The chapter list the current school's students see for a class. Never
+ * throws: if the table cannot be read the built-in list is used.
+ */
+export const getCurriculum = (classLevel?: string | null): Promise<CurriculumVersion> => {
+    const level = catalogClass(classLevel);
+    const schoolId = currentSchoolId();
+    const key = `${schoolId || ''}:${level}`;
+    if (!current[key]) {
+        current[key] = (async () => {
+            try {
+                const { data, error } = await forSchool(supabase
+                    .from(CATALOG_TABLE)
+                    .select(CATALOG_COLUMNS), schoolId)
+                    .eq('class_level', level)
+                    .order('version', { ascending: false })
+                    .limit(1)
+                    .maybeSingle();
+                if (error) throw error;
+                return data ? toVersion(data) : builtInVersion(level);
+            } catch (e) {
+                console.warn("Curriculum catalog: could not load saved chapters, using built-in list", e);
+                delete current[key];
+                return builtInVersion(level);
+            }
+        })();
+    }
+    return current[key];
+};
+
+export const getChapters = async (classLevel?: string | null) => (await getCurriculum(classLevel)).chapters;
+
+/**
+ * The catalog entry whose title matches a quiz topic, if the topic is a chapter.
+ */
+export const findChapter = async (topic: string, classLevel?: string | null) => {
+    const key = topic.trim().toLowerCase();
+    return (await getChapters(classLevel)).find(c => c.title.toLowerCase() === key);
+};
+
+/**
+ * Drops cached chapter lists so a newly saved version takes effect.
+ */
+export const reloadCurriculum = () => {
+    Object.keys(current).forEach(key => delete current[key]);
+};
+
+/**
+ * Chapter outline for prompts, e.g. the Study Mode helper.
+ */
+export const formatChapterOutline = (chapter: CurriculumChapter) => [
+    `Chapter ${chapter.number}: ${chapter.title}`,
+    chapter.subtopics.length ? `Subtopics: ${chapter.subtopics.join('; ')}` : '',
+    chapter.learningOutcomes.length ? `Learning outcomes: ${chapter.learningOutcomes.join('; ')}` : ''
+].filter(Boolean).join('\n');
+
+// --- EDITING ---
+
+/**
+ * The current school's saved versions for a class, newest first, followed by
+ * the built-in list.
+ */
+export const listCurriculumVersions = async (classLevel: string): Promise<CurriculumVersion[]> => {
+    const { data, error } = await forSchool(supabase
+        .from(CATALOG_TABLE)
+        .select(CATALOG_COLUMNS), currentSchoolId())
+        .eq('class_level', classLevel)
+        .order('version', { ascending: false });
+    if (error) throw error;
+    return [...(data || []).map(toVersion), builtInVersion(classLevel)];
+};
+
+/**
+ * Why a chapter list cannot be saved, or null if it can.
+ */
+export const checkChapters = (chapters: CurriculumChapter[]): string | null => {
+    if (!chapters.length) return "Add at least one chapter.";
+    const numbers = new Set<number>();
+    const titles = new Set<string>();
+    for (const chapter of chapters) {
+        if (!Number.isInteger(chapter.number) || chapter.number < 1) return `"${chapter.title || 'Untitled'}" needs a chapter number.`;
+        if (!chapter.title.trim()) return `Chapter ${chapter.number} needs a title.`;
+        if (numbers.has(chapter.number)) return `Chapter number ${chapter.number} is used twice.`;
+        const title = chapter.title.trim().toLowerCase();
+        if (titles.has(title)) return `"${chapter.title}" is listed twice.`;
+        numbers.add(chapter.number);
+        titles.add(title);
+    }
+    return null;
+};
+
+/**
+ * Saves the chapter list as the current school's next version for the class.
+ * Fails if someone
+ * else saved a version since the editor was opened from `baseVersion`.
+ */
+export const saveCurriculumVersion = async ({ classLevel, chapters, note, createdBy }: CurriculumSave, baseVersion: number): Promise<CurriculumVersion> => {
+    const cleaned = chapters.map(toChapter).sort((a, b) => a.number - b.number);
+    const problem = checkChapters(cleaned);
+    if (problem) throw new Error(problem);
+
+    const { data, error } = await supabase
+        .from(CATALOG_TABLE)
+        .insert({
+            class_level: classLevel,
+            version: baseVersion + 1,
+            chapters: cleaned,
+            note: note?.trim() || null,
+            created_by: createdBy || null,
+            ...schoolColumn()
+        })
+        .select(CATALOG_COLUMNS)
+        .single();
+    if (error) {
+        // (school_id, class_level, version) is unique
+        if (error.code === '23505') throw new Error("Someone else saved a newer version. Reload to see it before saving.");
+        throw error;
+    }
+    reloadCurriculum();
+    return toVersion(data);
+};
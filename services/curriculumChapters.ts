@@ -0,0 +1,248 @@
+
+// --- CURRICULUM CHAPTERS ---
+// Built-in NCERT Science chapter list for each class: Curiosity (2024) for
+// Classes 6 and 7, and the current Class 8 textbook. Chapter titles are also
+// the keys student quiz progress is saved under, so renaming one starts that
+// chapter afresh. Versions a school saves in `curriculum_catalog` replace
+// these for that school at runtime (see curriculumCatalog.ts).
+
+export interface CurriculumChapter {
+    number: number;
+    title: string;
+    // Devanagari title shown under the English one
+    titleHi?: string;
+    subtopics: string[];
+    learningOutcomes: string[];
+    keywords: string[];
+}
+
+export const BUILT_IN_CURRICULUM: Record<string, CurriculumChapter[]> = {
+    '6': [
+        {
+            number: 1, title: "The Wonderful World of Science", titleHi: "विज्ञान की अद्भुत दुनिया",
+            subtopics: ["Science as a way of finding out", "Asking questions and observing", "Steps of the scientific method", "Science in everyday life"],
+            learningOutcomes: ["Describes science as a process of asking and testing questions", "Plans a simple investigation from an everyday observation"],
+            keywords: ["science", "curiosity", "observation", "experiment", "hypothesis"]
+        },
+        {
+            number: 2, title: "Diversity in the Living World", titleHi: "सजीव जगत में विविधता",
+            subtopics: ["Grouping plants and animals", "Herbs, shrubs, trees, climbers and creepers", "Taproots and fibrous roots", "Leaf venation", "Adaptations to habitats", "Biodiversity and its protection"],
+            learningOutcomes: ["Groups plants and animals by observable features", "Relates root type to leaf venation", "Explains how adaptations suit organisms to their habitats"],
+            keywords: ["diversity", "habitat", "adaptation", "taproot", "fibrous root", "venation", "biodiversity"]
+        },
+        {
+            number: 3, title: "Mindful Eating: A Path to a Healthy Body", titleHi: "सजग भोजन: स्वस्थ शरीर का मार्ग",
+            subtopics: ["Food across regions and seasons", "Components of food", "Testing for starch, protein and fat", "Balanced diet", "Deficiency diseases", "Millets and healthy choices"],
+            learningOutcomes: ["Names the nutrients in food and their functions", "Tests food samples for starch, protein and fat", "Links deficiency diseases to missing nutrients"],
+            keywords: ["carbohydrates", "proteins", "fats", "vitamins", "minerals", "roughage", "balanced diet", "deficiency"]
+        },
+        {
+            number: 4, title: "Exploring Magnets", titleHi: "चुंबकों की खोज",
+            subtopics: ["Magnetic and non-magnetic materials", "Poles of a magnet", "Finding directions with a compass", "Attraction and repulsion", "Making a magnet", "Keeping magnets safe"],
+            learningOutcomes: ["Classifies materials as magnetic or non-magnetic", "Uses a freely suspended magnet or compass to find directions", "Predicts attraction and repulsion between poles"],
+            keywords: ["magnet", "north pole", "south pole", "compass", "attraction", "repulsion"]
+        },
+        {
+            number: 5, title: "Measurement of Length and Motion", titleHi: "लंबाई और गति का मापन",
+            subtopics: ["Need for standard units", "SI units of length", "Measuring length correctly", "Measuring curved lines", "Rest and motion", "Linear, circular and periodic motion"],
+            learningOutcomes: ["Measures length with correct placement and reading of the scale", "Converts between units of length", "Classifies motion as linear, circular or periodic"],
+            keywords: ["length", "metre", "SI unit", "motion", "linear motion", "circular motion", "periodic motion"]
+        },
+        {
+            number: 6, title: "Materials Around Us", titleHi: "हमारे आस-पास के पदार्थ",
+            subtopics: ["Objects and the materials they are made of", "Appearance and hardness", "Solubility in water", "Floating and sinking", "Transparency", "Grouping materials by properties"],
+            learningOutcomes: ["Identifies the materials common objects are made of", "Groups materials by properties such as hardness, solubility and transparency"],
+            keywords: ["material", "lustre", "hardness", "soluble", "insoluble", "transparent", "opaque", "translucent"]
+        },
+        {
+            number: 7, title: "Temperature and its Measurement", titleHi: "ताप और उसका मापन",
+            subtopics: ["Hot and cold", "Clinical thermometer", "Laboratory thermometer", "Celsius scale", "Digital thermometers", "Precautions while measuring temperature"],
+            learningOutcomes: ["Explains why touch is unreliable for judging temperature", "Reads clinical and laboratory thermometers correctly"],
+            keywords: ["temperature", "thermometer", "degree Celsius", "clinical thermometer", "laboratory thermometer"]
+        },
+        {
+            number: 8, title: "A Journey through States of Water", titleHi: "जल की अवस्थाओं की यात्रा",
+            subtopics: ["Solid, liquid and gaseous water", "Melting and freezing", "Evaporation and what speeds it up", "Condensation", "The water cycle"],
+            learningOutcomes: ["Describes changes of state of water", "Identifies factors that affect evaporation", "Explains the water cycle"],
+            keywords: ["evaporation", "condensation", "melting", "freezing", "water vapour", "water cycle"]
+        },
+        {
+            number: 9, title: "Methods of Separation in Everyday Life", titleHi: "दैनिक जीवन में पृथक्करण की विधियाँ",
+            subtopics: ["Why we separate mixtures", "Handpicking, threshing and winnowing", "Sieving", "Sedimentation and decantation", "Filtration", "Evaporation and churning"],
+            learningOutcomes: ["Chooses a separation method suited to a mixture", "Explains the property each method relies on"],
+            keywords: ["mixture", "handpicking", "threshing", "winnowing", "sieving", "sedimentation", "decantation", "filtration"]
+        },
+        {
+            number: 10, title: "Living Creatures: Exploring their Characteristics", titleHi: "सजीव: उनकी विशेषताओं की खोज",
+            subtopics: ["Living and non-living things", "Growth, movement and response to stimuli", "Need for food, respiration and excretion", "Reproduction", "Life cycles", "Seed germination"],
+            learningOutcomes: ["Distinguishes living from non-living things by their characteristics", "Describes the life cycle of a plant or animal", "Investigates conditions needed for germination"],
+            keywords: ["living", "non-living", "stimulus", "respiration", "excretion", "life cycle", "germination"]
+        },
+        {
+            number: 11, title: "Nature's Treasures", titleHi: "प्रकृति के खज़ाने",
+            subtopics: ["Air and its uses", "Water as a resource", "Sunlight and soil", "Forests", "Fossil fuels", "Renewable and non-renewable resources", "Using resources wisely"],
+            learningOutcomes: ["Classifies natural resources as renewable or non-renewable", "Suggests ways to conserve natural resources"],
+            keywords: ["natural resource", "renewable", "non-renewable", "fossil fuel", "conservation", "forest"]
+        },
+        {
+            number: 12, title: "Beyond Earth", titleHi: "पृथ्वी से परे",
+            subtopics: ["Stars and constellations", "The Solar System", "The Moon", "Asteroids and comets", "Space exploration and India's missions"],
+            learningOutcomes: ["Identifies common constellations in the night sky", "Describes the members of the Solar System"],
+            keywords: ["star", "constellation", "planet", "Solar System", "Moon", "asteroid", "comet", "ISRO"]
+        }
+    ],
+    '7': [
+        {
+            number: 1, title: "The Ever-Evolving World of Science", titleHi: "विज्ञान की निरंतर विकसित होती दुनिया",
+            subtopics: ["Science as an ongoing process", "Questions and evidence", "How scientific ideas change"],
+            learningOutcomes: ["Explains that scientific ideas are revised with new evidence", "Frames testable questions about the world around them"],
+            keywords: ["science", "evidence", "investigation", "curiosity"]
+        },
+        {
+            number: 2, title: "Exploring Substances: Acidic, Basic, and Neutral", titleHi: "पदार्थों की खोज: अम्लीय, क्षारीय और उदासीन",
+            subtopics: ["Acids and bases in daily life", "Natural indicators: litmus, turmeric, china rose", "Neutral substances", "Neutralisation", "Neutralisation in everyday life"],
+            learningOutcomes: ["Tests substances with indicators to classify them as acidic, basic or neutral", "Explains neutralisation with everyday examples such as antacids and soil treatment"],
+            keywords: ["acid", "base", "neutral", "indicator", "litmus", "turmeric", "neutralisation", "salt"]
+        },
+        {
+            number: 3, title: "Electricity: Circuits and their Components", titleHi: "विद्युत: परिपथ एवं उनके घटक",
+            subtopics: ["Electric cells and batteries", "Bulbs and LEDs", "Closed and open circuits", "Switches", "Circuit diagrams and symbols", "Conductors and insulators"],
+            learningOutcomes: ["Builds a simple circuit and draws it with standard symbols", "Classifies materials as conductors or insulators"],
+            keywords: ["electric cell", "battery", "circuit", "switch", "conductor", "insulator", "LED"]
+        },
+        {
+            number: 4, title: "The World of Metals and Non-metals", titleHi: "धातुओं और अधातुओं की दुनिया",
+            subtopics: ["Physical properties of metals", "Physical properties of non-metals", "Reaction with oxygen", "Rusting of iron", "Reaction with water and acids", "Uses of metals and non-metals"],
+            learningOutcomes: ["Distinguishes metals from non-metals by their properties", "Relates the nature of oxides to whether an element is a metal"],
+            keywords: ["metal", "non-metal", "lustre", "malleable", "ductile", "sonorous", "oxide", "rusting"]
+        },
+        {
+            number: 5, title: "Changes Around Us: Physical and Chemical", titleHi: "हमारे आस-पास के परिवर्तन: भौतिक और रासायनिक",
+            subtopics: ["Physical changes", "Chemical changes", "Burning and combustion", "Rusting and its prevention", "Crystallisation", "Desirable and undesirable changes"],
+            learningOutcomes: ["Classifies changes as physical or chemical", "Explains ways to prevent rusting such as painting and galvanisation"],
+            keywords: ["physical change", "chemical change", "rusting", "galvanisation", "crystallisation", "combustion"]
+        },
+        {
+            number: 6, title: "Adolescence: A Stage of Growth and Change", titleHi: "किशोरावस्था: वृद्धि और परिवर्तन की अवस्था",
+            subtopics: ["Puberty", "Physical changes", "Emotional changes", "Hormones", "Nutrition in adolescence", "Personal hygiene and well-being"],
+            learningOutcomes: ["Describes changes during adolescence", "Explains the importance of nutrition, hygiene and mental well-being"],
+            keywords: ["adolescence", "puberty", "hormones", "hygiene", "nutrition"]
+        },
+        {
+            number: 7, title: "Heat Transfer in Nature", titleHi: "प्रकृति में ऊष्मा का स्थानांतरण",
+            subtopics: ["Conduction", "Convection", "Radiation", "Land and sea breezes", "The water cycle", "Groundwater and infiltration"],
+            learningOutcomes: ["Identifies conduction, convection and radiation in everyday situations", "Explains land and sea breezes using convection"],
+            keywords: ["heat", "conduction", "convection", "radiation", "conductor", "insulator", "sea breeze", "land breeze"]
+        },
+        {
+            number: 8, title: "Measurement of Time and Motion", titleHi: "समय और गति का मापन",
+            subtopics: ["Early ways of measuring time", "The simple pendulum", "Units of time", "Speed", "Uniform and non-uniform motion"],
+            learningOutcomes: ["Measures the time period of a simple pendulum", "Calculates speed from distance and time", "Distinguishes uniform from non-uniform linear motion"],
+            keywords: ["time period", "pendulum", "oscillation", "speed", "uniform motion", "non-uniform motion"]
+        },
+        {
+            number: 9, title: "Life Processes in Animals", titleHi: "जंतुओं में जैव प्रक्रम",
+            subtopics: ["Digestion in humans", "Digestion in grass-eating animals", "Feeding in amoeba", "Breathing and respiration", "Breathing in other animals"],
+            learningOutcomes: ["Traces the path of food through the human digestive system", "Explains how breathing differs from respiration"],
+            keywords: ["digestion", "alimentary canal", "enzymes", "rumination", "respiration", "breathing", "lungs"]
+        },
+        {
+            number: 10, title: "Life Processes in Plants", titleHi: "पादपों में जैव प्रक्रम",
+            subtopics: ["Photosynthesis", "Stomata", "Respiration in plants", "Transport of water and minerals", "Transpiration"],
+            learningOutcomes: ["Explains how plants make food by photosynthesis", "Shows by experiment that starch is made in green leaves in sunlight"],
+            keywords: ["photosynthesis", "chlorophyll", "stomata", "transpiration", "xylem", "phloem", "starch"]
+        },
+        {
+            number: 11, title: "Light: Shadows and Reflections", titleHi: "प्रकाश: छायाएँ और परावर्तन",
+            subtopics: ["Luminous and non-luminous objects", "Light travels in straight lines", "Transparent, translucent and opaque materials", "Shadows", "Pinhole camera", "Reflection in plane and curved mirrors"],
+            learningOutcomes: ["Explains shadow formation from the straight-line travel of light", "Describes images formed by plane and spherical mirrors"],
+            keywords: ["luminous", "shadow", "opaque", "reflection", "plane mirror", "concave", "convex", "pinhole camera"]
+        },
+        {
+            number: 12, title: "Earth, Moon, and the Sun", titleHi: "पृथ्वी, चंद्रमा और सूर्य",
+            subtopics: ["Rotation of the Earth", "Day and night", "Revolution and the year", "Phases of the Moon", "Solar and lunar eclipses"],
+            learningOutcomes: ["Relates day and night to the Earth's rotation", "Explains the phases of the Moon and eclipses"],
+            keywords: ["rotation", "revolution", "axis", "phases of the Moon", "eclipse", "orbit"]
+        }
+    ],
+    '8': [
+        {
+            number: 1, title: "Crop Production and Management", titleHi: "फसल उत्पादन एवं प्रबंध",
+            subtopics: ["Kharif and rabi crops", "Preparation of soil", "Sowing", "Manure and fertilisers", "Irrigation", "Weeding and harvesting", "Storage of grains", "Animal husbandry"],
+            learningOutcomes: ["Sequences the agricultural practices from soil preparation to storage", "Compares manure with fertilisers"],
+            keywords: ["kharif", "rabi", "tilling", "sowing", "manure", "fertiliser", "irrigation", "weeding", "harvesting"]
+        },
+        {
+            number: 2, title: "Microorganisms: Friend and Foe", titleHi: "सूक्ष्मजीव: मित्र एवं शत्रु",
+            subtopics: ["Types of microorganisms", "Useful microorganisms", "Harmful microorganisms and disease", "Food preservation", "Nitrogen fixation and the nitrogen cycle"],
+            learningOutcomes: ["Gives examples of useful and harmful microorganisms", "Explains methods of preserving food"],
+            keywords: ["bacteria", "fungi", "protozoa", "virus", "fermentation", "vaccine", "pathogen", "nitrogen fixation"]
+        },
+        {
+            number: 3, title: "Coal and Petroleum", titleHi: "कोयला और पेट्रोलियम",
+            subtopics: ["Exhaustible and inexhaustible resources", "Coal and its products", "Petroleum and refining", "Natural gas", "Conserving fossil fuels"],
+            learningOutcomes: ["Explains how coal and petroleum were formed", "Names products of coal and petroleum refining and their uses"],
+            keywords: ["fossil fuel", "coal", "coke", "coal tar", "petroleum", "refining", "natural gas", "CNG"]
+        },
+        {
+            number: 4, title: "Combustion and Flame", titleHi: "दहन और ज्वाला",
+            subtopics: ["Combustible and non-combustible substances", "Ignition temperature", "Controlling fire", "Types of combustion", "Structure of a flame", "Fuel efficiency and calorific value"],
+            learningOutcomes: ["States the conditions needed for combustion", "Describes the zones of a candle flame", "Compares fuels by calorific value"],
+            keywords: ["combustion", "ignition temperature", "inflammable", "flame", "calorific value", "fuel"]
+        },
+        {
+            number: 5, title: "Conservation of Plants and Animals", titleHi: "पौधों एवं जंतुओं का संरक्षण",
+            subtopics: ["Deforestation and its effects", "Biosphere reserves, national parks and sanctuaries", "Flora and fauna", "Endemic and endangered species", "Red Data Book", "Migration", "Recycling paper and reforestation"],
+            learningOutcomes: ["Explains the causes and effects of deforestation", "Distinguishes protected areas and their purposes"],
+            keywords: ["deforestation", "biosphere reserve", "sanctuary", "national park", "endemic", "endangered", "Red Data Book"]
+        },
+        {
+            number: 6, title: "Reproduction in Animals", titleHi: "जंतुओं में जनन",
+            subtopics: ["Sexual reproduction", "Fertilisation: internal and external", "Development of the embryo", "Viviparous and oviparous animals", "Metamorphosis", "Asexual reproduction: budding and binary fission"],
+            learningOutcomes: ["Compares internal and external fertilisation", "Distinguishes viviparous from oviparous animals"],
+            keywords: ["fertilisation", "zygote", "embryo", "viviparous", "oviparous", "metamorphosis", "budding", "binary fission"]
+        },
+        {
+            number: 7, title: "Reaching the Age of Adolescence", titleHi: "किशोरावस्था की ओर",
+            subtopics: ["Adolescence and puberty", "Changes at puberty", "Secondary sexual characters", "Role of hormones", "Sex determination", "Reproductive health and hygiene"],
+            learningOutcomes: ["Describes changes at puberty and the role of hormones", "Explains how the sex of a baby is determined"],
+            keywords: ["adolescence", "puberty", "hormones", "endocrine glands", "chromosomes", "hygiene"]
+        },
+        {
+            number: 8, title: "Force and Pressure", titleHi: "बल तथा दाब",
+            subtopics: ["Force as a push or pull", "Effects of force", "Contact and non-contact forces", "Pressure", "Pressure in liquids and gases", "Atmospheric pressure"],
+            learningOutcomes: ["Identifies contact and non-contact forces", "Relates pressure to force and area"],
+            keywords: ["force", "pressure", "muscular force", "friction", "magnetic force", "gravitational force", "atmospheric pressure"]
+        },
+        {
+            number: 9, title: "Friction", titleHi: "घर्षण",
+            subtopics: ["Factors affecting friction", "Friction as a necessary evil", "Increasing and reducing friction", "Wheels and lubricants", "Fluid friction"],
+            learningOutcomes: ["Explains the factors that affect friction", "Suggests ways to increase or reduce friction"],
+            keywords: ["friction", "static friction", "sliding friction", "rolling friction", "lubricant", "drag"]
+        },
+        {
+            number: 10, title: "Sound", titleHi: "ध्वनि",
+            subtopics: ["Sound is produced by vibration", "Sound in humans: the larynx", "Propagation of sound", "The human ear", "Amplitude, frequency and time period", "Audible and inaudible sounds", "Noise pollution"],
+            learningOutcomes: ["Explains that sound needs a medium to travel", "Relates loudness to amplitude and pitch to frequency"],
+            keywords: ["vibration", "amplitude", "frequency", "pitch", "loudness", "hertz", "noise pollution"]
+        },
+        {
+            number: 11, title: "Chemical Effects Of Electric Current", titleHi: "विद्युत धारा के रासायनिक प्रभाव",
+            subtopics: ["Do liquids conduct electricity?", "Chemical effects of electric current", "Electroplating"],
+            learningOutcomes: ["Tests which liquids conduct electricity", "Explains electroplating and its uses"],
+            keywords: ["conductor", "electrolyte", "electrode", "electroplating", "LED"]
+        },
+        {
+            number: 12, title: "Some Natural Phenomena", titleHi: "कुछ प्राकृतिक परिघटनाएँ",
+            subtopics: ["Lightning and electric charges", "Charging by rubbing", "Transfer of charge and earthing", "Lightning safety", "Earthquakes"],
+            learningOutcomes: ["Explains lightning in terms of electric charges", "Lists safety measures during lightning and earthquakes"],
+            keywords: ["charge", "electroscope", "earthing", "lightning", "lightning conductor", "earthquake", "seismograph"]
+        },
+        {
+            number: 13, title: "Light", titleHi: "प्रकाश",
+            subtopics: ["Laws of reflection", "Regular and diffused reflection", "Multiple images", "Dispersion of light", "The human eye", "Care of the eyes and Braille"],
+            learningOutcomes: ["Verifies the laws of reflection", "Describes the parts of the human eye and their functions"],
+            keywords: ["reflection", "angle of incidence", "angle of reflection", "dispersion", "retina", "cornea", "Braille"]
+        }
+    ]
+};
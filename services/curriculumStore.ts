@@ -0,0 +1,352 @@
+
+import { supabase } from "./supabaseClient";
+import { CurriculumCitation } from "../types";
+
+// --- CURRICULUM STORE ---
+// Textbook chapters imported by teachers, split into short passages and kept in
+// `curriculum_passages` (class_level, chapter, chapter_title, section,
+// section_title, position, content, source, uploaded_by). Tutoring prompts
+// retrieve the few passages that best match the student's question so answers
+// are grounded in (and cite) the actual NCERT text.
+
+const PASSAGES_TABLE = 'curriculum_passages';
+const PAGE_SIZE = 1000;
+
+// Target passage length in words; one sentence overlaps into the next passage.
+const PASSAGE_WORDS = 120;
+const DEFAULT_LIMIT = 3;
+// Passages scoring below this share of the best match are dropped.
+const RELATIVE_CUTOFF = 0.4;
+const MIN_SCORE = 1;
+
+export interface CurriculumPassage extends CurriculumCitation {
+    id: string;
+    content: string;
+}
+
+export interface DraftPassage {
+    section: string | null;
+    sectionTitle: string | null;
+    content: string;
+}
+
+export interface RetrievedPassage extends CurriculumPassage {
+    score: number;
+}
+
+export interface ChapterSummary {
+    chapter: number;
+    chapterTitle: string;
+    passages: number;
+    source: string | null;
+    createdAt: string;
+}
+
+export interface ChapterImport {
+    classLevel: string;
+    chapter: number;
+    chapterTitle: string;
+    text: string;
+    source?: string;
+    uploadedBy?: string;
+}
+
+export interface CurriculumContext {
+    // Ready to drop into a prompt; undefined when nothing relevant was found.
+    text?: string;
+    citations: CurriculumCitation[];
+}
+
+// --- TEXT PROCESSING ---
+
+const STOPWORDS = new Set(
+    'a an and are as at be but by can do does for from has have how i if in into is it its me my of on or our so that the their them then there these they this to was we were what when where which who why will with you your'.split(' ')
+);
+
+// Crude suffix stripping; it only has to map a word and its inflections to the same key.
+const stem = (word: string) => {
+    if (word.length <= 4) return word;
+    if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+    if (word.endsWith('sses')) return word.slice(0, -2);
+    if (/(?:ch|sh|x|s)es$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+    if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+    if (word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) return word.slice(0, -1);
+    return word;
+};
+
+const tokenize = (text: string) =>
+    (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+        .filter(w => w.length > 1 && !STOPWORDS.has(w))
+        .map(stem);
+
+const normalizeText = (text: string) =>
+    text
+        .replace(/(\w)-\s+(?=[a-z])/g, '$1') // words hyphenated across lines
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const isHeadingWord = (word: string) => /[A-Z]/.test(word) && !/[a-z]/.test(word);
+
+/**
+ * Finds numbered section headings ("4.2 CHEMICAL PROPERTIES OF METALS") in a
+ * chapter's text. Numbers must belong to this chapter and increase, which
+ * skips cross-references such as "see 4.1" and figure labels.
+ */
+const findSections = (text: string, chapter: number) => {
+    const pattern = new RegExp(`(?:^|\\s)(${chapter}\\.\\d{1,2})\\s+`, 'g');
+    const sections: { index: number; bodyStart: number; section: string; title: string }[] = [];
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+        const number = Number(match[1].split('.')[1]);
+        const rest = text.slice(match.index + match[0].length).split(' ');
+        const titleWords: string[] = [];
+        while (titleWords.length < 10 && rest[titleWords.length] && isHeadingWord(rest[titleWords.length])) {
+            titleWords.push(rest[titleWords.length]);
+        }
+        if (number <= last || titleWords.length === 0) continue;
+        last = number;
+        const title = titleWords.join(' ');
+        sections.push({
+            index: match.index,
+            bodyStart: match.index + match[0].length + title.length,
+            section: match[1],
+            title: title.charAt(0) + title.slice(1).toLowerCase()
+        });
+    }
+    return sections;
+};
+
+const chunkSentences = (body: string) => {
+    const sentences = body.split(/(?<=[.!?])\s+/).flatMap(sentence => {
+        // Text without punctuation (tables, bad scans) is cut by length instead
+        const words = sentence.split(' ');
+        if (words.length <= PASSAGE_WORDS * 2) return [sentence];
+        const pieces: string[] = [];
+        for (let i = 0; i < words.length; i += PASSAGE_WORDS) pieces.push(words.slice(i, i + PASSAGE_WORDS).join(' '));
+        return pieces;
+    });
+
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let words = 0;
+    sentences.forEach(sentence => {
+        current.push(sentence);
+        words += sentence.split(' ').length;
+        if (words >= PASSAGE_WORDS) {
+            chunks.push(current.join(' '));
+            current = [sentence];
+            words = sentence.split(' ').length;
+        }
+    });
+    if (current.length > 1 || chunks.length === 0) chunks.push(current.join(' '));
+    return chunks.filter(c => c.trim().length > 0);
+};
+
+/**
+ * Splits a chapter into passages, tagging each with the section it came from.
+ */
+export const splitChapterText = (text: string, chapter: number): DraftPassage[] => {
+    const clean = normalizeText(text);
+    if (!clean) return [];
+    const sections = findSections(clean, chapter);
+
+    const parts: { section: string | null; sectionTitle: string | null; body: string }[] = [];
+    const introEnd = sections.length ? sections[0].index : clean.length;
+    if (introEnd > 0) parts.push({ section: null, sectionTitle: null, body: clean.slice(0, introEnd) });
+    sections.forEach((s, i) => {
+        const end = i + 1 < sections.length ? sections[i + 1].index : clean.length;
+        parts.push({ section: s.section, sectionTitle: s.title, body: clean.slice(s.bodyStart, end) });
+    });
+
+    return parts.flatMap(part =>
+        chunkSentences(part.body.trim()).map(content => ({ section: part.section, sectionTitle: part.sectionTitle, content }))
+    );
+};
+
+// --- INDEX ---
+
+interface IndexedPassage {
+    passage: CurriculumPassage;
+    terms: Map<string, number>;
+    length: number;
+}
+
+interface ClassIndex {
+    passages: IndexedPassage[];
+    documentFrequency: Map<string, number>;
+    averageLength: number;
+}
+
+const indexes = new Map<string, Promise<ClassIndex>>();
+
+const loadPassages = async (classLevel: string) => {
+    const rows: any[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from(PASSAGES_TABLE)
+            .select('id, chapter, chapter_title, section, section_title, content')
+            .eq('class_level', classLevel)
+            .order('chapter', { ascending: true })
+            .order('position', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+    return rows.map((row): CurriculumPassage => ({
+        id: row.id,
+        chapter: row.chapter,
+        chapterTitle: row.chapter_title,
+        section: row.section,
+        sectionTitle: row.section_title,
+        content: row.content
+    }));
+};
+
+const buildIndex = (passages: CurriculumPassage[]): ClassIndex => {
+    const documentFrequency = new Map<string, number>();
+    const indexed = passages.map(passage => {
+        // Headings count towards the passage so "what is friction" finds the Friction chapter
+        const tokens = tokenize(`${passage.chapterTitle} ${passage.sectionTitle || ''} ${passage.content}`);
+        const terms = new Map<string, number>();
+        tokens.forEach(t => terms.set(t, (terms.get(t) || 0) + 1));
+        terms.forEach((_, t) => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1));
+        return { passage, terms, length: tokens.length };
+    });
+    const averageLength = indexed.reduce((sum, p) => sum + p.length, 0) / Math.max(1, indexed.length);
+    return { passages: indexed, documentFrequency, averageLength };
+};
+
+const getIndex = (classLevel: string) => {
+    let index = indexes.get(classLevel);
+    if (!index) {
+        index = loadPassages(classLevel).then(buildIndex);
+        index.catch(() => indexes.delete(classLevel));
+        indexes.set(classLevel, index);
+    }
+    return index;
+};
+
+const invalidateIndex = (classLevel: string) => indexes.delete(classLevel);
+
+// BM25 over the class's passages.
+const scorePassage = (index: ClassIndex, doc: IndexedPassage, queryTerms: string[]) => {
+    const k1 = 1.2;
+    const b = 0.75;
+    const n = index.passages.length;
+    return queryTerms.reduce((score, term) => {
+        const tf = doc.terms.get(term);
+        if (!tf) return score;
+        const df = index.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        return score + idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / index.averageLength));
+    }, 0);
+};
+
+// --- RETRIEVAL ---
+
+export const retrievePassages = async (
+    query: string,
+    classLevel: string,
+    options: { limit?: number; chapter?: number } = {}
+): Promise<RetrievedPassage[]> => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+    const index = await getIndex(classLevel);
+
+    const scored = index.passages
+        .filter(doc => options.chapter === undefined || doc.passage.chapter === options.chapter)
+        .map(doc => ({ ...doc.passage, score: scorePassage(index, doc, queryTerms) }))
+        .filter(p => p.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score);
+    const best = scored[0]?.score || 0;
+    return scored.filter(p => p.score >= best * RELATIVE_CUTOFF).slice(0, options.limit ?? DEFAULT_LIMIT);
+};
+
+export const formatCitation = (citation: CurriculumCitation) =>
+    `Chapter ${citation.chapter}${citation.section ? `, Section ${citation.section}` : ''} (${citation.sectionTitle || citation.chapterTitle})`;
+
+const citationKey = (c: CurriculumCitation) => `${c.chapter}:${c.section || ''}`;
+
+/**
+ * Retrieves passages for a question and formats them for the tutor prompts.
+ * Never throws: without a store (or on a lookup error) the tutor simply
+ * answers ungrounded, as before.
+ */
+export const buildCurriculumContext = async (query: string, classLevel: string | null | undefined): Promise<CurriculumContext> => {
+    if (!classLevel || !query.trim()) return { citations: [] };
+    try {
+        const passages = await retrievePassages(query, classLevel);
+        if (passages.length === 0) return { citations: [] };
+
+        const citations: CurriculumCitation[] = [];
+        passages.forEach(p => {
+            if (citations.some(c => citationKey(c) === citationKey(p))) return;
+            citations.push({ chapter: p.chapter, chapterTitle: p.chapterTitle, section: p.section, sectionTitle: p.sectionTitle });
+        });
+        return {
+            text: passages.map(p => `[${formatCitation(p)}]\n${p.content}`).join('\n\n'),
+            citations
+        };
+    } catch (e) {
+        console.warn("Curriculum store: retrieval failed, answering without textbook passages", e);
+        return { citations: [] };
+    }
+};
+
+// --- MANAGEMENT ---
+
+/**
+ * Replaces a chapter's passages with freshly split text. Returns the number
+ * of passages stored.
+ */
+export const importChapter = async (input: ChapterImport) => {
+    const drafts = splitChapterText(input.text, input.chapter);
+    if (drafts.length === 0) throw new Error("No readable text found in this chapter.");
+
+    await deleteChapter(input.classLevel, input.chapter);
+    const rows = drafts.map((d, position) => ({
+        class_level: input.classLevel,
+        chapter: input.chapter,
+        chapter_title: input.chapterTitle,
+        section: d.section,
+        section_title: d.sectionTitle,
+        position,
+        content: d.content,
+        source: input.source || null,
+        uploaded_by: input.uploadedBy || null
+    }));
+    for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+        const { error } = await supabase.from(PASSAGES_TABLE).insert(rows.slice(i, i + PAGE_SIZE));
+        if (error) throw error;
+    }
+    invalidateIndex(input.classLevel);
+    return rows.length;
+};
+
+export const deleteChapter = async (classLevel: string, chapter: number) => {
+    const { error } = await supabase.from(PASSAGES_TABLE).delete().eq('class_level', classLevel).eq('chapter', chapter);
+    if (error) throw error;
+    invalidateIndex(classLevel);
+};
+
+export const listChapters = async (classLevel: string): Promise<ChapterSummary[]> => {
+    const chapters = new Map<number, ChapterSummary>();
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from(PASSAGES_TABLE)
+            .select('chapter, chapter_title, source, created_at')
+            .eq('class_level', classLevel)
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        (data || []).forEach((row: any) => {
+            const existing = chapters.get(row.chapter);
+            if (existing) existing.passages++;
+            else chapters.set(row.chapter, { chapter: row.chapter, chapterTitle: row.chapter_title, passages: 1, source: row.source, createdAt: row.created_at });
+        });
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+    return Array.from(chapters.values()).sort((a, b) => a.chapter - b.chapter);
+};
@@ -0,0 +1,271 @@
+
+import { LLMProvider, ChatCompletionRequest, LLMMessage, TokenHandler } from "./llmProvider";
+import { hashString } from "../utils/hashUtils";
+
+// --- OFFLINE AI STAND-IN ---
+// A provider that never touches the network. Replies come from, in order:
+//   1. fixtures recorded from real sessions in this browser (localStorage),
+//   2. a fixture file at AI_FIXTURES_URL (e.g. a replayed classroom session),
+//   3. deterministic synthetic output shaped for whichever generator asked.
+// Select it with AI_PROVIDERS=fake. Set AI_RECORD_FIXTURES=true while using a
+// real provider to capture responses, then exportRecordedFixtures() to save them.
+
+type FixtureMap = Record<string, string>;
+
+const RECORDING_KEY = 'science_buddy_ai_fixtures';
+
+export const fixtureKey = (request: ChatCompletionRequest) =>
+    hashString(JSON.stringify({ messages: request.messages, json: !!request.jsonMode }));
+
+// --- RECORDING ---
+
+const loadRecorded = (): FixtureMap => {
+    try {
+        return JSON.parse(localStorage.getItem(RECORDING_KEY) || '{}');
+    } catch (e) { return {}; }
+};
+
+export const isRecordingFixtures = () => process.env.AI_RECORD_FIXTURES === 'true';
+
+export const recordFixture = (request: ChatCompletionRequest, content: string) => {
+    const recorded = loadRecorded();
+    recorded[fixtureKey(request)] = content;
+    try {
+        localStorage.setItem(RECORDING_KEY, JSON.stringify(recorded));
+    } catch (e) {
+        console.warn("Fixture recording: storage full", e);
+    }
+};
+
+/**
+ * Downloads every recorded fixture as JSON, ready to be served at AI_FIXTURES_URL.
+ */
+export const exportRecordedFixtures = () => {
+    const blob = new Blob([JSON.stringify(loadRecorded(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ai-fixtures-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+export const clearRecordedFixtures = () => localStorage.removeItem(RECORDING_KEY);
+
+declare global {
+    interface Window {
+        // Exposed while recording so a teacher can export from the devtools console.
+        scienceBuddyFixtures?: { export: () => void; clear: () => void };
+    }
+}
+
+if (typeof window !== 'undefined' && isRecordingFixtures()) {
+    window.scienceBuddyFixtures = { export: exportRecordedFixtures, clear: clearRecordedFixtures };
+}
+
+let fileFixtures: Promise<FixtureMap> | null = null;
+
+const loadFileFixtures = (): Promise<FixtureMap> => {
+    if (fileFixtures) return fileFixtures;
+    const url = process.env.AI_FIXTURES_URL;
+    fileFixtures = !url ? Promise.resolve({}) : fetch(url)
+        .then(res => res.ok ? res.json() : {})
+        .catch(() => {
+            console.warn(`Fake AI: could not load fixtures from ${url}`);
+            return {};
+        });
+    return fileFixtures;
+};
+
+// --- SYNTHETIC OUTPUT ---
+
+// Deterministic PRNG seeded from the prompt, so the same request always gets the same answer.
+const seededRandom = (seed: string) => {
+    let state = parseInt(hashString(seed), 16) || 1;
+    return () => {
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        return ((state >>> 0) % 10000) / 10000;
+    };
+};
+
+const SCIENCE_TERMS = [
+    { word: "ATOM", clue: "Smallest unit of an element" },
+    { word: "CELL", clue: "Basic unit of life" },
+    { word: "FORCE", clue: "A push or a pull" },
+    { word: "ENERGY", clue: "Ability to do work" },
+    { word: "FRICTION", clue: "Force that opposes motion between surfaces" },
+    { word: "NUCLEUS", clue: "Control centre of the cell" },
+    { word: "PRESSURE", clue: "Force acting per unit area" },
+    { word: "CHLOROPHYLL", clue: "Green pigment in leaves" },
+    { word: "MAGNET", clue: "Attracts iron" },
+    { word: "SOUND", clue: "Produced by vibrating objects" },
+    { word: "ACID", clue: "Tastes sour and turns blue litmus red" },
+    { word: "OXYGEN", clue: "Gas we breathe in" }
+].filter(t => t.word.length <= 10);
+
+const extractTopic = (prompt: string) => {
+    const patterns = [
+        /concept map for "([^"]+)"/i,
+        /questions on "([^"]+)"/i,
+        /video script for "([^"]+)"/i,
+        /related to ([^.\n]+?) for a word search/i,
+        /for topic: ([^.\n]+)/i,
+        /script about ([^.\n]+?)\./i,
+        /summary script about ([^\n]+?) for a Class/i,
+        /Topic: ([^.\n]+)/
+    ];
+    for (const p of patterns) {
+        const match = prompt.match(p);
+        if (match) return match[1].trim();
+    }
+    return "Science";
+};
+
+const extractCount = (prompt: string, fallback: number) => {
+    const match = prompt.match(/(?:Create|Generate) (\d+)/i);
+    return match ? Math.min(parseInt(match[1], 10), 30) : fallback;
+};
+
+const shuffle = <T>(items: T[], rand: () => number) => {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(rand() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+};
+
+const synthesizeJson = (prompt: string, rand: () => number): object => {
+    const topic = extractTopic(prompt);
+
+    if (prompt.includes('"safe"')) {
+        const text = prompt.match(/TEXT: "([\s\S]*?)"/)?.[1] || "";
+        const unsafe = /\b(hate|idiot|stupid|dumb)\b/i.test(text);
+        return { safe: !unsafe, reason: unsafe ? "Offline moderator: insulting language." : "" };
+    }
+    if (prompt.includes('"questions"')) {
+        const count = extractCount(prompt, 5);
+        return {
+            questions: Array.from({ length: count }, (_, i) => {
+                // Distinct phrases: options built from the topic read as near-duplicates for long titles
+                const options = shuffle(SCIENCE_TERMS, rand).slice(0, 4).map(t => t.clue);
+                const correct = options[Math.floor(rand() * 4)];
+                return {
+                    question: `[Offline] Question ${i + 1} about ${topic}?`,
+                    options,
+                    correctAnswer: correct,
+                    explanation: `In offline mode the answer is always "${correct}".`,
+                    difficulty: (['easy', 'medium', 'hard'] as const)[i % 3]
+                };
+            })
+        };
+    }
+    if (prompt.includes('"pairs"')) {
+        return {
+            pairs: shuffle(SCIENCE_TERMS, rand).slice(0, 6).map((t, i) => ({ id: String(i + 1), term: t.word, definition: t.clue }))
+        };
+    }
+    if (prompt.includes('"script"')) {
+        return {
+            script: Array.from({ length: 6 }, (_, i) => ({
+                speaker: i % 2 === 0 ? "Host 1" : "Host 2",
+                text: i % 2 === 0
+                    ? `Let's talk about ${topic}. This is offline demo line ${i + 1}.`
+                    : `That's interesting! Tell me more about ${topic}.`
+            }))
+        };
+    }
+    if (prompt.includes('"slides"')) {
+        return {
+            slides: Array.from({ length: 5 }, (_, i) => ({
+                text: `Slide ${i + 1}: an offline look at ${topic}.`,
+                keyword: shuffle(SCIENCE_TERMS, rand)[0].word.toLowerCase()
+            }))
+        };
+    }
+    if (prompt.includes('"words"')) {
+        return { words: shuffle(SCIENCE_TERMS, rand).slice(0, 8) };
+    }
+    if (prompt.includes('"root"')) {
+        return {
+            root: { label: topic, description: `Offline overview of ${topic}.` },
+            children: shuffle(SCIENCE_TERMS, rand).slice(0, 4).map(t => ({ label: t.word, description: t.clue }))
+        };
+    }
+    if (prompt.includes('"choices"')) {
+        return {
+            text: `[Offline story] You step into the lab to explore ${topic}. What do you do next?`,
+            choices: [{ text: "Look through the microscope" }, { text: "Run an experiment" }],
+            isEnding: rand() > 0.8
+        };
+    }
+    return { note: "Offline demo response" };
+};
+
+const synthesizeText = (messages: LLMMessage[]) => {
+    const last = messages[messages.length - 1]?.content || "";
+    if (/title/i.test(last) && last.length < 400) return `Offline: ${last.slice(0, 20).replace(/"/g, '')}`;
+    const question = last.replace(/\s+/g, ' ').trim().slice(0, 120);
+    return `🌟 **Offline demo mode** — I can't reach a real AI right now, so here's a placeholder answer.\n\nYou asked: *${question}*\n\nIn a live session I would explain this step by step using your NCERT book.`;
+};
+
+const respond = async (request: ChatCompletionRequest): Promise<string> => {
+    const key = fixtureKey(request);
+    const recorded = loadRecorded()[key] ?? (await loadFileFixtures())[key];
+    if (recorded) return recorded;
+
+    const rand = seededRandom(key);
+    const prompt = request.messages.map(m => m.content).join('\n');
+    return request.jsonMode ? JSON.stringify(synthesizeJson(prompt, rand)) : synthesizeText(request.messages);
+};
+
+// The signal may outlive many calls (a streaming session), so the listener is removed again.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const cancelled = () => new DOMException("The AI request was cancelled.", "AbortError");
+    if (signal?.aborted) return reject(cancelled());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createFakeProvider = (): LLMProvider => ({
+    id: "fake",
+    models: ["offline-fixture"],
+    complete: async (_model, request) => {
+        await delay(150, request.signal);
+        return { content: await respond(request) };
+    },
+    stream: async (_model, request, onToken: TokenHandler) => {
+        const content = await respond(request);
+        for (const chunk of content.match(/\S+\s*/g) || []) {
+            await delay(25, request.signal);
+            onToken(chunk);
+        }
+        return { content };
+    }
+});
+
+/**
+ * Wraps a real provider so each successful response is saved as a fixture.
+ */
+export const withFixtureRecording = (provider: LLMProvider): LLMProvider => ({
+    ...provider,
+    complete: async (model, request) => {
+        const response = await provider.complete(model, request);
+        recordFixture(request, response.content);
+        return response;
+    },
+    stream: async (model, request, onToken) => {
+        const response = await provider.stream(model, request, onToken);
+        recordFixture(request, response.content);
+        return response;
+    }
+});
@@ -0,0 +1,205 @@
+
+import { UserData } from "../types";
+
+// --- AI GATEWAY CLIENT ---
+// When AI_GATEWAY_URL is set, every AI call and image search goes through the
+// gateway (gateway/core.ts), which holds the API keys. The gateway also issues
+// the app's sessions: sign-in returns a short-lived access token and a refresh
+// token. The access token is sent with every gateway and Supabase request
+// (see supabaseClient.ts) and refreshed shortly before it expires.
+
+const SESSION_KEY = 'science_buddy_session';
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+interface StoredSession {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: number;
+}
+
+interface SessionResponse extends StoredSession {
+    user: UserData;
+}
+
+export const getGatewayUrl = () => (process.env.AI_GATEWAY_URL || '').replace(/\/$/, '');
+
+export const isGatewayEnabled = () => !!getGatewayUrl();
+
+const loadSession = (): StoredSession | null => {
+    try {
+        const saved = localStorage.getItem(SESSION_KEY);
+        return saved ? JSON.parse(saved) : null;
+    } catch (e) { return null; }
+};
+
+// --- TOKEN LISTENERS ---
+
+const tokenListeners = new Set<(token: string | null) => void>();
+
+// Lets the Supabase client follow token changes (realtime keeps its own copy).
+export const onAccessTokenChange = (listener: (token: string | null) => void) => {
+    tokenListeners.add(listener);
+    return () => { tokenListeners.delete(listener); };
+};
+
+const saveSession = (session: StoredSession | null) => {
+    if (session) {
+        localStorage.setItem(SESSION_KEY, JSON.stringify({
+            accessToken: session.accessToken,
+            refreshToken: session.refreshToken,
+            expiresAt: session.expiresAt
+        }));
+    } else {
+        localStorage.removeItem(SESSION_KEY);
+    }
+    tokenListeners.forEach(listener => listener(session?.accessToken ?? null));
+};
+
+const postJson = async (path: string, body: unknown, token?: string) => {
+    const res = await fetch(`${getGatewayUrl()}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: JSON.stringify(body)
+    });
+    const data = await res.json().catch(() => null);
+    return { ok: res.ok, status: res.status, data };
+};
+
+// --- ACCESS TOKEN ---
+
+let pendingRefresh: Promise<string | null> | null = null;
+
+const refreshSession = async (): Promise<string | null> => {
+    const session = loadSession();
+    if (!session) return null;
+    const { ok, status, data } = await postJson('/v1/session/refresh', { refreshToken: session.refreshToken });
+    if (ok && data?.accessToken) {
+        saveSession(data);
+        return data.accessToken;
+    }
+    // Another tab may have rotated the refresh token first
+    const latest = loadSession();
+    if (latest && latest.refreshToken !== session.refreshToken) return latest.accessToken;
+    if (status === 401) saveSession(null);
+    else console.warn(`Session refresh failed (Status ${status})`);
+    return null;
+};
+
+/**
+ * Current access token, refreshed first if it is about to expire. Null when
+ * signed out, in legacy mode, or when the session was revoked.
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+    const session = loadSession();
+    if (!session || !isGatewayEnabled()) return null;
+    if (session.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session.accessToken;
+    return refreshAccessToken();
+};
+
+/**
+ * Refreshes now, e.g. after a role change so the new token carries it. Shares
+ * one request between concurrent callers.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+    if (!pendingRefresh) {
+        pendingRefresh = refreshSession().finally(() => { pendingRefresh = null; });
+    }
+    return pendingRefresh;
+};
+
+// Synchronous read for places that cannot wait; may return a token about to expire.
+export const peekAccessToken = () => (isGatewayEnabled() ? loadSession()?.accessToken ?? null : null);
+
+// --- SIGN IN / OUT ---
+
+// Error from a gateway route; `code` is the gateway's error code (e.g. 'email_unverified').
+export class GatewayRequestError extends Error {
+    code: string;
+    constructor(code: string, message: string) {
+        super(message);
+        this.code = code;
+    }
+}
+
+/**
+ * POST to a gateway route, with the access token when `auth` is set; throws
+ * GatewayRequestError with the gateway's message on failure.
+ */
+export const gatewayPost = async <T>(path: string, body: unknown, options: { auth?: boolean } = {}): Promise<T> => {
+    const token = options.auth ? await getAccessToken() : undefined;
+    if (options.auth && !token) throw new GatewayRequestError('session_expired', 'Your session has ended. Please sign in again.');
+    const { ok, status, data } = await postJson(path, body, token || undefined);
+    if (!ok) throw new GatewayRequestError(data?.error?.code || 'http_error', data?.error?.message || `Request failed (Status ${status}).`);
+    return data;
+};
+
+export const signIn = async (username: string, password: string): Promise<UserData> => {
+    const session = await gatewayPost<SessionResponse>('/v1/session', { username, password });
+    saveSession(session);
+    return session.user;
+};
+
+export interface SignUpDetails {
+    username: string;
+    password: string;
+    role: 'student' | 'teacher' | 'parent';
+    email: string;
+    // Parents have none until the invite code is checked; it decides their school
+    schoolId: string | null;
+    inviteCode?: string;
+    classLevel: string | null;
+    section: string | null;
+}
+
+// Creates the account and emails a verification link; there is no session until it is opened.
+export const signUp = (details: SignUpDetails) =>
+    gatewayPost<{ verificationRequired: boolean; approvalRequired: boolean; email: string }>('/v1/signup', details);
+
+/**
+ * The signed-in user as the server sees them (role, class and section come
+ * from the database, not from local storage). Null if there is no valid
+ * session.
+ */
+export const restoreSession = async (): Promise<UserData | null> => {
+    const token = await getAccessToken();
+    if (!token) return null;
+    const res = await fetch(`${getGatewayUrl()}/v1/session`, { headers: { Authorization: `Bearer ${token}` } });
+    if (res.status === 401) {
+        saveSession(null);
+        return null;
+    }
+    if (!res.ok) throw new Error(`Could not restore session (Status ${res.status})`);
+    const data = await res.json();
+    return data.user;
+};
+
+/**
+ * Revokes the session on the server, then forgets it locally. Local state is
+ * cleared even if the server cannot be reached.
+ */
+export const signOut = async () => {
+    const token = peekAccessToken();
+    if (token) {
+        try {
+            await postJson('/v1/session/logout', {}, token);
+        } catch (e) {
+            console.warn("Could not revoke session on the server", e);
+        }
+    }
+    saveSession(null);
+};
+
+/**
+ * Authenticated GET against the gateway. Returns null if there is no session.
+ */
+export const gatewayGet = async <T>(path: string): Promise<T | null> => {
+    const token = await getAccessToken();
+    if (!token) return null;
+    const res = await fetch(`${getGatewayUrl()}${path}`, { headers: { Authorization: `Bearer ${token}` } });
+    if (!res.ok) {
+        console.warn(`Gateway ${path} failed (Status ${res.status})`);
+        return null;
+    }
+    return res.json();
+};
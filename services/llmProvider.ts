@@ -0,0 +1,534 @@
+
+import { supabase } from "./supabaseClient";
+import { scheduleAIRequest, waitWithSignal, AIPriority } from "./aiScheduler";
+import { createFakeProvider, withFixtureRecording, isRecordingFixtures } from "./fakeProvider";
+import { AIFeature, TokenUsage, recordAIUsage, estimateUsage, getQuotaStatus } from "./aiUsage";
+import { isGatewayEnabled, getGatewayUrl, getAccessToken } from "./gatewayClient";
+
+// --- LLM PROVIDER LAYER ---
+// Every chat completion in the app goes through here. A provider is any
+// OpenAI-compatible endpoint (Groq in the cloud, or llama.cpp / Ollama on the
+// lab server). Providers are tried in the order given by AI_PROVIDERS, and each
+// provider tries its own models in priority order before falling through.
+
+export interface LLMMessage {
+    role: string;
+    content: string;
+}
+
+export interface ChatCompletionRequest {
+    messages: LLMMessage[];
+    jsonMode?: boolean;
+    temperature?: number;
+    maxTokens?: number;
+    signal?: AbortSignal;
+    // Queue priority; chat replies should be 'interactive', title generation 'background'.
+    priority?: AIPriority;
+    // Which part of the app asked, for usage metering.
+    feature?: AIFeature;
+    // Registry ref of the prompt that produced the request (e.g. `quiz.topic@v1`).
+    promptRef?: string;
+    // Try this model last, e.g. so a checker is not the model that wrote the answer.
+    avoidModel?: string;
+}
+
+export interface ChatCompletionResult {
+    content: string;
+    model: string;
+    provider: string;
+    // Reported by the provider when available, otherwise estimated.
+    usage: TokenUsage;
+}
+
+export interface ProviderResponse {
+    content: string;
+    usage?: TokenUsage;
+}
+
+export interface StreamingCompletionResult extends ChatCompletionResult {
+    // True when the stream was stopped or cut off after some tokens arrived.
+    interrupted: boolean;
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface LLMProvider {
+    id: string;
+    models: string[];
+    // True when the provider logs usage and enforces quotas itself (the gateway).
+    metersUsage?: boolean;
+    complete: (model: string, request: ChatCompletionRequest) => Promise<ProviderResponse>;
+    // Resolves with the full text once the stream ends; onToken sees every delta as it arrives.
+    stream: (model: string, request: ChatCompletionRequest, onToken: TokenHandler) => Promise<ProviderResponse>;
+}
+
+export type AIFailureReason =
+    | 'rate_limited'    // 429 after all retries
+    | 'unavailable'     // 5xx or empty responses from every model
+    | 'not_configured'  // no provider / API key
+    | 'rejected'        // 4xx other than 429 (bad request, auth)
+    | 'network'         // fetch failed (offline, DNS, CORS)
+    | 'quota_exceeded'  // student used up today's AI allowance
+    | 'session_expired' // gateway session token missing or expired
+    | 'cancelled';
+
+export class LLMProviderError extends Error {
+    reason: AIFailureReason;
+    status?: number;
+    retryAfterMs?: number;
+    constructor(message: string, reason: AIFailureReason, status?: number, retryAfterMs?: number) {
+        super(message);
+        this.name = "LLMProviderError";
+        this.reason = reason;
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// A 401 only means the student's session ended when the provider signs requests
+// with it (the gateway); from any other provider it is a bad key, and the next
+// provider may still work.
+const reasonForStatus = (status: number, sessionAuth: boolean): AIFailureReason =>
+    status === 401 ? (sessionAuth ? 'session_expired' : 'rejected') : status === 429 ? 'rate_limited' : status >= 500 ? 'unavailable' : 'rejected';
+
+// The gateway reports quota exhaustion as 429 with this code; it must not be retried.
+const reasonForResponse = async (response: Response, sessionAuth: boolean): Promise<AIFailureReason> => {
+    if (response.status === 429) {
+        const body = await response.clone().json().catch(() => null);
+        if (body?.error?.code === 'quota_exceeded') return 'quota_exceeded';
+    }
+    return reasonForStatus(response.status, sessionAuth);
+};
+
+// Retry-After may be seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+interface OpenAICompatibleConfig {
+    id: string;
+    baseUrl: string;
+    models: string[];
+    getApiKey?: () => Promise<string | null>;
+    // Local servers often ignore or reject response_format, so it can be disabled.
+    supportsJsonMode?: boolean;
+    // Send feature / prompt ref headers so a gateway can log them.
+    forwardMetadata?: boolean;
+    // The key is the student's session token, so a 401 means signing in again.
+    sessionAuth?: boolean;
+    metersUsage?: boolean;
+}
+
+const secretCache: Record<string, string> = {};
+
+export const getAppSecret = async (name: string): Promise<string | null> => {
+    if (secretCache[name]) return secretCache[name];
+    try {
+        const { data, error } = await supabase.from('app_secrets').select('value').eq('name', name).single();
+        if (error || !data) return null;
+        secretCache[name] = data.value;
+        return data.value;
+    } catch (e) { return null; }
+};
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === "AbortError";
+
+const parseUsage = (usage: any): TokenUsage | undefined =>
+    usage && typeof usage.prompt_tokens === 'number'
+        ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens || 0 }
+        : undefined;
+
+/**
+ * Reads an OpenAI-style server-sent-event body and forwards each content delta.
+ * Picks up token usage from the final chunk when the server sends it
+ * (`usage`, or `x_groq.usage` on Groq).
+ */
+const readEventStream = async (body: ReadableStream<Uint8Array>, onToken: TokenHandler): Promise<ProviderResponse> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let full = "";
+    let usage: TokenUsage | undefined;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const rawLine of lines) {
+            const line = rawLine.trim();
+            if (!line.startsWith("data:")) continue;
+            const payload = line.slice(5).trim();
+            if (payload === "[DONE]") return { content: full, usage };
+            try {
+                const chunk = JSON.parse(payload);
+                usage = parseUsage(chunk.usage ?? chunk.x_groq?.usage) ?? usage;
+                const token = chunk.choices?.[0]?.delta?.content;
+                if (token) {
+                    full += token;
+                    onToken(token);
+                }
+            } catch (e) {
+                // Ignore keep-alive comments and partial frames
+            }
+        }
+    }
+    return { content: full, usage };
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+    const send = async (model: string, request: ChatCompletionRequest, stream: boolean) => {
+        const apiKey = config.getApiKey ? await config.getApiKey() : null;
+        if (config.getApiKey && !apiKey) {
+            throw config.sessionAuth
+                ? new LLMProviderError(`No ${config.id} session.`, 'session_expired')
+                : new LLMProviderError(`No API key configured for ${config.id}.`, 'not_configured');
+        }
+
+        const body: any = {
+            model: model,
+            messages: request.messages,
+            temperature: request.temperature ?? 0.7,
+            max_tokens: request.maxTokens ?? 8096
+        };
+        if (request.jsonMode && config.supportsJsonMode !== false) {
+            body.response_format = { type: "json_object" };
+        }
+        if (stream) body.stream = true;
+
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+        if (config.forwardMetadata) {
+            if (request.feature) headers["X-AI-Feature"] = request.feature;
+            if (request.promptRef) headers["X-Prompt-Ref"] = request.promptRef;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+                method: "POST",
+                headers,
+                body: JSON.stringify(body),
+                signal: request.signal
+            });
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            throw new LLMProviderError(`${config.id}/${model} unreachable`, 'network');
+        }
+
+        if (!response.ok) {
+            throw new LLMProviderError(
+                `${config.id}/${model} failed (Status ${response.status})`,
+                await reasonForResponse(response, !!config.sessionAuth),
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            );
+        }
+        return response;
+    };
+
+    return {
+        id: config.id,
+        models: config.models,
+        metersUsage: config.metersUsage,
+        complete: async (model, request) => {
+            const response = await send(model, request, false);
+            const data = await response.json();
+            const content = data.choices?.[0]?.message?.content;
+            if (!content) throw new LLMProviderError(`${config.id}/${model} returned an empty response`, 'unavailable');
+            return { content, usage: parseUsage(data.usage) };
+        },
+        stream: async (model, request, onToken) => {
+            const response = await send(model, request, true);
+            if (!response.body) throw new LLMProviderError(`${config.id}/${model} did not return a stream`, 'unavailable');
+            return readEventStream(response.body, onToken);
+        }
+    };
+};
+
+// --- CONFIGURATION ---
+
+const splitList = (value: string | undefined) =>
+    (value || "").split(",").map(s => s.trim()).filter(Boolean);
+
+// Priority list of Groq models. If one fails, the next one is tried.
+const GROQ_MODELS = [
+    "llama-3.3-70b-versatile", // Primary: Highest Intelligence
+    "llama-3.1-8b-instant",    // Secondary: Ultra Fast
+    "mixtral-8x7b-32768",      // Tertiary: Reliable Fallback
+    "gemma2-9b-it"             // Final Resort
+];
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider | null> = {
+    // Server-side gateway holding the keys (see gateway/core.ts)
+    gateway: () => {
+        if (!isGatewayEnabled()) {
+            console.warn("Gateway provider selected but AI_GATEWAY_URL is not set.");
+            return null;
+        }
+        const models = splitList(process.env.AI_GATEWAY_MODELS);
+        return createOpenAICompatibleProvider({
+            id: "gateway",
+            baseUrl: `${getGatewayUrl()}/v1`,
+            models: models.length ? models : GROQ_MODELS,
+            getApiKey: getAccessToken,
+            forwardMetadata: true,
+            sessionAuth: true,
+            metersUsage: true
+        });
+    },
+    // Direct Groq access reads the key from app_secrets; only for development without a gateway.
+    groq: () => createOpenAICompatibleProvider({
+        id: "groq",
+        baseUrl: "https://api.groq.com/openai/v1",
+        models: GROQ_MODELS,
+        getApiKey: () => getAppSecret('GROQ_API_KEY')
+    }),
+    local: () => {
+        const baseUrl = process.env.LOCAL_AI_BASE_URL;
+        const models = splitList(process.env.LOCAL_AI_MODELS);
+        if (!baseUrl || models.length === 0) {
+            console.warn("Local AI provider selected but LOCAL_AI_BASE_URL / LOCAL_AI_MODELS are not set.");
+            return null;
+        }
+        const localKey = process.env.LOCAL_AI_API_KEY;
+        return createOpenAICompatibleProvider({
+            id: "local",
+            baseUrl,
+            models,
+            getApiKey: localKey ? async () => localKey : undefined,
+            supportsJsonMode: process.env.LOCAL_AI_JSON_MODE !== "false"
+        });
+    },
+    // Offline, fixture-backed stand-in for development and demos (see fakeProvider.ts)
+    fake: () => createFakeProvider()
+};
+
+let activeProviders: LLMProvider[] | null = null;
+
+export const getProviders = (): LLMProvider[] => {
+    if (activeProviders) return activeProviders;
+    const order = splitList(process.env.AI_PROVIDERS);
+    activeProviders = (order.length ? order : [isGatewayEnabled() ? "gateway" : "groq"])
+        .map(id => {
+            const factory = PROVIDER_FACTORIES[id];
+            if (!factory) console.warn(`Unknown AI provider "${id}" in AI_PROVIDERS.`);
+            return factory ? factory() : null;
+        })
+        .filter((p): p is LLMProvider => p !== null)
+        .map(p => isRecordingFixtures() && p.id !== "fake" ? withFixtureRecording(p) : p);
+    return activeProviders;
+};
+
+// True when every configured provider logs usage server-side.
+const isServerMetered = () => getProviders().every(p => p.metersUsage);
+
+// True when every configured provider is the offline stand-in, so other
+// network lookups (e.g. Pexels images) should be skipped too.
+export const isOfflineAIMode = () => getProviders().every(p => p.id === "fake");
+
+// Allows tests or alternate entry points to swap the provider chain at runtime.
+export const setProviders = (providers: LLMProvider[]) => {
+    activeProviders = providers;
+};
+
+// --- FALLBACK & BACKOFF ---
+
+const MAX_RATE_LIMIT_ROUNDS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 20000;
+
+// Models that answered 429 are skipped until their cooldown passes.
+const modelCooldowns: Record<string, number> = {};
+
+// Failures that another model cannot fix, so falling back would only repeat them.
+const isTerminal = (e: unknown) =>
+    e instanceof LLMProviderError && (e.reason === 'quota_exceeded' || e.reason === 'session_expired');
+
+const backoffFor = (round: number, retryAfterMs?: number) => {
+    const exponential = BASE_BACKOFF_MS * 2 ** round + Math.random() * 250;
+    return Math.min(MAX_BACKOFF_MS, Math.max(exponential, retryAfterMs ?? 0));
+};
+
+/**
+ * Tries every configured provider/model in order. On 429 the model is put on
+ * cooldown (honouring Retry-After) and the next one is tried; if every model
+ * is rate-limited, waits with exponential backoff and goes round again.
+ */
+const runWithFallback = async <T>(
+    request: ChatCompletionRequest,
+    attempt: (provider: LLMProvider, model: string) => Promise<T>
+): Promise<T> => {
+    const providers = getProviders();
+    if (providers.length === 0) {
+        throw new LLMProviderError("No AI provider is configured.", 'not_configured');
+    }
+
+    let lastError: unknown = null;
+    for (let round = 0; round <= MAX_RATE_LIMIT_ROUNDS; round++) {
+        let allRateLimited = true;
+        let shortestCooldown = Infinity;
+
+        for (const provider of providers) {
+            const models = request.avoidModel && provider.models.includes(request.avoidModel)
+                ? [...provider.models.filter(m => m !== request.avoidModel), request.avoidModel]
+                : provider.models;
+            for (const model of models) {
+                const key = `${provider.id}/${model}`;
+                const coolingFor = (modelCooldowns[key] || 0) - Date.now();
+                if (coolingFor > 0) {
+                    shortestCooldown = Math.min(shortestCooldown, coolingFor);
+                    continue;
+                }
+                try {
+                    return await attempt(provider, model);
+                } catch (e) {
+                    if (isAbortError(e) || isTerminal(e)) throw e;
+                    console.warn(`Fallback: ${key} failed.`, e);
+                    lastError = e;
+                    if (e instanceof LLMProviderError && e.reason === 'rate_limited') {
+                        const cooldown = backoffFor(round, e.retryAfterMs);
+                        modelCooldowns[key] = Date.now() + cooldown;
+                        shortestCooldown = Math.min(shortestCooldown, cooldown);
+                    } else {
+                        allRateLimited = false;
+                    }
+                }
+            }
+        }
+
+        if (!allRateLimited || round === MAX_RATE_LIMIT_ROUNDS) break;
+        await waitWithSignal(Math.min(shortestCooldown === Infinity ? backoffFor(round) : shortestCooldown, MAX_BACKOFF_MS), request.signal);
+    }
+
+    if (lastError) throw lastError;
+    throw new LLMProviderError("Every AI model is rate limited right now.", 'rate_limited');
+};
+
+// --- METERING ---
+
+const outcomeFor = (e: unknown): AIFailureReason =>
+    isAbortError(e) ? 'cancelled' : e instanceof LLMProviderError ? e.reason : 'unavailable';
+
+/**
+ * Checks the student's daily quota, then schedules the call and logs one usage
+ * event for it. Latency is measured from when the request leaves the queue.
+ */
+const meteredRequest = async <T extends ChatCompletionResult & { interrupted?: boolean }>(
+    request: ChatCompletionRequest,
+    defaultPriority: AIPriority,
+    attempt: (provider: LLMProvider, model: string) => Promise<T>
+): Promise<T> => {
+    const feature = request.feature ?? 'unknown';
+    // The gateway enforces the quota and logs usage itself
+    if (isServerMetered()) {
+        return scheduleAIRequest(() => runWithFallback(request, attempt), { priority: request.priority ?? defaultPriority, signal: request.signal });
+    }
+
+    const quota = await getQuotaStatus();
+    if (quota.limited) {
+        recordAIUsage({ feature, promptRef: request.promptRef, provider: null, model: null, fallbackDepth: 0, latencyMs: 0, usage: { promptTokens: 0, completionTokens: 0 }, outcome: 'quota_exceeded' });
+        throw new LLMProviderError(`Daily AI quota reached (${quota.used}/${quota.limit} tokens).`, 'quota_exceeded');
+    }
+
+    return scheduleAIRequest(async () => {
+        const started = Date.now();
+        let attempts = 0;
+        try {
+            const result = await runWithFallback(request, (provider, model) => {
+                attempts++;
+                return attempt(provider, model);
+            });
+            recordAIUsage({
+                feature,
+                promptRef: request.promptRef,
+                provider: result.provider,
+                model: result.model,
+                fallbackDepth: attempts - 1,
+                latencyMs: Date.now() - started,
+                usage: result.usage,
+                outcome: result.interrupted ? 'interrupted' : 'success'
+            });
+            return result;
+        } catch (e) {
+            recordAIUsage({
+                feature,
+                promptRef: request.promptRef,
+                provider: null,
+                model: null,
+                fallbackDepth: Math.max(0, attempts - 1),
+                latencyMs: Date.now() - started,
+                usage: { promptTokens: 0, completionTokens: 0 },
+                outcome: outcomeFor(e)
+            });
+            throw e;
+        }
+    }, { priority: request.priority ?? defaultPriority, signal: request.signal });
+};
+
+/**
+ * Runs a chat completion against the configured providers, falling back
+ * provider by provider and model by model. Throws the last error if all fail.
+ */
+export const requestChatCompletion = (request: ChatCompletionRequest): Promise<ChatCompletionResult> =>
+    meteredRequest(request, 'standard', async (provider, model) => {
+        const response = await provider.complete(model, request);
+        return {
+            content: response.content,
+            model,
+            provider: provider.id,
+            usage: response.usage ?? estimateUsage(request.messages, response.content)
+        };
+    });
+
+/**
+ * Streaming variant of requestChatCompletion. Falls back to the next model only
+ * while nothing has been received yet; once tokens have arrived, a stop (abort)
+ * or dropped connection resolves with the partial text and interrupted = true.
+ */
+export const streamChatCompletion = (request: ChatCompletionRequest, onToken: TokenHandler): Promise<StreamingCompletionResult> =>
+    meteredRequest(request, 'interactive', async (provider, model) => {
+        let received = "";
+        try {
+            const response = await provider.stream(model, request, token => {
+                received += token;
+                onToken(token);
+            });
+            if (!response.content) throw new LLMProviderError(`${provider.id}/${model} returned an empty response`, 'unavailable');
+            const usage = response.usage ?? estimateUsage(request.messages, response.content);
+            return { content: response.content, model, provider: provider.id, usage, interrupted: false };
+        } catch (e) {
+            if (received) return { content: received, model, provider: provider.id, usage: estimateUsage(request.messages, received), interrupted: true };
+            throw e;
+        }
+    });
+
+// --- USER-FACING ERRORS ---
+
+const REASON_MESSAGES: Record<AIFailureReason, string> = {
+    rate_limited: "Science Buddy is very busy right now (too many requests). Please wait a few seconds and try again.",
+    unavailable: "The AI service is temporarily down. Please try again in a moment.",
+    not_configured: "AI isn't set up for this app yet. Please tell your teacher.",
+    rejected: "The AI service rejected this request. Try rephrasing or shortening it.",
+    network: "Can't reach the AI service. Check your internet connection.",
+    session_expired: "Your AI session has expired. Please log out and sign in again.",
+    quota_exceeded: "You've used up today's AI allowance. It resets at midnight — try the quizzes and notes meanwhile!",
+    cancelled: "Request cancelled."
+};
+
+/**
+ * Turns any error from the AI layer into a short message a student can act on.
+ */
+export const describeAIError = (e: unknown): string => {
+    if (isAbortError(e)) return REASON_MESSAGES.cancelled;
+    if (e instanceof LLMProviderError) return REASON_MESSAGES[e.reason];
+    if (e instanceof Error && e.message) return e.message;
+    return REASON_MESSAGES.unavailable;
+};
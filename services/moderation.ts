@@ -0,0 +1,191 @@
+
+import { supabase } from "./supabaseClient";
+import { currentSchoolId } from "./schools";
+import { ModerationStatus } from "../types";
+
+// --- CONTENT MODERATION ---
+// Local rules run first and block obvious problems without a model call. Words
+// are matched whole and by root ("killing" matches "kill", "skill" and "diet"
+// do not). Sensitive words that also have a science meaning ("kill bacteria",
+// "cells die") are left to the AI moderator when the text reads as science.
+// aiService.moderateContent adds the AI check; if that is unavailable the
+// content is saved as 'pending' for a teacher instead of being let through.
+
+const TERMS_TABLE = 'moderation_terms';
+
+export interface ModerationVerdict {
+    status: ModerationStatus | 'blocked';
+    reason?: string;
+}
+
+// Rows in `moderation_terms` (school id, term, kind) added by a school's teachers.
+export interface SchoolTerms {
+    block: string[];
+    allow: string[];
+}
+
+// Always blocked, in any context.
+const BLOCKED_TERMS = [
+    'idiot', 'stupid', 'dumb', 'moron', 'loser', 'ugly', 'shut up', 'porn', 'sexy', 'nude', 'suicide',
+    'kill yourself', 'kys', 'go die'
+];
+
+// Blocked unless the text is about science, in which case the AI decides.
+const SENSITIVE_TERMS = ['kill', 'die', 'dead', 'hate', 'drug', 'sex', 'murder', 'blood', 'weapon'];
+
+// Words that mark a post as science talk.
+const SCIENCE_TERMS = [
+    'bacteria', 'bacterium', 'germ', 'virus', 'microbe', 'microorganism', 'fungi', 'fungus', 'cell', 'tissue',
+    'organ', 'organism', 'plant', 'animal', 'insect', 'pest', 'weed', 'crop', 'seed', 'species', 'habitat',
+    'forest', 'extinct', 'predator', 'prey', 'food chain', 'hormone', 'chromosome', 'reproduction', 'fertilisation',
+    'fertilization', 'zygote', 'embryo', 'adolescence', 'puberty', 'disease', 'infection', 'vaccine', 'antibiotic',
+    'medicine', 'immune', 'heart', 'vein', 'artery', 'oxygen', 'acid', 'chemical', 'pesticide', 'boil', 'temperature',
+    'heat', 'combustion', 'experiment', 'photosynthesis', 'star', 'planet', 'ncert', 'chapter'
+];
+
+// --- TEXT MATCHING ---
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '@': 'a', '$': 's' };
+
+const tokenize = (text: string) =>
+    text
+        .toLowerCase()
+        // "id10t", "$tupid": only inside words that already contain letters
+        .replace(/[\p{L}0-9@$]*\p{L}[\p{L}0-9@$]*/gu, word => word.replace(/[0-9@$]/g, c => LEET[c] || c))
+        .split(/[^\p{L}\p{M}\p{N}]+/u)
+        .filter(Boolean)
+        // "stuuupid" -> "stupid"
+        .map(word => word.replace(/(\p{L})\1{2,}/gu, '$1'));
+
+const SUFFIXES = ['ing', 'ers', 'est', 'er', 'ed', 'es', 's', 'd'];
+// Suffixes that replace a silent e ("hating", "hater"); "hats" is not "hate".
+const DROPS_E = ['ing', 'est', 'er'];
+
+/**
+ * Possible roots of a word: the word itself plus its form with a common
+ * suffix removed ("hating" -> "hate", "drugged" -> "drug", "dying" -> "die").
+ */
+const rootsOf = (word: string): Set<string> => {
+    const roots = new Set([word]);
+    if (word.endsWith('ying')) roots.add(word.slice(0, -4) + 'ie');
+    SUFFIXES.forEach(suffix => {
+        if (!word.endsWith(suffix) || word.length - suffix.length < 2) return;
+        const base = word.slice(0, -suffix.length);
+        roots.add(base);
+        if (DROPS_E.includes(suffix)) roots.add(base + 'e');
+        if (/([^aeiou])\1$/.test(base)) roots.add(base.slice(0, -1));
+    });
+    return roots;
+};
+
+/**
+ * Returns the first term found in the text, matched word by word on roots.
+ * Multi-word terms must appear as consecutive words.
+ */
+const findTerm = (roots: Set<string>[], terms: string[]): string | null => {
+    for (const term of terms) {
+        const parts = tokenize(term);
+        if (!parts.length) continue;
+        for (let i = 0; i + parts.length <= roots.length; i++) {
+            if (parts.every((part, k) => roots[i + k].has(part))) return term;
+        }
+    }
+    return null;
+};
+
+/**
+ * Local verdict: 'blocked' with the reason, or null when the text should go
+ * on to the AI moderator. A school's allowed terms override the built-in
+ * lists; its blocked terms are always blocked.
+ */
+export const checkLocalRules = (text: string, school: SchoolTerms = { block: [], allow: [] }): ModerationVerdict | null => {
+    const roots = tokenize(text).map(rootsOf);
+    const allowed = new Set(school.allow.map(term => term.toLowerCase().trim()));
+    const notAllowed = (term: string) => !allowed.has(term);
+
+    const blocked = findTerm(roots, [...school.block, ...BLOCKED_TERMS.filter(notAllowed)]);
+    if (blocked) return { status: 'blocked', reason: `"${blocked}" isn't allowed here.` };
+
+    const sensitive = findTerm(roots, SENSITIVE_TERMS.filter(notAllowed));
+    if (sensitive && !findTerm(roots, [...SCIENCE_TERMS, ...school.allow])) {
+        return { status: 'blocked', reason: `"${sensitive}" is only allowed when talking about science.` };
+    }
+    return null;
+};
+
+// --- SCHOOL TERMS ---
+
+const schoolTerms = new Map<string, Promise<SchoolTerms>>();
+
+/**
+ * Loads (once per session) the extra blocked/allowed terms for a school.
+ * Never throws; a failed load just means the built-in lists apply.
+ */
+export const loadSchoolTerms = (school: string | null = currentSchoolId()): Promise<SchoolTerms> => {
+    if (!school) return Promise.resolve({ block: [], allow: [] });
+    if (!schoolTerms.has(school)) {
+        schoolTerms.set(school, (async () => {
+            const { data, error } = await supabase.from(TERMS_TABLE).select('term, kind').eq('school', school);
+            if (error) console.warn("Moderation: could not load school terms", error);
+            const terms: SchoolTerms = { block: [], allow: [] };
+            (data || []).forEach((row: { term: string; kind: string }) => {
+                if (row.kind === 'block' || row.kind === 'allow') terms[row.kind].push(row.term);
+            });
+            return terms;
+        })());
+    }
+    return schoolTerms.get(school)!;
+};
+
+export interface SchoolTermRow {
+    id: string;
+    term: string;
+    kind: 'block' | 'allow';
+    created_at: string;
+}
+
+export const listSchoolTerms = async (school: string | null = currentSchoolId()): Promise<SchoolTermRow[]> => {
+    if (!school) return [];
+    const { data, error } = await supabase.from(TERMS_TABLE).select('id, term, kind, created_at').eq('school', school).order('term');
+    if (error) throw error;
+    return data || [];
+};
+
+export const addSchoolTerm = async (term: string, kind: SchoolTermRow['kind'], createdBy: string, school: string | null = currentSchoolId()) => {
+    if (!school) throw new Error("Your account is not linked to a school.");
+    const { error } = await supabase.from(TERMS_TABLE).insert({ school, term: term.trim().toLowerCase(), kind, created_by: createdBy });
+    if (error) throw error;
+    schoolTerms.delete(school);
+};
+
+export const removeSchoolTerm = async (id: string) => {
+    const { error } = await supabase.from(TERMS_TABLE).delete().eq('id', id);
+    if (error) throw error;
+    schoolTerms.clear();
+};
+
+// --- STORAGE ---
+
+// Columns written alongside moderated content. Blocked content is never saved.
+export const moderationColumns = (verdict: ModerationVerdict) => ({
+    moderation_status: (verdict.status === 'pending' ? 'pending' : 'approved') as ModerationStatus,
+    moderation_reason: verdict.status === 'pending' ? verdict.reason || null : null
+});
+
+const PUBLIC_STATUSES: ModerationStatus[] = ['approved', 'under_review'];
+
+// PostgREST `or` filter: public rows plus the viewer's own pending or hidden ones.
+export const visibleToFilter = (userId: string) => `moderation_status.in.(${PUBLIC_STATUSES.join(',')}),user_id.eq.${userId}`;
+
+// Same rule for rows arriving over realtime.
+export const isVisibleTo = (row: { moderation_status?: ModerationStatus | null; user_id: string }, userId: string) =>
+    !row.moderation_status || PUBLIC_STATUSES.includes(row.moderation_status) || row.user_id === userId;
+
+// Label shown to the author of content that isn't simply approved.
+export const MODERATION_LABELS: Partial<Record<ModerationStatus, string>> = {
+    pending: 'Pending review',
+    under_review: 'Under review',
+    hidden: 'Hidden by a teacher'
+};
+
+export const PENDING_REVIEW_MESSAGE = "Saved for review: a teacher will check it before others can see it.";
@@ -0,0 +1,235 @@
+
+import { supabase } from "./supabaseClient";
+import { moderateContent } from "./aiService";
+import { ModerationVerdict } from "./moderation";
+import { ModerationStatus } from "../types";
+import { scopeToSchool, schoolColumn } from "./schools";
+
+// --- MODERATION QUEUE ---
+// Everything a teacher needs to look at lands in `moderation_queue`: posts the
+// moderator blocked (never saved, so only the text is kept), posts saved as
+// 'pending' because the moderator was unavailable, and content students
+// reported. Teachers resolve items by approving, hiding, deleting or warning
+// the author (which also hides the content); each decision is written to
+// `moderation_audit`. Both tables carry the author's `school_id`, and teachers
+// only see and resolve their own school's items.
+
+const QUEUE_TABLE = 'moderation_queue';
+const AUDIT_TABLE = 'moderation_audit';
+
+export type ModeratedContentType = 'feed_post' | 'feed_comment' | 'discussion_thread' | 'discussion_comment' | 'community_note';
+
+export type QueueSource = 'blocked' | 'pending' | 'report';
+
+export type ModerationAction = 'approve' | 'hide' | 'delete' | 'warn';
+
+const CONTENT_TABLES: Record<ModeratedContentType, string> = {
+    feed_post: 'feed_posts',
+    feed_comment: 'feed_comments',
+    discussion_thread: 'discussion_threads',
+    discussion_comment: 'discussion_comments',
+    community_note: 'community_notes'
+};
+
+export const CONTENT_TYPE_LABELS: Record<ModeratedContentType, string> = {
+    feed_post: 'Feed post',
+    feed_comment: 'Feed comment',
+    discussion_thread: 'Discussion',
+    discussion_comment: 'Discussion reply',
+    community_note: 'Note'
+};
+
+export interface QueueItem {
+    id: string;
+    content_type: ModeratedContentType;
+    // Null for blocked content, which was never saved
+    content_id: string | null;
+    author_id: string;
+    excerpt: string;
+    source: QueueSource;
+    reason: string | null;
+    // What the moderator said, e.g. "blocked: ..." or "approved"
+    verdict: string | null;
+    reported_by: string | null;
+    status: 'open' | 'resolved';
+    resolution: ModerationAction | null;
+    resolved_by: string | null;
+    resolved_at: string | null;
+    created_at: string;
+    author?: { username: string; display_name?: string };
+}
+
+export interface AuditEntry {
+    id: string;
+    queue_id: string | null;
+    content_type: ModeratedContentType;
+    content_id: string | null;
+    author_id: string;
+    action: ModerationAction;
+    actor_id: string;
+    note: string | null;
+    created_at: string;
+    actor?: { username: string; display_name?: string };
+}
+
+interface QueuedContent {
+    contentType: ModeratedContentType;
+    contentId?: string | null;
+    authorId: string;
+    text: string;
+}
+
+const EXCERPT_CHARS = 1000;
+
+const describeVerdict = (verdict: ModerationVerdict) =>
+    verdict.reason ? `${verdict.status}: ${verdict.reason}` : verdict.status;
+
+/**
+ * Records content the moderator blocked or could not check. Never throws; a
+ * failed insert must not stop the student's post (pending content is already
+ * hidden from others by its status).
+ */
+export const queueFlaggedContent = async (content: QueuedContent, verdict: ModerationVerdict) => {
+    if (verdict.status === 'approved') return;
+    const { error } = await supabase.from(QUEUE_TABLE).insert({
+        content_type: content.contentType,
+        content_id: content.contentId || null,
+        author_id: content.authorId,
+        excerpt: content.text.substring(0, EXCERPT_CHARS),
+        source: verdict.status,
+        reason: verdict.reason || null,
+        verdict: describeVerdict(verdict),
+        ...schoolColumn()
+    });
+    if (error) console.error("Moderation queue: could not record flagged content", error);
+};
+
+/**
+ * A student reports someone else's content. The content stays visible but is
+ * marked 'under_review' (its author sees that), and the moderator's opinion is
+ * attached so the teacher has a second view.
+ */
+export const reportContent = async (content: QueuedContent & { contentId: string }, reason: string, reporterId: string) => {
+    const verdict = await moderateContent(content.text);
+    const { error } = await supabase.from(QUEUE_TABLE).insert({
+        content_type: content.contentType,
+        content_id: content.contentId,
+        author_id: content.authorId,
+        excerpt: content.text.substring(0, EXCERPT_CHARS),
+        source: 'report',
+        reason,
+        verdict: describeVerdict(verdict),
+        reported_by: reporterId,
+        ...schoolColumn()
+    });
+    if (error) throw error;
+    // Pending content is already hidden; don't make it visible again
+    await supabase
+        .from(CONTENT_TABLES[content.contentType])
+        .update({ moderation_status: 'under_review' })
+        .eq('id', content.contentId)
+        .eq('moderation_status', 'approved');
+};
+
+// --- TEACHER REVIEW ---
+
+export const listQueue = async (status: 'open' | 'resolved' = 'open', limit = 100): Promise<QueueItem[]> => {
+    const { data, error } = await scopeToSchool(supabase
+        .from(QUEUE_TABLE)
+        .select('*, author:users!author_id (username, display_name)'))
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'open' })
+        .limit(limit);
+    if (error) throw error;
+    return data || [];
+};
+
+export const listAuditLog = async (limit = 50): Promise<AuditEntry[]> => {
+    const { data, error } = await scopeToSchool(supabase
+        .from(AUDIT_TABLE)
+        .select('*, actor:users!actor_id (username, display_name)'))
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    if (error) throw error;
+    return data || [];
+};
+
+// Status each decision leaves the content in; delete removes the row.
+const RESULTING_STATUS: Partial<Record<ModerationAction, ModerationStatus>> = {
+    approve: 'approved',
+    hide: 'hidden',
+    warn: 'hidden'
+};
+
+/**
+ * Applies a teacher's decision to the content, closes every open queue item
+ * for it (several students may have reported the same post) and logs it.
+ * For blocked content there is nothing to change, so approve just dismisses.
+ * Only items from the teacher's own school can be resolved.
+ */
+export const resolveQueueItem = async (item: QueueItem, action: ModerationAction, actorId: string, note?: string) => {
+    const table = CONTENT_TABLES[item.content_type];
+
+    const { data: owned, error: lookupError } = await scopeToSchool(supabase
+        .from(QUEUE_TABLE)
+        .select('id'))
+        .eq('id', item.id)
+        .maybeSingle();
+    if (lookupError) throw lookupError;
+    if (!owned) throw new Error("This item belongs to another school.");
+
+    if (item.content_id) {
+        const status = RESULTING_STATUS[action];
+        if (action === 'delete') {
+            const { error } = await supabase.from(table).delete().eq('id', item.content_id);
+            if (error) throw error;
+        } else if (status) {
+            const { error } = await supabase.from(table).update({ moderation_status: status, moderation_reason: note || null }).eq('id', item.content_id);
+            if (error) throw error;
+        }
+    }
+
+    if (action === 'warn') {
+        await supabase.from('notifications').insert({
+            user_id: item.author_id,
+            actor_id: actorId,
+            type: 'WARNING',
+            reference_id: item.content_id || item.id,
+            message: note || `A teacher reviewed your ${CONTENT_TYPE_LABELS[item.content_type].toLowerCase()} and asks you to follow the community rules.`
+        });
+    }
+
+    const resolved = { status: 'resolved', resolution: action, resolved_by: actorId, resolved_at: new Date().toISOString() };
+    const { error } = item.content_id
+        ? await scopeToSchool(supabase.from(QUEUE_TABLE).update(resolved)).eq('content_type', item.content_type).eq('content_id', item.content_id).eq('status', 'open')
+        : await supabase.from(QUEUE_TABLE).update(resolved).eq('id', item.id);
+    if (error) throw error;
+
+    const { error: auditError } = await supabase.from(AUDIT_TABLE).insert({
+        queue_id: item.id,
+        content_type: item.content_type,
+        content_id: item.content_id,
+        author_id: item.author_id,
+        action,
+        actor_id: actorId,
+        note: note || null,
+        ...schoolColumn()
+    });
+    if (auditError) throw auditError;
+};
+
+/**
+ * Teacher warnings the student hasn't seen yet; marks them read so each is
+ * shown once.
+ */
+export const takeUnreadWarnings = async (userId: string): Promise<string[]> => {
+    const { data } = await supabase
+        .from('notifications')
+        .select('id, message')
+        .eq('user_id', userId)
+        .eq('type', 'WARNING')
+        .eq('is_read', false);
+    if (!data?.length) return [];
+    await supabase.from('notifications').update({ is_read: true }).in('id', data.map(n => n.id));
+    return data.map(n => n.message);
+};
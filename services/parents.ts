@@ -0,0 +1,119 @@
+
+import { supabase } from "./supabaseClient";
+import { gatewayPost, isGatewayEnabled } from "./gatewayClient";
+import { isFeatureEnabled } from "./schools";
+import { visibleToFilter } from "./moderation";
+import { loadPerformanceStats, PerformanceStats } from "./progress";
+import { School, UserData, ChatMessage } from "../types";
+
+// --- PARENTS ---
+// A parent account is linked to one or more students through `parent_links`.
+// Links are made with single-use invite codes that a student (for themselves)
+// or a teacher (for their students) creates through the gateway; only a hash
+// of each code is stored, in `parent_invites`. Parents only read: progress,
+// recent activity and the AI report. Chat transcripts and the child's posts
+// and notes stay hidden unless the school turns on `parent_chats` /
+// `parent_social`.
+
+const PARENT_LINKS_TABLE = 'parent_links';
+
+export type LinkedChild = Pick<UserData, 'id' | 'username' | 'display_name' | 'avatar_url' | 'class_level' | 'section' | 'total_points' | 'school_id'>;
+
+export interface ParentInvite {
+    code: string;
+    expiresAt: string;
+}
+
+export interface ActivityItem {
+    kind: 'quiz' | 'research' | 'library' | 'chat' | 'post' | 'note';
+    title: string;
+    detail?: string;
+    at: string;
+}
+
+export interface ChildChat {
+    id: string;
+    title: string;
+    created_at: string;
+    messages: ChatMessage[];
+}
+
+export interface ChildProgress {
+    stats: PerformanceStats;
+    interests: string;
+    activity: ActivityItem[];
+    // Only loaded when the school allows it
+    chats: ChildChat[] | null;
+}
+
+const RECENT_ACTIVITY_LIMIT = 15;
+
+const requireGateway = () => {
+    if (!isGatewayEnabled()) throw new Error("Parent accounts go through the gateway; set AI_GATEWAY_URL.");
+};
+
+// Shown once; the gateway keeps only a hash. Valid for 7 days, single use.
+export const createParentInvite = async (studentId: string): Promise<ParentInvite> => {
+    requireGateway();
+    return gatewayPost<ParentInvite>('/v1/parents/invites', { studentId }, { auth: true });
+};
+
+export const linkChild = async (code: string) => {
+    requireGateway();
+    await gatewayPost<{ ok: boolean }>('/v1/parents/link', { code }, { auth: true });
+};
+
+export const listLinkedChildren = async (parentId: string): Promise<LinkedChild[]> => {
+    const { data, error } = await supabase
+        .from(PARENT_LINKS_TABLE)
+        .select('created_at, child:users!student_id (id, username, display_name, avatar_url, class_level, section, total_points, school_id)')
+        .eq('parent_id', parentId)
+        .order('created_at');
+    if (error) throw error;
+    return (data || []).map((row: any) => row.child).filter(Boolean);
+};
+
+const byNewest = (a: ActivityItem, b: ActivityItem) => b.at.localeCompare(a.at);
+
+/**
+ * Everything the parent view shows for one child. `parentId` is the viewer,
+ * so moderation hides the same posts from them as from other students.
+ */
+export const loadChildProgress = async (child: LinkedChild, school: School | null, parentId: string): Promise<ChildProgress> => {
+    const showChats = isFeatureEnabled(school, 'parent_chats');
+    const showSocial = isFeatureEnabled(school, 'parent_social');
+
+    const [{ stats, interests }, chatsRes, postsRes, notesRes] = await Promise.all([
+        loadPerformanceStats(child.id, child.total_points || 0, { includeChats: showChats, includeSocial: showSocial }),
+        showChats
+            ? supabase.from('chat_sessions').select('id, title, created_at, messages').eq('user_id', child.id).order('created_at', { ascending: false }).limit(20)
+            : Promise.resolve({ data: null }),
+        showSocial
+            ? supabase.from('feed_posts').select('id, content, created_at').eq('user_id', child.id).or(visibleToFilter(parentId)).order('created_at', { ascending: false }).limit(10)
+            : Promise.resolve({ data: null }),
+        showSocial
+            ? supabase.from('community_notes').select('id, title, created_at').eq('user_id', child.id).or(visibleToFilter(parentId)).order('created_at', { ascending: false }).limit(10)
+            : Promise.resolve({ data: null })
+    ]);
+
+    const activity: ActivityItem[] = [
+        ...stats.topicScores.filter(t => t.updatedAt).map(t => ({
+            kind: 'quiz' as const,
+            title: t.topic,
+            detail: t.isComplete ? `Finished the quiz with ${t.percent}%` : `Answered ${t.answered} of ${t.questions} questions`,
+            at: t.updatedAt!
+        })),
+        ...stats.researchProjects.map(r => ({ kind: 'research' as const, title: r.title, detail: 'Started a research project', at: r.created_at })),
+        ...stats.savedPods.map(p => ({ kind: 'library' as const, title: p.topic, detail: `Saved a ${p.type}`, at: p.created_at })),
+        ...((chatsRes.data || []) as any[]).map(c => ({ kind: 'chat' as const, title: c.title, detail: 'Chatted with Science Buddy', at: c.created_at })),
+        ...((postsRes.data || []) as any[]).map(p => ({ kind: 'post' as const, title: p.content.slice(0, 80), detail: 'Posted in the feed', at: p.created_at })),
+        ...((notesRes.data || []) as any[]).map(n => ({ kind: 'note' as const, title: n.title, detail: 'Shared a note', at: n.created_at }))
+    ].filter(item => item.at);
+
+    return {
+        stats,
+        interests,
+        activity: activity.sort(byNewest).slice(0, RECENT_ACTIVITY_LIMIT),
+        chats: showChats ? ((chatsRes.data || []) as ChildChat[]) : null
+    };
+};
@@ -0,0 +1,163 @@
+
+import { supabase } from "./supabaseClient";
+import { gatewayPost, isGatewayEnabled } from "./gatewayClient";
+import { createZip } from "../utils/zipUtils";
+import { UserData } from "../types";
+
+// --- YOUR DATA ---
+// "Download my data" gathers the student's rows from every table that holds
+// their work into a zip with `data.json` (everything, as stored) and
+// `data.md` (the same, readable). Deletion goes through the gateway: the
+// account is scheduled for deletion, stays usable for a grace period in which
+// the student can cancel, and is then erased (see the README).
+
+interface ExportedTable {
+    table: string;
+    title: string;
+    ownerColumn: string;
+    // One Markdown block per row
+    describe: (row: any) => string;
+}
+
+const when = (value?: string | number) => (value ? new Date(value).toLocaleString() : '');
+const text = (value: unknown) => (typeof value === 'string' ? value : value == null ? '' : JSON.stringify(value));
+
+const EXPORTED_TABLES: ExportedTable[] = [
+    {
+        table: 'chat_sessions', title: 'Chats', ownerColumn: 'user_id',
+        describe: row => `### ${row.title || 'Chat'} (${when(row.created_at)})\n\n` +
+            (row.messages || []).map((m: any) => `**${m.role === 'user' ? 'You' : 'Science Buddy'}:** ${text(m.text)}`).join('\n\n')
+    },
+    {
+        table: 'quiz_progress', title: 'Chapter quizzes', ownerColumn: 'user_id',
+        describe: row => `- **${row.topic}**: score ${row.score ?? 0}${row.is_complete ? ', finished' : ''} (${when(row.updated_at)})`
+    },
+    {
+        table: 'review_cards', title: 'Review deck', ownerColumn: 'user_id',
+        describe: row => `- ${text(row.question?.question)} (${row.topic}, next review ${when(row.due_at)})`
+    },
+    {
+        table: 'research_projects', title: 'Research projects', ownerColumn: 'user_id',
+        describe: row => `### ${row.title} (${when(row.created_at)})\n\n${text(row.content)}`
+    },
+    {
+        table: 'study_library', title: 'Saved study material', ownerColumn: 'user_id',
+        describe: row => `- **${row.topic}** (${row.type || 'item'}, ${when(row.created_at)})`
+    },
+    {
+        table: 'concept_maps', title: 'Concept maps', ownerColumn: 'user_id',
+        describe: row => `- **${row.topic}** (${when(row.created_at)})`
+    },
+    {
+        table: 'video_projects', title: 'Video projects', ownerColumn: 'user_id',
+        describe: row => `- **${row.title}**: ${(row.slides || []).length} slides (${when(row.created_at)})`
+    },
+    {
+        table: 'community_notes', title: 'Shared notes', ownerColumn: 'user_id',
+        describe: row => `### ${row.title} (${when(row.created_at)})\n\n${text(row.content)}`
+    },
+    {
+        table: 'feed_posts', title: 'Feed posts', ownerColumn: 'user_id',
+        describe: row => `- ${when(row.created_at)}: ${text(row.content)}${row.media_url ? ` [${row.media_type || 'media'}](${row.media_url})` : ''}`
+    },
+    {
+        table: 'feed_comments', title: 'Feed comments', ownerColumn: 'user_id',
+        describe: row => `- ${when(row.created_at)}: ${text(row.content)}`
+    },
+    {
+        table: 'feed_saved_posts', title: 'Saved feed posts', ownerColumn: 'user_id',
+        describe: row => `- post ${row.post_id}`
+    },
+    {
+        table: 'discussion_threads', title: 'Discussions started', ownerColumn: 'user_id',
+        describe: row => `### ${row.title} (${when(row.created_at)})\n\n${text(row.content)}`
+    },
+    {
+        table: 'discussion_comments', title: 'Discussion replies', ownerColumn: 'user_id',
+        describe: row => `- ${when(row.created_at)}: ${text(row.content)}`
+    },
+    {
+        table: 'notifications', title: 'Notifications', ownerColumn: 'user_id',
+        describe: row => `- ${when(row.created_at)}: ${text(row.message)}`
+    }
+];
+
+export interface MyDataExport {
+    exportedAt: string;
+    profile: Partial<UserData>;
+    tables: Record<string, any[]>;
+}
+
+/**
+ * Everything stored about the user. A table that cannot be read is exported
+ * empty with a warning rather than failing the whole download.
+ */
+export const collectMyData = async (userId: string): Promise<MyDataExport> => {
+    const [profileRes, ...tableResults] = await Promise.all([
+        supabase.from('users').select('*').eq('id', userId).maybeSingle(),
+        ...EXPORTED_TABLES.map(t => supabase.from(t.table).select('*').eq(t.ownerColumn, userId))
+    ]);
+    if (profileRes.error) throw profileRes.error;
+    const { password, password_hash, ...profile } = profileRes.data || {};
+
+    const tables: Record<string, any[]> = {};
+    EXPORTED_TABLES.forEach((t, i) => {
+        const { data, error } = tableResults[i];
+        if (error) console.warn(`Data export: could not read ${t.table}`, error);
+        tables[t.table] = data || [];
+    });
+    return { exportedAt: new Date().toISOString(), profile, tables };
+};
+
+export const formatMyDataMarkdown = (data: MyDataExport) => {
+    const { profile } = data;
+    const lines = [
+        `# Science Buddy data for ${profile.display_name || profile.username}`,
+        '',
+        `Exported ${when(data.exportedAt)}. \`data.json\` has the same data in full.`,
+        '',
+        '## Profile',
+        '',
+        `- Username: ${profile.username}`,
+        `- Email: ${profile.email || ''}`,
+        `- Class: ${profile.class_level || ''}${profile.section ? `-${profile.section}` : ''}`,
+        `- XP: ${profile.total_points || 0}`,
+        `- Interests: ${profile.interests || ''}`,
+        `- Language: ${profile.language || 'en'}`
+    ];
+    EXPORTED_TABLES.forEach(t => {
+        const rows = data.tables[t.table] || [];
+        lines.push('', `## ${t.title} (${rows.length})`, '');
+        lines.push(rows.length ? rows.map(t.describe).join('\n\n') : '_None._');
+    });
+    return lines.join('\n') + '\n';
+};
+
+export const downloadMyData = async (user: UserData) => {
+    const data = await collectMyData(user.id);
+    const zip = createZip([
+        { name: 'data.json', content: JSON.stringify(data, null, 2) },
+        { name: 'data.md', content: formatMyDataMarkdown(data) }
+    ]);
+    const url = URL.createObjectURL(zip);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `science-buddy-${user.username}-${data.exportedAt.slice(0, 10)}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Schedules deletion after the grace period and signs out every session.
+ * Needs the current password. Returns when the account will be erased.
+ */
+export const requestAccountDeletion = async (password: string) => {
+    if (!isGatewayEnabled()) throw new Error("Account deletion goes through the gateway; set AI_GATEWAY_URL.");
+    const { deletionScheduledAt } = await gatewayPost<{ deletionScheduledAt: string }>('/v1/account/delete', { password }, { auth: true });
+    return deletionScheduledAt;
+};
+
+export const cancelAccountDeletion = async (): Promise<UserData> => {
+    const { user } = await gatewayPost<{ user: UserData }>('/v1/account/delete/cancel', {}, { auth: true });
+    return user;
+};
@@ -0,0 +1,107 @@
+
+import { supabase } from "./supabaseClient";
+import { scopeToSchool, onlyActiveStudents } from "./schools";
+import { getChapters } from "./curriculumCatalog";
+import { answersOf, quizLengthOf, summarizeOutcomes } from "./adaptiveQuiz";
+
+// --- PROGRESS ---
+// The numbers behind "My Performance" and the parent view, which are also
+// what the AI performance report is written from. Chats and community notes
+// are left out when a parent is looking and the school hasn't allowed it.
+
+export interface TopicScore {
+    topic: string;
+    // Catalog chapter number; null for quizzes on other topics
+    chapter: number | null;
+    score: number;
+    total: number;
+    percent: number;
+    answered: number;
+    questions: number;
+    isComplete: boolean;
+    // Learning outcomes from adaptive chapter quizzes
+    outcomesMastered: string[];
+    outcomesToPractise: string[];
+    updatedAt: string | null;
+}
+
+export interface PerformanceStats {
+    rank: string;
+    quizzesAttempted: number;
+    // Chapter quizzes first, in syllabus order
+    topicScores: TopicScore[];
+    chaptersInSyllabus: number;
+    chaptersNotStarted: string[];
+    totalChats?: number;
+    voiceChats?: number;
+    researchProjects: { title: string; created_at: string }[];
+    savedPods: { topic: string; type: string; created_at: string }[];
+    communityNotes?: number;
+    totalPoints: number;
+}
+
+export interface ProgressOptions {
+    includeChats?: boolean;
+    includeSocial?: boolean;
+}
+
+const POINTS_PER_QUESTION = 2;
+
+export const loadPerformanceStats = async (
+    userId: string,
+    totalPoints: number,
+    { includeChats = true, includeSocial = true }: ProgressOptions = {}
+): Promise<{ stats: PerformanceStats; interests: string }> => {
+    // Parallel Fetching for holistic view
+    const [usersData, quizData, chatData, researchData, libraryData, notesData, userProfile] = await Promise.all([
+        onlyActiveStudents(scopeToSchool(supabase.from('users').select('id, total_points'))).order('total_points', { ascending: false }),
+        supabase.from('quiz_progress').select('topic, score, current_index, is_complete, questions, answers, updated_at').eq('user_id', userId),
+        includeChats ? supabase.from('chat_sessions').select('id, title').eq('user_id', userId) : Promise.resolve({ data: null }),
+        supabase.from('research_projects').select('title, created_at').eq('user_id', userId),
+        supabase.from('study_library').select('topic, type, created_at').eq('user_id', userId),
+        includeSocial ? supabase.from('community_notes').select('id').eq('user_id', userId) : Promise.resolve({ data: null }),
+        supabase.from('users').select('interests, class_level').eq('id', userId).single()
+    ]);
+
+    const index = usersData.data ? usersData.data.findIndex((u: any) => u.id === userId) : -1;
+    const chapters = await getChapters(userProfile.data?.class_level);
+    const chapterOf = (topic: string) => chapters.find(c => c.title === topic)?.number ?? null;
+    const topicScores: TopicScore[] = (quizData.data || []).map((q: any) => {
+        const questions = Array.isArray(q.questions) ? q.questions : [];
+        const total = (questions.length ? quizLengthOf(q) : 30) * POINTS_PER_QUESTION;
+        const outcomes = summarizeOutcomes(questions, answersOf({ ...q, questions }));
+        return {
+            topic: q.topic,
+            chapter: chapterOf(q.topic),
+            score: q.score,
+            total,
+            percent: Math.round((q.score / total) * 100),
+            answered: q.current_index,
+            questions: questions.length ? quizLengthOf(q) : 30,
+            isComplete: !!q.is_complete,
+            outcomesMastered: outcomes.filter(o => o.mastered).map(o => o.outcome),
+            outcomesToPractise: outcomes.filter(o => !o.mastered).map(o => o.outcome),
+            updatedAt: q.updated_at || null
+        };
+    });
+    topicScores.sort((a, b) => (a.chapter ?? Infinity) - (b.chapter ?? Infinity));
+    const started = new Set(topicScores.map(t => t.topic));
+    const chats: any[] | null = chatData.data;
+
+    return {
+        stats: {
+            rank: index !== -1 ? (index + 1).toString() : '-',
+            quizzesAttempted: topicScores.length,
+            topicScores,
+            chaptersInSyllabus: chapters.length,
+            chaptersNotStarted: chapters.filter(c => !started.has(c.title)).map(c => c.title),
+            totalChats: chats ? chats.length : undefined,
+            voiceChats: chats ? chats.filter(c => c.title.toLowerCase().includes('voice')).length : undefined,
+            researchProjects: researchData.data || [],
+            savedPods: libraryData.data || [],
+            communityNotes: notesData.data ? notesData.data.length : undefined,
+            totalPoints
+        },
+        interests: userProfile.data?.interests || "General Science"
+    };
+};
@@ -0,0 +1,152 @@
+
+import { supabase } from "./supabaseClient";
+import { getStoredUser } from "./currentUser";
+import { BUILT_IN_PROMPTS, PromptId, PromptTemplate, PromptVariables } from "./promptTemplates";
+import { hashString } from "../utils/hashUtils";
+
+// --- PROMPT REGISTRY ---
+// Resolves a named prompt to concrete wording. Curriculum leads can tune
+// prompts without a deploy by adding active rows to `prompt_templates`
+// (prompt_id, version, variant, weight, template, active); when a prompt has
+// any active rows they replace the built-in wording. With several variants,
+// each student is assigned one deterministically by weight, so A/B
+// comparisons stay stable across sessions. Every render carries a `ref`
+// (e.g. `quiz.topic@v2:friendly`) that is logged with the AI call and stored
+// on saved artifacts.
+
+export const DEFAULT_VARIANT = 'default';
+
+const OVERRIDES_TABLE = 'prompt_templates';
+
+export interface ResolvedPrompt {
+    id: PromptId;
+    version: number;
+    variant: string;
+    template: string;
+    ref: string;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    ref: string;
+    version: number;
+    variant: string;
+}
+
+export interface ResolveOptions {
+    // Force a specific variant, e.g. to preview wording before rolling it out.
+    variant?: string;
+}
+
+export const formatPromptRef = (id: string, version: number, variant: string) =>
+    `${id}@v${version}${variant === DEFAULT_VARIANT ? '' : `:${variant}`}`;
+
+// Value used where only the version is needed (e.g. content cache keys).
+export const promptVersionTag = (prompt: { version: number; variant: string }) =>
+    prompt.variant === DEFAULT_VARIANT ? prompt.version : `${prompt.version}:${prompt.variant}`;
+
+// --- OVERRIDES ---
+
+let overrides: Promise<Partial<Record<PromptId, PromptTemplate[]>>> | null = null;
+
+const loadOverrides = () => {
+    if (overrides) return overrides;
+    overrides = (async () => {
+        try {
+            const { data, error } = await supabase
+                .from(OVERRIDES_TABLE)
+                .select('prompt_id, version, variant, weight, template')
+                .eq('active', true);
+            if (error || !data) return {};
+            const grouped: Partial<Record<PromptId, PromptTemplate[]>> = {};
+            data.forEach((row: any) => {
+                const id = row.prompt_id as PromptId;
+                if (!BUILT_IN_PROMPTS[id]) {
+                    console.warn(`Prompt registry: ignoring override for unknown prompt "${row.prompt_id}"`);
+                    return;
+                }
+                (grouped[id] = grouped[id] || []).push({
+                    version: row.version,
+                    variant: row.variant || undefined,
+                    weight: row.weight ?? 1,
+                    template: row.template
+                });
+            });
+            return grouped;
+        } catch (e) {
+            console.warn("Prompt registry: could not load overrides, using built-in prompts", e);
+            return {};
+        }
+    })();
+    return overrides;
+};
+
+/**
+ * Drops cached overrides so edited rows in `prompt_templates` take effect.
+ */
+export const reloadPromptOverrides = () => {
+    overrides = null;
+};
+
+// --- RESOLUTION ---
+
+const pickVariant = (id: PromptId, candidates: PromptTemplate[], subject: string) => {
+    if (candidates.length === 1) return candidates[0];
+    const total = candidates.reduce((sum, c) => sum + Math.max(0, c.weight ?? 1), 0);
+    if (total <= 0) return candidates[0];
+    let point = parseInt(hashString(`${id}:${subject}`), 16) % total;
+    for (const candidate of candidates) {
+        point -= Math.max(0, candidate.weight ?? 1);
+        if (point < 0) return candidate;
+    }
+    return candidates[0];
+};
+
+export const resolvePrompt = async (id: PromptId, options: ResolveOptions = {}): Promise<ResolvedPrompt> => {
+    const candidates = (await loadOverrides())[id] || BUILT_IN_PROMPTS[id];
+    const forced = options.variant
+        ? candidates.find(c => (c.variant || DEFAULT_VARIANT) === options.variant)
+        : undefined;
+    const chosen = forced || pickVariant(id, candidates, getStoredUser()?.id || 'anonymous');
+    const variant = chosen.variant || DEFAULT_VARIANT;
+    return {
+        id,
+        version: chosen.version,
+        variant,
+        template: chosen.template,
+        ref: formatPromptRef(id, chosen.version, variant)
+    };
+};
+
+/**
+ * The ref a render of this prompt would carry for the current student, for
+ * stamping onto artifacts that are saved separately from generation.
+ */
+export const getPromptRef = async (id: PromptId) => (await resolvePrompt(id)).ref;
+
+// --- RENDERING ---
+
+type TemplateValues = Record<string, string | number | undefined | null>;
+
+const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+export const fillTemplate = (template: string, vars: TemplateValues) =>
+    template
+        .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name, body) => isSet(vars[name]) ? body : '')
+        .replace(/\{\{(\w+)\}\}/g, (match, name) => {
+            if (!(name in vars)) {
+                console.warn(`Prompt registry: no value for {{${name}}}`);
+                return match;
+            }
+            return isSet(vars[name]) ? String(vars[name]) : '';
+        });
+
+export const renderPrompt = async <K extends PromptId>(id: K, vars: PromptVariables[K], options: ResolveOptions = {}): Promise<RenderedPrompt> => {
+    const prompt = await resolvePrompt(id, options);
+    return {
+        text: fillTemplate(prompt.template, vars as TemplateValues),
+        ref: prompt.ref,
+        version: prompt.version,
+        variant: prompt.variant
+    };
+};
@@ -0,0 +1,145 @@
+
+import { QuizQuestion } from "../types";
+
+// --- QUIZ ANSWER VERIFICATION ---
+// Checks generated questions before students see them. The local checks here
+// catch malformed questions; aiService.verifyQuizQuestions adds an independent
+// answer from a second model and decides what to keep.
+
+export interface QuizAnswerCheck {
+    id: string;
+    answer: string;
+    ambiguous: boolean;
+}
+
+export interface RejectedQuestion {
+    question: QuizQuestion;
+    issues: string[];
+}
+
+const LETTERS = ['a', 'b', 'c', 'd'];
+
+// Lowercase, drop punctuation and leading articles so "The Sun." matches "sun".
+const normalizeOption = (text: string) =>
+    text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+        .replace(/^\s*(?:a|an|the)\s+/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const editDistance = (a: string, b: string) => {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+};
+
+// Words whose presence alone never changes an answer; prepositions do ("in" / "on")
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'of', 'is', 'are']);
+
+// Only filler words differ: "moves towards north pole" vs "moves towards the north pole".
+const differsOnlyInFiller = (a: string, b: string) => {
+    const left = new Set(a.split(' '));
+    const right = new Set(b.split(' '));
+    const differing = [...left].filter(w => !right.has(w)).concat([...right].filter(w => !left.has(w)));
+    return differing.length > 0 && differing.every(w => FILLER_WORDS.has(w));
+};
+
+/**
+ * Two options are near-duplicates when they only differ in case, punctuation,
+ * articles and similar filler words, a plural, or a one-letter typo (non-numeric
+ * options). Options that differ in one real word ("north pole" / "south pole")
+ * are different answers.
+ */
+export const areNearDuplicates = (a: string, b: string) => {
+    const left = normalizeOption(a);
+    const right = normalizeOption(b);
+    if (left === right || left.replace(/s$/, '') === right.replace(/s$/, '')) return true;
+    // "100 J" vs "10 J" are different answers
+    if (!/\d/.test(left + right) && Math.min(left.length, right.length) >= 5 && editDistance(left, right) <= 1) return true;
+    return differsOnlyInFiller(left, right);
+};
+
+/**
+ * Maps free text (an option copy, "B", "option c") to the option it names.
+ */
+export const matchOption = (options: string[], text: string): string | null => {
+    const target = normalizeOption(text);
+    const exact = options.find(o => normalizeOption(o) === target);
+    if (exact) return exact;
+    const letter = target.match(/^(?:option\s+)?([a-d])$/);
+    if (letter) return options[LETTERS.indexOf(letter[1])] ?? null;
+    const near = options.filter(o => areNearDuplicates(o, text));
+    return near.length === 1 ? near[0] : null;
+};
+
+// Phrases like "the correct answer is X" or "option B is correct" inside the explanation.
+const ANSWER_CLAIMS = [
+    /(?:correct|right) (?:answer|option) (?:is|would be|should be)\s*:?\s*["']?([^"'.;,\n]+)/gi,
+    /\boption\s+([a-d])\b\s+is\s+(?:correct|right)/gi
+];
+
+/**
+ * Returns the option the explanation claims is correct when that is not the
+ * marked answer, or null if the explanation agrees (or claims nothing).
+ */
+export const findExplanationConflict = (q: QuizQuestion): string | null => {
+    for (const pattern of ANSWER_CLAIMS) {
+        for (const match of Array.from(q.explanation.matchAll(pattern))) {
+            // "Copper because it conducts" names "Copper"
+            const claim = normalizeOption(match[1]);
+            const named = q.options
+                .filter(o => normalizeOption(o) && (claim + ' ').startsWith(normalizeOption(o) + ' '))
+                .sort((a, b) => b.length - a.length)[0];
+            const claimed = named || matchOption(q.options, match[1]);
+            if (claimed && normalizeOption(claimed) !== normalizeOption(q.correctAnswer)) return claimed;
+        }
+    }
+    return null;
+};
+
+/**
+ * Checks that need no model: distinct options, a key that is one of them,
+ * and an explanation that does not name a different answer.
+ */
+export const checkQuestion = (q: QuizQuestion): string[] => {
+    const issues: string[] = [];
+    q.options.forEach((option, i) => {
+        const twin = q.options.slice(i + 1).find(other => areNearDuplicates(option, other));
+        if (twin) issues.push(`options "${option}" and "${twin}" are (nearly) the same`);
+    });
+    if (!q.options.some(o => normalizeOption(o) === normalizeOption(q.correctAnswer))) {
+        issues.push(`marked answer "${q.correctAnswer}" is not one of the options`);
+    }
+    const conflict = findExplanationConflict(q);
+    if (conflict) issues.push(`explanation says "${conflict}" is correct but the key is "${q.correctAnswer}"`);
+    return issues;
+};
+
+/**
+ * Compares the key with the second model's blind answer. A check that does
+ * not name one of the options is inconclusive and passes.
+ */
+export const compareWithCheck = (q: QuizQuestion, check: QuizAnswerCheck | undefined): string[] => {
+    if (!check) return [];
+    if (check.ambiguous) return ['checker found more than one (or no) correct option'];
+    const answer = matchOption(q.options, check.answer);
+    if (answer && normalizeOption(answer) !== normalizeOption(q.correctAnswer)) {
+        return [`checker answered "${answer}" but the key is "${q.correctAnswer}"`];
+    }
+    return [];
+};
+
+// Question list for the checker prompt; the key and explanation are left out.
+export const formatQuestionsForCheck = (questions: QuizQuestion[]) =>
+    questions
+        .map((q, i) => `${i + 1}. ${q.question}\n${q.options.map(o => `   - ${o}`).join('\n')}`)
+        .join('\n\n');
@@ -0,0 +1,169 @@
+import { supabase } from "./supabaseClient";
+import { QuizQuestion } from "../types";
+import { hashString } from "../utils/hashUtils";
+
+// --- REVIEW DECK ---
+// Every question a student gets wrong in a chapter quiz or Flash Quiz goes
+// into their personal deck in `review_cards` and comes back on an SM-2
+// schedule: one day after a miss, then six days, then the last interval
+// times the card's ease. Missing a card again restarts it. The same question
+// is only kept once per student (`question_key`).
+
+const CARDS_TABLE = 'review_cards';
+
+export type ReviewSource = 'chapter_quiz' | 'flash_quiz';
+
+// SM-2 grades (0-5) for a right and a wrong answer; reviews are not self-rated.
+const GRADE_CORRECT = 4;
+const GRADE_WRONG = 1;
+const PASSING_GRADE = 3;
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewSchedule {
+    ease: number;
+    intervalDays: number;
+    repetitions: number;
+}
+
+export interface ReviewCard extends ReviewSchedule {
+    id: string;
+    topic: string;
+    source: ReviewSource;
+    question: QuizQuestion;
+    lapses: number;
+    dueAt: string;
+}
+
+export interface ReviewSummary {
+    due: number;
+    total: number;
+    // Earliest upcoming review when nothing is due today
+    nextDueAt: string | null;
+}
+
+const toCard = (row: any): ReviewCard => ({
+    id: row.id,
+    topic: row.topic,
+    source: row.source,
+    question: row.question,
+    ease: row.ease,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at
+});
+
+const questionKey = (q: QuizQuestion) => hashString(q.question.trim().toLowerCase().replace(/\s+/g, ' '));
+
+// Cards due at any time today count as due now.
+const endOfToday = () => {
+    const end = new Date();
+    end.setHours(23, 59, 59, 999);
+    return end.toISOString();
+};
+
+/**
+ * SM-2: a grade below 3 restarts the card at one day; otherwise the interval
+ * grows 1, 6, then by the ease factor. The ease moves with every grade.
+ */
+export const scheduleReview = (card: ReviewSchedule, grade: number): ReviewSchedule => {
+    const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+    if (grade < PASSING_GRADE) return { ease, intervalDays: 1, repetitions: 0 };
+    const repetitions = card.repetitions + 1;
+    const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * card.ease);
+    return { ease, intervalDays, repetitions };
+};
+
+/**
+ * Puts a missed question in the student's deck, due tomorrow. A question
+ * already in the deck is restarted. Never throws: a failed save only means
+ * the question is not reviewed later.
+ */
+export const addMissedQuestion = async (userId: string, question: QuizQuestion, topic: string, source: ReviewSource) => {
+    const key = questionKey(question);
+    const dueAt = new Date(Date.now() + DAY_MS).toISOString();
+    try {
+        const { data: existing, error: lookupError } = await supabase
+            .from(CARDS_TABLE)
+            .select('id, ease, lapses')
+            .eq('user_id', userId)
+            .eq('question_key', key)
+            .maybeSingle();
+        if (lookupError) throw lookupError;
+
+        if (existing) {
+            const { ease } = scheduleReview({ ease: existing.ease, intervalDays: 0, repetitions: 0 }, GRADE_WRONG);
+            const { error } = await supabase
+                .from(CARDS_TABLE)
+                .update({ ease, interval_days: 1, repetitions: 0, lapses: existing.lapses + 1, due_at: dueAt })
+                .eq('id', existing.id);
+            if (error) throw error;
+            return;
+        }
+        const { error } = await supabase.from(CARDS_TABLE).insert({
+            user_id: userId,
+            question_key: key,
+            topic,
+            source,
+            question: { question: question.question, options: question.options, correctAnswer: question.correctAnswer, explanation: question.explanation },
+            ease: START_EASE,
+            interval_days: 1,
+            repetitions: 0,
+            lapses: 0,
+            due_at: dueAt
+        });
+        if (error) throw error;
+    } catch (e) {
+        console.warn("Review deck: could not save missed question", e);
+    }
+};
+
+/**
+ * Cards due by the end of today across all chapters, oldest first.
+ */
+export const getDueCards = async (userId: string, limit = 20): Promise<ReviewCard[]> => {
+    const { data, error } = await supabase
+        .from(CARDS_TABLE)
+        .select('id, topic, source, question, ease, interval_days, repetitions, lapses, due_at')
+        .eq('user_id', userId)
+        .lte('due_at', endOfToday())
+        .order('due_at', { ascending: true })
+        .limit(limit);
+    if (error) throw error;
+    return (data || []).map(toCard);
+};
+
+export const getReviewSummary = async (userId: string): Promise<ReviewSummary> => {
+    const dueBy = endOfToday();
+    const [dueRes, totalRes, nextRes] = await Promise.all([
+        supabase.from(CARDS_TABLE).select('id', { count: 'exact', head: true }).eq('user_id', userId).lte('due_at', dueBy),
+        supabase.from(CARDS_TABLE).select('id', { count: 'exact', head: true }).eq('user_id', userId),
+        supabase.from(CARDS_TABLE).select('due_at').eq('user_id', userId).gt('due_at', dueBy).order('due_at', { ascending: true }).limit(1).maybeSingle()
+    ]);
+    if (dueRes.error) throw dueRes.error;
+    return { due: dueRes.count || 0, total: totalRes.count || 0, nextDueAt: nextRes.data?.due_at || null };
+};
+
+/**
+ * Grades a review answer and schedules the card's next review.
+ */
+export const recordReview = async (card: ReviewCard, correct: boolean): Promise<ReviewCard> => {
+    const next = scheduleReview(card, correct ? GRADE_CORRECT : GRADE_WRONG);
+    const dueAt = new Date(Date.now() + next.intervalDays * DAY_MS).toISOString();
+    const lapses = correct ? card.lapses : card.lapses + 1;
+    const { error } = await supabase
+        .from(CARDS_TABLE)
+        .update({
+            ease: next.ease,
+            interval_days: next.intervalDays,
+            repetitions: next.repetitions,
+            lapses,
+            due_at: dueAt,
+            last_reviewed_at: new Date().toISOString()
+        })
+        .eq('id', card.id);
+    if (error) throw error;
+    return { ...card, ...next, lapses, dueAt };
+};
@@ -0,0 +1,104 @@
+
+import { supabase } from "./supabaseClient";
+import { gatewayPost, isGatewayEnabled, refreshAccessToken, restoreSession } from "./gatewayClient";
+import { scopeToSchool } from "./schools";
+import { UserData, RoleAction, RoleChange } from "../types";
+
+// --- ROLES ---
+// Teacher signups start with `account_status = 'pending'` and only act as
+// teachers once a teacher or admin of their school approves them. Admins
+// (`is_admin`, always teachers) can also promote, demote, revoke and restore
+// accounts. Every change goes through the gateway's `/v1/roles` route, which
+// checks who is asking and writes a row to `role_changes`.
+
+const ROLE_CHANGES_TABLE = 'role_changes';
+
+const ACCOUNT_COLUMNS = 'id, username, display_name, email, role, is_admin, account_status, class_level, section, approved_at, approver:users!approved_by (username, display_name)';
+
+export type AccountGroup = 'pending' | 'staff' | 'students' | 'revoked';
+
+export type ManagedAccount = UserData & { approver?: { username: string; display_name?: string } | null };
+
+export const isPendingTeacher = (user: UserData) => user.role === 'teacher' && user.account_status === 'pending';
+
+export const isAdmin = (user: UserData) => user.role === 'teacher' && !!user.is_admin && (user.account_status || 'active') === 'active';
+
+// Label for a role_changes from/to value
+export const ROLE_LABELS: Record<string, string> = {
+    student: 'Student',
+    pending_teacher: 'Pending teacher',
+    teacher: 'Teacher',
+    admin: 'Admin',
+    revoked: 'Revoked'
+};
+
+export const ROLE_ACTION_LABELS: Record<RoleAction, string> = {
+    approve: 'Approve',
+    reject: 'Reject',
+    promote: 'Promote',
+    demote: 'Demote',
+    revoke: 'Revoke',
+    restore: 'Restore'
+};
+
+/**
+ * Actions the acting user may take on an account right now, mirroring the
+ * gateway's rules so the screen only offers what will succeed.
+ */
+export const availableActions = (actor: UserData, target: UserData): RoleAction[] => {
+    if (actor.id === target.id || actor.role !== 'teacher' || isPendingTeacher(actor)) return [];
+    const status = target.account_status || 'active';
+    if (target.role === 'teacher' && status === 'pending') return isAdmin(actor) ? ['approve', 'reject', 'revoke'] : ['approve', 'reject'];
+    if (!isAdmin(actor)) return [];
+    if (status === 'revoked') return ['restore'];
+    const actions: RoleAction[] = [];
+    if (target.role === 'student' || (target.role === 'teacher' && !target.is_admin)) actions.push('promote');
+    if (target.role === 'teacher') actions.push('demote');
+    actions.push('revoke');
+    return actions;
+};
+
+export const listAccounts = async (group: AccountGroup): Promise<ManagedAccount[]> => {
+    let query = scopeToSchool(supabase.from('users').select(ACCOUNT_COLUMNS));
+    if (group === 'pending') query = query.eq('role', 'teacher').eq('account_status', 'pending');
+    else if (group === 'revoked') query = query.eq('account_status', 'revoked');
+    else query = query.eq('role', group === 'staff' ? 'teacher' : 'student').or('account_status.is.null,account_status.eq.active');
+    const { data, error } = await query.order('username');
+    if (error) throw error;
+    return (data || []) as unknown as ManagedAccount[];
+};
+
+export const changeRole = async (userId: string, action: RoleAction, note?: string): Promise<UserData> => {
+    if (!isGatewayEnabled()) throw new Error("Role changes go through the gateway; set AI_GATEWAY_URL.");
+    const { user } = await gatewayPost<{ user: UserData }>('/v1/roles', { userId, action, note }, { auth: true });
+    return user;
+};
+
+export const listRoleChanges = async (limit = 100): Promise<RoleChange[]> => {
+    const { data, error } = await scopeToSchool(
+        supabase
+            .from(ROLE_CHANGES_TABLE)
+            .select('*, target:users!target_id (username, display_name), actor:users!actor_id (username, display_name)')
+    )
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    if (error) throw error;
+    return (data || []) as RoleChange[];
+};
+
+/**
+ * The account as stored now, with a fresh access token so a just-approved
+ * teacher gets teacher rights without signing in again. Null if the session
+ * has ended (e.g. the signup was rejected).
+ */
+export const reloadAccount = async (userId: string): Promise<UserData | null> => {
+    if (isGatewayEnabled()) {
+        await refreshAccessToken();
+        return restoreSession();
+    }
+    const { data, error } = await supabase.from('users').select('*').eq('id', userId).maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+    const { password, password_hash, ...user } = data;
+    return user as UserData;
+};
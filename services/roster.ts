@@ -0,0 +1,188 @@
+
+import { supabase } from "./supabaseClient";
+import { gatewayPost, isGatewayEnabled } from "./gatewayClient";
+import { checkSignupEmail, schoolClasses } from "./schools";
+import { School } from "../types";
+
+// --- ROSTER ---
+// Teachers import a CSV (name, email, class, section) that pre-creates student
+// accounts with `account_status = 'invited'` and a one-time setup code each;
+// the student enters the code on the login screen to choose a password.
+// Students who leave are archived rather than deleted: they cannot sign in and
+// drop out of rosters and leaderboards, but their work is kept. Imports, moves
+// and archiving go through the gateway's `/v1/roster/*` routes.
+
+export interface RosterRow {
+    line: number; // 1-based line in the CSV, for error messages
+    name: string;
+    email: string;
+    classLevel: string;
+    section: string;
+}
+
+export type RosterRowStatus = 'ok' | 'invalid' | 'duplicate';
+
+export interface CheckedRosterRow extends RosterRow {
+    status: RosterRowStatus;
+    problem?: string;
+}
+
+export interface ImportedStudent {
+    name: string;
+    email: string;
+    username: string;
+    classLevel: string;
+    section: string;
+    setupCode: string;
+}
+
+const COLUMN_NAMES: Record<keyof Omit<RosterRow, 'line'>, string[]> = {
+    name: ['name', 'student', 'full name', 'student name'],
+    email: ['email', 'e-mail', 'email address'],
+    classLevel: ['class', 'grade', 'class level'],
+    section: ['section', 'sec', 'division']
+};
+
+// Splits one CSV line, honouring "quoted, fields" and "" escapes.
+const splitCsvLine = (line: string) => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else cell += ch;
+        } else if (ch === '"') quoted = true;
+        else if (ch === ',') { cells.push(cell.trim()); cell = ''; }
+        else cell += ch;
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+/**
+ * Reads a roster CSV. A header row may name the columns in any order;
+ * without one the order is name, email, class, section.
+ */
+export const parseRosterCsv = (text: string): RosterRow[] => {
+    const lines = text.split(/\r?\n/).map((raw, i) => ({ raw, line: i + 1 })).filter(l => l.raw.trim());
+    if (!lines.length) return [];
+
+    const header = splitCsvLine(lines[0].raw).map(h => h.toLowerCase());
+    const hasHeader = header.some(h => COLUMN_NAMES.email.includes(h));
+    const columnIndex = (field: keyof typeof COLUMN_NAMES, fallback: number) => {
+        if (!hasHeader) return fallback;
+        return header.findIndex(h => COLUMN_NAMES[field].includes(h));
+    };
+    const columns = {
+        name: columnIndex('name', 0),
+        email: columnIndex('email', 1),
+        classLevel: columnIndex('classLevel', 2),
+        section: columnIndex('section', 3)
+    };
+
+    return lines.slice(hasHeader ? 1 : 0).map(({ raw, line }) => {
+        const cells = splitCsvLine(raw);
+        const cell = (index: number) => (index >= 0 ? cells[index] || '' : '');
+        return {
+            line,
+            name: cell(columns.name),
+            email: cell(columns.email).toLowerCase(),
+            classLevel: cell(columns.classLevel).replace(/^class\s*/i, ''),
+            section: cell(columns.section).toUpperCase()
+        };
+    });
+};
+
+const rowProblem = (row: RosterRow, school: School): string | null => {
+    if (!row.name) return 'Name is missing.';
+    if (!row.email) return 'Email is missing.';
+    if (!/^[^@\s",()]+@[^@\s",()]+$/.test(row.email)) return `"${row.email}" is not an email address.`;
+    const emailProblem = checkSignupEmail(school, 'student', row.email);
+    if (emailProblem) return emailProblem;
+    const schoolClass = schoolClasses(school).find(c => c.level === row.classLevel);
+    if (!schoolClass) return `There is no class "${row.classLevel}".`;
+    if (!schoolClass.sections.includes(row.section)) return `Class ${row.classLevel} has no section "${row.section}".`;
+    return null;
+};
+
+/**
+ * Marks each row ok, invalid (with the reason) or duplicate: repeated in the
+ * file, or the email already has an account. Nothing is written.
+ */
+export const checkRoster = async (rows: RosterRow[], school: School): Promise<CheckedRosterRow[]> => {
+    const emails = Array.from(new Set(rows.map(r => r.email).filter(Boolean)));
+    const existing = new Set<string>();
+    if (emails.length) {
+        const { data, error } = await supabase.from('users').select('email').in('email', emails);
+        if (error) throw error;
+        (data || []).forEach((u: any) => existing.add(String(u.email).toLowerCase()));
+    }
+
+    const seen = new Map<string, number>();
+    return rows.map(row => {
+        const problem = rowProblem(row, school);
+        if (problem) return { ...row, status: 'invalid', problem };
+        if (existing.has(row.email)) return { ...row, status: 'duplicate', problem: 'Already has an account.' };
+        if (seen.has(row.email)) return { ...row, status: 'duplicate', problem: `Same email as line ${seen.get(row.email)}.` };
+        seen.set(row.email, row.line);
+        return { ...row, status: 'ok' };
+    });
+};
+
+const requireGateway = () => {
+    if (!isGatewayEnabled()) throw new Error("Roster changes go through the gateway; set AI_GATEWAY_URL.");
+};
+
+// Creates the accounts. The setup codes are only returned here, so hand them out or download them now.
+export const importRoster = async (rows: RosterRow[]): Promise<ImportedStudent[]> => {
+    requireGateway();
+    const { students } = await gatewayPost<{ students: ImportedStudent[] }>('/v1/roster/import', {
+        students: rows.map(({ name, email, classLevel, section }) => ({ name, email, classLevel, section }))
+    }, { auth: true });
+    return students;
+};
+
+export const moveStudent = async (userId: string, classLevel: string, section: string) => {
+    requireGateway();
+    await gatewayPost<{ ok: boolean }>('/v1/roster/move', { userId, classLevel, section }, { auth: true });
+};
+
+export const setArchived = async (userId: string, archived: boolean) => {
+    requireGateway();
+    await gatewayPost<{ ok: boolean }>('/v1/roster/archive', { userId, archived }, { auth: true });
+};
+
+// For a student who lost their code; the old one stops working.
+export const reissueSetupCode = async (userId: string) => {
+    requireGateway();
+    return gatewayPost<{ username: string; setupCode: string }>('/v1/roster/codes', { userId }, { auth: true });
+};
+
+// Student side: turns a setup code into a usable account. Returns the username to sign in with.
+export const completeAccountSetup = async (code: string, password: string) => {
+    const { username } = await gatewayPost<{ username: string }>('/v1/roster/setup', { code, password });
+    return username;
+};
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Downloads the imported students with their usernames and setup codes, for
+ * printing or mail merge.
+ */
+export const downloadSetupCodes = (students: ImportedStudent[]) => {
+    const lines = [
+        'name,email,class,section,username,setup code',
+        ...students.map(s => [s.name, s.email, s.classLevel, s.section, s.username, s.setupCode].map(csvCell).join(','))
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `setup-codes-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,139 @@
+
+import { supabase } from "./supabaseClient";
+import { getStoredUser } from "./currentUser";
+import { gatewayPost, isGatewayEnabled } from "./gatewayClient";
+import { School, SchoolClass, SchoolFeature, EmailRule } from "../types";
+
+// --- SCHOOLS ---
+// One deployment serves several schools. Each row in `schools` carries the
+// email domains its accounts use, per-role email rules, its classes and
+// sections, branding and which features are switched on. Users and the social
+// tables (feed, discussions, notes) have a `school_id`; queries here are
+// scoped to the signed-in user's school and RLS enforces the same rule with
+// the `school_id` session claim.
+
+const SCHOOLS_TABLE = 'schools';
+
+// Used until the user's school is loaded, and for accounts from before schools existed.
+export const DEFAULT_CLASSES: SchoolClass[] = [
+    { level: '6', sections: ['A', 'B', 'C', 'D', 'E', 'F', 'G'] },
+    { level: '7', sections: ['A', 'B', 'C', 'D', 'E', 'F', 'G'] },
+    { level: '8', sections: ['A', 'B', 'C', 'D', 'E', 'F'] }
+];
+
+export const FEATURE_LABELS: Record<SchoolFeature, string> = {
+    feed: 'Feed',
+    community_notes: 'Community notes',
+    discussions: 'Discussions',
+    leaderboard: 'Leaderboard',
+    voice_chat: 'Voice chat',
+    video_lab: 'Video lab',
+    research: 'Research mode',
+    parent_chats: 'Parents can read chat transcripts',
+    parent_social: 'Parents can see posts and notes'
+};
+
+// Off unless the school switches them on.
+const OPT_IN_FEATURES: SchoolFeature[] = ['parent_chats', 'parent_social'];
+
+const schoolCache = new Map<string, Promise<School | null>>();
+
+export const currentSchoolId = () => getStoredUser()?.school_id || null;
+
+/**
+ * Loads (once per session) a school by id. Never throws; null means the
+ * built-in defaults apply.
+ */
+export const loadSchool = (schoolId: string | null | undefined = currentSchoolId()): Promise<School | null> => {
+    if (!schoolId) return Promise.resolve(null);
+    if (!schoolCache.has(schoolId)) {
+        schoolCache.set(schoolId, (async () => {
+            const { data, error } = await supabase.from(SCHOOLS_TABLE).select('*').eq('id', schoolId).maybeSingle();
+            if (error) console.warn("Schools: could not load school", error);
+            return data || null;
+        })());
+    }
+    return schoolCache.get(schoolId)!;
+};
+
+const emailDomain = (email: string) => email.split('@')[1]?.trim().toLowerCase() || '';
+
+// The school whose domains include this address; used at signup.
+export const findSchoolForEmail = async (email: string): Promise<School | null> => {
+    const domain = emailDomain(email);
+    if (!domain) return null;
+    const { data, error } = await supabase.from(SCHOOLS_TABLE).select('*').contains('email_domains', [domain]).limit(1);
+    if (error) throw error;
+    return data?.[0] || null;
+};
+
+const exampleAddress = (rule: EmailRule | undefined, domain: string) => `${rule?.example || 'name'}@${domain}`;
+
+/**
+ * Problem with a signup email for this school and role, or null if it is
+ * acceptable. Rules are regular expressions for the part before the @.
+ */
+export const checkSignupEmail = (school: School, role: 'student' | 'teacher', email: string): string | null => {
+    const domain = emailDomain(email);
+    if (!school.email_domains.includes(domain)) {
+        return `Use your ${school.name} email (${school.email_domains.map(d => '@' + d).join(' or ')}).`;
+    }
+    const rule = school.email_rules?.[role];
+    if (rule && !new RegExp(rule.pattern).test(email.split('@')[0])) {
+        return `${role === 'student' ? 'Student' : 'Teacher'} emails look like ${exampleAddress(rule, domain)}.`;
+    }
+    return null;
+};
+
+export const emailPlaceholder = (school: School | null, role: 'student' | 'teacher') =>
+    school ? exampleAddress(school.email_rules?.[role], school.email_domains[0]) : 'name@school.edu';
+
+export const schoolClasses = (school: School | null): SchoolClass[] =>
+    school?.classes?.length ? school.classes : DEFAULT_CLASSES;
+
+// Features are on unless the school switches them off; opt-in features the other way round.
+export const isFeatureEnabled = (school: School | null, feature: SchoolFeature) =>
+    OPT_IN_FEATURES.includes(feature) ? school?.features?.[feature] === true : school?.features?.[feature] !== false;
+
+// --- SCOPING ---
+
+// The query builder methods the helpers below use. They go through filter()
+// because checking a builder against Supabase's generic eq() is too deep for tsc.
+export interface SchoolFilterable {
+    filter(column: string, operator: string, value: unknown): this;
+}
+
+interface ActiveStudentFilterable extends SchoolFilterable {
+    or(filters: string): this;
+}
+
+/**
+ * Restricts a query on a school-scoped table (users, feed_posts,
+ * discussion_threads, community_notes) to the current user's school.
+ */
+export const scopeToSchool = <T extends SchoolFilterable>(query: T, schoolId: string | null = currentSchoolId()): T =>
+    schoolId ? query.filter('school_id', 'eq', schoolId) : query;
+
+// Students who count in leaderboards and ranks: not invited, archived or revoked.
+export const onlyActiveStudents = <T extends ActiveStudentFilterable>(query: T): T =>
+    query.filter('role', 'eq', 'student').or('account_status.is.null,account_status.eq.active');
+
+// Realtime subscription filter with the same rule.
+export const schoolChangeFilter = (schoolId: string | null = currentSchoolId()): { filter?: string } =>
+    schoolId ? { filter: `school_id=eq.${schoolId}` } : {};
+
+// Column to add when inserting into a school-scoped table.
+export const schoolColumn = (schoolId: string | null = currentSchoolId()) =>
+    schoolId ? { school_id: schoolId } : {};
+
+// --- ADMINISTRATION ---
+
+/**
+ * Saves School Settings for the admin's own school. The gateway checks that
+ * the signed-in teacher is an admin.
+ */
+export const updateSchool = async (schoolId: string, changes: Partial<Omit<School, 'id' | 'created_at'>>) => {
+    if (!isGatewayEnabled()) throw new Error("School settings are saved through the gateway; set AI_GATEWAY_URL.");
+    await gatewayPost('/v1/school', { changes }, { auth: true });
+    schoolCache.delete(schoolId);
+};
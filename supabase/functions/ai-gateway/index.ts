@@ -0,0 +1,15 @@
+
+import { createGateway, configFromEnv } from '../../../gateway/core.ts';
+import { mailSenderFromEnv } from '../../../gateway/mail.ts';
+
+// Supabase Edge Function entry for the AI gateway (see gateway/core.ts).
+// Deploy with `supabase functions deploy ai-gateway --no-verify-jwt`; the
+// gateway checks its own session tokens. Secrets come from `supabase secrets set`.
+
+declare const Deno: {
+    env: { get: (name: string) => string | undefined };
+    serve: (handler: (req: Request) => Promise<Response>) => void;
+};
+
+const env = (name: string) => Deno.env.get(name);
+Deno.serve(createGateway(configFromEnv(env), mailSenderFromEnv(env)));
@@ -26,6 +26,14 @@ export interface ChatSession {
   title: string;
   messages: ChatMessage[];
   createdAt: number;
+  summary?: ChatSummary | null; // Rolling summary of turns that no longer fit the model context
+}
+
+export interface ChatSummary {
+  text: string;
+  coveredUntilId: string; // Last message id folded into the summary
+  coveredCount: number;
+  updatedAt: number;
 }
 
 export interface ChatMessage {
@@ -34,13 +42,28 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   meta?: { type?: 'voice' | 'text' };
+  // Textbook passages the answer was grounded in
+  citations?: CurriculumCitation[];
 }
 
+export interface CurriculumCitation {
+  chapter: number;
+  chapterTitle: string;
+  section: string | null;      // e.g. "4.2"
+  sectionTitle: string | null;
+}
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface QuizQuestion {
   question: string;
   options: string[];
   correctAnswer: string;
   explanation: string;
+  // Tagged on chapter quizzes so the next question can adapt to the student
+  difficulty?: QuizDifficulty;
+  // The learning outcome the question checks
+  outcome?: string;
 }
 
 export interface TopicProgress {
@@ -102,6 +125,7 @@ export interface StudyItem {
     topic: string;
     type: 'SUMMARY' | 'PODCAST';
     content: any; // string for summary, PodcastSegment[] for podcast
+    prompt_version?: string | null; // Prompt registry ref that generated the content
     created_at: string;
 }
 
@@ -128,6 +152,8 @@ export interface CommunityNote {
     content: string;
     file_type: string;
     created_at: string;
+    moderation_status?: ModerationStatus;
+    moderation_reason?: string | null;
 }
 
 export interface VideoSlide {
@@ -145,6 +171,10 @@ export interface VideoProject {
   created_at: string;
 }
 
+// 'pending' (moderator unavailable) and 'hidden' (by a teacher) content is only
+// shown to its author; 'under_review' (reported) stays visible to everyone.
+export type ModerationStatus = 'approved' | 'pending' | 'under_review' | 'hidden';
+
 export interface DiscussionThread {
   id: string;
   user_id: string;
@@ -153,6 +183,8 @@ export interface DiscussionThread {
   category: string;
   likes: number;
   created_at: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string | null;
   users?: { // Joined from users table
       username: string;
       display_name?: string;
@@ -167,6 +199,8 @@ export interface DiscussionComment {
   user_id: string;
   content: string;
   created_at: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string | null;
   users?: {
       username: string;
       display_name?: string;
@@ -181,6 +215,8 @@ export interface FeedPost {
   media_url?: string;
   media_type?: 'IMAGE' | 'VIDEO' | null;
   created_at: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string | null;
   likes: number;
   users?: {
       username: string;
@@ -195,6 +231,8 @@ export interface FeedComment {
   user_id: string;
   content: string;
   created_at: string;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string | null;
   users?: {
       username: string;
       display_name?: string;
@@ -206,7 +244,7 @@ export interface AppNotification {
   id: string;
   user_id: string;
   actor_id: string;
-  type: 'LIKE' | 'COMMENT' | 'SAVE' | 'REPLY';
+  type: 'LIKE' | 'COMMENT' | 'SAVE' | 'REPLY' | 'WARNING';
   reference_id: string;
   message: string;
   is_read: boolean;
@@ -228,8 +266,69 @@ export interface UserData {
     ui_theme?: string;
     sidebar_dock?: 'LEFT' | 'RIGHT' | 'TOP' | 'BOTTOM';
     custom_ai_behavior?: string;
-    role?: 'student' | 'teacher'; // Added Role
+    role?: 'student' | 'teacher' | 'parent'; // Added Role
     email?: string;
+    email_verified_at?: string | null;
     class_level?: string;
     section?: string;
-}
\ No newline at end of file
+    language?: AppLanguage;
+    school_id?: string | null;
+    // Teacher signups stay 'pending' until a teacher or admin approves them;
+    // imported students are 'invited' until they use their setup code
+    account_status?: AccountStatus;
+    is_admin?: boolean;
+    approved_by?: string | null;
+    approved_at?: string | null;
+    // Set while a requested deletion waits out its grace period
+    deletion_scheduled_at?: string | null;
+}
+
+export type AccountStatus = 'active' | 'pending' | 'revoked' | 'invited' | 'archived' | 'deleted';
+
+export type RoleAction = 'approve' | 'reject' | 'promote' | 'demote' | 'revoke' | 'restore';
+
+// One row of `role_changes`; from/to are 'student' | 'pending_teacher' | 'teacher' | 'admin' | 'revoked'
+export interface RoleChange {
+    id: string;
+    school_id: string | null;
+    target_id: string;
+    actor_id: string;
+    action: RoleAction;
+    from_role: string;
+    to_role: string;
+    note: string | null;
+    created_at: string;
+    target?: { username: string; display_name?: string };
+    actor?: { username: string; display_name?: string };
+}
+
+export type AppLanguage = 'en' | 'hi' | 'bilingual';
+
+export type SchoolFeature = 'feed' | 'community_notes' | 'discussions' | 'leaderboard' | 'voice_chat' | 'video_lab' | 'research'
+    | 'parent_chats' | 'parent_social';
+
+export interface SchoolClass {
+    level: string; // e.g. '8'
+    sections: string[];
+}
+
+// Regular expression for the part of the address before the @, plus an example shown on errors.
+export interface EmailRule {
+    pattern: string;
+    example: string;
+}
+
+export interface School {
+    id: string;
+    name: string;
+    email_domains: string[];
+    email_rules?: Partial<Record<'student' | 'teacher', EmailRule>>;
+    classes: SchoolClass[];
+    branding?: {
+        logo_url?: string;
+        tagline?: string;
+        accent_color?: string;
+    };
+    features?: Partial<Record<SchoolFeature, boolean>>;
+    created_at?: string;
+}
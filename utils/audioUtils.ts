@@ -1,4 +1,7 @@
 
+import { AppLanguage } from "../types";
+import { getLanguage, speechLocale } from "./i18n";
+
 export class SpeechManager {
   private synthesis: SpeechSynthesis;
   private voicesLoaded: boolean = false;
@@ -23,9 +26,24 @@ export class SpeechManager {
       return this.synthesis.getVoices();
   }
 
+  // Hindi voices for 'hi' and 'bilingual' (they read English text too)
+  private getHindiVoice(preferred: string[]): SpeechSynthesisVoice | undefined {
+      const voices = this.getVoices().filter(v => v.lang.toLowerCase().startsWith('hi'));
+      for (const name of preferred) {
+          const found = voices.find(v => v.name.includes(name));
+          if (found) return found;
+      }
+      return voices[0];
+  }
+
   // Improved helper to find a high-quality female voice
-  getFemaleVoice(): SpeechSynthesisVoice | undefined {
+  getFemaleVoice(language: AppLanguage = getLanguage()): SpeechSynthesisVoice | undefined {
       const voices = this.getVoices();
+
+      if (language !== 'en') {
+          const hindi = this.getHindiVoice(['Google हिन्दी', 'Swara', 'Kalpana', 'Lekha']);
+          if (hindi) return hindi;
+      }
       
       const priorities = [
           // 1. Chrome/Android High Quality
@@ -54,8 +72,13 @@ export class SpeechManager {
   }
 
   // Improved helper to find a high-quality male voice
-  getMaleVoice(): SpeechSynthesisVoice | undefined {
+  getMaleVoice(language: AppLanguage = getLanguage()): SpeechSynthesisVoice | undefined {
       const voices = this.getVoices();
+
+      if (language !== 'en') {
+          const hindi = this.getHindiVoice(['Madhur', 'Hemant', 'Google हिन्दी']);
+          if (hindi) return hindi;
+      }
       
       const priorities = [
           (v: SpeechSynthesisVoice) => v.name.includes('Google UK English Male'),
@@ -77,6 +100,7 @@ export class SpeechManager {
       voice?: SpeechSynthesisVoice, 
       rate?: number, 
       pitch?: number, 
+      lang?: AppLanguage,
       onStart?: () => void, 
       onEnd?: () => void 
   } = {}) {
@@ -85,6 +109,7 @@ export class SpeechManager {
     this.synthesis.cancel(); // Stop previous
 
     const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = speechLocale(options.lang);
     
     if (options.voice) {
         utterance.voice = options.voice;
@@ -0,0 +1,9 @@
+// FNV-1a: cheap and stable across sessions. Not for anything security related.
+export const hashString = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
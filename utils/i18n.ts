@@ -0,0 +1,279 @@
+import { AppLanguage } from "../types";
+import { getStoredUser } from "../services/currentUser";
+
+// --- LANGUAGE ---
+// The student's language preference (`users.language`) drives three things:
+// UI strings via t(), the language instruction added to tutor and generator
+// prompts, and the speech voices/recognition locale. 'bilingual' shows the
+// Hindi UI and asks the AI to answer in both languages.
+
+export const LANGUAGE_OPTIONS: { id: AppLanguage; label: string; hint: string }[] = [
+    { id: 'en', label: 'English', hint: 'Answers and menus in English' },
+    { id: 'hi', label: 'हिंदी', hint: 'उत्तर और मेनू हिंदी में' },
+    { id: 'bilingual', label: 'English + हिंदी', hint: 'Answers in both languages, menus in Hindi' }
+];
+
+const EN = {
+    'nav.dashboard': 'Dashboard',
+    'nav.feed': 'Your Feed',
+    'nav.topics': 'Topics',
+    'nav.performance': 'My Performance',
+    'nav.research': 'Research Lab',
+    'nav.community': 'Community Notes',
+    'nav.discussion': 'Discussion Board',
+    'nav.videoLab': 'AI Video Lab',
+    'nav.leaderboard': 'Leaderboard',
+    'nav.chat': 'AI Chat',
+    'nav.voiceChat': 'Voice Chat',
+    'nav.studyPod': 'Study Pod',
+    'nav.mindMatch': 'Mind Match',
+    'nav.story': 'Story Mode',
+    'nav.flashQuiz': 'Flash Quiz',
+    'nav.wordMine': 'Word Mine',
+    'nav.conceptMap': 'Concept Map',
+    'nav.styleSwapper': 'Style Swapper',
+
+    'common.logout': 'Logout',
+    'common.cancel': 'Cancel',
+    'common.settings': 'Settings',
+    'common.reportIssue': 'Report Issue',
+    'common.studyMode': 'Study Mode',
+    'common.minimizeSidebar': 'Minimize Sidebar',
+
+    'settings.publicProfile': 'Public Profile',
+    'settings.displayName': 'DISPLAY NAME',
+    'settings.newPassword': 'NEW PASSWORD',
+    'settings.currentPassword': 'CURRENT PASSWORD',
+    'settings.passwordChanged': 'Password changed.',
+    'settings.aiPersona': 'AI Persona',
+    'settings.customInstructions': 'CUSTOM INSTRUCTIONS',
+    'settings.language': 'LANGUAGE',
+    'settings.layout': 'Layout',
+    'settings.sidebarPosition': 'SIDEBAR POSITION',
+    'settings.theme': 'THEME',
+    'settings.save': 'Save Changes',
+    'settings.saved': 'Settings Saved!',
+    'settings.saveFailed': 'Failed to save settings.',
+    'settings.family': 'Family',
+    'settings.inviteParent': 'Create parent invite code',
+    'settings.inviteParentHint': 'Give this code to a parent. They can see your progress, but not your chats or posts unless your school allows it.',
+    'settings.yourData': 'Your Data',
+    'settings.downloadData': 'Download my data',
+    'settings.exportFailed': 'Could not export your data:',
+    'settings.deleteAccount': 'Delete my account',
+    'settings.deleteAccountHint': 'Your account will be deleted after 14 days. Until then you can sign in and cancel. After that your chats, quizzes, projects, notes and posts are erased and cannot be recovered. Enter your password to confirm.',
+    'settings.deletionScheduled': 'Your account will be deleted on {date}. Sign in before then to cancel.',
+
+    'dashboard.morning': 'Good Morning',
+    'dashboard.afternoon': 'Good Afternoon',
+    'dashboard.evening': 'Good Evening',
+    'dashboard.tagline': 'Ready to unlock some new knowledge today? Your personal AI lab is prepped and ready.',
+    'dashboard.totalChats': 'Total Chats',
+    'dashboard.voiceLabs': 'Voice Labs',
+    'dashboard.jumpBackIn': 'Jump Back In',
+    'dashboard.tools': 'Research & Tools',
+    'dashboard.reviewDue': 'Review due today',
+    'dashboard.reviewCount': '{count} questions you missed earlier',
+    'dashboard.reviewCaughtUp': 'All caught up. Next review {date}.',
+    'dashboard.reviewStart': 'Start review',
+
+    'topics.heading': 'Class {classLevel} Science',
+    'topics.subtitle': 'Select a chapter to start your personalized quiz journey.',
+    'topics.completed': 'Completed',
+    'topics.inProgress': 'In Progress',
+    'topics.score': 'Score: {score}',
+    'topics.review': 'Review Topic',
+    'topics.resume': 'Resume (Q{question})',
+    'topics.start': 'Start Quiz',
+    'topics.regenerate': 'Generate New Questions',
+    'topics.regenerateConfirm': 'This will generate a completely new set of questions and reset your score for this topic. Are you sure?',
+
+    'quiz.mastered': 'Topic Mastered!',
+    'quiz.completed': 'You completed {topic}',
+    'quiz.totalScore': 'Total Score',
+    'quiz.backToTopics': 'Back to Topics',
+    'quiz.progress': 'Question {current} / {total}',
+    'quiz.score': 'Score: {score} pts',
+    'quiz.explanation': 'Explanation',
+    'quiz.outcomes': 'Learning outcomes',
+    'quiz.outcomeMastered': 'Mastered',
+    'quiz.outcomePractice': 'Keep practising',
+    'quiz.outcomeScore': '{correct}/{answered} right',
+    'quiz.level.easy': 'Easy',
+    'quiz.level.medium': 'Medium',
+    'quiz.level.hard': 'Hard',
+    'review.title': 'Review',
+    'review.nothingDue': 'Nothing to review right now.',
+    'review.done': 'You got {correct} of {total} right. Cards you missed come back tomorrow.',
+    'review.next': 'Next',
+    'review.finish': 'Finish',
+    'review.close': 'Done',
+    'review.loadFailed': 'Could not load your review cards.',
+    'review.saveFailed': 'Could not save this review.',
+
+    'chat.newChat': 'New Chat',
+    'chat.history': 'Chat History',
+    'chat.placeholder': 'Ask about science...',
+    'chat.placeholderNamed': 'Ask me anything, {name}...',
+
+    'voice.tapToSpeak': 'Tap to Speak',
+    'voice.LISTENING': 'Listening',
+    'voice.PROCESSING': 'Thinking',
+    'voice.SPEAKING': 'Speaking',
+    'voice.youSaid': 'You said',
+    'voice.buddySaid': 'Science Buddy said'
+};
+
+export type StringKey = keyof typeof EN;
+
+const HI: Partial<Record<StringKey, string>> = {
+    'nav.dashboard': 'डैशबोर्ड',
+    'nav.feed': 'आपकी फ़ीड',
+    'nav.topics': 'अध्याय',
+    'nav.performance': 'मेरा प्रदर्शन',
+    'nav.research': 'रिसर्च लैब',
+    'nav.community': 'सामुदायिक नोट्स',
+    'nav.discussion': 'चर्चा मंच',
+    'nav.videoLab': 'AI वीडियो लैब',
+    'nav.leaderboard': 'लीडरबोर्ड',
+    'nav.chat': 'AI चैट',
+    'nav.voiceChat': 'वॉइस चैट',
+    'nav.studyPod': 'स्टडी पॉड',
+    'nav.mindMatch': 'माइंड मैच',
+    'nav.story': 'कहानी मोड',
+    'nav.flashQuiz': 'फ़्लैश क्विज़',
+    'nav.wordMine': 'शब्द खोज',
+    'nav.conceptMap': 'कॉन्सेप्ट मैप',
+    'nav.styleSwapper': 'स्टाइल स्वैपर',
+
+    'common.logout': 'लॉग आउट',
+    'common.cancel': 'रद्द करें',
+    'common.settings': 'सेटिंग्स',
+    'common.reportIssue': 'समस्या बताएँ',
+    'common.studyMode': 'स्टडी मोड',
+    'common.minimizeSidebar': 'साइडबार छोटा करें',
+
+    'settings.publicProfile': 'सार्वजनिक प्रोफ़ाइल',
+    'settings.displayName': 'दिखने वाला नाम',
+    'settings.newPassword': 'नया पासवर्ड',
+    'settings.currentPassword': 'मौजूदा पासवर्ड',
+    'settings.passwordChanged': 'पासवर्ड बदल दिया गया।',
+    'settings.aiPersona': 'AI व्यक्तित्व',
+    'settings.customInstructions': 'विशेष निर्देश',
+    'settings.language': 'भाषा',
+    'settings.layout': 'लेआउट',
+    'settings.sidebarPosition': 'साइडबार की जगह',
+    'settings.theme': 'थीम',
+    'settings.save': 'बदलाव सहेजें',
+    'settings.saved': 'सेटिंग्स सहेजी गईं!',
+    'settings.saveFailed': 'सेटिंग्स सहेजी नहीं जा सकीं।',
+    'settings.family': 'परिवार',
+    'settings.inviteParent': 'अभिभावक आमंत्रण कोड बनाएँ',
+    'settings.inviteParentHint': 'यह कोड अपने अभिभावक को दें। वे आपकी प्रगति देख सकेंगे, पर आपकी चैट या पोस्ट नहीं, जब तक आपका स्कूल अनुमति न दे।',
+    'settings.yourData': 'आपका डेटा',
+    'settings.downloadData': 'मेरा डेटा डाउनलोड करें',
+    'settings.exportFailed': 'आपका डेटा निर्यात नहीं हो सका:',
+    'settings.deleteAccount': 'मेरा खाता हटाएँ',
+    'settings.deleteAccountHint': 'आपका खाता 14 दिन बाद हटा दिया जाएगा। तब तक आप साइन इन करके इसे रद्द कर सकते हैं। उसके बाद आपकी चैट, क्विज़, प्रोजेक्ट, नोट्स और पोस्ट मिटा दिए जाएँगे और वापस नहीं आ सकेंगे। पुष्टि के लिए अपना पासवर्ड डालें।',
+    'settings.deletionScheduled': 'आपका खाता {date} को हटा दिया जाएगा। रद्द करने के लिए उससे पहले साइन इन करें।',
+
+    'dashboard.morning': 'सुप्रभात',
+    'dashboard.afternoon': 'नमस्ते',
+    'dashboard.evening': 'शुभ संध्या',
+    'dashboard.tagline': 'आज कुछ नया सीखने के लिए तैयार हो? तुम्हारी AI लैब तैयार है।',
+    'dashboard.totalChats': 'कुल चैट',
+    'dashboard.voiceLabs': 'वॉइस लैब',
+    'dashboard.jumpBackIn': 'जहाँ छोड़ा था वहीं से',
+    'dashboard.tools': 'रिसर्च और टूल्स',
+    'dashboard.reviewDue': 'आज का दोहराव',
+    'dashboard.reviewCount': 'पहले छूटे {count} प्रश्न',
+    'dashboard.reviewCaughtUp': 'सब दोहरा लिया। अगला दोहराव {date} को।',
+    'dashboard.reviewStart': 'दोहराव शुरू करें',
+
+    'topics.heading': 'कक्षा {classLevel} विज्ञान',
+    'topics.subtitle': 'अपनी क्विज़ यात्रा शुरू करने के लिए एक अध्याय चुनें।',
+    'topics.completed': 'पूरा हुआ',
+    'topics.inProgress': 'जारी है',
+    'topics.score': 'अंक: {score}',
+    'topics.review': 'अध्याय दोहराएँ',
+    'topics.resume': 'जारी रखें (प्रश्न {question})',
+    'topics.start': 'क्विज़ शुरू करें',
+    'topics.regenerate': 'नए प्रश्न बनाएँ',
+    'topics.regenerateConfirm': 'इससे इस अध्याय के लिए बिल्कुल नए प्रश्न बनेंगे और आपके अंक शून्य हो जाएँगे। क्या आप निश्चित हैं?',
+
+    'quiz.mastered': 'अध्याय में महारत!',
+    'quiz.completed': 'आपने {topic} पूरा किया',
+    'quiz.totalScore': 'कुल अंक',
+    'quiz.backToTopics': 'अध्यायों पर वापस',
+    'quiz.progress': 'प्रश्न {current} / {total}',
+    'quiz.score': 'अंक: {score}',
+    'quiz.explanation': 'व्याख्या',
+    'quiz.outcomes': 'सीखने के प्रतिफल',
+    'quiz.outcomeMastered': 'महारत हासिल',
+    'quiz.outcomePractice': 'अभ्यास जारी रखें',
+    'quiz.outcomeScore': '{answered} में से {correct} सही',
+    'quiz.level.easy': 'आसान',
+    'quiz.level.medium': 'मध्यम',
+    'quiz.level.hard': 'कठिन',
+    'review.title': 'दोहराव',
+    'review.nothingDue': 'अभी दोहराने के लिए कुछ नहीं है।',
+    'review.done': '{total} में से {correct} सही। छूटे प्रश्न कल फिर आएँगे।',
+    'review.next': 'अगला',
+    'review.finish': 'समाप्त',
+    'review.close': 'हो गया',
+    'review.loadFailed': 'दोहराव के प्रश्न लोड नहीं हो सके।',
+    'review.saveFailed': 'यह दोहराव सहेजा नहीं जा सका।',
+
+    'chat.newChat': 'नई चैट',
+    'chat.history': 'चैट इतिहास',
+    'chat.placeholder': 'विज्ञान के बारे में पूछें...',
+    'chat.placeholderNamed': '{name}, कुछ भी पूछो...',
+
+    'voice.tapToSpeak': 'बोलने के लिए टैप करें',
+    'voice.LISTENING': 'सुन रहा हूँ',
+    'voice.PROCESSING': 'सोच रहा हूँ',
+    'voice.SPEAKING': 'बोल रहा हूँ',
+    'voice.youSaid': 'आपने कहा',
+    'voice.buddySaid': 'साइंस बडी ने कहा'
+};
+
+const isLanguage = (value: unknown): value is AppLanguage => value === 'en' || value === 'hi' || value === 'bilingual';
+
+const storedLanguage = getStoredUser()?.language;
+let currentLanguage: AppLanguage = isLanguage(storedLanguage) ? storedLanguage : 'en';
+
+export const getLanguage = () => currentLanguage;
+
+/**
+ * Called by App whenever the signed-in user (or their preference) changes,
+ * before the state update so the next render already uses the new strings.
+ */
+export const setLanguage = (language: AppLanguage | null | undefined) => {
+    currentLanguage = isLanguage(language) ? language : 'en';
+    document.documentElement.lang = currentLanguage === 'en' ? 'en' : 'hi';
+};
+
+export const t = (key: StringKey, vars: Record<string, string | number> = {}) => {
+    const text = (currentLanguage !== 'en' && HI[key]) || EN[key];
+    return text.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match);
+};
+
+// --- PROMPTS & SPEECH ---
+
+/**
+ * Instruction appended to student-facing prompts; undefined for English so
+ * the prompt (and cache key) stay as they were.
+ */
+export const languageInstruction = (language: AppLanguage = currentLanguage): string | undefined => {
+    if (language === 'hi') {
+        return 'Write everything the student reads in simple Hindi (Devanagari script). The first time a science term appears, give the English term in brackets, e.g. प्रकाश संश्लेषण (photosynthesis). Keep any JSON keys in English.';
+    }
+    if (language === 'bilingual') {
+        return 'Write everything the student reads in both languages: simple English first, then the same in simple Hindi (Devanagari script). Keep science terms in English in both. Keep any JSON keys in English.';
+    }
+    return undefined;
+};
+
+// BCP 47 tags for speech recognition and synthesis.
+export const speechLocale = (language: AppLanguage = currentLanguage) =>
+    language === 'hi' ? 'hi-IN' : language === 'bilingual' ? 'en-IN' : 'en-US';
@@ -0,0 +1,22 @@
+
+// --- PDF TEXT EXTRACTION ---
+// Uses the pdf.js build loaded from the CDN in index.html (window.pdfjsLib).
+
+/**
+ * Returns the text of every page, one page per entry.
+ */
+export const extractPdfPages = async (file: File): Promise<string[]> => {
+    const pdfjsLib = (window as any).pdfjsLib;
+    if (!pdfjsLib) throw new Error("PDF Engine not ready.");
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const textContentPage = await page.getTextContent();
+        pages.push(textContentPage.items.map((item: any) => item.str).join(' '));
+    }
+    return pages;
+};
+
+export const extractPdfText = async (file: File) => (await extractPdfPages(file)).join('\n') + '\n';
@@ -12,7 +12,17 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDERS': JSON.stringify(env.AI_PROVIDERS),
+        'process.env.LOCAL_AI_BASE_URL': JSON.stringify(env.LOCAL_AI_BASE_URL),
+        'process.env.LOCAL_AI_MODELS': JSON.stringify(env.LOCAL_AI_MODELS),
+        'process.env.LOCAL_AI_API_KEY': JSON.stringify(env.LOCAL_AI_API_KEY),
+        'process.env.LOCAL_AI_JSON_MODE': JSON.stringify(env.LOCAL_AI_JSON_MODE),
+        'process.env.AI_RECORD_FIXTURES': JSON.stringify(env.AI_RECORD_FIXTURES),
+        'process.env.AI_FIXTURES_URL': JSON.stringify(env.AI_FIXTURES_URL),
+        'process.env.AI_DAILY_TOKEN_QUOTA': JSON.stringify(env.AI_DAILY_TOKEN_QUOTA),
+        'process.env.AI_GATEWAY_URL': JSON.stringify(env.AI_GATEWAY_URL),
+        'process.env.AI_GATEWAY_MODELS': JSON.stringify(env.AI_GATEWAY_MODELS)
       },
       resolve: {
         alias: {